@@ -13,9 +13,10 @@ import { useAuthStore } from './src/stores/authStore';
 import { useNotificationStore } from './src/stores/notificationStore';
 import { setupPresence, updatePresence } from './src/services/presenceService';
 import { ConnectionStatus } from './src/components/ConnectionStatus';
-import { NotificationBanner } from './src/components/NotificationBanner';
+import { NotificationBanner, NotificationData, ReminderAction } from './src/components/NotificationBanner';
 import { registerForLocalNotifications, setNotificationHandler } from './src/services/notificationService';
 import { initializeRealtimeNotifications } from './src/services/realtimeNotificationService';
+import { dismissReminder, snoozeReminder } from './src/services/reminderService';
 
 export default function App(): React.ReactElement {
   const appState = useRef(AppState.currentState);
@@ -77,9 +78,23 @@ export default function App(): React.ReactElement {
     }
   };
 
+  const handleReminderAction = (reminderId: string, action: ReminderAction) => {
+    const update = action === 'snooze' ? snoozeReminder(reminderId) : dismissReminder(reminderId);
+    update.catch((error) => {
+      console.error('Error updating reminder:', error);
+    });
+  };
+
   const handleNotificationResponse = (response: Notifications.NotificationResponse) => {
     try {
       const data = response.notification.request.content.data;
+
+      // Snooze / Dismiss buttons on deadline reminders
+      if (typeof data.reminderId === 'string' &&
+          (response.actionIdentifier === 'snooze' || response.actionIdentifier === 'dismiss')) {
+        handleReminderAction(data.reminderId, response.actionIdentifier);
+        return;
+      }
       
       // Handle navigation based on notification data
       if (data.chatId) {
@@ -98,6 +113,12 @@ export default function App(): React.ReactElement {
     }
   };
 
+  const handleBannerReminderAction = (notification: NotificationData, action: ReminderAction) => {
+    if (notification.reminderId) {
+      handleReminderAction(notification.reminderId, action);
+    }
+  };
+
   const handleAppStateChange = useCallback(async (nextAppState: AppStateStatus) => {
     // Only update if user is logged in
     if (!user) {
@@ -161,6 +182,7 @@ export default function App(): React.ReactElement {
         notification={currentNotification}
         onDismiss={dismissNotification}
         onPress={handleBannerPress}
+        onReminderAction={handleBannerReminderAction}
       />
       
       {/* Connection status indicator */}
@@ -3,9 +3,10 @@
  */
 
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import { MessageBubble } from '../../src/components/MessageBubble';
 import { Message } from '../../src/types';
+import { useTranslationStore } from '../../src/stores/translationStore';
 
 describe('MessageBubble', () => {
   const mockMessage: Message = {
@@ -98,6 +99,122 @@ describe('MessageBubble', () => {
     expect(queryByText('!')).toBeNull();
     expect(queryByText('✓')).toBeNull();
   });
-});
 
+  it('should not show edited marker for unedited messages', () => {
+    const { queryByTestId } = render(
+      <MessageBubble message={mockMessage} isSent={true} />
+    );
+
+    expect(queryByTestId('edited-marker')).toBeNull();
+  });
+
+  it('should show edited marker and open edit history when pressed', () => {
+    const editedMessage: Message = {
+      ...mockMessage,
+      text: 'Hello world!',
+      editedAt: new Date('2025-01-20T10:35:00'),
+      editHistory: [{ text: 'Hello world', editedAt: new Date('2025-01-20T10:35:00') }],
+    };
+    const onEditHistoryPress = jest.fn();
+
+    const { getByTestId } = render(
+      <MessageBubble
+        message={editedMessage}
+        isSent={true}
+        onEditHistoryPress={onEditHistoryPress}
+      />
+    );
+
+    fireEvent.press(getByTestId('edited-marker'));
+    expect(onEditHistoryPress).toHaveBeenCalledWith(editedMessage);
+  });
+
+  it('should render a tombstone for messages deleted for everyone', () => {
+    const deletedMessage: Message = {
+      ...mockMessage,
+      text: '',
+      deletedForEveryone: true,
+      deletedAt: new Date('2025-01-20T10:40:00'),
+    };
 
+    const { getByTestId, queryByText } = render(
+      <MessageBubble message={deletedMessage} isSent={false} />
+    );
+
+    expect(getByTestId('deleted-message')).toBeTruthy();
+    expect(queryByText('Hello world')).toBeNull();
+  });
+
+  it('should show reaction summary and open who-reacted sheet when pressed', () => {
+    const reactedMessage: Message = {
+      ...mockMessage,
+      reactions: { '👍': ['user1', 'user2'] },
+    };
+    const onReactionsPress = jest.fn();
+
+    const { getByTestId, getByText } = render(
+      <MessageBubble
+        message={reactedMessage}
+        isSent={true}
+        currentUserId="user1"
+        onReactionsPress={onReactionsPress}
+      />
+    );
+
+    expect(getByText('👍')).toBeTruthy();
+    expect(getByText('2')).toBeTruthy();
+
+    fireEvent.press(getByTestId('reaction-summary'));
+    expect(onReactionsPress).toHaveBeenCalledWith(reactedMessage);
+  });
+
+  it('should show quoted message and jump to it when pressed', () => {
+    const replyMessage: Message = {
+      ...mockMessage,
+      id: '2',
+      text: 'Sounds good',
+      replyTo: { messageId: '1', senderId: 'user2', senderName: 'Alice', text: 'Lunch tomorrow?' },
+    };
+    const onReplyQuotePress = jest.fn();
+
+    const { getByTestId, getByText } = render(
+      <MessageBubble
+        message={replyMessage}
+        isSent={true}
+        onReplyQuotePress={onReplyQuotePress}
+      />
+    );
+
+    expect(getByText('Lunch tomorrow?')).toBeTruthy();
+
+    fireEvent.press(getByTestId('reply-quote'));
+    expect(onReplyQuotePress).toHaveBeenCalledWith('1');
+  });
+
+  it('should flag a low-confidence translation and show the original when pressed', () => {
+    useTranslationStore.setState({
+      userLanguage: 'en',
+      translations: { '3': { en: 'Ana messed up big time' } },
+      translationQuality: { '3': { en: { confidence: 0.35, untranslatable: ['Ana'] } } },
+    });
+    const foreignMessage: Message = {
+      ...mockMessage,
+      id: '3',
+      text: 'Ana la lió parda',
+      senderId: 'user2',
+      detectedLanguage: 'es',
+    };
+
+    const { getByTestId, getByText, queryByTestId } = render(
+      <MessageBubble message={foreignMessage} isSent={false} autoTranslateEnabled={true} />
+    );
+
+    expect(getByText('Ana messed up big time')).toBeTruthy();
+
+    fireEvent.press(getByTestId('low-confidence-badge'));
+    expect(getByText('Ana la lió parda')).toBeTruthy();
+    expect(queryByTestId('low-confidence-badge')).toBeNull();
+
+    useTranslationStore.setState({ translations: {}, translationQuality: {} });
+  });
+});
@@ -90,6 +90,23 @@ describe('MessageInput', () => {
 
     expect(mockOnSend).not.toHaveBeenCalled();
   });
-});
-
 
+  it('should show reply preview and cancel it', () => {
+    const mockOnSend = jest.fn();
+    const mockOnCancelReply = jest.fn();
+    const { getByTestId, getByText } = render(
+      <MessageInput
+        onSend={mockOnSend}
+        chatId="chat1"
+        replyingTo={{ messageId: 'm1', senderId: 'user2', senderName: 'Alice', text: 'See you at 5?' }}
+        onCancelReply={mockOnCancelReply}
+      />
+    );
+
+    expect(getByTestId('reply-bar')).toBeTruthy();
+    expect(getByText('See you at 5?')).toBeTruthy();
+
+    fireEvent.press(getByTestId('cancel-reply-button'));
+    expect(mockOnCancelReply).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * SystemMessageChip Component Tests
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react-native';
+import { SystemMessageChip } from '../../src/components/SystemMessageChip';
+import { Message } from '../../src/types';
+
+describe('SystemMessageChip', () => {
+  const message: Message = {
+    id: '1',
+    type: 'system',
+    text: '',
+    senderId: 'user1',
+    timestamp: new Date('2025-01-20T10:30:00'),
+    readBy: ['user1'],
+    system: {
+      event: 'member_added',
+      actorName: 'Alice',
+      targetId: 'user2',
+      targetName: 'Bob',
+    },
+  };
+
+  it('should describe the event using the stored names', () => {
+    const { getByText } = render(<SystemMessageChip message={message} currentUserId="user3" />);
+
+    expect(getByText('Alice added Bob')).toBeTruthy();
+  });
+
+  it('should refer to the current user as "You"', () => {
+    const { getByText } = render(<SystemMessageChip message={message} currentUserId="user1" />);
+
+    expect(getByText('You added Bob')).toBeTruthy();
+  });
+
+  it('should describe completed tasks', () => {
+    const taskMessage: Message = {
+      ...message,
+      system: { event: 'task_completed', actorName: 'Alice', taskText: 'Book the venue' },
+    };
+    const { getByText } = render(<SystemMessageChip message={taskMessage} currentUserId="user3" />);
+
+    expect(getByText('Alice completed "Book the venue"')).toBeTruthy();
+  });
+
+  it('should render nothing without a system payload', () => {
+    const { queryByTestId } = render(
+      <SystemMessageChip message={{ ...message, system: undefined }} />
+    );
+
+    expect(queryByTestId('system-message')).toBeNull();
+  });
+});
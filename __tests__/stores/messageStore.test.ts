@@ -3,12 +3,15 @@
  */
 
 import { useMessageStore } from '../../src/stores/messageStore';
+import { chatService } from '../../src/services/chatService';
 import { Message } from '../../src/types';
 
 // Mock the chat service
 jest.mock('../../src/services/chatService', () => ({
   chatService: {
     subscribeToMessages: jest.fn(() => jest.fn()),
+    subscribeToMessagesSince: jest.fn(() => jest.fn()),
+    subscribeToOlderMessages: jest.fn(() => jest.fn()),
   },
 }));
 
@@ -20,6 +23,10 @@ describe('Message Store', () => {
       loading: {},
       error: {},
       unsubscribers: {},
+      pageUnsubscribers: {},
+      cursors: {},
+      hasMoreMessages: {},
+      loadingOlder: {},
     });
   });
 
@@ -76,6 +83,221 @@ describe('Message Store', () => {
       expect(state.messages[chatId][0].text).toBe('First');
       expect(state.messages[chatId][1].text).toBe('Second');
     });
+
+    it('should keep older pages when preserveOlder is set', () => {
+      const chatId = 'chat1';
+      const older: Message = {
+        id: '1',
+        text: 'Older page',
+        senderId: 'user1',
+        timestamp: new Date('2025-01-01T09:00:00'),
+        readBy: [],
+      };
+      const windowMessage: Message = {
+        id: '2',
+        text: 'Live window',
+        senderId: 'user2',
+        timestamp: new Date('2025-01-01T10:00:00'),
+        readBy: [],
+      };
+
+      useMessageStore.getState().setMessages(chatId, [older, windowMessage]);
+      useMessageStore.getState().setMessages(chatId, [windowMessage], true);
+
+      const state = useMessageStore.getState();
+      expect(state.messages[chatId].map(m => m.id)).toEqual(['1', '2']);
+    });
+
+    it('should replace older messages without preserveOlder', () => {
+      const chatId = 'chat1';
+      const older: Message = {
+        id: '1',
+        text: 'Stale cached message',
+        senderId: 'user1',
+        timestamp: new Date('2025-01-01T09:00:00'),
+        readBy: [],
+      };
+      const windowMessage: Message = {
+        id: '2',
+        text: 'Live window',
+        senderId: 'user2',
+        timestamp: new Date('2025-01-01T10:00:00'),
+        readBy: [],
+      };
+
+      useMessageStore.getState().setMessages(chatId, [older, windowMessage]);
+      useMessageStore.getState().setMessages(chatId, [windowMessage]);
+
+      const state = useMessageStore.getState();
+      expect(state.messages[chatId].map(m => m.id)).toEqual(['2']);
+    });
+  });
+
+  describe('addOlderMessages', () => {
+    it('should prepend older messages without duplicates', () => {
+      const chatId = 'chat1';
+      const latest: Message = {
+        id: '3',
+        text: 'Latest',
+        senderId: 'user1',
+        timestamp: new Date('2025-01-01T11:00:00'),
+        readBy: [],
+      };
+      const olderPage: Message[] = [
+        {
+          id: '1',
+          text: 'First',
+          senderId: 'user2',
+          timestamp: new Date('2025-01-01T09:00:00'),
+          readBy: [],
+        },
+        { ...latest },
+      ];
+
+      useMessageStore.getState().setMessages(chatId, [latest]);
+      useMessageStore.getState().addOlderMessages(chatId, olderPage);
+
+      const state = useMessageStore.getState();
+      expect(state.messages[chatId].map(m => m.id)).toEqual(['1', '3']);
+    });
+  });
+
+  describe('loadOlderMessages', () => {
+    const latest: Message = {
+      id: '3',
+      text: 'Latest',
+      senderId: 'user1',
+      timestamp: new Date('2025-01-01T11:00:00'),
+      readBy: [],
+    };
+    const older: Message = {
+      id: '1',
+      text: 'My PIN is 1234',
+      senderId: 'user2',
+      timestamp: new Date('2025-01-01T09:00:00'),
+      readBy: [],
+    };
+
+    // Load one older page and return the callback that delivers its later snapshots
+    const loadOlderPage = async (chatId: string) => {
+      const subscribeToOlderMessages = chatService.subscribeToOlderMessages as jest.Mock;
+      const unsubscribePage = jest.fn();
+      subscribeToOlderMessages.mockImplementationOnce((_chatId, _cursor, onMessagesUpdate) => {
+        onMessagesUpdate([older], { cursor: null, hasMore: false });
+        return unsubscribePage;
+      });
+
+      useMessageStore.setState({
+        unsubscribers: { [chatId]: jest.fn() },
+        cursors: { [chatId]: {} as never },
+        hasMoreMessages: { [chatId]: true },
+      });
+      useMessageStore.getState().setMessages(chatId, [latest]);
+      await useMessageStore.getState().loadOlderMessages(chatId);
+
+      const onMessagesUpdate = subscribeToOlderMessages.mock.calls[0][2];
+      return { onMessagesUpdate, unsubscribePage };
+    };
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should apply later deletions and edits to a loaded page', async () => {
+      const chatId = 'chat1';
+      const { onMessagesUpdate } = await loadOlderPage(chatId);
+
+      expect(useMessageStore.getState().messages[chatId].map(m => m.id)).toEqual(['1', '3']);
+
+      onMessagesUpdate([{ ...older, text: '', deletedForEveryone: true }], { cursor: null, hasMore: false });
+
+      // The live window moving on must not bring the deleted text back
+      useMessageStore.getState().setMessages(chatId, [latest], true);
+
+      const [deleted] = useMessageStore.getState().messages[chatId];
+      expect(deleted.deletedForEveryone).toBe(true);
+      expect(deleted.text).toBe('');
+    });
+
+    it('should stop listening to loaded pages on unsubscribe', async () => {
+      const chatId = 'chat1';
+      const { unsubscribePage } = await loadOlderPage(chatId);
+
+      useMessageStore.getState().unsubscribeFromMessages(chatId);
+
+      expect(unsubscribePage).toHaveBeenCalled();
+      expect(useMessageStore.getState().pageUnsubscribers[chatId]).toBeUndefined();
+    });
+
+    it('should drop a page that arrives after leaving the chat', async () => {
+      const chatId = 'chat1';
+      const unsubscribePage = jest.fn();
+      let deliverPage: (messages: Message[], page: { cursor: null; hasMore: boolean }) => void = () => {};
+      (chatService.subscribeToOlderMessages as jest.Mock).mockImplementationOnce(
+        (_chatId, _cursor, onMessagesUpdate) => {
+          deliverPage = onMessagesUpdate;
+          return unsubscribePage;
+        }
+      );
+
+      useMessageStore.setState({
+        unsubscribers: { [chatId]: jest.fn() },
+        cursors: { [chatId]: {} as never },
+        hasMoreMessages: { [chatId]: true },
+      });
+      useMessageStore.getState().setMessages(chatId, [latest]);
+      const loading = useMessageStore.getState().loadOlderMessages(chatId);
+
+      useMessageStore.getState().unsubscribeFromMessages(chatId);
+      deliverPage([older], { cursor: null, hasMore: false });
+      await loading;
+
+      expect(unsubscribePage).toHaveBeenCalled();
+      expect(useMessageStore.getState().messages[chatId].map(m => m.id)).toEqual(['3']);
+    });
+  });
+
+  describe('subscribeToMessages', () => {
+    const message = (id: number, text = `Message ${id}`): Message => ({
+      id: `${id}`,
+      text,
+      senderId: 'user1',
+      timestamp: new Date(Date.UTC(2025, 0, 1, 10, id)),
+      readBy: [],
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should keep listening to messages after newer ones push them out of the latest page', () => {
+      const chatId = 'chat1';
+      const unsubscribeLatest = jest.fn();
+      const unsubscribeSince = jest.fn();
+      (chatService.subscribeToMessages as jest.Mock).mockReturnValueOnce(unsubscribeLatest);
+      (chatService.subscribeToMessagesSince as jest.Mock).mockReturnValueOnce(unsubscribeSince);
+      const cursor = {} as never;
+
+      useMessageStore.getState().subscribeToMessages(chatId);
+      const onLatestPage = (chatService.subscribeToMessages as jest.Mock).mock.calls[0][1];
+      onLatestPage([message(0), message(1)], { cursor, hasMore: true });
+
+      // The latest page is swapped for a window that starts at its oldest message
+      expect(unsubscribeLatest).toHaveBeenCalled();
+      const [, anchor, onWindow] = (chatService.subscribeToMessagesSince as jest.Mock).mock.calls[0];
+      expect(anchor).toBe(cursor);
+
+      // 50 new messages later the first ones are still in the window, so their edits arrive
+      const newer = Array.from({ length: 50 }, (_, i) => message(i + 2));
+      onWindow([message(0, ''), message(1), ...newer]);
+
+      const state = useMessageStore.getState();
+      expect(state.messages[chatId]).toHaveLength(52);
+      expect(state.messages[chatId][0].text).toBe('');
+
+      state.unsubscribeFromMessages(chatId);
+      expect(unsubscribeSince).toHaveBeenCalled();
+    });
   });
 
   describe('addMessage', () => {
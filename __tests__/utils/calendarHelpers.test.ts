@@ -0,0 +1,95 @@
+/**
+ * Calendar Helper Tests
+ */
+
+import {
+  buildICalendar,
+  buildMessageLink,
+  escapeICalText,
+  foldICalLine,
+  importantDateToEvent,
+  isExportableDate,
+} from '../../src/utils/calendarHelpers';
+
+describe('Calendar Helpers', () => {
+  const now = new Date(Date.UTC(2025, 0, 15, 10, 0, 0));
+
+  describe('escapeICalText', () => {
+    it('should escape separators and newlines', () => {
+      expect(escapeICalText('Plan; budget, review\nnext\\week')).toBe('Plan\\; budget\\, review\\nnext\\\\week');
+    });
+  });
+
+  describe('foldICalLine', () => {
+    it('should fold long lines with a leading space', () => {
+      const folded = foldICalLine(`DESCRIPTION:${'a'.repeat(100)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines[0]).toHaveLength(75);
+      expect(lines[1].startsWith(' ')).toBe(true);
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'a'.repeat(100)}`);
+    });
+
+    it('should leave short lines alone', () => {
+      expect(foldICalLine('SUMMARY:Lunch')).toBe('SUMMARY:Lunch');
+    });
+  });
+
+  describe('buildICalendar', () => {
+    it('should write all-day events with an exclusive end date', () => {
+      const ics = buildICalendar([
+        { uid: 'e1', title: 'Project kickoff', start: '2025-01-31', allDay: true },
+      ], now);
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20250131\r\n');
+      expect(ics).toContain('DTEND;VALUE=DATE:20250201\r\n');
+      expect(ics).toContain('DTSTAMP:20250115T100000Z\r\n');
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should write timed events in UTC with a default length', () => {
+      const ics = buildICalendar([
+        {
+          uid: 'e2',
+          title: 'Call, then notes',
+          description: 'Bring slides',
+          url: 'messageai://chat/c1?messageId=m1',
+          start: '2025-01-16T20:00:00.000Z',
+          allDay: false,
+        },
+      ], now);
+
+      expect(ics).toContain('DTSTART:20250116T200000Z\r\n');
+      expect(ics).toContain('DTEND:20250116T210000Z\r\n');
+      expect(ics).toContain('SUMMARY:Call\\, then notes\r\n');
+      expect(ics).toContain('DESCRIPTION:Bring slides\r\n');
+      expect(ics).toContain('URL:messageai://chat/c1?messageId=m1\r\n');
+    });
+  });
+
+  describe('importantDateToEvent', () => {
+    it('should link the event to its source message', () => {
+      const date = {
+        date: 'next Friday',
+        description: 'Contract review',
+        isDeadline: true,
+        messageId: 'm1',
+        resolvedStart: '2025-01-24',
+        allDay: true,
+      };
+
+      expect(isExportableDate(date)).toBe(true);
+      expect(importantDateToEvent(date, 'chat1', 'Deadline')).toMatchObject({
+        title: 'Deadline: Contract review',
+        url: buildMessageLink('chat1', 'm1'),
+        start: '2025-01-24',
+        allDay: true,
+      });
+    });
+
+    it('should skip dates that could not be resolved', () => {
+      expect(isExportableDate({ date: 'someday', description: 'Trip' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Glossary Helper Tests
+ */
+
+import {
+  isCompleteGlossaryEntry,
+  removeGlossaryEntry,
+  upsertGlossaryEntry,
+} from '../../src/utils/glossaryHelpers';
+import { GlossaryEntry } from '../../src/types/translation';
+
+describe('Glossary Helpers', () => {
+  const entries: GlossaryEntry[] = [
+    { term: 'Gauntlet', doNotTranslate: true, translations: {} },
+    { term: 'standup', doNotTranslate: false, translations: { es: 'reunión diaria' } },
+  ];
+
+  describe('upsertGlossaryEntry', () => {
+    it('should add new terms in alphabetical order', () => {
+      const result = upsertGlossaryEntry(entries, {
+        term: ' backlog ',
+        doNotTranslate: false,
+        translations: { fr: 'carnet', es: ' ' },
+      });
+
+      expect(result.map(e => e.term)).toEqual(['backlog', 'Gauntlet', 'standup']);
+      expect(result[0].translations).toEqual({ fr: 'carnet' });
+    });
+
+    it('should replace an existing term regardless of case', () => {
+      const result = upsertGlossaryEntry(entries, {
+        term: 'Standup',
+        doNotTranslate: true,
+        translations: { es: 'reunión diaria' },
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result[1]).toEqual({ term: 'Standup', doNotTranslate: true, translations: {} });
+    });
+
+    it('should replace the edited entry when its term is renamed', () => {
+      const result = upsertGlossaryEntry(
+        entries,
+        { term: 'daily standup', doNotTranslate: false, translations: { es: 'reunión diaria' } },
+        'standup'
+      );
+
+      expect(result.map(e => e.term)).toEqual(['daily standup', 'Gauntlet']);
+    });
+  });
+
+  describe('removeGlossaryEntry', () => {
+    it('should remove the term regardless of case', () => {
+      expect(removeGlossaryEntry(entries, 'GAUNTLET').map(e => e.term)).toEqual(['standup']);
+    });
+  });
+
+  describe('isCompleteGlossaryEntry', () => {
+    it('should require a translation unless the term is kept as-is', () => {
+      expect(isCompleteGlossaryEntry({ term: 'sprint', doNotTranslate: false, translations: { es: '' } })).toBe(false);
+      expect(isCompleteGlossaryEntry({ term: 'sprint', doNotTranslate: true, translations: {} })).toBe(true);
+      expect(isCompleteGlossaryEntry({ term: ' ', doNotTranslate: true, translations: {} })).toBe(false);
+    });
+  });
+});
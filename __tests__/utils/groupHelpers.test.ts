@@ -0,0 +1,74 @@
+/**
+ * Group Helper Tests
+ */
+
+import {
+  getGroupRole,
+  getGroupRoles,
+  canManageMembers,
+  pickNextOwner,
+} from '../../src/utils/groupHelpers';
+
+describe('Group Helpers', () => {
+  const group = {
+    participants: ['owner1', 'admin1', 'member1', 'member2'],
+    ownerId: 'owner1',
+    roles: {
+      owner1: 'owner' as const,
+      admin1: 'admin' as const,
+    },
+  };
+
+  describe('getGroupRole', () => {
+    it('should return the stored role, defaulting to member', () => {
+      expect(getGroupRole(group, 'owner1')).toBe('owner');
+      expect(getGroupRole(group, 'admin1')).toBe('admin');
+      expect(getGroupRole(group, 'member1')).toBe('member');
+    });
+
+    it('should treat everyone as an admin in groups created before roles', () => {
+      const legacyGroup = { participants: ['user1', 'user2'] };
+
+      expect(getGroupRole(legacyGroup, 'user2')).toBe('admin');
+    });
+  });
+
+  describe('getGroupRoles', () => {
+    it('should include every participant', () => {
+      expect(getGroupRoles(group)).toEqual({
+        owner1: 'owner',
+        admin1: 'admin',
+        member1: 'member',
+        member2: 'member',
+      });
+    });
+  });
+
+  describe('canManageMembers', () => {
+    it('should only allow the owner and admins', () => {
+      expect(canManageMembers(group, 'owner1')).toBe(true);
+      expect(canManageMembers(group, 'admin1')).toBe(true);
+      expect(canManageMembers(group, 'member1')).toBe(false);
+    });
+
+    it('should not allow users outside the group', () => {
+      expect(canManageMembers({ participants: ['user1'] }, 'user2')).toBe(false);
+    });
+  });
+
+  describe('pickNextOwner', () => {
+    it('should prefer an admin', () => {
+      expect(pickNextOwner(group, 'owner1')).toBe('admin1');
+    });
+
+    it('should fall back to the next member', () => {
+      const noAdmins = { ...group, participants: ['owner1', 'member1', 'member2'] };
+
+      expect(pickNextOwner(noAdmins, 'owner1')).toBe('member1');
+    });
+
+    it('should return null when nobody else is left', () => {
+      expect(pickNextOwner({ ...group, participants: ['owner1'] }, 'owner1')).toBeNull();
+    });
+  });
+});
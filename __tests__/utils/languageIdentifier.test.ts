@@ -0,0 +1,55 @@
+/**
+ * Language Identifier Tests
+ */
+
+import {
+  identifyLanguage,
+  isIdentifiableLanguage,
+  UNDETERMINED_LANGUAGE,
+} from '../../src/utils/languageIdentifier';
+
+describe('Language Identifier', () => {
+  describe('identifyLanguage', () => {
+    it.each([
+      ['en', 'Can we move the call to Friday?'],
+      ['es', '¿Podemos mover la llamada al viernes?'],
+      ['fr', "On peut déplacer l'appel à vendredi ?"],
+      ['de', 'Können wir den Anruf auf Freitag verschieben?'],
+      ['it', 'Possiamo spostare la chiamata a venerdì?'],
+      ['pt', 'Onde você colocou as chaves?'],
+    ])('identifies %s from its character n-grams', (languageCode, text) => {
+      const result = identifyLanguage(text);
+
+      expect(result.languageCode).toBe(languageCode);
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    it.each([
+      ['ru', 'Увидимся завтра'],
+      ['ar', 'أراك غدا'],
+      ['hi', 'कल मिलते हैं'],
+      ['ko', '내일 봐요'],
+      ['ja', '明日また会いましょう'],
+      ['zh', '明天见'],
+    ])('identifies %s from its script', (languageCode, text) => {
+      expect(identifyLanguage(text)).toEqual({ languageCode, confidence: 1 });
+    });
+
+    it('returns undetermined for text without letters', () => {
+      expect(identifyLanguage('👍👍 123')).toEqual({ languageCode: UNDETERMINED_LANGUAGE, confidence: 0 });
+      expect(identifyLanguage('')).toEqual({ languageCode: UNDETERMINED_LANGUAGE, confidence: 0 });
+    });
+
+    it('is not confident about unsupported languages', () => {
+      expect(identifyLanguage('Kunnen we het gesprek naar vrijdag verplaatsen?').confidence).toBeLessThan(0.7);
+    });
+  });
+
+  describe('isIdentifiableLanguage', () => {
+    it('covers the common languages only', () => {
+      expect(isIdentifiableLanguage('pt')).toBe(true);
+      expect(isIdentifiableLanguage('zh')).toBe(true);
+      expect(isIdentifiableLanguage('nl')).toBe(false);
+    });
+  });
+});
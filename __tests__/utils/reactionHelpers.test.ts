@@ -0,0 +1,64 @@
+/**
+ * Reaction Helper Tests
+ */
+
+import { getReactionSummary, hasReacted, formatReactionList } from '../../src/utils/reactionHelpers';
+import { Message } from '../../src/types';
+
+describe('Reaction Helpers', () => {
+  const message: Message = {
+    id: '1',
+    text: 'Hello world',
+    senderId: 'user1',
+    timestamp: new Date('2025-01-20T10:30:00'),
+    readBy: ['user1'],
+    reactions: {
+      '❤️': ['user2'],
+      '👍': ['user1', 'user2', 'user3'],
+      '😂': [],
+    },
+  };
+
+  describe('getReactionSummary', () => {
+    it('should sort reactions by count and skip empty ones', () => {
+      const summary = getReactionSummary(message, 'user1');
+
+      expect(summary.map(r => r.emoji)).toEqual(['👍', '❤️']);
+      expect(summary[0].count).toBe(3);
+    });
+
+    it('should flag reactions from the current user', () => {
+      const summary = getReactionSummary(message, 'user1');
+
+      expect(summary.find(r => r.emoji === '👍')?.reactedByMe).toBe(true);
+      expect(summary.find(r => r.emoji === '❤️')?.reactedByMe).toBe(false);
+    });
+
+    it('should return an empty list for messages without reactions', () => {
+      expect(getReactionSummary({ ...message, reactions: undefined })).toEqual([]);
+    });
+  });
+
+  describe('hasReacted', () => {
+    it('should check a single emoji for a user', () => {
+      expect(hasReacted(message, '❤️', 'user2')).toBe(true);
+      expect(hasReacted(message, '❤️', 'user1')).toBe(false);
+      expect(hasReacted(message, '🙏', 'user1')).toBe(false);
+    });
+  });
+
+  describe('formatReactionList', () => {
+    it('should group users by emoji and label the current user', () => {
+      const groups = formatReactionList(
+        message,
+        { user2: 'Alice', user3: 'Bob' },
+        'user1',
+        'You'
+      );
+
+      expect(groups[0].emoji).toBe('👍');
+      expect(groups[0].users.map(u => u.displayName)).toEqual(['You', 'Alice', 'Bob']);
+      expect(groups[1].users.map(u => u.displayName)).toEqual(['Alice']);
+    });
+  });
+});
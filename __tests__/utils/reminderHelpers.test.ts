@@ -0,0 +1,46 @@
+/**
+ * Reminder Helper Tests
+ */
+
+import { getDefaultReminderTime, getSnoozeTime, SNOOZE_MS } from '../../src/utils/reminderHelpers';
+
+describe('Reminder Helpers', () => {
+  const now = new Date(2025, 0, 15, 10, 0, 0); // Local time
+
+  describe('getDefaultReminderTime', () => {
+    it('should remind an hour before timed deadlines', () => {
+      const dueAt = new Date(2025, 0, 16, 17, 0, 0);
+      const remindAt = getDefaultReminderTime(
+        { dueAt, dueStart: dueAt.toISOString(), allDay: false },
+        now
+      );
+
+      expect(remindAt).toEqual(new Date(2025, 0, 16, 16, 0, 0));
+    });
+
+    it('should remind on the morning of all-day deadlines', () => {
+      const remindAt = getDefaultReminderTime(
+        { dueAt: new Date(2025, 0, 17, 23, 59, 59), dueStart: '2025-01-17', allDay: true },
+        now
+      );
+
+      expect(remindAt).toEqual(new Date(2025, 0, 17, 9, 0, 0));
+    });
+
+    it('should not schedule reminders in the past', () => {
+      const dueAt = new Date(2025, 0, 15, 10, 30, 0);
+      const remindAt = getDefaultReminderTime(
+        { dueAt, dueStart: dueAt.toISOString(), allDay: false },
+        now
+      );
+
+      expect(remindAt).toEqual(new Date(2025, 0, 15, 10, 5, 0));
+    });
+  });
+
+  describe('getSnoozeTime', () => {
+    it('should push the reminder back by the snooze period', () => {
+      expect(getSnoozeTime(now).getTime() - now.getTime()).toBe(SNOOZE_MS);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Search Helper Tests
+ */
+
+import { tokenizeQuery, findKeywordMatches, mergeSearchResults } from '../../src/utils/searchHelpers';
+import { Message, MessageSearchResult } from '../../src/types';
+
+describe('Search Helpers', () => {
+  const messages: Message[] = [
+    {
+      id: '1',
+      text: 'Lunch at noon tomorrow?',
+      senderId: 'user1',
+      timestamp: new Date('2025-01-20T10:30:00'),
+      readBy: ['user1'],
+    },
+    {
+      id: '2',
+      text: 'Lunch sounds great',
+      senderId: 'user2',
+      timestamp: new Date('2025-01-20T10:35:00'),
+      readBy: ['user2'],
+    },
+    {
+      id: '3',
+      text: '',
+      senderId: 'user1',
+      timestamp: new Date('2025-01-20T10:40:00'),
+      readBy: ['user1'],
+      deletedForEveryone: true,
+    },
+    {
+      id: '4',
+      text: 'Lunch plans are private',
+      senderId: 'user2',
+      timestamp: new Date('2025-01-20T10:45:00'),
+      readBy: ['user2'],
+      deletedFor: ['user1'],
+    },
+  ];
+
+  describe('tokenizeQuery', () => {
+    it('should lowercase and split on whitespace', () => {
+      expect(tokenizeQuery('  Lunch   NOON ')).toEqual(['lunch', 'noon']);
+    });
+  });
+
+  describe('findKeywordMatches', () => {
+    it('should match every term case-insensitively, newest first', () => {
+      const results = findKeywordMatches('chat1', messages, 'LUNCH');
+
+      expect(results.map(r => r.messageId)).toEqual(['4', '2', '1']);
+      expect(results[0].chatId).toBe('chat1');
+      expect(results[0].source).toBe('keyword');
+    });
+
+    it('should require all terms to match', () => {
+      const results = findKeywordMatches('chat1', messages, 'lunch noon');
+
+      expect(results.map(r => r.messageId)).toEqual(['1']);
+    });
+
+    it('should skip messages the user deleted for themselves', () => {
+      const results = findKeywordMatches('chat1', messages, 'lunch', 'user1');
+
+      expect(results.map(r => r.messageId)).toEqual(['2', '1']);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(findKeywordMatches('chat1', messages, '   ')).toEqual([]);
+    });
+  });
+
+  describe('mergeSearchResults', () => {
+    const result = (messageId: string, source: 'keyword' | 'semantic'): MessageSearchResult => ({
+      chatId: 'chat1',
+      messageId,
+      text: 'text',
+      senderId: 'user1',
+      timestamp: new Date('2025-01-20T10:30:00'),
+      source,
+    });
+
+    it('should put keyword matches first and drop duplicate semantic matches', () => {
+      const merged = mergeSearchResults(
+        [result('1', 'keyword')],
+        [result('1', 'semantic'), result('2', 'semantic')]
+      );
+
+      expect(merged.map(r => `${r.messageId}:${r.source}`)).toEqual(['1:keyword', '2:semantic']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Translation Context Helper Tests
+ */
+
+import { getTranslationContext } from '../../src/utils/translationContextHelpers';
+import { Message } from '../../src/types';
+
+describe('Translation Context Helpers', () => {
+  const message = (id: string, senderId: string, text: string, extra: Partial<Message> = {}): Message => ({
+    id,
+    text,
+    senderId,
+    timestamp: new Date('2025-01-20T10:30:00'),
+    readBy: [senderId],
+    ...extra,
+  });
+
+  const senderNames = { ana: 'Ana', bob: 'Bob' };
+
+  const messages: Message[] = [
+    message('1', 'ana', 'Did you see the two apartments?'),
+    message('2', 'bob', 'The one near the park is cheaper'),
+    message('3', 'ana', '', { type: 'image', imageUrl: 'https://example.com/photo.jpg' }),
+    message('4', 'ana', 'Sorry, wrong chat', { deletedForEveryone: true }),
+    message('5', 'ana', 'Bob added Chloé', {
+      type: 'system',
+      system: { event: 'member_added', actorName: 'Bob' },
+    }),
+    message('6', 'ana', 'Should we take it?'),
+    message('7', 'bob', 'yes, that one'),
+  ];
+
+  describe('getTranslationContext', () => {
+    it('should return the preceding text messages, oldest first', () => {
+      expect(getTranslationContext(messages, '7', senderNames)).toEqual([
+        { senderName: 'Ana', text: 'Did you see the two apartments?' },
+        { senderName: 'Bob', text: 'The one near the park is cheaper' },
+        { senderName: 'Ana', text: 'Should we take it?' },
+      ]);
+    });
+
+    it('should respect the limit', () => {
+      expect(getTranslationContext(messages, '7', senderNames, 1)).toEqual([
+        { senderName: 'Ana', text: 'Should we take it?' },
+      ]);
+    });
+
+    it('should return nothing for the first or an unknown message', () => {
+      expect(getTranslationContext(messages, '1', senderNames)).toEqual([]);
+      expect(getTranslationContext(messages, 'missing', senderNames)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Action Item Service
+ *
+ * Saves action items found by the assistant's extract_action_items tool to
+ * chats/{chatId}/actionItems so they can be tracked from the Tasks screen.
+ * Items are keyed by their normalized text, so extracting the same item
+ * again doesn't create a duplicate or reset its done state.
+ */
+
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+
+export type ActionItemPriority = 'high' | 'medium' | 'low';
+
+export interface ExtractedActionItem {
+  item: string;
+  priority?: ActionItemPriority;
+  assignee?: string; // Name as written in the conversation
+}
+
+export interface SavedActionItem extends ExtractedActionItem {
+  id: string;
+  assigneeId: string | null;
+}
+
+const PRIORITIES: ActionItemPriority[] = ['high', 'medium', 'low'];
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Stable document ID for an item's text
+ */
+export function actionItemId(text: string): string {
+  return createHash('sha1').update(normalizeText(text)).digest('hex').slice(0, 20);
+}
+
+/**
+ * Find the participant a name refers to (case-insensitive, partial names match)
+ * @param name - Name from the conversation, e.g. "maria" for "Maria López"
+ * @param participantNames - uid -> display name
+ * @returns The participant's uid, or null if none or several match
+ */
+export function matchParticipant(
+  name: string | undefined,
+  participantNames: Record<string, string>
+): string | null {
+  const wanted = name ? normalizeText(name) : '';
+  if (!wanted) return null;
+
+  const entries = Object.entries(participantNames);
+  const exact = entries.filter(([, displayName]) => normalizeText(displayName) === wanted);
+  if (exact.length === 1) return exact[0][0];
+
+  const partial = entries.filter(([, displayName]) => normalizeText(displayName).includes(wanted));
+  return partial.length === 1 ? partial[0][0] : null;
+}
+
+/**
+ * Display names of a chat's participants
+ */
+export async function getParticipantNames(
+  chatId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<Record<string, string>> {
+  const chatDoc = await db.collection('chats').doc(chatId).get();
+  const participants: string[] = chatDoc.data()?.participants || [];
+  if (participants.length === 0) return {};
+
+  const userDocs = await db.getAll(...participants.map((uid) => db.collection('users').doc(uid)));
+  return Object.fromEntries(
+    userDocs.map((userDoc) => [userDoc.id, userDoc.data()?.displayName || 'Unknown'])
+  );
+}
+
+/**
+ * Save extracted action items, skipping ones the chat already has
+ * @param params.chatId - Chat the items came from
+ * @param params.items - Items returned by the LLM
+ * @param params.createdBy - uid of the user whose query extracted them
+ * @param params.sourceMessageIds - Messages the items were extracted from
+ * @returns The items with their document IDs and matched assignees
+ */
+export async function saveActionItems(params: {
+  chatId: string;
+  items: ExtractedActionItem[];
+  createdBy: string;
+  sourceMessageIds: string[];
+  db?: admin.firestore.Firestore;
+}): Promise<SavedActionItem[]> {
+  const { chatId, items, createdBy, sourceMessageIds, db = admin.firestore() } = params;
+
+  const validItems = items.filter((item) => typeof item?.item === 'string' && item.item.trim());
+  if (validItems.length === 0) return [];
+
+  const participantNames = await getParticipantNames(chatId, db);
+  const itemsRef = db.collection('chats').doc(chatId).collection('actionItems');
+
+  // The same item can appear twice in one extraction
+  const byId = new Map<string, SavedActionItem>();
+  for (const item of validItems) {
+    const id = actionItemId(item.item);
+    if (byId.has(id)) continue;
+
+    const assigneeId = matchParticipant(item.assignee, participantNames);
+    byId.set(id, {
+      id,
+      item: item.item.trim(),
+      priority: PRIORITIES.includes(item.priority as ActionItemPriority) ? item.priority : undefined,
+      assignee: assigneeId ? participantNames[assigneeId] : item.assignee,
+      assigneeId,
+    });
+  }
+
+  const refs = [...byId.keys()].map((id) => itemsRef.doc(id));
+  const existing = await db.getAll(...refs);
+
+  const batch = db.batch();
+  let created = 0;
+  existing.forEach((itemDoc) => {
+    if (itemDoc.exists) return;
+
+    const item = byId.get(itemDoc.id)!;
+    batch.set(itemDoc.ref, {
+      text: item.item,
+      priority: item.priority || null,
+      assigneeId: item.assigneeId,
+      assigneeName: item.assigneeId ? item.assignee : null,
+      done: false,
+      doneBy: null,
+      doneAt: null,
+      createdBy,
+      sourceMessageIds,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    created++;
+  });
+
+  if (created > 0) {
+    await batch.commit();
+    console.log(`📋 Saved ${created} action item(s) for chat ${chatId}`);
+  }
+
+  return [...byId.values()];
+}
@@ -0,0 +1,209 @@
+/**
+ * Assistant Sessions
+ *
+ * Each intelligentChatAssistant query is stored in
+ * chats/{chatId}/assistantSessions/{sessionId}: progress (tool steps and the answer
+ * as it's generated) while it runs, then the structured result. Sessions sharing a
+ * threadId form one conversation, so follow-up questions see the earlier turns.
+ * Only the user who asked can read them.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { ChatMessage } from './llmProvider';
+
+export type AssistantSessionStatus = 'running' | 'completed' | 'failed';
+
+export interface AssistantProgressStep {
+  tool: string; // Assistant tool name (e.g. search_conversation_semantically)
+  at: number; // ms since epoch
+}
+
+// Partial text is flushed at most this often to keep Firestore writes down
+const TEXT_FLUSH_INTERVAL_MS = 300;
+
+// Client-generated Firestore auto IDs
+const SESSION_ID_PATTERN = /^[A-Za-z0-9]{1,40}$/;
+
+// Earlier turns of a thread sent back to the model
+const MAX_HISTORY_TURNS = 5;
+
+function sessionsCollection(db: admin.firestore.Firestore, chatId: string) {
+  return db.collection('chats').doc(chatId).collection('assistantSessions');
+}
+
+function parseSessionId(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !SESSION_ID_PATTERN.test(value)) {
+    throw new functions.https.HttpsError('invalid-argument', `Invalid ${label}`);
+  }
+  return value;
+}
+
+/**
+ * Writes progress for one assistant run
+ * Progress is best-effort: write failures are logged and never fail the query
+ */
+export class AssistantSessionWriter {
+  private partialText = '';
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private readonly ref: admin.firestore.DocumentReference,
+    readonly threadId: string
+  ) {}
+
+  get sessionId(): string {
+    return this.ref.id;
+  }
+
+  /**
+   * Create the session doc
+   * @param params.sessionId - Client-generated ID so progress can be followed (generated if omitted)
+   * @param params.threadId - Conversation to continue (a new thread starts with this session if omitted)
+   * @throws already-exists if the session ID was used before
+   */
+  static async start(params: {
+    chatId: string;
+    sessionId?: unknown;
+    threadId?: unknown;
+    userId: string;
+    query: string;
+    db?: admin.firestore.Firestore;
+  }): Promise<AssistantSessionWriter> {
+    const { chatId, userId, query, db = admin.firestore() } = params;
+
+    const sessions = sessionsCollection(db, chatId);
+    const ref = params.sessionId === undefined
+      ? sessions.doc()
+      : sessions.doc(parseSessionId(params.sessionId, 'session ID'));
+    const threadId = params.threadId === undefined
+      ? ref.id
+      : parseSessionId(params.threadId, 'thread ID');
+
+    try {
+      await ref.create({
+        userId,
+        threadId,
+        query,
+        status: 'running' as AssistantSessionStatus,
+        steps: [],
+        partialText: '',
+        result: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error: any) {
+      // gRPC ALREADY_EXISTS
+      if (error?.code === 6) {
+        throw new functions.https.HttpsError('already-exists', 'Session already exists');
+      }
+      throw error;
+    }
+
+    return new AssistantSessionWriter(ref, threadId);
+  }
+
+  /**
+   * Record that a tool started running
+   */
+  toolStarted(tool: string): Promise<void> {
+    const step: AssistantProgressStep = { tool, at: Date.now() };
+    return this.write({ steps: admin.firestore.FieldValue.arrayUnion(step) });
+  }
+
+  /**
+   * Append generated answer text; flushed on a timer
+   * Structured (JSON) answers aren't readable while partial, so they're only stored once complete
+   */
+  appendText(delta: string): void {
+    this.partialText += delta;
+
+    if (!this.flushTimer && !this.partialText.trimStart().startsWith('{')) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.write({ partialText: this.partialText });
+      }, TEXT_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Drop streamed text (the model's next turn starts a new answer)
+   */
+  resetText(): void {
+    if (!this.partialText) return;
+    this.partialText = '';
+    this.write({ partialText: '' });
+  }
+
+  /**
+   * Store the structured result returned to the client
+   */
+  complete(result: { response: unknown; metadata: unknown }): Promise<void> {
+    // Round-trip through JSON: Firestore rejects undefined fields
+    return this.finish('completed', { result: JSON.parse(JSON.stringify(result)) });
+  }
+
+  fail(): Promise<void> {
+    return this.finish('failed');
+  }
+
+  private async finish(
+    status: AssistantSessionStatus,
+    data: admin.firestore.UpdateData<admin.firestore.DocumentData> = {}
+  ): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const partialText = this.partialText.trimStart().startsWith('{') ? '' : this.partialText;
+    await this.write({ ...data, status, partialText });
+  }
+
+  /**
+   * Writes are chained so they land in order
+   */
+  private write(data: admin.firestore.UpdateData<admin.firestore.DocumentData>): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.ref.update({ ...data, updatedAt: admin.firestore.FieldValue.serverTimestamp() }))
+      .catch((error) => console.error('Error updating assistant session:', error));
+    return this.pendingWrite.then(() => undefined);
+  }
+}
+
+/**
+ * Earlier completed turns of a thread as chat messages (oldest first)
+ * @param chatId - Chat the thread belongs to
+ * @param userId - Owner of the thread; other users' sessions are never loaded
+ * @param threadId - Thread to load
+ * @param excludeSessionId - The session being answered
+ * @param db - Firestore instance (defaults to the admin app's)
+ */
+export async function loadThreadHistory(
+  chatId: string,
+  userId: string,
+  threadId: string,
+  excludeSessionId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<ChatMessage[]> {
+  // Equality filters only, so no composite index is needed; threads are short
+  const snapshot = await sessionsCollection(db, chatId)
+    .where('userId', '==', userId)
+    .where('threadId', '==', threadId)
+    .get();
+
+  const turns = snapshot.docs
+    .filter((sessionDoc) => sessionDoc.id !== excludeSessionId)
+    .map((sessionDoc) => sessionDoc.data())
+    .filter((session) => session.status === 'completed' && session.result)
+    .sort((a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0))
+    .slice(-MAX_HISTORY_TURNS);
+
+  return turns.flatMap((session): ChatMessage[] => {
+    const response = session.result.response || {};
+    return [
+      { role: 'user', content: session.query },
+      { role: 'assistant', content: response.summary || JSON.stringify(response) },
+    ];
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Authorization helpers for callable functions
+ * Verifies the caller belongs to a chat before any of its data is read,
+ * or holds the admin claim for maintenance jobs
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+/**
+ * Thrown when the caller is not a participant of the requested chat
+ * Missing chats are reported the same way so chat IDs can't be probed
+ */
+export class ChatAccessDeniedError extends functions.https.HttpsError {
+  constructor(chatId: string) {
+    super('permission-denied', 'You are not a member of this chat', {
+      reason: 'chat-access-denied',
+      chatId,
+    });
+  }
+}
+
+/**
+ * Check whether a user is listed in chats/{chatId}.participants
+ * @param chatId - Chat to check
+ * @param userId - User to look for
+ * @param db - Firestore instance (defaults to the admin app's)
+ */
+export async function isChatParticipant(
+  chatId: string,
+  userId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<boolean> {
+  const chatDoc = await db.collection('chats').doc(chatId).get();
+  if (!chatDoc.exists) return false;
+
+  const participants: unknown = chatDoc.data()?.participants;
+  return Array.isArray(participants) && participants.includes(userId);
+}
+
+/**
+ * Ensure the authenticated caller participates in the chat
+ * @param context - Callable context
+ * @param chatId - Chat the request targets
+ * @param db - Firestore instance (defaults to the admin app's)
+ * @returns The caller's uid
+ */
+export async function assertChatParticipant(
+  context: functions.https.CallableContext,
+  chatId: unknown,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<string> {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Must be logged in');
+  }
+
+  if (typeof chatId !== 'string' || !chatId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Chat ID is required');
+  }
+
+  const userId = context.auth.uid;
+  if (!(await isChatParticipant(chatId, userId, db))) {
+    console.warn(`🚫 User ${userId} denied access to chat ${chatId}`);
+    throw new ChatAccessDeniedError(chatId);
+  }
+
+  return userId;
+}
+
+/**
+ * Ensure the caller has the admin custom claim (set with the Admin SDK's setCustomUserClaims)
+ * @param context - Callable context
+ * @returns The caller's uid
+ */
+export function assertAdmin(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Must be logged in');
+  }
+
+  if (context.auth.token.admin !== true) {
+    throw new functions.https.HttpsError('permission-denied', 'Admin access required');
+  }
+
+  return context.auth.uid;
+}
@@ -0,0 +1,314 @@
+/**
+ * Backfill Service
+ *
+ * Embeds messages that are missing from the vector index (sent before RAG was
+ * deployed, or whose indexing failed). Jobs live in ragBackfillJobs/{jobId}
+ * and checkpoint after every page of messages, so a run can stop at any time
+ * and the next run picks up where it left off.
+ */
+
+import * as admin from 'firebase-admin';
+import { getLLMProvider, LLMProvider } from './llmProvider';
+import { getVectorStore, VectorRecord, VectorStore } from './vectorStore';
+import * as ragService from './ragService';
+
+export type BackfillStatus = 'running' | 'completed';
+
+export interface ChatBackfillProgress {
+  cursor: string | null; // Last scanned message ID
+  scanned: number;
+  alreadyIndexed: number;
+  indexed: number;
+  skipped: number; // System, empty or deleted messages
+  failed: number;
+  failedMessageIds: string[]; // Capped at MAX_FAILED_IDS
+  lastError: string | null;
+  done: boolean;
+}
+
+export interface BackfillTotals {
+  scanned: number;
+  indexed: number;
+  failed: number;
+}
+
+export interface BackfillJob {
+  status: BackfillStatus;
+  requestedBy: string;
+  chatIds: string[];
+  chatIndex: number; // Next chat to process
+  progress: Record<string, ChatBackfillProgress>;
+  totals: BackfillTotals;
+  leaseExpiresAt: number; // ms since epoch; only one run may hold the job at a time
+  createdAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  completedAt: admin.firestore.Timestamp | null;
+}
+
+export interface BackfillOptions {
+  timeBudgetMs: number;
+  db?: admin.firestore.Firestore;
+  llm?: LLMProvider;
+  store?: VectorStore;
+  batchDelayMs?: number;
+}
+
+const JOBS_COLLECTION = 'ragBackfillJobs';
+const PAGE_SIZE = 100; // Messages scanned per checkpoint
+const EMBED_BATCH_SIZE = 20; // Embedding requests in flight at once
+const BATCH_DELAY_MS = 1000; // Pause between embedding batches (provider rate limits)
+const MAX_FAILED_IDS = 20;
+const LEASE_MARGIN_MS = 60 * 1000;
+
+function emptyProgress(): ChatBackfillProgress {
+  return {
+    cursor: null,
+    scanned: 0,
+    alreadyIndexed: 0,
+    indexed: 0,
+    skipped: 0,
+    failed: 0,
+    failedMessageIds: [],
+    lastError: null,
+    done: false,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a backfill job
+ * @param requestedBy - uid of the admin who started it
+ * @param chatIds - Chats to scan (defaults to every chat)
+ * @param db - Firestore instance (defaults to the admin app's)
+ * @returns The new job's ID
+ */
+export async function createBackfillJob(
+  requestedBy: string,
+  chatIds?: string[],
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<string> {
+  let targetChatIds = chatIds;
+  if (!targetChatIds || targetChatIds.length === 0) {
+    const chatsSnapshot = await db.collection('chats').select().get();
+    targetChatIds = chatsSnapshot.docs.map((chatDoc) => chatDoc.id);
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const job: BackfillJob = {
+    status: 'running',
+    requestedBy,
+    chatIds: targetChatIds,
+    chatIndex: 0,
+    progress: Object.fromEntries(targetChatIds.map((chatId) => [chatId, emptyProgress()])),
+    totals: { scanned: 0, indexed: 0, failed: 0 },
+    leaseExpiresAt: 0,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+
+  const jobRef = await db.collection(JOBS_COLLECTION).add(job);
+  console.log(`📦 Created RAG backfill job ${jobRef.id} for ${targetChatIds.length} chat(s)`);
+  return jobRef.id;
+}
+
+/**
+ * Get a backfill job
+ */
+export async function getBackfillJob(
+  jobId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<BackfillJob | null> {
+  const jobDoc = await db.collection(JOBS_COLLECTION).doc(jobId).get();
+  return jobDoc.exists ? (jobDoc.data() as BackfillJob) : null;
+}
+
+/**
+ * IDs of jobs that still have chats to process
+ */
+export async function getRunningJobIds(
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<string[]> {
+  const snapshot = await db.collection(JOBS_COLLECTION).where('status', '==', 'running').get();
+  return snapshot.docs.map((jobDoc) => jobDoc.id);
+}
+
+/**
+ * Take the job's lease so overlapping runs (callable + schedule) don't process the same pages
+ * @returns The job, or null if it's finished or another run holds it
+ */
+async function acquireLease(
+  db: admin.firestore.Firestore,
+  jobRef: admin.firestore.DocumentReference,
+  durationMs: number
+): Promise<BackfillJob | null> {
+  return db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) return null;
+
+    const job = jobDoc.data() as BackfillJob;
+    const now = Date.now();
+    if (job.status !== 'running' || job.leaseExpiresAt > now) return null;
+
+    transaction.update(jobRef, { leaseExpiresAt: now + durationMs });
+    return job;
+  });
+}
+
+/**
+ * Process a backfill job until it completes or the time budget runs out
+ * @param jobId - Job to run
+ * @param options - Time budget plus optional dependencies (tests)
+ * @returns The job as of the last checkpoint, or null if it couldn't be run
+ */
+export async function runBackfillJob(
+  jobId: string,
+  options: BackfillOptions
+): Promise<BackfillJob | null> {
+  const {
+    timeBudgetMs,
+    db = admin.firestore(),
+    llm = getLLMProvider(),
+    store = getVectorStore(),
+    batchDelayMs = BATCH_DELAY_MS,
+  } = options;
+
+  const startedAt = Date.now();
+  const outOfTime = () => Date.now() - startedAt >= timeBudgetMs;
+  const jobRef = db.collection(JOBS_COLLECTION).doc(jobId);
+
+  const job = await acquireLease(db, jobRef, timeBudgetMs + LEASE_MARGIN_MS);
+  if (!job) {
+    console.log(`⏭️ Backfill job ${jobId} is finished or already running`);
+    return null;
+  }
+
+  const senderNames = new Map<string, string>();
+  const getSenderName = async (senderId: string): Promise<string> => {
+    if (!senderNames.has(senderId)) {
+      const userDoc = await db.collection('users').doc(senderId).get();
+      senderNames.set(senderId, userDoc.data()?.displayName || 'Unknown');
+    }
+    return senderNames.get(senderId)!;
+  };
+
+  const saveCheckpoint = async (chatId: string, completed = false) => {
+    job.status = completed ? 'completed' : 'running';
+    await jobRef.update({
+      status: job.status,
+      chatIndex: job.chatIndex,
+      [`progress.${chatId}`]: job.progress[chatId],
+      totals: job.totals,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(completed && {
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        leaseExpiresAt: 0,
+      }),
+    });
+  };
+
+  try {
+    while (job.chatIndex < job.chatIds.length && !outOfTime()) {
+      const chatId = job.chatIds[job.chatIndex];
+      const progress = job.progress[chatId] || emptyProgress();
+      job.progress[chatId] = progress;
+
+      let page = db.collection('chats').doc(chatId).collection('messages')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(PAGE_SIZE);
+      if (progress.cursor) {
+        page = page.startAfter(progress.cursor);
+      }
+      const snapshot = await page.get();
+
+      if (snapshot.empty) {
+        progress.done = true;
+        job.chatIndex++;
+        const completed = job.chatIndex >= job.chatIds.length;
+        await saveCheckpoint(chatId, completed);
+        console.log(`✅ Backfill ${jobId}: chat ${chatId} done (${progress.indexed} indexed, ${progress.failed} failed)`);
+        continue;
+      }
+
+      const indexable = snapshot.docs.filter((messageDoc) => ragService.isIndexableMessage(messageDoc.data()));
+      const existing = await store.existingIds(indexable.map((messageDoc) => messageDoc.id));
+      const missing = indexable.filter((messageDoc) => !existing.has(messageDoc.id));
+
+      progress.scanned += snapshot.size;
+      progress.skipped += snapshot.size - indexable.length;
+      progress.alreadyIndexed += existing.size;
+      job.totals.scanned += snapshot.size;
+
+      for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+        const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+
+        const results = await Promise.allSettled(batch.map(async (messageDoc) => {
+          const message = messageDoc.data();
+          return ragService.buildMessageRecord({
+            messageId: messageDoc.id,
+            chatId,
+            text: message.text,
+            senderId: message.senderId,
+            senderName: await getSenderName(message.senderId),
+            timestamp: message.timestamp?.toMillis() || 0,
+            detectedLanguage: message.detectedLanguage,
+            replyTo: message.replyTo,
+          }, llm);
+        }));
+
+        const records: VectorRecord[] = [];
+        const failedIds: string[] = [];
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            records.push(result.value);
+          } else {
+            failedIds.push(batch[index].id);
+            progress.lastError = String(result.reason?.message || result.reason);
+          }
+        });
+
+        try {
+          await store.upsert(records);
+        } catch (error: any) {
+          failedIds.push(...records.map((record) => record.id));
+          records.length = 0;
+          progress.lastError = String(error?.message || error);
+        }
+
+        progress.indexed += records.length;
+        progress.failed += failedIds.length;
+        progress.failedMessageIds = [...progress.failedMessageIds, ...failedIds].slice(0, MAX_FAILED_IDS);
+        job.totals.indexed += records.length;
+        job.totals.failed += failedIds.length;
+
+        if (batchDelayMs > 0) {
+          await sleep(batchDelayMs);
+        }
+      }
+
+      progress.cursor = snapshot.docs[snapshot.docs.length - 1].id;
+      await saveCheckpoint(chatId);
+    }
+
+    if (job.chatIds.length === 0 && job.status === 'running') {
+      await jobRef.update({
+        status: 'completed',
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        leaseExpiresAt: 0,
+      });
+      job.status = 'completed';
+    } else if (job.status === 'running') {
+      // Out of time: release the lease so the next run can continue right away
+      await jobRef.update({ leaseExpiresAt: 0 });
+    }
+
+    console.log(`📦 Backfill ${jobId}: ${job.totals.indexed} indexed, ${job.totals.failed} failed, status ${job.status}`);
+    return job;
+  } catch (error) {
+    console.error(`❌ Error running backfill job ${jobId}:`, error);
+    // Everything up to the last checkpoint is kept; the next run resumes from there
+    await jobRef.update({ leaseExpiresAt: 0 }).catch(() => undefined);
+    throw error;
+  }
+}
@@ -9,13 +9,17 @@ import * as chrono from 'chrono-node';
 /**
  * Parse natural language date strings into Date objects
  * Handles both relative ("last Thursday", "past week") and absolute ("February 5th") dates
+ * Pass timezoneOffset (minutes east of UTC) to read times like "3pm" in the user's timezone
  */
-export function parseDate(dateString: string, referenceDate?: Date): Date | null {
+export function parseDate(dateString: string, referenceDate?: Date, timezoneOffset?: number): Date | null {
   const reference = referenceDate || new Date();
   
   try {
     // Use chrono-node for natural language parsing
-    const parsed = chrono.parseDate(dateString, reference);
+    const parsed = chrono.parseDate(
+      dateString,
+      timezoneOffset === undefined ? reference : { instant: reference, timezone: timezoneOffset }
+    );
     
     if (parsed) {
       console.log(`📅 Parsed "${dateString}" as ${parsed.toISOString()}`);
@@ -28,7 +32,7 @@ export function parseDate(dateString: string, referenceDate?: Date): Date | null
     // Handle "since X" patterns
     if (lowerStr.startsWith('since ')) {
       const afterSince = lowerStr.substring(6);
-      return parseDate(afterSince, reference);
+      return parseDate(afterSince, reference, timezoneOffset);
     }
     
     console.warn(`⚠️ Could not parse date: "${dateString}"`);
@@ -39,6 +43,49 @@ export function parseDate(dateString: string, referenceDate?: Date): Date | null
   }
 }
 
+/**
+ * Resolve a date mentioned in a message to a calendar date or time
+ * @param dateString - The date as mentioned ("next Friday", "March 3rd at 2pm")
+ * @param referenceDate - When it was mentioned (the message's timestamp)
+ * @param timezoneOffset - User's timezone, minutes east of UTC
+ * @returns start as YYYY-MM-DD for all-day dates or an ISO timestamp when a time was given
+ */
+export function resolveEventDate(
+  dateString: string,
+  referenceDate: Date,
+  timezoneOffset: number = 0
+): { start: string; allDay: boolean } | null {
+  const instant = parseDate(dateString, referenceDate, timezoneOffset);
+  if (!instant) return null;
+
+  const [result] = chrono.parse(dateString, { instant: referenceDate, timezone: timezoneOffset });
+  if (result?.start.isCertain('hour')) {
+    return { start: instant.toISOString(), allDay: false };
+  }
+
+  // Calendar day in the user's timezone
+  const local = new Date(instant.getTime() + timezoneOffset * 60 * 1000);
+  return { start: local.toISOString().slice(0, 10), allDay: true };
+}
+
+/**
+ * Resolve a date the LLM found in a message, falling back to the first date
+ * chrono finds in the message itself when the LLM's wording can't be parsed
+ */
+export function resolveMentionedDate(
+  dateString: string,
+  message: { text: string; timestamp: number },
+  timezoneOffset: number = 0
+): { start: string; allDay: boolean } | null {
+  const reference = new Date(message.timestamp);
+
+  const resolved = resolveEventDate(dateString, reference, timezoneOffset);
+  if (resolved) return resolved;
+
+  const [mention] = extractDates(message.text || '', reference);
+  return mention ? resolveEventDate(mention.text, reference, timezoneOffset) : null;
+}
+
 /**
  * Parse a date range from natural language
  * Returns [startDate, endDate] tuple
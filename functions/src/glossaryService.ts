@@ -0,0 +1,73 @@
+/**
+ * Glossary Service
+ *
+ * Per-chat translation memory: product names and jargon with the translation
+ * the chat prefers in each language, or marked "do not translate". Stored in
+ * glossaries/{chatId}; every save bumps `version`, which translations are
+ * cached under so edits take effect immediately.
+ */
+
+import * as admin from 'firebase-admin';
+
+export interface GlossaryEntry {
+  term: string;
+  doNotTranslate: boolean;
+  translations: Record<string, string>; // language code -> preferred translation
+}
+
+export interface Glossary {
+  entries: GlossaryEntry[];
+  version: number; // 0 when the chat has no glossary
+}
+
+export const EMPTY_GLOSSARY: Glossary = { entries: [], version: 0 };
+
+const GLOSSARIES_COLLECTION = 'glossaries';
+
+/**
+ * Load a chat's glossary, dropping malformed entries
+ */
+export async function getGlossary(
+  chatId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<Glossary> {
+  const glossaryDoc = await db.collection(GLOSSARIES_COLLECTION).doc(chatId).get();
+  const data = glossaryDoc.data();
+  if (!data) return EMPTY_GLOSSARY;
+
+  const entries: GlossaryEntry[] = (Array.isArray(data.entries) ? data.entries : [])
+    .filter((entry: any) => typeof entry?.term === 'string' && entry.term.trim())
+    .map((entry: any) => ({
+      term: entry.term.trim(),
+      doNotTranslate: !!entry.doNotTranslate,
+      translations: entry.translations && typeof entry.translations === 'object' ? entry.translations : {},
+    }));
+
+  return { entries, version: typeof data.version === 'number' ? data.version : 0 };
+}
+
+/**
+ * Glossary instructions for a prompt, limited to terms that appear in the text
+ * @param glossary - The chat's glossary
+ * @param text - Text the prompt is about
+ * @param targetLanguage - Language the model writes in
+ * @returns A block to append to the prompt, or '' if no term applies
+ */
+export function formatGlossaryPrompt(glossary: Glossary, text: string, targetLanguage: string): string {
+  const lowerText = text.toLowerCase();
+
+  const lines = glossary.entries
+    .filter((entry) => lowerText.includes(entry.term.toLowerCase()))
+    .map((entry) => {
+      if (entry.doNotTranslate) {
+        return `- "${entry.term}": keep as "${entry.term}" (do not translate)`;
+      }
+      const preferred = entry.translations[targetLanguage];
+      return preferred ? `- "${entry.term}": translate as "${preferred}"` : null;
+    })
+    .filter((line): line is string => line !== null);
+
+  if (lines.length === 0) return '';
+
+  return `\nGlossary for this chat (always follow it):\n${lines.join('\n')}\n`;
+}
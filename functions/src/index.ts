@@ -1,6 +1,6 @@
 /**
  * Firebase Cloud Functions for International Communicator AI Features
- * Handles OpenAI operations for translation, language detection, and multilingual features
+ * Handles LLM operations (see llmProvider) for translation, language detection, and multilingual features
  */
 
 // Load environment variables from .env file (for local emulator)
@@ -9,44 +9,23 @@ dotenv.config();
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import OpenAI from 'openai';
 import * as ragService from './ragService';
 import * as dateParsingService from './dateParsingService';
+import { assertAdmin, assertChatParticipant } from './authorization';
+import * as quotaService from './quotaService';
+import * as backfillService from './backfillService';
+import * as actionItemService from './actionItemService';
+import * as reminderService from './reminderService';
+import * as messageTranslationService from './messageTranslationService';
+import * as glossaryService from './glossaryService';
+import * as replyService from './replyService';
+import { ChatMessage, getLLMProvider, ToolDefinition } from './llmProvider';
+import { AssistantSessionWriter, loadThreadHistory } from './assistantSessions';
 
 // Initialize Firebase Admin
 admin.initializeApp();
 
-// Get OpenAI API key from Firebase config or environment variable
-function getOpenAIKey(): string {
-  // Try environment variable first (for local emulator)
-  if (process.env.OPENAI_API_KEY) {
-    console.log('Using OpenAI API key from environment variable');
-    return process.env.OPENAI_API_KEY;
-  }
-  
-  // Fall back to Firebase config (for production)
-  try {
-    const config = functions.config();
-    if (config.openai && config.openai.key) {
-      console.log('Using OpenAI API key from Firebase config');
-      return config.openai.key;
-    }
-  } catch (error) {
-    console.error('Error getting Firebase config:', error);
-  }
-  
-  throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY environment variable or run: firebase functions:config:set openai.key="YOUR_KEY"');
-}
-
-// Lazy initialize OpenAI (only when actually called)
-function getOpenAI() {
-  const apiKey = getOpenAIKey();
-  return new OpenAI({
-    apiKey: apiKey,
-  });
-}
-
-// Helper: Clean JSON response from OpenAI (removes markdown formatting)
+// Helper: Clean JSON response from the LLM (removes markdown formatting)
 function cleanJSONResponse(content: string): string {
   // Remove markdown code blocks if present
   let cleaned = content.trim();
@@ -59,9 +38,41 @@ function cleanJSONResponse(content: string): string {
   return cleaned.trim();
 }
 
+// Helper: Describe which earlier message a message replies to (for AI tool results)
+// The quoted text of a message deleted for everyone is never passed on
+function formatReplyTo(replyTo: any): { id: string; sender: string; text: string } | undefined {
+  if (!replyTo || !replyTo.messageId) {
+    return undefined;
+  }
+  return {
+    id: replyTo.messageId,
+    sender: replyTo.senderName || 'Unknown',
+    text: replyTo.deleted ? '' : replyTo.text || '',
+  };
+}
+
+/**
+ * Load the glossary of the chat a language callable is working in
+ * The chatId is optional; when given, the caller must be a participant
+ */
+async function loadCallerGlossary(
+  context: functions.https.CallableContext,
+  chatId: unknown
+): Promise<glossaryService.Glossary> {
+  if (chatId === undefined || chatId === null) {
+    return glossaryService.EMPTY_GLOSSARY;
+  }
+
+  await assertChatParticipant(context, chatId);
+  return glossaryService.getGlossary(chatId as string);
+}
+
 /**
  * 1. Translate Text
- * Translates text from one language to another
+ * Translates text from one language to another, then has the model rate the
+ * translation (confidence) and flag what it kept as-is (untranslatable)
+ * Optional `context` (the chat's previous messages, oldest first) helps with
+ * short replies and pronouns; optional `chatId` applies the chat's glossary
  */
 export const translateText = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
@@ -69,41 +80,40 @@ export const translateText = functions.https.onCall(async (data, context) => {
     throw new functions.https.HttpsError('unauthenticated', 'Must be logged in to translate text');
   }
 
-  const { text, targetLanguage, sourceLanguage } = data;
+  const { text, targetLanguage, sourceLanguage, chatId } = data;
 
   if (!text || !targetLanguage) {
     throw new functions.https.HttpsError('invalid-argument', 'Text and target language are required');
   }
 
-  try {
-    const sourceLangInfo = sourceLanguage ? ` from ${sourceLanguage}` : '';
-    const prompt = `Translate the following text${sourceLangInfo} to ${targetLanguage}.
-Maintain the tone and context. Return ONLY the translation, no explanations.
-
-Text: "${text}"
+  // Optional earlier messages of the chat, for context-aware translation
+  const contextMessages = messageTranslationService.normalizeTranslationContext(data.context);
 
-Translation:`;
-
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3,
-      max_tokens: 500,
-    });
+  const glossary = await loadCallerGlossary(context, chatId);
+  await quotaService.consumeQuota(context.auth.uid, 'translateText');
 
-    let translatedText = response.choices[0].message.content?.trim() || text;
-    
-    // Remove surrounding quotes if present (AI sometimes adds them)
-    if ((translatedText.startsWith('"') && translatedText.endsWith('"')) ||
-        (translatedText.startsWith("'") && translatedText.endsWith("'"))) {
-      translatedText = translatedText.slice(1, -1);
-    }
+  try {
+    const translatedText = await messageTranslationService.translateTextTo(
+      text,
+      targetLanguage,
+      sourceLanguage,
+      glossary,
+      contextMessages
+    );
+    const assessment = await messageTranslationService.assessTranslation(
+      text,
+      translatedText,
+      targetLanguage,
+      sourceLanguage
+    );
 
     return {
       translatedText,
       sourceLanguage: sourceLanguage || 'auto',
       targetLanguage,
-      confidence: 0.9,
+      confidence: assessment.confidence,
+      untranslatable: assessment.untranslatable,
+      glossaryVersion: glossary.version,
     };
   } catch (error) {
     console.error('Error translating text:', error);
@@ -113,7 +123,7 @@ Translation:`;
 
 /**
  * 2. Detect Language
- * Detects the language of a text using OpenAI
+ * Detects the language of a text using the LLM
  */
 export const detectLanguage = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
@@ -127,23 +137,10 @@ export const detectLanguage = functions.https.onCall(async (data, context) => {
     throw new functions.https.HttpsError('invalid-argument', 'Text is required');
   }
 
-  try {
-    const prompt = `Detect the language of this text. 
-Respond with ONLY the ISO 639-1 language code (e.g., 'en', 'es', 'fr', 'zh', 'ar').
-If the text is nonsensical, contains only numbers/symbols, or cannot be identified, respond with 'und' (undefined).
-
-Text: "${text}"
-
-Language code:`;
+  await quotaService.consumeQuota(context.auth.uid, 'detectLanguage');
 
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 10,
-    });
-
-    const languageCode = response.choices[0].message.content?.trim().toLowerCase() || 'und';
+  try {
+    const languageCode = await messageTranslationService.detectTextLanguage(text);
 
     return {
       languageCode,
@@ -164,12 +161,15 @@ export const adjustFormality = functions.https.onCall(async (data, context) => {
     throw new functions.https.HttpsError('unauthenticated', 'Must be logged in to adjust tone');
   }
 
-  const { text, formalityLevel, targetLanguage } = data;
+  const { text, formalityLevel, targetLanguage, chatId } = data;
 
   if (!text || !formalityLevel || !targetLanguage) {
     throw new functions.https.HttpsError('invalid-argument', 'Text, tone level, and target language are required');
   }
 
+  const glossary = await loadCallerGlossary(context, chatId);
+  await quotaService.consumeQuota(context.auth.uid, 'adjustFormality');
+
   try {
     const toneDescriptions = {
       casual: 'Friendly, relaxed, conversational (can include slang and idiomatic expressions)',
@@ -183,22 +183,22 @@ Maintain the core meaning but adjust the tone appropriately.
 IMPORTANT: Return ONLY the rephrased sentence or message. Do NOT add any letter formatting, greetings, or closings like "Dear X" or "Sincerely". Just rephrase the original message with the appropriate tone.
 
 Tone level: ${formalityLevel} - ${toneDescriptions[formalityLevel as keyof typeof toneDescriptions]}
-
+${glossaryService.formatGlossaryPrompt(glossary, text, targetLanguage)}
 Original: "${text}"
 
 ${formalityLevel.charAt(0).toUpperCase() + formalityLevel.slice(1)} version:`;
 
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getLLMProvider().complete({
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.7,
-      max_tokens: 300,
+      maxTokens: 300,
     });
 
-    const adjustedText = response.choices[0].message.content?.trim() || text;
+    const adjustedText = response.content?.trim() || text;
 
     return {
       adjustedText,
+      glossaryVersion: glossary.version,
     };
   } catch (error) {
     console.error('Error adjusting tone:', error);
@@ -225,6 +225,8 @@ export const explainSlang = functions.https.onCall(async (data, context) => {
   // Default to English if no target language specified
   const explanationLanguage = targetLanguage || 'English';
 
+  await quotaService.consumeQuota(context.auth.uid, 'explainSlang');
+
   try {
     const prompt = `Identify any slang, idioms, or informal expressions in this ${detectedLanguage} message.
 For each one found, provide (IN ${explanationLanguage}):
@@ -240,14 +242,13 @@ Message: "${text}"
 
 Format your response as a JSON array of objects with keys: term, literal, meaning, example.`;
 
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getLLMProvider().complete({
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.5,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const content = response.choices[0].message.content || '[]';
+    const content = response.content || '[]';
     const cleanedContent = cleanJSONResponse(content);
     const explanations = JSON.parse(cleanedContent);
 
@@ -279,6 +280,8 @@ export const getCulturalContext = functions.https.onCall(async (data, context) =
   // Default to English if no target language specified
   const explanationLanguage = targetLanguage || 'English';
 
+  await quotaService.consumeQuota(context.auth.uid, 'getCulturalContext');
+
   try {
     const prompt = `Analyze this message for cultural context and references.
 Consider the language (${detectedLanguage}) and provide helpful cultural insights.
@@ -292,14 +295,13 @@ Format your response as JSON with keys:
 - culturalInsights: string (main explanation IN ${explanationLanguage})
 - references: array of strings (specific cultural references found, explained IN ${explanationLanguage})`;
 
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getLLMProvider().complete({
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.6,
-      max_tokens: 400,
+      maxTokens: 400,
     });
 
-    const content = response.choices[0].message.content || '{}';
+    const content = response.content || '{}';
     const cleanedContent = cleanJSONResponse(content);
     const result = JSON.parse(cleanedContent);
 
@@ -323,7 +325,7 @@ export const summarizeMultilingualThread = functions.https.onCall(async (data, c
     throw new functions.https.HttpsError('unauthenticated', 'Must be logged in to summarize thread');
   }
 
-  const { messages, userLanguage } = data;
+  const { messages, userLanguage, chatId } = data;
 
   if (!messages || messages.length === 0) {
     throw new functions.https.HttpsError('invalid-argument', 'Messages array is required');
@@ -333,6 +335,9 @@ export const summarizeMultilingualThread = functions.https.onCall(async (data, c
     throw new functions.https.HttpsError('invalid-argument', 'Need at least 5 messages to summarize');
   }
 
+  const glossary = await loadCallerGlossary(context, chatId);
+  await quotaService.consumeQuota(context.auth.uid, 'summarizeMultilingualThread');
+
   try {
     const conversationText = messages
       .map((m: any) => `${m.senderName} (${m.detectedLanguage || 'unknown'}): ${m.text}`)
@@ -348,20 +353,19 @@ Provide:
 
 Conversation:
 ${conversationText}
-
+${glossaryService.formatGlossaryPrompt(glossary, conversationText, userLanguage)}
 Format your response as JSON with keys:
 - overview: string
 - participantSummaries: array of {participantName: string, keyPoints: string[]}
 - languagesDetected: string[] (ISO codes)`;
 
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getLLMProvider().complete({
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.7,
-      max_tokens: 800,
+      maxTokens: 800,
     });
 
-    const content = response.choices[0].message.content || '{}';
+    const content = response.content || '{}';
     const cleanedContent = cleanJSONResponse(content);
     const result = JSON.parse(cleanedContent);
 
@@ -370,6 +374,7 @@ Format your response as JSON with keys:
       participantSummaries: result.participantSummaries || [],
       languagesDetected: result.languagesDetected || [],
       generatedIn: userLanguage,
+      glossaryVersion: glossary.version,
     };
   } catch (error) {
     console.error('Error summarizing multilingual thread:', error);
@@ -390,159 +395,155 @@ Format your response as JSON with keys:
  * - "Show me action items from last week"
  * - "What's the tone of our conversation?"
  * - "Summarize everything John said about budgets"
+ *
+ * Every query is stored in chats/{chatId}/assistantSessions. Pass a client-generated
+ * sessionId to follow progress (tool steps and answer text) while the query runs, and
+ * the threadId from an earlier response's metadata to ask a follow-up question.
  */
 export const intelligentChatAssistant = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'Must be logged in');
   }
 
-  const { chatId, query, userLanguage = 'English' } = data;
+  const { chatId, query, userLanguage = 'English', sessionId, threadId } = data;
+  // User's timezone (minutes east of UTC), for resolving dates like "Friday at 3pm"
+  const timezoneOffset = Number.isFinite(data.timezoneOffset) && Math.abs(data.timezoneOffset) <= 14 * 60
+    ? data.timezoneOffset
+    : 0;
 
   if (!chatId || !query) {
     throw new functions.https.HttpsError('invalid-argument', 'Chat ID and query are required');
   }
 
+  // Every tool reads this chat's messages, so membership is checked up front
+  await assertChatParticipant(context, chatId);
+  await quotaService.consumeQuota(context.auth.uid, 'intelligentChatAssistant');
+
+  const session = await AssistantSessionWriter.start({
+    chatId,
+    sessionId,
+    threadId,
+    userId: context.auth.uid,
+    query,
+  });
+
   try {
-    const openai = getOpenAI();
+    const llm = getLLMProvider();
 
     // Define tools that the LLM can call
-    const tools: any[] = [
+    const tools: ToolDefinition[] = [
       {
-        type: 'function',
-        function: {
-          name: 'search_conversation_semantically',
-          description: 'Search for messages about a specific topic using semantic search. Use this when the user asks about a specific subject or keyword.',
-          parameters: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'The topic or keyword to search for (e.g., "budget", "travel plans", "project deadline")',
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum number of messages to return (default 10)',
-                default: 10,
-              },
+        name: 'search_conversation_semantically',
+        description: 'Search for messages about a specific topic using semantic search. Use this when the user asks about a specific subject or keyword.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'The topic or keyword to search for (e.g., "budget", "travel plans", "project deadline")',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of messages to return (default 10)',
+              default: 10,
             },
-            required: ['query'],
           },
+          required: ['query'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'get_messages_by_date_range',
-          description: 'Get messages within a specific date range. Use this when the user mentions dates like "last week", "yesterday", "since Monday", or "February 5th".',
-          parameters: {
-            type: 'object',
-            properties: {
-              dateRange: {
-                type: 'string',
-                description: 'Natural language date range (e.g., "last week", "yesterday", "since February 5th", "past month")',
-              },
+        name: 'get_messages_by_date_range',
+        description: 'Get messages within a specific date range. Use this when the user mentions dates like "last week", "yesterday", "since Monday", or "February 5th".',
+        parameters: {
+          type: 'object',
+          properties: {
+            dateRange: {
+              type: 'string',
+              description: 'Natural language date range (e.g., "last week", "yesterday", "since February 5th", "past month")',
             },
-            required: ['dateRange'],
           },
+          required: ['dateRange'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'get_messages_by_participant',
-          description: 'Get messages from a specific participant. Use this when the user asks about what a specific person said.',
-          parameters: {
-            type: 'object',
-            properties: {
-              participantName: {
-                type: 'string',
-                description: 'The name of the participant',
-              },
+        name: 'get_messages_by_participant',
+        description: 'Get messages from a specific participant. Use this when the user asks about what a specific person said.',
+        parameters: {
+          type: 'object',
+          properties: {
+            participantName: {
+              type: 'string',
+              description: 'The name of the participant',
             },
-            required: ['participantName'],
           },
+          required: ['participantName'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'get_conversation_statistics',
-          description: 'Get statistics about the conversation (total messages, participants, languages used, time span)',
-          parameters: {
-            type: 'object',
-            properties: {},
-          },
+        name: 'get_conversation_statistics',
+        description: 'Get statistics about the conversation (total messages, participants, languages used, time span)',
+        parameters: {
+          type: 'object',
+          properties: {},
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'get_recent_context',
-          description: 'Get recent messages for general conversation context',
-          parameters: {
-            type: 'object',
-            properties: {
-              limit: {
-                type: 'number',
-                description: 'Number of recent messages to retrieve (default 20)',
-                default: 20,
-              },
+        name: 'get_recent_context',
+        description: 'Get recent messages for general conversation context',
+        parameters: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'number',
+              description: 'Number of recent messages to retrieve (default 20)',
+              default: 20,
             },
           },
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'extract_action_items',
-          description: 'Extract action items, tasks, and to-dos from messages',
-          parameters: {
-            type: 'object',
-            properties: {
-              messageIds: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Array of message IDs to analyze (get from previous function calls)',
-              },
+        name: 'extract_action_items',
+        description: 'Extract action items, tasks, and to-dos from messages',
+        parameters: {
+          type: 'object',
+          properties: {
+            messageIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Array of message IDs to analyze (get from previous function calls)',
             },
-            required: ['messageIds'],
           },
+          required: ['messageIds'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'extract_dates_and_deadlines',
-          description: 'Extract important dates, deadlines, and time references from messages',
-          parameters: {
-            type: 'object',
-            properties: {
-              messageIds: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Array of message IDs to analyze',
-              },
+        name: 'extract_dates_and_deadlines',
+        description: 'Extract important dates, deadlines, and time references from messages',
+        parameters: {
+          type: 'object',
+          properties: {
+            messageIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Array of message IDs to analyze',
             },
-            required: ['messageIds'],
           },
+          required: ['messageIds'],
         },
       },
       {
-        type: 'function',
-        function: {
-          name: 'analyze_conversation_tone',
-          description: 'Analyze the emotional tone and sentiment of the conversation',
-          parameters: {
-            type: 'object',
-            properties: {
-              messageIds: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Array of message IDs to analyze',
-              },
+        name: 'analyze_conversation_tone',
+        description: 'Analyze the emotional tone and sentiment of the conversation',
+        parameters: {
+          type: 'object',
+          properties: {
+            messageIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Array of message IDs to analyze',
             },
-            required: ['messageIds'],
           },
+          required: ['messageIds'],
         },
       },
     ];
@@ -560,6 +561,7 @@ Guidelines:
 5. Extract structured information (to-do items, dates, tone, mood) when requested
 6. Provide responses in ${userLanguage}
 7. Be concise but thorough
+8. Messages may include a "replyTo" field naming the earlier message they answer - use it to understand who is responding to whom
 
 IMPORTANT FORMATTING RULES:
 
@@ -626,8 +628,12 @@ MOOD ANALYSIS - When analyzing the mood/emotional sentiment:
 User's query: "${query}"
 Chat ID: ${chatId}`;
 
-    const messages: any[] = [
+    // Earlier turns of the thread, so follow-ups like "what did Maria say about that?" make sense
+    const history = await loadThreadHistory(chatId, context.auth.uid, session.threadId, session.sessionId);
+
+    const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
+      ...history,
       { role: 'user', content: query },
     ];
 
@@ -645,33 +651,32 @@ Chat ID: ${chatId}`;
     while (toolCallCount < maxToolCalls) {
       console.log(`🤖 [AI Assistant] Starting iteration ${toolCallCount + 1}`);
       
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const response = await llm.complete({
         messages,
         tools,
-        tool_choice: 'auto',
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
+        onContentDelta: (delta) => session.appendText(delta),
       });
 
-      const responseMessage = response.choices[0].message;
-      messages.push(responseMessage);
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
 
       // Check if LLM wants to call functions
-      if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-        console.log(`🔧 [AI Assistant] LLM requested ${responseMessage.tool_calls.length} tool calls`);
+      if (response.toolCalls.length > 0) {
+        console.log(`🔧 [AI Assistant] LLM requested ${response.toolCalls.length} tool calls`);
+        
+        // Text alongside tool calls is the model thinking aloud, not the answer
+        session.resetText();
         
         // Execute all tool calls
-        for (const toolCall of responseMessage.tool_calls) {
+        for (const toolCall of response.toolCalls) {
           toolCallCount++;
           
-          // Handle both function and custom tool calls
-          if (toolCall.type !== 'function') continue;
-          
-          const functionName = toolCall.function.name;
-          const functionArgs = JSON.parse(toolCall.function.arguments);
+          const functionName = toolCall.name;
+          const functionArgs = JSON.parse(toolCall.arguments);
           
           console.log(`📞 [AI Assistant] Calling: ${functionName}`, functionArgs);
+          await session.toolStarted(functionName);
           
           let functionResult: any;
 
@@ -683,7 +688,7 @@ Chat ID: ${chatId}`;
                   chatId,
                   query: functionArgs.query,
                   limit: functionArgs.limit || 10,
-                  openai,
+                  llm,
                 });
                 
                 gatheredData.messages.push(...results);
@@ -696,6 +701,7 @@ Chat ID: ${chatId}`;
                     sender: m.senderName,
                     timestamp: new Date(m.timestamp).toISOString(),
                     relevanceScore: m.score,
+                    replyTo: formatReplyTo(m.replyTo),
                   })),
                 };
                 break;
@@ -722,6 +728,7 @@ Chat ID: ${chatId}`;
                       text: m.text,
                       sender: m.senderName || 'Unknown',
                       timestamp: new Date(m.timestamp).toISOString(),
+                      replyTo: formatReplyTo(m.replyTo),
                     })),
                   };
                 } else {
@@ -758,6 +765,7 @@ Chat ID: ${chatId}`;
                       id: m.id,
                       text: m.text,
                       timestamp: new Date(m.timestamp).toISOString(),
+                      replyTo: formatReplyTo(m.replyTo),
                     })),
                   };
                 } else {
@@ -800,6 +808,7 @@ Chat ID: ${chatId}`;
                     text: m.text,
                     sender: m.senderName || 'Unknown',
                     timestamp: new Date(m.timestamp).toISOString(),
+                    replyTo: formatReplyTo(m.replyTo),
                   })),
                 };
                 break;
@@ -812,55 +821,84 @@ Chat ID: ${chatId}`;
                   .map((m: any) => m.text)
                   .join('\n');
                 
-                // Use OpenAI to extract action items
+                // Use the LLM to extract action items
                 const extractionPrompt = `Extract all action items, tasks, and to-dos from these messages. Return as JSON array with format: [{item: string, priority: "high"|"medium"|"low", assignee?: string}]
 
 Messages:
 ${messageTexts}`;
 
-                const extractionResponse = await openai.chat.completions.create({
-                  model: 'gpt-4o-mini',
+                const extractionResponse = await llm.complete({
                   messages: [{ role: 'user', content: extractionPrompt }],
                   temperature: 0.3,
-                  max_tokens: 1000,
+                  maxTokens: 1000,
                 });
 
+                let actionItems: any[];
                 try {
-                  const content = extractionResponse.choices[0].message.content || '[]';
+                  const content = extractionResponse.content || '[]';
                   const cleaned = cleanJSONResponse(content);
-                  const actionItems = JSON.parse(cleaned);
-                  gatheredData.actionItems = actionItems;
-                  functionResult = { actionItems };
+                  actionItems = JSON.parse(cleaned);
                 } catch (e) {
                   functionResult = { actionItems: [] };
+                  break;
+                }
+
+                // Track them on the chat's task list; the answer doesn't depend on it
+                try {
+                  actionItems = await actionItemService.saveActionItems({
+                    chatId,
+                    items: actionItems,
+                    createdBy: context.auth.uid,
+                    sourceMessageIds: functionArgs.messageIds,
+                  });
+                } catch (error) {
+                  console.error('Error saving action items:', error);
                 }
+
+                gatheredData.actionItems = actionItems;
+                functionResult = { actionItems };
                 break;
               }
 
               case 'extract_dates_and_deadlines': {
-                // Get the actual message texts
-                const messageTexts = gatheredData.messages
-                  .filter((m: any) => functionArgs.messageIds.includes(m.id || m.messageId))
-                  .map((m: any) => m.text)
+                // Get the actual messages
+                const sourceMessages = gatheredData.messages
+                  .filter((m: any) => functionArgs.messageIds.includes(m.id || m.messageId));
+                const messageTexts = sourceMessages
+                  .map((m: any) => `[${m.id || m.messageId}] ${m.text}`)
                   .join('\n');
                 
-                // Use OpenAI for semantic understanding
-                const extractionPrompt = `Extract important dates, deadlines, and time references from these messages. Return as JSON array with format: [{date: string, description: string, isDeadline: boolean}]
+                // Use the LLM for semantic understanding
+                const extractionPrompt = `Extract important dates, deadlines, and time references from these messages. Return as JSON array with format: [{date: string, description: string, isDeadline: boolean, messageId: string}]
+Use the date wording from the message (e.g. "next Friday at 3pm"). messageId is the ID in brackets of the message that mentions the date.
 
 Messages:
 ${messageTexts}`;
 
-                const extractionResponse = await openai.chat.completions.create({
-                  model: 'gpt-4o-mini',
+                const extractionResponse = await llm.complete({
                   messages: [{ role: 'user', content: extractionPrompt }],
                   temperature: 0.3,
-                  max_tokens: 1000,
+                  maxTokens: 1000,
                 });
 
                 try {
-                  const content = extractionResponse.choices[0].message.content || '[]';
+                  const content = extractionResponse.content || '[]';
                   const cleaned = cleanJSONResponse(content);
-                  const dates = JSON.parse(cleaned);
+                  const extracted: any[] = JSON.parse(cleaned);
+                  
+                  // Resolve relative dates against when they were mentioned (for calendar export)
+                  const dates = extracted.map((date) => {
+                    const source = sourceMessages.find((m: any) => (m.id || m.messageId) === date.messageId);
+                    const resolved = source && typeof date.date === 'string'
+                      ? dateParsingService.resolveMentionedDate(date.date, source, timezoneOffset)
+                      : null;
+                    return {
+                      ...date,
+                      messageId: source ? date.messageId : undefined,
+                      ...(resolved && { resolvedStart: resolved.start, allDay: resolved.allDay }),
+                    };
+                  });
+                  
                   gatheredData.dates = dates;
                   functionResult = { dates };
                 } catch (e) {
@@ -875,10 +913,14 @@ ${messageTexts}`;
                   .filter((m: any) => functionArgs.messageIds.includes(m.id || m.messageId));
                 
                 const messageTexts = messages
-                  .map((m: any) => `${m.senderName || 'Unknown'}: ${m.text}`)
+                  .map((m: any) => {
+                    const reply = formatReplyTo(m.replyTo);
+                    const replyContext = reply ? ` (replying to ${reply.sender}: "${reply.text}")` : '';
+                    return `${m.senderName || 'Unknown'}${replyContext}: ${m.text}`;
+                  })
                   .join('\n');
                 
-                // Use OpenAI to analyze tone
+                // Use the LLM to analyze tone
                 const analysisPrompt = `Analyze the emotional tone and sentiment of this conversation. Return as JSON with format: {overall: string, sentiment: "positive"|"neutral"|"negative", details: string, keyEmotions: string[]}
 
 Conversation:
@@ -886,15 +928,14 @@ ${messageTexts}
 
 Provide the analysis in ${userLanguage}.`;
 
-                const analysisResponse = await openai.chat.completions.create({
-                  model: 'gpt-4o-mini',
+                const analysisResponse = await llm.complete({
                   messages: [{ role: 'user', content: analysisPrompt }],
                   temperature: 0.5,
-                  max_tokens: 500,
+                  maxTokens: 500,
                 });
 
                 try {
-                  const content = analysisResponse.choices[0].message.content || '{}';
+                  const content = analysisResponse.content || '{}';
                   const cleaned = cleanJSONResponse(content);
                   const toneAnalysis = JSON.parse(cleaned);
                   gatheredData.toneAnalysis = toneAnalysis;
@@ -921,7 +962,7 @@ Provide the analysis in ${userLanguage}.`;
           // Add function result to conversation
           messages.push({
             role: 'tool',
-            tool_call_id: toolCall.id,
+            toolCallId: toolCall.id,
             content: JSON.stringify(functionResult),
           });
         }
@@ -929,29 +970,17 @@ Provide the analysis in ${userLanguage}.`;
         // LLM provided final answer
         console.log('✅ [AI Assistant] LLM provided final response');
         
-        const finalContent = responseMessage.content || '';
-        
-        // Try to parse as structured JSON response
-        try {
-          const jsonMatch = finalContent.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            
-            return {
-              response: parsed,
-              metadata: {
-                toolCallsUsed: toolCallCount,
-                usedRAG: gatheredData.messages.length > 0,
-                usedFunctionCalling: toolCallCount > 0,
-              },
-            };
-          }
-        } catch (e) {
-          // Not JSON, return as text
-        }
+        const finalContent = response.content || '';
+        const metadata = {
+          toolCallsUsed: toolCallCount,
+          usedRAG: gatheredData.messages.length > 0,
+          usedFunctionCalling: toolCallCount > 0,
+          sessionId: session.sessionId,
+          threadId: session.threadId,
+        };
         
         // Return as structured response
-        return {
+        let result = {
           response: {
             summary: finalContent,
             actionItems: gatheredData.actionItems,
@@ -962,12 +991,21 @@ Provide the analysis in ${userLanguage}.`;
               text: m.text,
             })),
           },
-          metadata: {
-            toolCallsUsed: toolCallCount,
-            usedRAG: gatheredData.messages.length > 0,
-            usedFunctionCalling: toolCallCount > 0,
-          },
+          metadata,
         };
+        
+        // Try to parse as structured JSON response
+        try {
+          const jsonMatch = finalContent.match(/\{[\s\S]*\}/);
+          if (jsonMatch) {
+            result = { response: JSON.parse(jsonMatch[0]), metadata };
+          }
+        } catch (e) {
+          // Not JSON, return as text
+        }
+        
+        await session.complete(result);
+        return result;
       }
     }
 
@@ -975,14 +1013,122 @@ Provide the analysis in ${userLanguage}.`;
     throw new functions.https.HttpsError('deadline-exceeded', 'Query took too long to process (max tool calls exceeded)');
   } catch (error) {
     console.error('Error in intelligent chat assistant:', error);
+    await session.fail();
     throw new functions.https.HttpsError('internal', 'Failed to process query');
   }
 });
 
+// ==================== GLOBAL MESSAGE SEARCH ====================
+
+/**
+ * Search Messages
+ * 
+ * Semantic search across every chat the caller participates in
+ * (the assistant's search_conversation_semantically tool only covers one chat)
+ */
+export const searchAllMessages = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Must be logged in');
+  }
+
+  const { query, limit = 20 } = data;
+
+  if (!query || typeof query !== 'string' || query.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'Query is required');
+  }
+
+  await quotaService.consumeQuota(context.auth.uid, 'searchAllMessages');
+
+  try {
+    // Only search chats the caller is a participant of
+    const chatsSnapshot = await admin.firestore()
+      .collection('chats')
+      .where('participants', 'array-contains', context.auth.uid)
+      .get();
+    const chatIds = chatsSnapshot.docs.map((chatDoc) => chatDoc.id);
+
+    if (chatIds.length === 0) {
+      return { results: [] };
+    }
+
+    const results = await ragService.searchMessages({
+      chatIds,
+      query: query.trim(),
+      limit: Math.min(Number(limit) || 20, 50),
+      llm: getLLMProvider(),
+    });
+
+    return {
+      results: await ragService.filterVisibleResults(
+        results.filter((result) => chatIds.includes(result.chatId)),
+        context.auth.uid
+      ),
+    };
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to search messages');
+  }
+});
+
+// ==================== AI USAGE QUOTAS ====================
+
+/**
+ * Get AI Quota
+ * 
+ * Returns how many requests the caller has left today for each AI feature
+ */
+export const getAIQuota = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Must be logged in');
+  }
+
+  try {
+    const quotas = await quotaService.getQuotaStatus(context.auth.uid);
+    return { quotas };
+  } catch (error) {
+    console.error('Error getting AI quota:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to get AI quota');
+  }
+});
+
 // ==================== BACKGROUND MESSAGE INDEXING ====================
 
 /**
- * Automatically index new messages to Pinecone for RAG
+ * Embed a message and store it in the vector store
+ * Upserting by message ID replaces any previous embedding of the same message
+ */
+async function indexMessage(
+  chatId: string,
+  messageId: string,
+  message: admin.firestore.DocumentData
+): Promise<void> {
+  // Get sender name
+  let senderName = 'Unknown';
+  try {
+    const userDoc = await admin.firestore().collection('users').doc(message.senderId).get();
+    if (userDoc.exists) {
+      senderName = userDoc.data()?.displayName || 'Unknown';
+    }
+  } catch (e) {
+    console.error('Error fetching user for indexing:', e);
+  }
+
+  // Store embedding in the vector store
+  await ragService.storeMessageEmbedding({
+    messageId,
+    chatId,
+    text: message.text,
+    senderId: message.senderId,
+    senderName,
+    timestamp: message.timestamp?.toMillis() || Date.now(),
+    detectedLanguage: message.detectedLanguage,
+    replyTo: message.replyTo,
+    llm: getLLMProvider(),
+  });
+}
+
+/**
+ * Automatically index new messages in the vector store for RAG
  * Triggered when a message is created in Firestore
  */
 export const indexNewMessage = functions.firestore
@@ -992,44 +1138,380 @@ export const indexNewMessage = functions.firestore
     const { chatId, messageId } = context.params;
 
     try {
+      if (ragService.isSystemMessage(message)) {
+        console.log(`⏭️ Skipping indexing for system message ${messageId}`);
+        return;
+      }
+
       // Only index text messages (skip images-only messages)
       if (!message.text || message.text.trim() === '') {
         console.log(`⏭️ Skipping indexing for message ${messageId} (no text content)`);
         return;
       }
 
-      const openai = getOpenAI();
-      
-      // Get sender name
-      let senderName = 'Unknown';
-      try {
-        const userDoc = await admin.firestore().collection('users').doc(message.senderId).get();
-        if (userDoc.exists) {
-          senderName = userDoc.data()?.displayName || 'Unknown';
-        }
-      } catch (e) {
-        console.error('Error fetching user for indexing:', e);
+      await indexMessage(chatId, messageId, message);
+
+      console.log(`✅ Successfully indexed message ${messageId} in chat ${chatId}`);
+    } catch (error) {
+      console.error(`❌ Error indexing message ${messageId}:`, error);
+      // Don't throw - indexing failures shouldn't block message creation
+    }
+  });
+
+/**
+ * Re-index edited messages
+ * Triggered when a message's text changes; regenerates the stored embedding
+ */
+export const reindexEditedMessage = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const { chatId, messageId } = context.params;
+
+    // Only react to text edits (read receipts, language detection, etc. also update messages)
+    // Deletions are handled by removeDeletedMessageFromIndex
+    if (before.text === after.text || after.deletedForEveryone) {
+      return;
+    }
+
+    try {
+      if (!after.text || after.text.trim() === '') {
+        console.log(`⏭️ Skipping re-indexing for message ${messageId} (no text content)`);
+        return;
       }
 
-      // Store embedding in Pinecone
-      await ragService.storeMessageEmbedding({
-        messageId,
+      await indexMessage(chatId, messageId, after);
+
+      console.log(`✅ Successfully re-indexed edited message ${messageId} in chat ${chatId}`);
+    } catch (error) {
+      console.error(`❌ Error re-indexing message ${messageId}:`, error);
+    }
+  });
+
+/**
+ * Remove messages deleted for everyone from the vector store
+ * Triggered when a message is soft-deleted so the AI assistant can no longer quote it.
+ * Replies quoting it lose the quoted text and are re-indexed without it.
+ */
+export const removeDeletedMessageFromIndex = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const { chatId, messageId } = context.params;
+
+    if (before.deletedForEveryone || !after.deletedForEveryone) {
+      return;
+    }
+
+    await ragService.deleteMessageEmbedding(messageId);
+
+    console.log(`✅ Removed deleted message ${messageId} in chat ${chatId} from index`);
+
+    try {
+      const replies = await replyService.scrubDeletedQuotes({ chatId, messageId });
+      await Promise.all(
+        replies
+          .filter((reply) => ragService.isIndexableMessage(reply.data))
+          .map((reply) => indexMessage(chatId, reply.id, reply.data))
+      );
+
+      if (replies.length > 0) {
+        console.log(`✅ Removed the quote of ${messageId} from ${replies.length} reply message(s)`);
+      }
+    } catch (error) {
+      console.error(`❌ Error removing the quote of deleted message ${messageId}:`, error);
+    }
+  });
+
+/**
+ * Maintain per-user unread counters
+ * Triggered when a message is created; increments users/{uid}/userChats/{chatId}.unreadCount
+ * for every participant except the sender. Clients reset their own counter when they read the chat.
+ */
+export const incrementUnreadCounters = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snapshot, context) => {
+    const message = snapshot.data();
+    const { chatId, messageId } = context.params;
+
+    // System messages (members joining/leaving, renames) never count as unread
+    if (ragService.isSystemMessage(message)) {
+      return;
+    }
+
+    try {
+      const chatDoc = await admin.firestore().collection('chats').doc(chatId).get();
+      const participants: string[] = chatDoc.data()?.participants || [];
+      const recipients = participants.filter((uid) => uid !== message.senderId);
+
+      if (recipients.length === 0) {
+        return;
+      }
+
+      const batch = admin.firestore().batch();
+      for (const uid of recipients) {
+        const userChatRef = admin.firestore()
+          .collection('users').doc(uid)
+          .collection('userChats').doc(chatId);
+        batch.set(
+          userChatRef,
+          {
+            chatId,
+            unreadCount: admin.firestore.FieldValue.increment(1),
+          },
+          { merge: true }
+        );
+      }
+      await batch.commit();
+
+      console.log(`✅ Incremented unread counters for ${recipients.length} participant(s) of chat ${chatId}`);
+    } catch (error) {
+      console.error(`❌ Error updating unread counters for message ${messageId}:`, error);
+    }
+  });
+
+// ==================== WRITE-TIME TRANSLATION ====================
+
+/**
+ * Translate new messages for every participant
+ * Triggered when a message is created; detects its language once and stores
+ * translations into each participant's preferredLanguage on the message, so
+ * recipients' clients don't each call translateText
+ */
+export const translateNewMessage = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snapshot, context) => {
+    const message = snapshot.data();
+    const { chatId, messageId } = context.params;
+
+    if (!ragService.isIndexableMessage(message)) {
+      return;
+    }
+
+    try {
+      const translations = await messageTranslationService.translateMessageForParticipants({
         chatId,
+        messageId,
         text: message.text,
-        senderId: message.senderId,
-        senderName,
-        timestamp: message.timestamp?.toMillis() || Date.now(),
-        detectedLanguage: message.detectedLanguage,
-        openai,
       });
+      if (translations) {
+        console.log(`🌐 Translated message ${messageId} (${translations.detectedLanguage}) into ${Object.keys(translations.translationCache).length} language(s)`);
+      }
+    } catch (error) {
+      console.error(`❌ Error translating message ${messageId}:`, error);
+      // Clients fall back to translating on demand
+    }
+  });
 
-      console.log(`✅ Successfully indexed message ${messageId} in chat ${chatId}`);
+/**
+ * Re-translate edited messages
+ * Triggered when a message's text changes; replaces the language and
+ * translations of the previous text
+ */
+export const retranslateEditedMessage = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const { chatId, messageId } = context.params;
+
+    if (before.text === after.text || after.deletedForEveryone) {
+      return;
+    }
+
+    try {
+      if (!ragService.isIndexableMessage(after)) {
+        await change.after.ref.update({
+          detectedLanguage: admin.firestore.FieldValue.delete(),
+          translationCache: admin.firestore.FieldValue.delete(),
+          translationQuality: admin.firestore.FieldValue.delete(),
+          translationGlossaryVersion: admin.firestore.FieldValue.delete(),
+        });
+        return;
+      }
+
+      await messageTranslationService.translateMessageForParticipants({
+        chatId,
+        messageId,
+        text: after.text,
+      });
+      console.log(`🌐 Re-translated edited message ${messageId}`);
     } catch (error) {
-      console.error(`❌ Error indexing message ${messageId}:`, error);
-      // Don't throw - indexing failures shouldn't block message creation
+      console.error(`❌ Error re-translating message ${messageId}:`, error);
     }
   });
 
+// ==================== DEADLINE REMINDERS ====================
+
+/**
+ * Offer deadline reminders
+ * Triggered when a message is created; if it sets a future deadline, every
+ * participant is offered a reminder (reminders/{messageId}_{uid})
+ */
+export const offerDeadlineReminders = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snapshot, context) => {
+    const message = snapshot.data();
+    const { chatId, messageId } = context.params;
+
+    if (ragService.isSystemMessage(message)) {
+      return;
+    }
+
+    try {
+      const deadline = await reminderService.offerReminders({ chatId, messageId, message });
+      if (deadline) {
+        console.log(`⏰ Offered reminders for deadline "${deadline.text}" in message ${messageId}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error offering reminders for message ${messageId}:`, error);
+    }
+  });
+
+/**
+ * Sync deadline reminders
+ * Triggered when a message is edited or deleted for everyone; its reminders
+ * follow the new deadline, or go with the deadline or the message
+ */
+export const syncDeadlineReminders = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const { chatId, messageId } = context.params;
+
+    const deleted = !before.deletedForEveryone && !!after.deletedForEveryone;
+    if (ragService.isSystemMessage(after) || (before.text === after.text && !deleted)) {
+      return;
+    }
+
+    try {
+      const outcome = await reminderService.syncReminders({ chatId, messageId, message: after });
+      if (outcome !== 'unchanged') {
+        console.log(`⏰ Reminders for message ${messageId}: ${outcome}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error syncing reminders for message ${messageId}:`, error);
+    }
+  });
+
+/**
+ * Deliver Deadline Reminders
+ * 
+ * Scheduled every 5 minutes; sends accepted and snoozed reminders that are due
+ * through the Realtime Database notification queue
+ */
+export const deliverDeadlineReminders = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const delivered = await reminderService.deliverDueReminders();
+    if (delivered > 0) {
+      console.log(`⏰ Delivered ${delivered} reminder(s)`);
+    }
+    return null;
+  });
+
+// ==================== RAG INDEX BACKFILL ====================
+
+// Callables time out after 60s, so they only run the first slice of a job
+const BACKFILL_CALLABLE_BUDGET_MS = 45 * 1000;
+const BACKFILL_SCHEDULED_BUDGET_MS = 480 * 1000;
+
+/**
+ * Summarize a backfill job for admin clients
+ */
+function formatBackfillJob(jobId: string, job: backfillService.BackfillJob) {
+  return {
+    jobId,
+    status: job.status,
+    chatsTotal: job.chatIds.length,
+    chatsDone: job.chatIndex,
+    totals: job.totals,
+    chats: job.chatIds.map((chatId) => {
+      const { cursor, ...progress } = job.progress[chatId];
+      return { chatId, ...progress };
+    }),
+  };
+}
+
+/**
+ * Start RAG Backfill (admin only)
+ * 
+ * Creates a job that embeds every message missing from the vector index
+ * (optionally limited to data.chatIds) and runs its first slice.
+ * continueRagBackfill finishes the rest in the background.
+ */
+export const startRagBackfill = functions.https.onCall(async (data, context) => {
+  const adminId = assertAdmin(context);
+  const chatIds: unknown = data?.chatIds;
+
+  if (chatIds !== undefined &&
+      (!Array.isArray(chatIds) || !chatIds.every((chatId) => typeof chatId === 'string' && chatId))) {
+    throw new functions.https.HttpsError('invalid-argument', 'chatIds must be an array of chat IDs');
+  }
+
+  try {
+    const jobId = await backfillService.createBackfillJob(adminId, chatIds as string[] | undefined);
+    await backfillService.runBackfillJob(jobId, { timeBudgetMs: BACKFILL_CALLABLE_BUDGET_MS });
+
+    const job = await backfillService.getBackfillJob(jobId);
+    return formatBackfillJob(jobId, job!);
+  } catch (error) {
+    console.error('Error starting RAG backfill:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to start backfill');
+  }
+});
+
+/**
+ * Get RAG Backfill Status (admin only)
+ * 
+ * Returns progress and failures per chat
+ */
+export const getRagBackfillStatus = functions.https.onCall(async (data, context) => {
+  assertAdmin(context);
+
+  const { jobId } = data || {};
+  if (!jobId || typeof jobId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'Job ID is required');
+  }
+
+  const job = await backfillService.getBackfillJob(jobId);
+  if (!job) {
+    throw new functions.https.HttpsError('not-found', 'Backfill job not found');
+  }
+
+  return formatBackfillJob(jobId, job);
+});
+
+/**
+ * Continue RAG Backfill
+ * 
+ * Scheduled every 10 minutes; resumes running jobs from their last checkpoint
+ */
+export const continueRagBackfill = functions
+  .runWith({ timeoutSeconds: 540 })
+  .pubsub
+  .schedule('every 10 minutes')
+  .onRun(async () => {
+    const startedAt = Date.now();
+    const jobIds = await backfillService.getRunningJobIds();
+
+    for (const jobId of jobIds) {
+      const remainingMs = BACKFILL_SCHEDULED_BUDGET_MS - (Date.now() - startedAt);
+      if (remainingMs <= 0) break;
+
+      try {
+        await backfillService.runBackfillJob(jobId, { timeBudgetMs: remainingMs });
+      } catch (error) {
+        console.error(`❌ Error continuing backfill job ${jobId}:`, error);
+      }
+    }
+
+    return null;
+  });
+
 // ==================== KEEP-WARM FUNCTION ====================
 
 /**
@@ -0,0 +1,289 @@
+/**
+ * LLM Provider
+ *
+ * Chat completions, tool calling and embeddings behind one interface so the
+ * functions don't depend on OpenAI directly.
+ *
+ * Selected with the LLM_PROVIDER environment variable:
+ * - 'openai' (default): OpenAI API
+ * - 'fake': deterministic local provider for unit tests and the emulator (no network)
+ */
+
+import * as functions from 'firebase-functions';
+import OpenAI from 'openai';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[]; // The model may answer with toolCalls instead of content
+  onContentDelta?: (delta: string) => void; // Stream content as it's generated
+}
+
+export interface ChatCompletionResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  embed(text: string): Promise<number[]>;
+}
+
+const CHAT_MODEL = 'gpt-4o-mini';
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 1536; // text-embedding-3-small
+
+// ==================== OPENAI ====================
+
+// Get OpenAI API key from Firebase config or environment variable
+function getOpenAIKey(): string {
+  // Try environment variable first (for local emulator)
+  if (process.env.OPENAI_API_KEY) {
+    console.log('Using OpenAI API key from environment variable');
+    return process.env.OPENAI_API_KEY;
+  }
+
+  // Fall back to Firebase config (for production)
+  try {
+    const config = functions.config();
+    if (config.openai && config.openai.key) {
+      console.log('Using OpenAI API key from Firebase config');
+      return config.openai.key;
+    }
+  } catch (error) {
+    console.error('Error getting Firebase config:', error);
+  }
+
+  throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY environment variable or run: firebase functions:config:set openai.key="YOUR_KEY"');
+}
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+      };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  // Lazy initialize OpenAI (only when actually called)
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: getOpenAIKey() });
+    }
+    return this.client;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const params = {
+      model: CHAT_MODEL,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({ type: 'function' as const, function: tool })),
+        tool_choice: 'auto' as const,
+      }),
+    };
+
+    if (request.onContentDelta) {
+      return this.completeStreaming(params, request.onContentDelta);
+    }
+
+    const response = await this.getClient().chat.completions.create(params);
+
+    const message = response.choices[0].message;
+    const toolCalls: ToolCall[] = [];
+    for (const call of message.tool_calls || []) {
+      // Custom (non-function) tools are never offered, so they're ignored
+      if (call.type !== 'function') continue;
+      toolCalls.push({ id: call.id, name: call.function.name, arguments: call.function.arguments });
+    }
+
+    return { content: message.content, toolCalls };
+  }
+
+  /**
+   * Stream a completion, forwarding content deltas and assembling tool calls from their fragments
+   */
+  private async completeStreaming(
+    params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    onContentDelta: (delta: string) => void
+  ): Promise<ChatCompletionResult> {
+    const stream = await this.getClient().chat.completions.create({ ...params, stream: true });
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onContentDelta(delta.content);
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    return { content: content || null, toolCalls: toolCalls.filter(Boolean) };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.getClient().embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: text,
+      encoding_format: 'float',
+    });
+    return response.data[0].embedding;
+  }
+}
+
+// ==================== FAKE ====================
+
+/**
+ * Simple string hash (FNV-1a) so fake output is stable across runs
+ */
+function hashString(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic provider that never touches the network
+ *
+ * - Scripted replies (enqueue) are returned first, in order
+ * - Otherwise prompts asking for JSON get an empty array/object and everything
+ *   else gets a stable echo of the last user message
+ * - Embeddings are hashed bags of words, so texts sharing words are similar
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly requests: ChatCompletionRequest[] = [];
+  private scripted: ChatCompletionResult[] = [];
+
+  enqueue(...results: Array<Partial<ChatCompletionResult>>): void {
+    this.scripted.push(...results.map((result) => ({
+      content: result.content ?? null,
+      toolCalls: result.toolCalls ?? [],
+    })));
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.scripted = [];
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    this.requests.push(request);
+
+    const result = this.scripted.shift() || this.defaultReply(request);
+
+    // Stream word by word so progress handling can be tested
+    if (request.onContentDelta && result.content) {
+      for (const word of result.content.match(/\S+\s*/g) || []) {
+        request.onContentDelta(word);
+      }
+    }
+
+    return result;
+  }
+
+  private defaultReply(request: ChatCompletionRequest): ChatCompletionResult {
+    const lastUserMessage = [...request.messages].reverse().find((m) => m.role === 'user');
+    const prompt = lastUserMessage?.content || '';
+
+    if (/JSON array/i.test(prompt)) return { content: '[]', toolCalls: [] };
+    if (/JSON/i.test(prompt)) return { content: '{}', toolCalls: [] };
+
+    return { content: `[fake:${hashString(prompt).toString(36)}] ${prompt.slice(0, 80)}`, toolCalls: [] };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+// ==================== SELECTION ====================
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Get the configured provider (created on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const configured = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+    if (configured === 'fake') {
+      provider = new FakeLLMProvider();
+    } else if (configured === 'openai') {
+      provider = new OpenAIProvider();
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected "openai" or "fake")`);
+    }
+
+    console.log(`✅ Using ${provider.name} LLM provider`);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (tests); pass null to go back to LLM_PROVIDER
+ */
+export function setLLMProvider(override: LLMProvider | null): void {
+  provider = override;
+}
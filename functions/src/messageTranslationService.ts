@@ -0,0 +1,338 @@
+/**
+ * Message Translation Service
+ *
+ * Language detection, translation and translation assessment prompts shared
+ * by the translateText / detectLanguage callables and the write-time translation triggers, which
+ * translate each message once into every participant's preferredLanguage and
+ * store the results on the message (detectedLanguage, translationCache,
+ * translationQuality)
+ */
+
+import * as admin from 'firebase-admin';
+import { getLLMProvider, LLMProvider } from './llmProvider';
+import { EMPTY_GLOSSARY, formatGlossaryPrompt, getGlossary, Glossary } from './glossaryService';
+
+// Returned when the text has no identifiable language (numbers, emoji, gibberish)
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Earlier messages sent with a context-aware translation request
+export const MAX_CONTEXT_MESSAGES = 5;
+const MAX_CONTEXT_MESSAGE_LENGTH = 500;
+
+// Most parts of a text flagged as better left untranslated
+export const MAX_UNTRANSLATABLE_ITEMS = 10;
+
+// URLs, email addresses and inline or fenced code are never translated
+const UNTRANSLATABLE_PATTERNS = [
+  /```[\s\S]*?```/g,
+  /`[^`\n]+`/g,
+  /\b(?:https?:\/\/|www\.)[^\s<>"]+[^\s<>".,;:!?)\]'}]/gi,
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+];
+
+/**
+ * A message preceding the one being translated, used to resolve short replies
+ * and pronouns ("yes, that one")
+ */
+export interface TranslationContextMessage {
+  senderName: string;
+  text: string;
+}
+
+/**
+ * How far a translation can be trusted, judged by the model after translating
+ */
+export interface TranslationAssessment {
+  confidence: number | null; // 0-1; null if the assessment failed
+  untranslatable: string[]; // Parts of the original kept as-is (names, code, URLs)
+}
+
+export interface MessageTranslations {
+  detectedLanguage: string;
+  translationCache: Record<string, string>; // language code -> translated text
+  translationQuality: Record<string, TranslationAssessment>; // language code -> assessment
+  translationGlossaryVersion: number; // Glossary version the translations followed
+}
+
+/**
+ * Detect the language of a text
+ * @returns ISO 639-1 code, or 'und' if it can't be identified
+ */
+export async function detectTextLanguage(
+  text: string,
+  llm: LLMProvider = getLLMProvider()
+): Promise<string> {
+  const prompt = `Detect the language of this text.
+Respond with ONLY the ISO 639-1 language code (e.g., 'en', 'es', 'fr', 'zh', 'ar').
+If the text is nonsensical, contains only numbers/symbols, or cannot be identified, respond with 'und' (undefined).
+
+Text: "${text}"
+
+Language code:`;
+
+  const response = await llm.complete({
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.1,
+    maxTokens: 10,
+  });
+
+  return response.content?.trim().toLowerCase() || UNDETERMINED_LANGUAGE;
+}
+
+/**
+ * Validate the context messages of a translate request, keeping the last few
+ * @param raw - Untrusted callable input
+ */
+export function normalizeTranslationContext(raw: unknown): TranslationContextMessage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((message: any) => typeof message?.text === 'string' && message.text.trim())
+    .slice(-MAX_CONTEXT_MESSAGES)
+    .map((message: any) => ({
+      senderName: typeof message.senderName === 'string' && message.senderName.trim()
+        ? message.senderName.trim()
+        : 'Unknown',
+      text: message.text.trim().slice(0, MAX_CONTEXT_MESSAGE_LENGTH),
+    }));
+}
+
+/**
+ * Conversation context for a translation prompt
+ * @returns A block to add to the prompt, or '' without context
+ */
+export function formatContextPrompt(context: TranslationContextMessage[]): string {
+  if (context.length === 0) return '';
+
+  const lines = context.map((message) => `${message.senderName}: ${message.text}`);
+  return `\nEarlier messages in this conversation, oldest first (use them only to resolve references; do not translate them):\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Translate a text, keeping its tone
+ * @param sourceLanguage - Language of the text if known
+ * @param glossary - The chat's glossary
+ * @param context - Messages preceding the text, for short or pronoun-heavy replies
+ */
+export async function translateTextTo(
+  text: string,
+  targetLanguage: string,
+  sourceLanguage?: string,
+  glossary: Glossary = EMPTY_GLOSSARY,
+  context: TranslationContextMessage[] = [],
+  llm: LLMProvider = getLLMProvider()
+): Promise<string> {
+  const sourceLangInfo = sourceLanguage ? ` from ${sourceLanguage}` : '';
+  const prompt = `Translate the following text${sourceLangInfo} to ${targetLanguage}.
+Maintain the tone and context. Return ONLY the translation, no explanations.
+${formatGlossaryPrompt(glossary, text, targetLanguage)}${formatContextPrompt(context)}
+Text: "${text}"
+
+Translation:`;
+
+  const response = await llm.complete({
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.3,
+    maxTokens: 500,
+  });
+
+  let translatedText = response.content?.trim() || text;
+
+  // Remove surrounding quotes if present (AI sometimes adds them)
+  if ((translatedText.startsWith('"') && translatedText.endsWith('"')) ||
+      (translatedText.startsWith("'") && translatedText.endsWith("'"))) {
+    translatedText = translatedText.slice(1, -1);
+  }
+
+  return translatedText;
+}
+
+/**
+ * Parts of a text that must stay as written: URLs, email addresses and code
+ */
+export function findUntranslatableSpans(text: string): string[] {
+  const spans: string[] = [];
+  let remaining = text;
+
+  // Code first, so URLs inside code blocks aren't listed twice
+  for (const pattern of UNTRANSLATABLE_PATTERNS) {
+    remaining = remaining.replace(pattern, (match) => {
+      spans.push(match);
+      return ' ';
+    });
+  }
+
+  return Array.from(new Set(spans));
+}
+
+/**
+ * Validate the model's assessment of a translation
+ * @param content - Raw model answer, expected to hold a JSON object
+ * @param text - The original text; flagged items must appear in it
+ */
+export function parseTranslationAssessment(content: string | null, text: string): TranslationAssessment {
+  const spans = findUntranslatableSpans(text);
+  const jsonMatch = content?.match(/\{[\s\S]*\}/);
+
+  let parsed: any = {};
+  try {
+    parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
+  } catch {
+    console.error('Unparseable translation assessment:', content);
+  }
+
+  const confidence = typeof parsed.confidence === 'number' && Number.isFinite(parsed.confidence)
+    ? Math.min(Math.max(parsed.confidence, 0), 1)
+    : null;
+
+  const lowerText = text.toLowerCase();
+  const flagged: string[] = Array.isArray(parsed.untranslatable)
+    ? parsed.untranslatable
+      .filter((item: unknown): item is string => typeof item === 'string')
+      .map((item: string) => item.trim())
+      .filter((item: string) => item && lowerText.includes(item.toLowerCase()))
+    : [];
+
+  return {
+    confidence,
+    untranslatable: Array.from(new Set([...spans, ...flagged])).slice(0, MAX_UNTRANSLATABLE_ITEMS),
+  };
+}
+
+/**
+ * Ask the model how faithful a translation is and what it left untranslated
+ * Never throws: a failed assessment has no confidence
+ */
+export async function assessTranslation(
+  text: string,
+  translatedText: string,
+  targetLanguage: string,
+  sourceLanguage?: string,
+  llm: LLMProvider = getLLMProvider()
+): Promise<TranslationAssessment> {
+  const prompt = `Review this translation${sourceLanguage ? ` from ${sourceLanguage}` : ''} to ${targetLanguage}.
+1. Rate from 0 to 1 how sure you are that it conveys the original's meaning and tone. Rate lower when the original is ambiguous, garbled, very short or heavily idiomatic.
+2. List the parts of the original that should stay as written rather than be translated: names of people, places, products or brands, code, URLs and email addresses. Copy them exactly as they appear in the original.
+
+Original: "${text}"
+Translation: "${translatedText}"
+
+Respond with a JSON object: {"confidence": <number>, "untranslatable": [<strings>]}`;
+
+  try {
+    const response = await llm.complete({
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+      maxTokens: 200,
+    });
+    return parseTranslationAssessment(response.content, text);
+  } catch (error) {
+    console.error('Error assessing translation:', error);
+    return { confidence: null, untranslatable: findUntranslatableSpans(text) };
+  }
+}
+
+/**
+ * Distinct preferred languages of a chat's participants
+ */
+export async function getParticipantLanguages(
+  chatId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<string[]> {
+  const chatDoc = await db.collection('chats').doc(chatId).get();
+  const participants: string[] = chatDoc.data()?.participants || [];
+  if (participants.length === 0) return [];
+
+  const userDocs = await db.getAll(...participants.map((uid) => db.collection('users').doc(uid)));
+  const languages = userDocs
+    .map((userDoc) => userDoc.data()?.preferredLanguage)
+    .filter((language): language is string => typeof language === 'string' && language.length > 0);
+
+  return Array.from(new Set(languages));
+}
+
+/**
+ * Detect a message's language, translate it into each target language and
+ * assess each translation
+ * Targets in the message's own language are skipped; a failed translation is
+ * left out so clients fall back to translating that language on demand
+ */
+export async function translateForLanguages(
+  text: string,
+  targetLanguages: string[],
+  glossary: Glossary = EMPTY_GLOSSARY,
+  llm: LLMProvider = getLLMProvider()
+): Promise<MessageTranslations> {
+  const translationGlossaryVersion = glossary.version;
+
+  const detectedLanguage = await detectTextLanguage(text, llm);
+  if (detectedLanguage === UNDETERMINED_LANGUAGE) {
+    return { detectedLanguage, translationCache: {}, translationQuality: {}, translationGlossaryVersion };
+  }
+
+  const targets = targetLanguages.filter((language) => language !== detectedLanguage);
+  const results = await Promise.allSettled(
+    targets.map((language) => translateTextTo(text, language, detectedLanguage, glossary, [], llm))
+  );
+
+  const translationCache: Record<string, string> = {};
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      translationCache[targets[i]] = result.value;
+    } else {
+      console.error(`Error translating message to ${targets[i]}:`, result.reason);
+    }
+  });
+
+  // Readers of a write-time translation get the same quality flags as on-demand ones
+  const translated = Object.keys(translationCache);
+  const assessments = await Promise.all(
+    translated.map((language) =>
+      assessTranslation(text, translationCache[language], language, detectedLanguage, llm)
+    )
+  );
+  const translationQuality: Record<string, TranslationAssessment> = {};
+  translated.forEach((language, i) => {
+    translationQuality[language] = assessments[i];
+  });
+
+  return { detectedLanguage, translationCache, translationQuality, translationGlossaryVersion };
+}
+
+/**
+ * Translate a message into its chat's participant languages and store the
+ * result on the message. Skipped if the text changed while translating
+ * (the edit trigger translates the new text).
+ * @returns The stored translations, or null if the message was skipped
+ */
+export async function translateMessageForParticipants(params: {
+  chatId: string;
+  messageId: string;
+  text: string;
+  db?: admin.firestore.Firestore;
+  llm?: LLMProvider;
+}): Promise<MessageTranslations | null> {
+  const { chatId, messageId, text, db = admin.firestore(), llm = getLLMProvider() } = params;
+
+  const [languages, glossary] = await Promise.all([
+    getParticipantLanguages(chatId, db),
+    getGlossary(chatId, db),
+  ]);
+  const translations = await translateForLanguages(text, languages, glossary, llm);
+
+  const messageRef = db.collection('chats').doc(chatId).collection('messages').doc(messageId);
+  return db.runTransaction(async (transaction) => {
+    const current = await transaction.get(messageRef);
+    if (!current.exists || current.data()?.text !== text) {
+      return null;
+    }
+
+    transaction.update(messageRef, {
+      detectedLanguage: translations.detectedLanguage,
+      translationCache: translations.translationCache,
+      translationQuality: translations.translationQuality,
+      translationGlossaryVersion: translations.translationGlossaryVersion,
+    });
+    return translations;
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Quota Service
+ * Per-user, per-feature limits on the OpenAI-backed callables
+ *
+ * Each feature has a token bucket (short bursts) plus a daily cap.
+ * State lives in aiQuotas/{uid}/features/{feature} and is only written here.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+export type AIFeature =
+  | 'translateText'
+  | 'detectLanguage'
+  | 'adjustFormality'
+  | 'explainSlang'
+  | 'getCulturalContext'
+  | 'summarizeMultilingualThread'
+  | 'intelligentChatAssistant'
+  | 'searchAllMessages';
+
+export interface QuotaLimits {
+  capacity: number; // Bucket size (max burst)
+  refillPerMinute: number; // Tokens added back per minute
+  dailyCap: number; // Requests allowed per UTC day
+}
+
+export interface QuotaState {
+  tokens: number;
+  lastRefillAt: number; // ms since epoch
+  day: string; // UTC day the usedToday counter belongs to (YYYY-MM-DD)
+  usedToday: number;
+}
+
+export interface QuotaStatus {
+  feature: AIFeature;
+  dailyCap: number;
+  usedToday: number;
+  remainingToday: number;
+  resetsAt: number; // ms since epoch (next UTC midnight)
+}
+
+export const QUOTA_LIMITS: Record<AIFeature, QuotaLimits> = {
+  translateText: { capacity: 30, refillPerMinute: 30, dailyCap: 1000 },
+  detectLanguage: { capacity: 60, refillPerMinute: 60, dailyCap: 2000 },
+  adjustFormality: { capacity: 10, refillPerMinute: 10, dailyCap: 200 },
+  explainSlang: { capacity: 20, refillPerMinute: 20, dailyCap: 300 },
+  getCulturalContext: { capacity: 20, refillPerMinute: 20, dailyCap: 300 },
+  summarizeMultilingualThread: { capacity: 5, refillPerMinute: 2, dailyCap: 50 },
+  intelligentChatAssistant: { capacity: 5, refillPerMinute: 2, dailyCap: 50 },
+  searchAllMessages: { capacity: 20, refillPerMinute: 10, dailyCap: 300 },
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * UTC day key for a timestamp
+ */
+export function getDayKey(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Next UTC midnight after a timestamp
+ */
+function getNextReset(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Bring a stored bucket up to date: refill tokens for elapsed time
+ * and start a new daily counter when the UTC day has changed
+ */
+export function refillBucket(
+  state: QuotaState | undefined,
+  limits: QuotaLimits,
+  now: number
+): QuotaState {
+  if (!state) {
+    return { tokens: limits.capacity, lastRefillAt: now, day: getDayKey(now), usedToday: 0 };
+  }
+
+  const elapsedMinutes = Math.max(0, now - state.lastRefillAt) / MS_PER_MINUTE;
+  const today = getDayKey(now);
+
+  return {
+    tokens: Math.min(limits.capacity, state.tokens + elapsedMinutes * limits.refillPerMinute),
+    lastRefillAt: now,
+    day: today,
+    usedToday: state.day === today ? state.usedToday : 0,
+  };
+}
+
+function getQuotaRef(db: admin.firestore.Firestore, userId: string, feature: AIFeature) {
+  return db.collection('aiQuotas').doc(userId).collection('features').doc(feature);
+}
+
+/**
+ * Spend one request from a user's quota for a feature
+ * Throws resource-exhausted (with retry details) when the bucket is empty or the daily cap is hit
+ * @param userId - Caller's uid
+ * @param feature - Callable being invoked
+ * @param db - Firestore instance (defaults to the admin app's)
+ * @returns Requests left today for the feature
+ */
+export async function consumeQuota(
+  userId: string,
+  feature: AIFeature,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<number> {
+  const limits = QUOTA_LIMITS[feature];
+  const quotaRef = getQuotaRef(db, userId, feature);
+
+  return db.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const snapshot = await transaction.get(quotaRef);
+    const state = refillBucket(snapshot.data() as QuotaState | undefined, limits, now);
+
+    if (state.usedToday >= limits.dailyCap) {
+      throw new functions.https.HttpsError('resource-exhausted', 'Daily AI limit reached', {
+        feature,
+        reason: 'daily',
+        remainingToday: 0,
+        retryAfterSeconds: Math.ceil((getNextReset(now) - now) / 1000),
+      });
+    }
+
+    if (state.tokens < 1) {
+      throw new functions.https.HttpsError('resource-exhausted', 'Too many AI requests, slow down', {
+        feature,
+        reason: 'burst',
+        remainingToday: limits.dailyCap - state.usedToday,
+        retryAfterSeconds: Math.ceil(((1 - state.tokens) / limits.refillPerMinute) * 60),
+      });
+    }
+
+    const updated: QuotaState = {
+      ...state,
+      tokens: state.tokens - 1,
+      usedToday: state.usedToday + 1,
+    };
+    transaction.set(quotaRef, updated);
+
+    return limits.dailyCap - updated.usedToday;
+  });
+}
+
+/**
+ * Current daily usage of every feature for a user
+ * @param userId - User to look up
+ * @param db - Firestore instance (defaults to the admin app's)
+ */
+export async function getQuotaStatus(
+  userId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<QuotaStatus[]> {
+  const now = Date.now();
+  const today = getDayKey(now);
+  const snapshot = await db.collection('aiQuotas').doc(userId).collection('features').get();
+
+  const usage = new Map<string, number>();
+  snapshot.docs.forEach((docSnap) => {
+    const state = docSnap.data() as QuotaState;
+    usage.set(docSnap.id, state.day === today ? state.usedToday : 0);
+  });
+
+  return (Object.keys(QUOTA_LIMITS) as AIFeature[]).map((feature) => {
+    const { dailyCap } = QUOTA_LIMITS[feature];
+    const usedToday = usage.get(feature) ?? 0;
+
+    return {
+      feature,
+      dailyCap,
+      usedToday,
+      remainingToday: Math.max(0, dailyCap - usedToday),
+      resetsAt: getNextReset(now),
+    };
+  });
+}
@@ -1,59 +1,48 @@
 /**
  * RAG Service - Retrieval-Augmented Generation
  * 
- * Manages vector embeddings and semantic search over conversation history using Pinecone
+ * Manages vector embeddings and semantic search over conversation history
+ * using the configured vector store (see vectorStore)
  */
 
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
+import { LLMProvider } from './llmProvider';
+import { getVectorStore, VectorRecord } from './vectorStore';
 import * as admin from 'firebase-admin';
 
-// Pinecone configuration
-const INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'message-ai-conversations';
-
-// Lazy initialize Pinecone
-let pinecone: Pinecone | null = null;
+/**
+ * System messages (members joining/leaving, group renamed) have no user content,
+ * so they are never indexed or shown to the assistant
+ */
+export function isSystemMessage(message: admin.firestore.DocumentData): boolean {
+  return message.type === 'system' || !!message.system;
+}
 
-function getPinecone(): Pinecone {
-  if (!pinecone) {
-    const apiKey = process.env.PINECONE_API_KEY;
-    if (!apiKey) {
-      throw new Error('PINECONE_API_KEY environment variable not set');
-    }
-    
-    pinecone = new Pinecone({
-      apiKey,
-    });
-    
-    console.log('✅ Pinecone initialized');
-  }
-  return pinecone;
+/**
+ * Whether a message belongs in the vector index: user-authored, with text, not deleted
+ */
+export function isIndexableMessage(message: admin.firestore.DocumentData): boolean {
+  return !isSystemMessage(message) &&
+    !message.deletedForEveryone &&
+    typeof message.text === 'string' &&
+    message.text.trim() !== '';
 }
 
 /**
- * Generate embedding for text using OpenAI
+ * Generate embedding for text using the configured LLM provider
  */
 export async function generateEmbedding(
   text: string,
-  openai: OpenAI
+  llm: LLMProvider
 ): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-      encoding_format: 'float',
-    });
-    return response.data[0].embedding;
+    return await llm.embed(text);
   } catch (error) {
     console.error('Error generating embedding:', error);
     throw error;
   }
 }
 
-/**
- * Store message embedding in Pinecone
- */
-export async function storeMessageEmbedding(params: {
+export interface MessageEmbeddingInput {
   messageId: string;
   chatId: string;
   text: string;
@@ -61,48 +50,83 @@ export async function storeMessageEmbedding(params: {
   senderName: string;
   timestamp: number;
   detectedLanguage?: string;
-  openai: OpenAI;
-}): Promise<void> {
+  replyTo?: { messageId: string; senderName: string; text: string };
+}
+
+/**
+ * Embed a message and build its vector record (throws if embedding fails)
+ */
+export async function buildMessageRecord(
+  params: MessageEmbeddingInput,
+  llm: LLMProvider
+): Promise<VectorRecord> {
+  const { messageId, chatId, text, senderId, senderName, timestamp, detectedLanguage, replyTo } = params;
+
+  const embedding = await generateEmbedding(text, llm);
+
+  return {
+    id: messageId,
+    values: embedding,
+    metadata: {
+      chatId,
+      text,
+      senderId,
+      senderName,
+      timestamp,
+      detectedLanguage: detectedLanguage || 'unknown',
+      // Vector metadata can't hold nested objects, so the reply reference is flattened
+      ...(replyTo && {
+        replyToId: replyTo.messageId,
+        replyToSender: replyTo.senderName,
+        replyToText: replyTo.text,
+      }),
+    },
+  };
+}
+
+/**
+ * Store message embedding in the vector store
+ */
+export async function storeMessageEmbedding(
+  params: MessageEmbeddingInput & { llm: LLMProvider }
+): Promise<void> {
   try {
-    const { messageId, chatId, text, senderId, senderName, timestamp, detectedLanguage, openai } = params;
+    const record = await buildMessageRecord(params, params.llm);
+    await getVectorStore().upsert([record]);
     
-    // Generate embedding
-    const embedding = await generateEmbedding(text, openai);
-    
-    // Get Pinecone index
-    const pc = getPinecone();
-    const index = pc.index(INDEX_NAME);
-    
-    // Upsert vector with metadata
-    await index.upsert([{
-      id: messageId,
-      values: embedding,
-      metadata: {
-        chatId,
-        text,
-        senderId,
-        senderName,
-        timestamp,
-        detectedLanguage: detectedLanguage || 'unknown',
-      },
-    }]);
-    
-    console.log(`✅ Stored embedding for message ${messageId} in chat ${chatId}`);
+    console.log(`✅ Stored embedding for message ${params.messageId} in chat ${params.chatId}`);
   } catch (error) {
     console.error('Error storing message embedding:', error);
-    // Don't throw - embedding storage is not critical
+    // Don't throw - embedding storage is not critical; the backfill job picks it up later
+  }
+}
+
+/**
+ * Delete a message embedding from the vector store
+ * Used when a message is deleted for everyone so the assistant can no longer quote it
+ */
+export async function deleteMessageEmbedding(messageId: string): Promise<void> {
+  try {
+    await getVectorStore().delete([messageId]);
+    
+    console.log(`🗑️ Deleted embedding for message ${messageId}`);
+  } catch (error) {
+    console.error('Error deleting message embedding:', error);
+    // Don't throw - embedding removal is retried by the next delete/backfill
   }
 }
 
 /**
- * Search for messages semantically using Pinecone
+ * Search for messages semantically using the vector store
  */
 export async function searchMessages(params: {
-  chatId: string;
+  chatId?: string;
+  chatIds?: string[];
   query: string;
   limit?: number;
-  openai: OpenAI;
+  llm: LLMProvider;
 }): Promise<Array<{
+  chatId: string;
   messageId: string;
   text: string;
   senderId: string;
@@ -110,26 +134,24 @@ export async function searchMessages(params: {
   timestamp: number;
   detectedLanguage: string;
   score: number;
+  replyTo?: { messageId: string; senderName: string; text: string };
 }>> {
   try {
-    const { chatId, query, limit = 10, openai } = params;
+    const { chatId, chatIds, query, limit = 10, llm } = params;
     
     // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query, openai);
-    
-    // Search Pinecone
-    const pc = getPinecone();
-    const index = pc.index(INDEX_NAME);
+    const queryEmbedding = await generateEmbedding(query, llm);
     
-    const queryResponse = await index.query({
+    const matches = await getVectorStore().query({
       vector: queryEmbedding,
       topK: limit,
-      filter: { chatId: { $eq: chatId } },
-      includeMetadata: true,
+      // Either a single chat, or any of the given chats (global search)
+      filter: chatId ? { chatId: { $eq: chatId } } : { chatId: { $in: chatIds || [] } },
     });
     
     // Transform results
-    const results = queryResponse.matches.map((match: any) => ({
+    const results = matches.map((match: any) => ({
+      chatId: match.metadata.chatId || chatId || '',
       messageId: match.id,
       text: match.metadata.text || '',
       senderId: match.metadata.senderId || '',
@@ -137,6 +159,13 @@ export async function searchMessages(params: {
       timestamp: match.metadata.timestamp || 0,
       detectedLanguage: match.metadata.detectedLanguage || 'unknown',
       score: match.score || 0,
+      replyTo: match.metadata.replyToId
+        ? {
+            messageId: match.metadata.replyToId,
+            senderName: match.metadata.replyToSender || 'Unknown',
+            text: match.metadata.replyToText || '',
+          }
+        : undefined,
     }));
     
     console.log(`🔍 Semantic search found ${results.length} results for query: "${query}"`);
@@ -147,6 +176,32 @@ export async function searchMessages(params: {
   }
 }
 
+/**
+ * Drop search results the user can no longer see: messages they deleted for
+ * themselves, messages deleted for everyone and messages that are gone. The
+ * vector index is shared by all participants, so it can't filter these itself.
+ */
+export async function filterVisibleResults<T extends { chatId: string; messageId: string }>(
+  results: T[],
+  userId: string,
+  db: admin.firestore.Firestore = admin.firestore()
+): Promise<T[]> {
+  if (results.length === 0) return [];
+  
+  const messageDocs = await db.getAll(
+    ...results.map((result) =>
+      db.collection('chats').doc(result.chatId).collection('messages').doc(result.messageId)
+    )
+  );
+  
+  return results.filter((_, i) => {
+    const message = messageDocs[i].data();
+    return !!message &&
+      !message.deletedForEveryone &&
+      !(message.deletedFor || []).includes(userId);
+  });
+}
+
 /**
  * Get messages within a date range from Firestore
  */
@@ -193,12 +248,14 @@ export async function getMessagesByDateRange(params: {
       }
     }
     
-    const messages = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      senderName: senderNames[doc.data().senderId] || 'Unknown',
-      timestamp: doc.data().timestamp?.toMillis() || 0,
-    }));
+    const messages = snapshot.docs
+      .filter(doc => !doc.data().deletedForEveryone && !isSystemMessage(doc.data()))
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        senderName: senderNames[doc.data().senderId] || 'Unknown',
+        timestamp: doc.data().timestamp?.toMillis() || 0,
+      }));
     
     console.log(`📅 Found ${messages.length} messages between ${startDate.toISOString()} and ${endDate.toISOString()}`);
     return messages;
@@ -240,12 +297,14 @@ export async function getMessagesBySender(params: {
       console.error('Error fetching sender name:', e);
     }
     
-    const messages = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      senderName,
-      timestamp: doc.data().timestamp?.toMillis() || 0,
-    }));
+    const messages = snapshot.docs
+      .filter(doc => !doc.data().deletedForEveryone && !isSystemMessage(doc.data()))
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        senderName,
+        timestamp: doc.data().timestamp?.toMillis() || 0,
+      }));
     
     console.log(`👤 Found ${messages.length} messages from sender ${senderId}`);
     return messages;
@@ -368,12 +427,14 @@ export async function getRecentMessages(params: {
       }
     }
     
-    const messages = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      senderName: senderNames[doc.data().senderId] || 'Unknown',
-      timestamp: doc.data().timestamp?.toMillis() || 0,
-    }));
+    const messages = snapshot.docs
+      .filter(doc => !doc.data().deletedForEveryone && !isSystemMessage(doc.data()))
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        senderName: senderNames[doc.data().senderId] || 'Unknown',
+        timestamp: doc.data().timestamp?.toMillis() || 0,
+      }));
     
     console.log(`📝 Retrieved ${messages.length} recent messages`);
     return messages.reverse(); // Return in chronological order
@@ -0,0 +1,284 @@
+/**
+ * Reminder Service
+ *
+ * Spots deadlines in new messages ("the report is due Friday at 5pm") and
+ * offers every participant a reminder. Offers live in reminders/{messageId}_{uid};
+ * clients accept, snooze or dismiss them by setting remindAt, and
+ * deliverDueReminders pushes the ones that are due to the Realtime Database
+ * notifications/{uid} queue the app already listens to. syncReminders keeps
+ * them in line with the message when it's edited or deleted for everyone.
+ */
+
+import * as admin from 'firebase-admin';
+import { extractDates, resolveEventDate } from './dateParsingService';
+
+// offered: waiting for the user; scheduled: remindAt is set; sent/dismissed: done
+export type ReminderStatus = 'offered' | 'scheduled' | 'sent' | 'dismissed';
+
+export interface Deadline {
+  text: string; // Date as written in the message
+  dueAt: Date; // Deadline instant (end of day for all-day deadlines)
+  dueStart: string; // YYYY-MM-DD when allDay, otherwise an ISO timestamp
+  allDay: boolean;
+}
+
+export interface Reminder {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  senderId: string;
+  chatName: string;
+  text: string;
+  dueAt: admin.firestore.Timestamp;
+  dueStart: string;
+  allDay: boolean;
+  status: ReminderStatus;
+  remindAt: admin.firestore.Timestamp | null; // Only set while scheduled
+  sentAt: admin.firestore.Timestamp | null;
+  createdAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+const REMINDERS_COLLECTION = 'reminders';
+const MAX_TEXT_LENGTH = 100;
+const DELIVERY_BATCH_SIZE = 200;
+
+// Words that make a date in a message a deadline rather than a passing mention
+const DEADLINE_CUE = /\b(due|deadline|by|before|until|till|no later than|submit|send|finish|deliver|expires?)\b/i;
+
+/**
+ * Find the first future deadline in a message
+ * @param text - Message text
+ * @param sentAt - When the message was sent (relative dates are read from here)
+ * @param timezoneOffset - Sender's timezone, minutes east of UTC
+ * @returns The deadline, or null if the message doesn't set one
+ */
+export function detectDeadline(
+  text: string,
+  sentAt: Date,
+  timezoneOffset: number = 0
+): Deadline | null {
+  if (!DEADLINE_CUE.test(text)) return null;
+
+  for (const mention of extractDates(text, sentAt)) {
+    const resolved = resolveEventDate(mention.text, sentAt, timezoneOffset);
+    if (!resolved) continue;
+
+    // All-day deadlines last until the end of that day in the sender's timezone
+    const dueAt = resolved.allDay
+      ? new Date(Date.parse(`${resolved.start}T23:59:59.999Z`) - timezoneOffset * 60 * 1000)
+      : new Date(resolved.start);
+
+    if (dueAt.getTime() > sentAt.getTime()) {
+      return { text: mention.text, dueAt, dueStart: resolved.start, allDay: resolved.allDay };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deadline of a message, read in its sender's timezone from when it was sent
+ */
+function findMessageDeadline(
+  message: admin.firestore.DocumentData,
+  sender: admin.firestore.DocumentData
+): Deadline | null {
+  if (typeof message.text !== 'string' || !message.text.trim()) return null;
+
+  const timezoneOffset = typeof sender.timezoneOffset === 'number' ? sender.timezoneOffset : 0;
+  const sentAt: Date = message.timestamp?.toDate?.() || new Date();
+
+  return detectDeadline(message.text, sentAt, timezoneOffset);
+}
+
+/**
+ * Message text as kept on its reminders
+ */
+function reminderText(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? text.substring(0, MAX_TEXT_LENGTH) + '...' : text;
+}
+
+/**
+ * Offer every participant a reminder for a deadline set in a new message
+ * @param params.chatId - Chat the message was sent in
+ * @param params.messageId - The new message
+ * @param params.message - Its data
+ * @returns The deadline that was offered, or null if the message has none
+ */
+export async function offerReminders(params: {
+  chatId: string;
+  messageId: string;
+  message: admin.firestore.DocumentData;
+  db?: admin.firestore.Firestore;
+}): Promise<Deadline | null> {
+  const { chatId, messageId, message, db = admin.firestore() } = params;
+
+  if (typeof message.text !== 'string' || !message.text.trim()) return null;
+
+  const senderDoc = await db.collection('users').doc(message.senderId).get();
+  const sender = senderDoc.data() || {};
+
+  const deadline = findMessageDeadline(message, sender);
+  if (!deadline) return null;
+
+  const chatDoc = await db.collection('chats').doc(chatId).get();
+  const chat = chatDoc.data() || {};
+  const participants: string[] = chat.participants || [];
+
+  // Same naming as message notifications
+  const senderName = sender.displayName || 'Unknown';
+  const chatName = chat.type === 'group' && chat.groupName ? `${senderName} in ${chat.groupName}` : senderName;
+
+  const text = reminderText(message.text);
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  const batch = db.batch();
+  for (const userId of participants) {
+    batch.set(db.collection(REMINDERS_COLLECTION).doc(`${messageId}_${userId}`), {
+      userId,
+      chatId,
+      messageId,
+      senderId: message.senderId,
+      chatName,
+      text,
+      dueAt: admin.firestore.Timestamp.fromDate(deadline.dueAt),
+      dueStart: deadline.dueStart,
+      allDay: deadline.allDay,
+      status: 'offered',
+      remindAt: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  await batch.commit();
+
+  return deadline;
+}
+
+/**
+ * Bring a message's reminders in line with it after an edit or a delete for everyone
+ * - Deleted: its reminders are removed, text and all
+ * - Edited without a deadline any more: removed
+ * - Edited deadline: reminders follow it and are offered again (the time the
+ *   user picked was for the old deadline); same deadline: only the text changes
+ * - Edited to add a deadline: reminders are offered for the first time
+ * @param params.message - The message as it is now
+ * @returns What happened to the reminders
+ */
+export async function syncReminders(params: {
+  chatId: string;
+  messageId: string;
+  message: admin.firestore.DocumentData;
+  db?: admin.firestore.Firestore;
+}): Promise<'removed' | 'updated' | 'offered' | 'unchanged'> {
+  const { chatId, messageId, message, db = admin.firestore() } = params;
+
+  const reminders = await db.collection(REMINDERS_COLLECTION)
+    .where('messageId', '==', messageId)
+    .get();
+
+  if (reminders.empty) {
+    if (message.deletedForEveryone) return 'unchanged';
+    return (await offerReminders({ chatId, messageId, message, db })) ? 'offered' : 'unchanged';
+  }
+
+  const deadline = message.deletedForEveryone
+    ? null
+    : findMessageDeadline(message, (await db.collection('users').doc(message.senderId).get()).data() || {});
+
+  const batch = db.batch();
+  for (const reminderDoc of reminders.docs) {
+    if (!deadline) {
+      batch.delete(reminderDoc.ref);
+      continue;
+    }
+
+    const reminder = reminderDoc.data() as Reminder;
+    const moved = reminder.dueAt.toMillis() !== deadline.dueAt.getTime();
+    batch.update(reminderDoc.ref, {
+      text: reminderText(message.text),
+      dueAt: admin.firestore.Timestamp.fromDate(deadline.dueAt),
+      dueStart: deadline.dueStart,
+      allDay: deadline.allDay,
+      ...(moved ? { status: 'offered', remindAt: null, sentAt: null } : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  return deadline ? 'updated' : 'removed';
+}
+
+/**
+ * Deliver reminders whose time has come to notifications/{uid}
+ * Sent and dismissed reminders have no remindAt, so only scheduled ones match
+ * @returns Number of reminders delivered
+ */
+export async function deliverDueReminders(params: {
+  now?: Date;
+  db?: admin.firestore.Firestore;
+  rtdb?: admin.database.Database;
+} = {}): Promise<number> {
+  const { now = new Date(), db = admin.firestore() } = params;
+  const rtdb = params.rtdb || admin.database();
+
+  const dueSnapshot = await db.collection(REMINDERS_COLLECTION)
+    .where('remindAt', '<=', admin.firestore.Timestamp.fromDate(now))
+    .limit(DELIVERY_BATCH_SIZE)
+    .get();
+
+  let delivered = 0;
+  for (const reminderDoc of dueSnapshot.docs) {
+    const reminder = reminderDoc.data() as Reminder;
+    let claim: admin.firestore.WriteResult | null = null;
+
+    try {
+      // Claim it first; fails if the user snoozed or dismissed it in the meantime
+      claim = await reminderDoc.ref.update(
+        {
+          status: 'sent',
+          remindAt: null,
+          sentAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { lastUpdateTime: reminderDoc.updateTime }
+      );
+
+      await rtdb.ref(`notifications/${reminder.userId}/reminder_${reminderDoc.id}_${now.getTime()}`).set({
+        type: 'reminder',
+        reminderId: reminderDoc.id,
+        chatId: reminder.chatId,
+        chatName: reminder.chatName,
+        messageText: reminder.text,
+        senderId: reminder.senderId,
+        timestamp: now.getTime(),
+        dueAt: reminder.dueAt.toMillis(),
+        dueStart: reminder.dueStart,
+        allDay: reminder.allDay,
+      });
+      delivered++;
+    } catch (error) {
+      console.error(`❌ Error delivering reminder ${reminderDoc.id}:`, error);
+
+      // Hand a claimed but undelivered reminder back to the next run,
+      // unless the user changed it since
+      if (claim) {
+        await reminderDoc.ref.update(
+          {
+            status: 'scheduled',
+            remindAt: reminder.remindAt,
+            sentAt: reminder.sentAt ?? null,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          { lastUpdateTime: claim.writeTime }
+        ).catch((restoreError) => {
+          console.error(`❌ Error restoring reminder ${reminderDoc.id}:`, restoreError);
+        });
+      }
+    }
+  }
+
+  return delivered;
+}
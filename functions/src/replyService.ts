@@ -0,0 +1,51 @@
+/**
+ * Reply Service
+ *
+ * Replies keep a snippet of the message they quote (replyTo.text). When that
+ * message is deleted for everyone the snippet goes too, so the deleted text
+ * doesn't live on in replies, the vector index or the assistant's context.
+ */
+
+import * as admin from 'firebase-admin';
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+export interface ScrubbedReply {
+  id: string;
+  data: admin.firestore.DocumentData; // The reply as stored after scrubbing
+}
+
+/**
+ * Clear the quoted text of every reply to a message deleted for everyone
+ * @returns The replies that changed, so they can be re-indexed
+ */
+export async function scrubDeletedQuotes(params: {
+  chatId: string;
+  messageId: string;
+  db?: admin.firestore.Firestore;
+}): Promise<ScrubbedReply[]> {
+  const { chatId, messageId, db = admin.firestore() } = params;
+
+  const replies = await db
+    .collection('chats')
+    .doc(chatId)
+    .collection('messages')
+    .where('replyTo.messageId', '==', messageId)
+    .get();
+
+  const toScrub = replies.docs.filter((reply) => !reply.data().replyTo?.deleted);
+
+  for (let i = 0; i < toScrub.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    toScrub.slice(i, i + BATCH_SIZE).forEach((reply) => {
+      batch.update(reply.ref, { 'replyTo.text': '', 'replyTo.deleted': true });
+    });
+    await batch.commit();
+  }
+
+  return toScrub.map((reply) => {
+    const data = reply.data();
+    return { id: reply.id, data: { ...data, replyTo: { ...data.replyTo, text: '', deleted: true } } };
+  });
+}
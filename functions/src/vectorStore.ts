@@ -0,0 +1,298 @@
+/**
+ * Vector Store
+ *
+ * Storage and similarity search for message embeddings behind one interface.
+ *
+ * Selected with the VECTOR_STORE environment variable:
+ * - 'pinecone': Pinecone index (PINECONE_API_KEY, PINECONE_INDEX_NAME)
+ * - 'firestore': brute-force cosine search over the vectorIndex collection
+ * - 'memory': brute-force cosine search in process memory (unit tests)
+ * Defaults to Pinecone when PINECONE_API_KEY is set and Firestore otherwise,
+ * so the assistant keeps working without Pinecone credentials.
+ */
+
+import { Pinecone } from '@pinecone-database/pinecone';
+import * as admin from 'firebase-admin';
+
+// Flat metadata only: Pinecone can't store nested objects
+export type VectorMetadataValue = string | number | boolean;
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+// Subset of Pinecone's filter language supported by every backend
+export type MetadataFilter = Record<
+  string,
+  { $eq: VectorMetadataValue } | { $in: VectorMetadataValue[] }
+>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(params: VectorQuery): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+  existingIds(ids: string[]): Promise<Set<string>>; // Which of the IDs are stored
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Check a record's metadata against a filter
+ */
+export function matchesFilter(metadata: VectorMetadata, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata[key];
+    return '$eq' in condition ? value === condition.$eq : condition.$in.includes(value);
+  });
+}
+
+/**
+ * Score candidates against the query vector and keep the best topK
+ */
+function rankMatches(candidates: VectorRecord[], params: VectorQuery): VectorMatch[] {
+  return candidates
+    .filter((record) => matchesFilter(record.metadata, params.filter))
+    .map((record) => ({
+      id: record.id,
+      score: cosineSimilarity(params.vector, record.values),
+      metadata: record.metadata,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, params.topK);
+}
+
+// ==================== PINECONE ====================
+
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private client: Pinecone | null = null;
+
+  constructor(
+    private readonly indexName: string = process.env.PINECONE_INDEX_NAME || 'message-ai-conversations'
+  ) {}
+
+  // Lazy initialize Pinecone
+  private getIndex() {
+    if (!this.client) {
+      const apiKey = process.env.PINECONE_API_KEY;
+      if (!apiKey) {
+        throw new Error('PINECONE_API_KEY environment variable not set');
+      }
+
+      this.client = new Pinecone({ apiKey });
+      console.log('✅ Pinecone initialized');
+    }
+    return this.client.index(this.indexName);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.getIndex().upsert(records);
+  }
+
+  async query(params: VectorQuery): Promise<VectorMatch[]> {
+    const response = await this.getIndex().query({
+      vector: params.vector,
+      topK: params.topK,
+      filter: params.filter,
+      includeMetadata: true,
+    });
+
+    return response.matches.map((match) => ({
+      id: match.id,
+      score: match.score || 0,
+      metadata: (match.metadata || {}) as VectorMetadata,
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.getIndex().deleteMany(ids);
+  }
+
+  async existingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const response = await this.getIndex().fetch(ids);
+    return new Set(Object.keys(response.records || {}));
+  }
+}
+
+// ==================== FIRESTORE ====================
+
+// Firestore 'in' queries accept at most 30 values; batches at most 500 writes
+const FIRESTORE_IN_LIMIT = 30;
+const FIRESTORE_BATCH_LIMIT = 500;
+
+/**
+ * Brute-force store for local development and the emulator
+ * Filters on equality/'in' are pushed down to Firestore; scoring happens in process
+ */
+export class FirestoreVectorStore implements VectorStore {
+  readonly name = 'firestore';
+
+  constructor(
+    private readonly db: admin.firestore.Firestore = admin.firestore(),
+    private readonly collectionName: string = 'vectorIndex'
+  ) {}
+
+  private get collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = this.db.batch();
+      records.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((record) => {
+        batch.set(this.collection.doc(record.id), {
+          values: record.values,
+          metadata: record.metadata,
+        });
+      });
+      await batch.commit();
+    }
+  }
+
+  async query(params: VectorQuery): Promise<VectorMatch[]> {
+    const snapshots = await Promise.all(this.buildQueries(params.filter).map((query) => query.get()));
+
+    const candidates: VectorRecord[] = snapshots.flatMap((snapshot) =>
+      snapshot.docs.map((docSnap) => ({
+        id: docSnap.id,
+        values: docSnap.data().values || [],
+        metadata: docSnap.data().metadata || {},
+      }))
+    );
+
+    return rankMatches(candidates, params);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = this.db.batch();
+      ids.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((id) => batch.delete(this.collection.doc(id)));
+      await batch.commit();
+    }
+  }
+
+  async existingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const snapshots = await this.db.getAll(...ids.map((id) => this.collection.doc(id)), {
+      fieldMask: [], // Existence only; skip the vectors
+    });
+    return new Set(snapshots.filter((snapshot) => snapshot.exists).map((snapshot) => snapshot.id));
+  }
+
+  /**
+   * Narrow the scan with the first filter key; remaining keys are checked in process
+   */
+  private buildQueries(filter?: MetadataFilter): admin.firestore.Query[] {
+    const [firstKey] = Object.keys(filter || {});
+    if (!filter || !firstKey) return [this.collection];
+
+    const condition = filter[firstKey];
+    const field = `metadata.${firstKey}`;
+
+    if ('$eq' in condition) {
+      return [this.collection.where(field, '==', condition.$eq)];
+    }
+
+    const chunks: VectorMetadataValue[][] = [];
+    for (let i = 0; i < condition.$in.length; i += FIRESTORE_IN_LIMIT) {
+      chunks.push(condition.$in.slice(i, i + FIRESTORE_IN_LIMIT));
+    }
+    return chunks.map((values) => this.collection.where(field, 'in', values));
+  }
+}
+
+// ==================== IN-MEMORY ====================
+
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    records.forEach((record) => this.records.set(record.id, record));
+  }
+
+  async query(params: VectorQuery): Promise<VectorMatch[]> {
+    return rankMatches(Array.from(this.records.values()), params);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.records.delete(id));
+  }
+
+  async existingIds(ids: string[]): Promise<Set<string>> {
+    return new Set(ids.filter((id) => this.records.has(id)));
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
+
+// ==================== SELECTION ====================
+
+let store: VectorStore | null = null;
+
+/**
+ * Get the configured vector store (created on first use)
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    const configured = (
+      process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? 'pinecone' : 'firestore')
+    ).toLowerCase();
+
+    if (configured === 'pinecone') {
+      store = new PineconeVectorStore();
+    } else if (configured === 'firestore') {
+      store = new FirestoreVectorStore();
+    } else if (configured === 'memory') {
+      store = new InMemoryVectorStore();
+    } else {
+      throw new Error(`Unknown VECTOR_STORE "${configured}" (expected "pinecone", "firestore" or "memory")`);
+    }
+
+    console.log(`✅ Using ${store.name} vector store`);
+  }
+  return store;
+}
+
+/**
+ * Replace the vector store (tests); pass null to go back to VECTOR_STORE
+ */
+export function setVectorStore(override: VectorStore | null): void {
+  store = override;
+}
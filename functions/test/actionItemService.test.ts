@@ -0,0 +1,105 @@
+/**
+ * Action item service tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import { actionItemId, matchParticipant, saveActionItems } from '../src/actionItemService';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'action-items-test');
+const db = app.firestore();
+
+describe('actionItemService', () => {
+  describe('matchParticipant', () => {
+    const participants = { u1: 'Maria López', u2: 'Mario Rossi', u3: 'Sam' };
+
+    it('matches full and partial names case-insensitively', () => {
+      expect(matchParticipant('maria lópez', participants)).toBe('u1');
+      expect(matchParticipant('Sam', participants)).toBe('u3');
+      expect(matchParticipant('rossi', participants)).toBe('u2');
+    });
+
+    it('returns null for unknown or ambiguous names', () => {
+      expect(matchParticipant('Alex', participants)).toBeNull();
+      expect(matchParticipant('Mari', participants)).toBeNull();
+      expect(matchParticipant(undefined, participants)).toBeNull();
+    });
+  });
+
+  it('keys items by normalized text', () => {
+    expect(actionItemId('Send the  invoice')).toBe(actionItemId(' send the invoice'));
+    expect(actionItemId('Send the invoice')).not.toBe(actionItemId('Send the contract'));
+  });
+
+  describe('saveActionItems', () => {
+    const itemsRef = () => db.collection('chats').doc('chat-1').collection('actionItems');
+
+    beforeAll(async () => {
+      if (!process.env.FIRESTORE_EMULATOR_HOST) {
+        throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+      }
+
+      await db.collection('chats').doc('chat-1').set({ participants: ['u1', 'u2'] });
+      await db.collection('users').doc('u1').set({ displayName: 'Maria López' });
+      await db.collection('users').doc('u2').set({ displayName: 'Sam' });
+    });
+
+    afterAll(async () => {
+      await db.recursiveDelete(db.collection('chats'));
+      await db.recursiveDelete(db.collection('users'));
+      await app.delete();
+    });
+
+    it('saves items with matched assignees', async () => {
+      const saved = await saveActionItems({
+        chatId: 'chat-1',
+        items: [
+          { item: 'Book the venue', priority: 'high', assignee: 'maria' },
+          { item: 'Order snacks', assignee: 'Someone else' },
+        ],
+        createdBy: 'u2',
+        sourceMessageIds: ['m1'],
+        db,
+      });
+
+      expect(saved).toEqual([
+        expect.objectContaining({ item: 'Book the venue', assigneeId: 'u1', assignee: 'Maria López' }),
+        expect.objectContaining({ item: 'Order snacks', assigneeId: null }),
+      ]);
+
+      const venue = (await itemsRef().doc(saved[0].id).get()).data();
+      expect(venue).toMatchObject({
+        text: 'Book the venue',
+        priority: 'high',
+        assigneeId: 'u1',
+        assigneeName: 'Maria López',
+        done: false,
+        createdBy: 'u2',
+        sourceMessageIds: ['m1'],
+      });
+    });
+
+    it('leaves existing items alone when they are extracted again', async () => {
+      const [first] = await saveActionItems({
+        chatId: 'chat-1',
+        items: [{ item: 'Confirm the caterer' }],
+        createdBy: 'u1',
+        sourceMessageIds: [],
+        db,
+      });
+      await itemsRef().doc(first.id).update({ done: true, doneBy: 'u1' });
+
+      await saveActionItems({
+        chatId: 'chat-1',
+        items: [{ item: 'confirm the  caterer' }, { item: 'Confirm the caterer' }],
+        createdBy: 'u2',
+        sourceMessageIds: [],
+        db,
+      });
+
+      const matching = (await itemsRef().get()).docs.filter((itemDoc) => itemDoc.id === first.id);
+      expect(matching).toHaveLength(1);
+      expect(matching[0].data()).toMatchObject({ done: true, createdBy: 'u1' });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Authorization tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import {
+  assertChatParticipant,
+  ChatAccessDeniedError,
+  isChatParticipant,
+} from '../src/authorization';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'authorization-test');
+const db = app.firestore();
+
+const contextFor = (uid?: string) =>
+  ({ auth: uid ? { uid, token: {} } : undefined } as unknown as functions.https.CallableContext);
+
+describe('authorization', () => {
+  beforeAll(() => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+  });
+
+  beforeEach(async () => {
+    await db.collection('chats').doc('chat-1').set({
+      type: 'group',
+      participants: ['alice', 'bob'],
+    });
+  });
+
+  afterEach(async () => {
+    await db.collection('chats').doc('chat-1').delete();
+  });
+
+  afterAll(async () => {
+    await app.delete();
+  });
+
+  describe('isChatParticipant', () => {
+    it('returns true for participants', async () => {
+      expect(await isChatParticipant('chat-1', 'alice', db)).toBe(true);
+    });
+
+    it('returns false for non-participants', async () => {
+      expect(await isChatParticipant('chat-1', 'mallory', db)).toBe(false);
+    });
+
+    it('returns false for missing chats', async () => {
+      expect(await isChatParticipant('missing-chat', 'alice', db)).toBe(false);
+    });
+  });
+
+  describe('assertChatParticipant', () => {
+    it('returns the caller uid for participants', async () => {
+      await expect(assertChatParticipant(contextFor('bob'), 'chat-1', db)).resolves.toBe('bob');
+    });
+
+    it('rejects unauthenticated callers', async () => {
+      await expect(assertChatParticipant(contextFor(), 'chat-1', db)).rejects.toMatchObject({
+        code: 'unauthenticated',
+      });
+    });
+
+    it('rejects a missing chat ID', async () => {
+      await expect(assertChatParticipant(contextFor('alice'), undefined, db)).rejects.toMatchObject({
+        code: 'invalid-argument',
+      });
+    });
+
+    it('rejects non-participants with a typed permission-denied error', async () => {
+      const promise = assertChatParticipant(contextFor('mallory'), 'chat-1', db);
+
+      await expect(promise).rejects.toBeInstanceOf(ChatAccessDeniedError);
+      await expect(promise).rejects.toMatchObject({
+        code: 'permission-denied',
+        details: { reason: 'chat-access-denied', chatId: 'chat-1' },
+      });
+    });
+
+    it('treats missing chats like non-membership', async () => {
+      await expect(
+        assertChatParticipant(contextFor('alice'), 'missing-chat', db)
+      ).rejects.toBeInstanceOf(ChatAccessDeniedError);
+    });
+
+    it('denies users removed from the chat', async () => {
+      await db.collection('chats').doc('chat-1').update({
+        participants: admin.firestore.FieldValue.arrayRemove('bob'),
+      });
+
+      await expect(
+        assertChatParticipant(contextFor('bob'), 'chat-1', db)
+      ).rejects.toBeInstanceOf(ChatAccessDeniedError);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * RAG backfill tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import { createBackfillJob, getBackfillJob, runBackfillJob } from '../src/backfillService';
+import { FakeLLMProvider } from '../src/llmProvider';
+import { InMemoryVectorStore } from '../src/vectorStore';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'backfill-test');
+const db = app.firestore();
+
+const messagesOf = (chatId: string) => db.collection('chats').doc(chatId).collection('messages');
+
+describe('backfillService', () => {
+  let llm: FakeLLMProvider;
+  let store: InMemoryVectorStore;
+
+  beforeAll(() => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+  });
+
+  beforeEach(async () => {
+    llm = new FakeLLMProvider();
+    store = new InMemoryVectorStore();
+
+    await db.collection('users').doc('alice').set({ displayName: 'Alice' });
+    await db.collection('chats').doc('chat-1').set({ participants: ['alice', 'bob'] });
+    await db.collection('chats').doc('chat-2').set({ participants: ['alice', 'carol'] });
+
+    const timestamp = admin.firestore.Timestamp.fromMillis(Date.UTC(2025, 0, 15));
+    await messagesOf('chat-1').doc('a1').set({ text: 'Budget is due Friday', senderId: 'alice', timestamp });
+    await messagesOf('chat-1').doc('a2').set({ text: 'Already indexed', senderId: 'alice', timestamp });
+    await messagesOf('chat-1').doc('a3').set({ text: '', senderId: 'alice', timestamp, deletedForEveryone: true });
+    await messagesOf('chat-1').doc('a4').set({ text: 'Alice joined', senderId: 'alice', timestamp, type: 'system' });
+    await messagesOf('chat-2').doc('b1').set({ text: 'Beach trip next week', senderId: 'alice', timestamp });
+
+    await store.upsert([{ id: 'a2', values: [1], metadata: { chatId: 'chat-1' } }]);
+  });
+
+  afterEach(async () => {
+    await db.recursiveDelete(db.collection('chats'));
+    await db.recursiveDelete(db.collection('users'));
+    await db.recursiveDelete(db.collection('ragBackfillJobs'));
+  });
+
+  afterAll(async () => {
+    await app.delete();
+  });
+
+  it('embeds only messages missing from the index and reports per-chat progress', async () => {
+    const jobId = await createBackfillJob('admin', undefined, db);
+    const job = await runBackfillJob(jobId, { timeBudgetMs: 60 * 1000, db, llm, store, batchDelayMs: 0 });
+
+    expect(job?.status).toBe('completed');
+    expect(job?.totals).toEqual({ scanned: 5, indexed: 2, failed: 0 });
+    expect(Array.from(await store.existingIds(['a1', 'a2', 'a3', 'a4', 'b1'])).sort()).toEqual(['a1', 'a2', 'b1']);
+
+    const stored = await getBackfillJob(jobId, db);
+    expect(stored?.progress['chat-1']).toMatchObject({
+      scanned: 4,
+      alreadyIndexed: 1,
+      indexed: 1,
+      skipped: 2,
+      failed: 0,
+      done: true,
+    });
+    expect(stored?.completedAt).not.toBeNull();
+  });
+
+  it('records failures per chat without stopping the job', async () => {
+    jest.spyOn(llm, 'embed').mockImplementation(async (text: string) => {
+      if (text.includes('Beach')) throw new Error('provider unavailable');
+      return [1, 0];
+    });
+
+    const jobId = await createBackfillJob('admin', ['chat-1', 'chat-2'], db);
+    const job = await runBackfillJob(jobId, { timeBudgetMs: 60 * 1000, db, llm, store, batchDelayMs: 0 });
+
+    expect(job?.status).toBe('completed');
+    expect(job?.progress['chat-2']).toMatchObject({
+      failed: 1,
+      failedMessageIds: ['b1'],
+      lastError: 'provider unavailable',
+    });
+    expect(job?.progress['chat-1'].indexed).toBe(1);
+  });
+
+  it('resumes from the last checkpoint in a later run', async () => {
+    const jobId = await createBackfillJob('admin', ['chat-1', 'chat-2'], db);
+
+    // No time at all: nothing is processed and the job stays open
+    const first = await runBackfillJob(jobId, { timeBudgetMs: 0, db, llm, store, batchDelayMs: 0 });
+    expect(first?.status).toBe('running');
+    expect(first?.chatIndex).toBe(0);
+
+    const second = await runBackfillJob(jobId, { timeBudgetMs: 60 * 1000, db, llm, store, batchDelayMs: 0 });
+    expect(second?.status).toBe('completed');
+    expect(second?.totals.indexed).toBe(2);
+
+    // Finished jobs aren't run again
+    await expect(runBackfillJob(jobId, { timeBudgetMs: 60 * 1000, db, llm, store })).resolves.toBeNull();
+  });
+
+  it('only lets one run hold a job at a time', async () => {
+    const jobId = await createBackfillJob('admin', ['chat-1'], db);
+    await db.collection('ragBackfillJobs').doc(jobId).update({ leaseExpiresAt: Date.now() + 60 * 1000 });
+
+    await expect(
+      runBackfillJob(jobId, { timeBudgetMs: 60 * 1000, db, llm, store, batchDelayMs: 0 })
+    ).resolves.toBeNull();
+  });
+});
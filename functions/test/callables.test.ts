@@ -0,0 +1,231 @@
+/**
+ * Callable and trigger tests with the fake LLM provider and an in-memory vector store
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { FakeLLMProvider, setLLMProvider } from '../src/llmProvider';
+import { InMemoryVectorStore, setVectorStore } from '../src/vectorStore';
+import {
+  explainSlang,
+  indexNewMessage,
+  intelligentChatAssistant,
+  searchAllMessages,
+  translateText,
+} from '../src/index';
+
+const contextFor = (uid: string) =>
+  ({ auth: { uid, token: {} } } as unknown as functions.https.CallableContext);
+
+describe('callables with the fake LLM provider', () => {
+  const fake = new FakeLLMProvider();
+  const vectors = new InMemoryVectorStore();
+  const db = admin.firestore();
+
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+
+    setLLMProvider(fake);
+    setVectorStore(vectors);
+
+    await db.collection('users').doc('alice').set({ displayName: 'Alice' });
+    await db.collection('chats').doc('chat-1').set({ type: 'direct', participants: ['alice', 'bob'] });
+    await db.collection('chats').doc('chat-1').collection('messages').doc('m1').set({
+      text: 'The budget review moved to Friday',
+      senderId: 'alice',
+      timestamp: admin.firestore.Timestamp.fromMillis(Date.UTC(2025, 0, 15)),
+    });
+  });
+
+  afterEach(async () => {
+    fake.reset();
+    // Each test starts with a full AI quota
+    await db.recursiveDelete(db.collection('aiQuotas'));
+  });
+
+  afterAll(async () => {
+    setLLMProvider(null);
+    setVectorStore(null);
+    await db.recursiveDelete(db.collection('chats'));
+    await db.recursiveDelete(db.collection('users'));
+  });
+
+  it('translates text through the provider', async () => {
+    const result = await translateText.run(
+      { text: 'hola', targetLanguage: 'English' },
+      contextFor('alice')
+    );
+
+    expect(result.targetLanguage).toBe('English');
+    expect(result.translatedText).toContain('[fake:');
+    expect(fake.requests).toHaveLength(2); // Translation, then its assessment
+    expect(fake.requests[0].messages[0].content).toContain('"hola"');
+  });
+
+  it('returns the assessed confidence of a translation', async () => {
+    fake.enqueue(
+      { content: 'See you at the Gauntlet demo' },
+      { content: '{"confidence": 0.4, "untranslatable": ["Gauntlet"]}' }
+    );
+
+    const result = await translateText.run(
+      { text: 'Nos vemos en la demo de Gauntlet', targetLanguage: 'en', sourceLanguage: 'es' },
+      contextFor('alice')
+    );
+
+    expect(result).toMatchObject({ confidence: 0.4, untranslatable: ['Gauntlet'] });
+  });
+
+  it('parses JSON answers', async () => {
+    fake.enqueue({
+      content: '```json\n[{"term":"break a leg","literal":"","meaning":"good luck","example":""}]\n```',
+    });
+
+    const result = await explainSlang.run(
+      { text: 'Break a leg!', detectedLanguage: 'en' },
+      contextFor('alice')
+    );
+
+    expect(result.explanations).toEqual([
+      { term: 'break a leg', literal: '', meaning: 'good luck', example: '' },
+    ]);
+  });
+
+  it('runs the assistant tool loop until the final answer', async () => {
+    fake.enqueue(
+      { toolCalls: [{ id: 'call-1', name: 'get_recent_context', arguments: '{"limit":5}' }] },
+      { content: '{"summary":"The budget review is on Friday."}' }
+    );
+
+    const result = await intelligentChatAssistant.run(
+      { chatId: 'chat-1', query: 'Summarize this conversation' },
+      contextFor('alice')
+    );
+
+    expect(result.response).toEqual({ summary: 'The budget review is on Friday.' });
+    expect(result.metadata.toolCallsUsed).toBe(1);
+    expect(result.metadata.usedRAG).toBe(true);
+
+    // The second completion sees the tool call and its result
+    const followUp = fake.requests[1].messages;
+    expect(followUp[followUp.length - 2]).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call-1' }] });
+    expect(followUp[followUp.length - 1]).toMatchObject({ role: 'tool', toolCallId: 'call-1' });
+    expect(followUp[followUp.length - 1].content).toContain('The budget review moved to Friday');
+  });
+
+  it('streams assistant progress to the session doc', async () => {
+    fake.enqueue(
+      { toolCalls: [{ id: 'call-1', name: 'get_recent_context', arguments: '{}' }] },
+      { content: 'The budget review is on Friday.' }
+    );
+
+    const result = await intelligentChatAssistant.run(
+      { chatId: 'chat-1', query: 'Summarize this conversation', sessionId: 'session1' },
+      contextFor('alice')
+    );
+
+    // The returned response doesn't change when streaming
+    expect(result.response.summary).toBe('The budget review is on Friday.');
+
+    const session = (await db
+      .collection('chats').doc('chat-1')
+      .collection('assistantSessions').doc('session1')
+      .get()).data();
+
+    expect(session).toMatchObject({
+      userId: 'alice',
+      status: 'completed',
+      steps: [{ tool: 'get_recent_context' }],
+      partialText: 'The budget review is on Friday.',
+    });
+
+    // Session IDs can't be reused
+    await expect(
+      intelligentChatAssistant.run(
+        { chatId: 'chat-1', query: 'Summarize', sessionId: 'session1' },
+        contextFor('alice')
+      )
+    ).rejects.toMatchObject({ code: 'already-exists' });
+  });
+
+  it('sends earlier turns of the thread with follow-up questions', async () => {
+    fake.enqueue({ content: 'Alice said the budget review moved to Friday.' });
+    const first = await intelligentChatAssistant.run(
+      { chatId: 'chat-1', query: 'What did Alice say?' },
+      contextFor('alice')
+    );
+
+    const stored = (await db
+      .collection('chats').doc('chat-1')
+      .collection('assistantSessions').doc(first.metadata.sessionId)
+      .get()).data();
+    expect(stored?.result).toEqual(first);
+
+    fake.enqueue({ content: 'It is at 10am.' });
+    await intelligentChatAssistant.run(
+      { chatId: 'chat-1', query: 'And what time?', threadId: first.metadata.threadId },
+      contextFor('alice')
+    );
+
+    expect(fake.requests[1].messages.slice(1)).toEqual([
+      { role: 'user', content: 'What did Alice say?' },
+      { role: 'assistant', content: 'Alice said the budget review moved to Friday.' },
+      { role: 'user', content: 'And what time?' },
+    ]);
+
+    // Another member can't continue someone else's thread
+    await intelligentChatAssistant.run(
+      { chatId: 'chat-1', query: 'And what time?', threadId: first.metadata.threadId },
+      contextFor('bob')
+    );
+    expect(fake.requests[2].messages).toHaveLength(2);
+  });
+
+  it('indexes new messages so they can be found semantically', async () => {
+    const snapshot = (await db
+      .collection('chats').doc('chat-1')
+      .collection('messages').doc('m1')
+      .get()) as admin.firestore.QueryDocumentSnapshot;
+
+    await indexNewMessage.run(snapshot, { params: { chatId: 'chat-1', messageId: 'm1' } });
+
+    expect(vectors.size).toBe(1);
+
+    const result = await searchAllMessages.run({ query: 'budget review' }, contextFor('bob'));
+    expect(result.results).toEqual([
+      expect.objectContaining({ chatId: 'chat-1', messageId: 'm1', senderName: 'Alice' }),
+    ]);
+
+    // Chats the caller isn't in are never searched
+    const outsider = await searchAllMessages.run({ query: 'budget review' }, contextFor('mallory'));
+    expect(outsider.results).toEqual([]);
+  });
+
+  it('leaves out semantic matches the caller deleted for themselves', async () => {
+    const messageRef = db.collection('chats').doc('chat-1').collection('messages').doc('m1');
+    await indexNewMessage.run(
+      (await messageRef.get()) as admin.firestore.QueryDocumentSnapshot,
+      { params: { chatId: 'chat-1', messageId: 'm1' } }
+    );
+    await messageRef.update({ deletedFor: ['bob'] });
+
+    const bobResults = await searchAllMessages.run({ query: 'budget review' }, contextFor('bob'));
+    expect(bobResults.results).toEqual([]);
+
+    const aliceResults = await searchAllMessages.run({ query: 'budget review' }, contextFor('alice'));
+    expect(aliceResults.results).toEqual([expect.objectContaining({ messageId: 'm1' })]);
+
+    await messageRef.update({ deletedFor: admin.firestore.FieldValue.delete() });
+  });
+
+  it('never reaches the provider for non-participants', async () => {
+    await expect(
+      intelligentChatAssistant.run({ chatId: 'chat-1', query: 'Summarize' }, contextFor('mallory'))
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+
+    expect(fake.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Date parsing tests
+ */
+
+import { resolveEventDate, resolveMentionedDate } from '../src/dateParsingService';
+
+describe('dateParsingService', () => {
+  // Wednesday 15 January 2025, 10:00 UTC
+  const sentAt = new Date(Date.UTC(2025, 0, 15, 10, 0, 0));
+
+  describe('resolveEventDate', () => {
+    it('resolves relative days against the reference date', () => {
+      expect(resolveEventDate('tomorrow', sentAt)).toEqual({ start: '2025-01-16', allDay: true });
+      expect(resolveEventDate('next Friday', sentAt)).toEqual({ start: '2025-01-24', allDay: true });
+    });
+
+    it('keeps explicit times, read in the user timezone', () => {
+      // UTC-5: 3pm local is 20:00 UTC
+      expect(resolveEventDate('tomorrow at 3pm', sentAt, -300)).toEqual({
+        start: '2025-01-16T20:00:00.000Z',
+        allDay: false,
+      });
+    });
+
+    it('uses the calendar day in the user timezone', () => {
+      // 23:30 UTC on the 15th is already the 16th in UTC+2
+      const lateEvening = new Date(Date.UTC(2025, 0, 15, 23, 30, 0));
+      expect(resolveEventDate('today', lateEvening, 120)).toEqual({ start: '2025-01-16', allDay: true });
+    });
+
+    it('returns null for text without a date', () => {
+      expect(resolveEventDate('whenever works', sentAt)).toBeNull();
+    });
+  });
+
+  describe('resolveMentionedDate', () => {
+    const message = { text: 'The report is due on Friday', timestamp: sentAt.getTime() };
+
+    it('falls back to the date found in the message text', () => {
+      expect(resolveMentionedDate('the deadline', message)).toEqual({ start: '2025-01-17', allDay: true });
+    });
+
+    it('prefers the LLM wording when it parses', () => {
+      expect(resolveMentionedDate('January 20th', message)).toEqual({ start: '2025-01-20', allDay: true });
+    });
+  });
+});
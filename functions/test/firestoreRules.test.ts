@@ -0,0 +1,235 @@
+/**
+ * Firestore security rules tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  FieldPath,
+  getDoc,
+  onSnapshot,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+
+const CHAT_PATH = 'chats/rules-chat';
+
+describe('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+  const seededPaths: string[] = [];
+
+  // Write a document as the Cloud Functions would (rules bypassed)
+  const seed = (path: string, data: Record<string, unknown>) =>
+    testEnv.withSecurityRulesDisabled(async (context) => {
+      seededPaths.push(path);
+      await setDoc(doc(context.firestore(), path), data);
+    });
+
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-messageai',
+      firestore: {
+        host,
+        port: Number(port),
+        rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+      },
+    });
+
+    await seed(CHAT_PATH, { type: 'group', participants: ['ana', 'bob'] });
+  });
+
+  afterAll(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await Promise.all(seededPaths.map((path) => deleteDoc(doc(context.firestore(), path))));
+    });
+    await testEnv.cleanup();
+  });
+
+  describe('message translations', () => {
+    const messagePath = `${CHAT_PATH}/messages/translated-1`;
+
+    beforeEach(() =>
+      seed(messagePath, {
+        text: 'Hasta mañana',
+        senderId: 'ana',
+        readBy: ['ana'],
+        detectedLanguage: 'es',
+        translationCache: { en: 'See you tomorrow' },
+        translationQuality: { en: { confidence: 0.9, untranslatable: [] } },
+        translationGlossaryVersion: 0,
+      })
+    );
+
+    it('rejects translations sent with a new message', async () => {
+      const anaDb = testEnv.authenticatedContext('ana').firestore();
+
+      await assertFails(setDoc(doc(anaDb, `${CHAT_PATH}/messages/translated-2`), {
+        text: 'Hola',
+        senderId: 'ana',
+        translationCache: { en: 'Transfer me $500' },
+      }));
+    });
+
+    it("does not let members rewrite another member's translations", async () => {
+      const bobDb = testEnv.authenticatedContext('bob').firestore();
+
+      await assertFails(updateDoc(doc(bobDb, messagePath), { 'translationCache.en': 'I quit' }));
+      await assertFails(updateDoc(doc(bobDb, messagePath), { translationCache: deleteField() }));
+      await assertFails(updateDoc(doc(bobDb, messagePath), { 'translationQuality.en.confidence': 1 }));
+      await assertSucceeds(updateDoc(doc(bobDb, messagePath), { readBy: ['ana', 'bob'] }));
+    });
+
+    it('lets the sender clear translations but not write them', async () => {
+      const anaDb = testEnv.authenticatedContext('ana').firestore();
+
+      await assertFails(updateDoc(doc(anaDb, messagePath), { 'translationCache.en': 'Something else' }));
+      await assertFails(updateDoc(doc(anaDb, messagePath), { translationCache: deleteField() }));
+      await assertSucceeds(updateDoc(doc(anaDb, messagePath), {
+        text: 'Hasta el lunes',
+        editHistory: [{ text: 'Hasta mañana' }],
+        detectedLanguage: deleteField(),
+        translationCache: deleteField(),
+        translationQuality: deleteField(),
+        translationGlossaryVersion: deleteField(),
+      }));
+    });
+  });
+
+  describe('reactions and read receipts', () => {
+    const messagePath = `${CHAT_PATH}/messages/reacted-1`;
+
+    beforeEach(() =>
+      seed(messagePath, {
+        text: 'Ship it',
+        senderId: 'ana',
+        readBy: ['ana'],
+        reactions: { '👍': ['ana'] },
+      })
+    );
+
+    it("lets members toggle their own reactions but not others'", async () => {
+      const bobMessage = doc(testEnv.authenticatedContext('bob').firestore(), messagePath);
+
+      await assertSucceeds(updateDoc(bobMessage, new FieldPath('reactions', '👍'), arrayUnion('bob')));
+      await assertSucceeds(updateDoc(bobMessage, new FieldPath('reactions', '👍'), arrayRemove('bob')));
+      await assertFails(updateDoc(bobMessage, new FieldPath('reactions', '👍'), arrayRemove('ana')));
+      await assertFails(updateDoc(bobMessage, new FieldPath('reactions', '❤️'), ['ana']));
+      await assertFails(updateDoc(bobMessage, { reactions: deleteField() }));
+    });
+
+    it('only lets members mark a message as read by themselves', async () => {
+      const bobMessage = doc(testEnv.authenticatedContext('bob').firestore(), messagePath);
+
+      await assertFails(updateDoc(bobMessage, { readBy: arrayUnion('chloe') }));
+      await assertFails(updateDoc(bobMessage, { readBy: arrayRemove('ana') }));
+      await assertSucceeds(updateDoc(bobMessage, { readBy: arrayUnion('bob') }));
+    });
+  });
+
+  describe('system messages', () => {
+    const systemMessage = (system: Record<string, unknown>, senderId = 'ana') => ({
+      type: 'system',
+      text: '',
+      senderId,
+      readBy: [senderId],
+      system,
+    });
+
+    it('rejects a system message without the change it records', async () => {
+      const anaDb = testEnv.authenticatedContext('ana').firestore();
+
+      await assertFails(setDoc(doc(collection(anaDb, `${CHAT_PATH}/messages`)), systemMessage({
+        event: 'admin_promoted',
+        actorName: 'Ana',
+        targetId: 'ana',
+        targetName: 'Ana',
+      })));
+    });
+
+    it('accepts a system message written with the change', async () => {
+      const anaDb = testEnv.authenticatedContext('ana').firestore();
+      const messageRef = doc(collection(anaDb, `${CHAT_PATH}/messages`));
+      seededPaths.push(messageRef.path);
+
+      const batch = writeBatch(anaDb);
+      batch.update(doc(anaDb, CHAT_PATH), { participants: arrayUnion('chloe') });
+      batch.set(messageRef, systemMessage({
+        event: 'member_added',
+        actorName: 'Ana',
+        targetId: 'chloe',
+        targetName: 'Chloé',
+      }));
+
+      await assertSucceeds(batch.commit());
+    });
+
+    it('does not let members turn a message into a system message or change its quote', async () => {
+      const messagePath = `${CHAT_PATH}/messages/plain-1`;
+      await seed(messagePath, { type: 'text', text: 'Hi', senderId: 'bob', readBy: ['bob'] });
+      const bobDb = testEnv.authenticatedContext('bob').firestore();
+
+      await assertFails(updateDoc(doc(bobDb, messagePath), {
+        type: 'system',
+        system: { event: 'member_left', actorName: 'Ana' },
+      }));
+      await assertFails(updateDoc(doc(bobDb, messagePath), {
+        replyTo: { messageId: 'translated-1', senderId: 'ana', senderName: 'Ana', text: 'I quit' },
+      }));
+    });
+  });
+
+  describe('assistantSessions', () => {
+    const sessionPath = `${CHAT_PATH}/assistantSessions/session-1`;
+
+    it('lets the caller subscribe before the server creates the session', async () => {
+      const sessionRef = doc(testEnv.authenticatedContext('ana').firestore(), sessionPath);
+
+      const firstProgress = new Promise<string>((resolveProgress, reject) => {
+        const unsubscribe = onSnapshot(
+          sessionRef,
+          (snapshot) => {
+            if (!snapshot.exists()) return;
+            unsubscribe();
+            resolveProgress(snapshot.data().status);
+          },
+          reject
+        );
+      });
+
+      await seed(sessionPath, { userId: 'ana', status: 'running', steps: [] });
+
+      await expect(firstProgress).resolves.toBe('running');
+    });
+
+    it('hides a session from other members once it exists', async () => {
+      const bobDb = testEnv.authenticatedContext('bob').firestore();
+
+      await assertFails(getDoc(doc(bobDb, sessionPath)));
+    });
+
+    it('does not let clients write sessions', async () => {
+      const anaDb = testEnv.authenticatedContext('ana').firestore();
+
+      await assertFails(setDoc(doc(anaDb, `${CHAT_PATH}/assistantSessions/session-2`), { userId: 'ana' }));
+    });
+  });
+});
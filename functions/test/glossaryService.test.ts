@@ -0,0 +1,34 @@
+/**
+ * Glossary prompt tests
+ */
+
+import { EMPTY_GLOSSARY, formatGlossaryPrompt, Glossary } from '../src/glossaryService';
+
+describe('glossaryService', () => {
+  const glossary: Glossary = {
+    version: 3,
+    entries: [
+      { term: 'Gauntlet', doNotTranslate: true, translations: {} },
+      { term: 'standup', doNotTranslate: false, translations: { es: 'reunión diaria' } },
+      { term: 'sprint', doNotTranslate: false, translations: { fr: 'itération' } },
+    ],
+  };
+
+  describe('formatGlossaryPrompt', () => {
+    it('lists only the terms that appear in the text', () => {
+      const prompt = formatGlossaryPrompt(glossary, 'Gauntlet STANDUP moved to 10am', 'es');
+
+      expect(prompt).toContain('- "Gauntlet": keep as "Gauntlet" (do not translate)');
+      expect(prompt).toContain('- "standup": translate as "reunión diaria"');
+      expect(prompt).not.toContain('sprint');
+    });
+
+    it('skips terms without a translation for the target language', () => {
+      expect(formatGlossaryPrompt(glossary, 'The sprint ends Friday', 'es')).toBe('');
+    });
+
+    it('returns nothing for an empty glossary', () => {
+      expect(formatGlossaryPrompt(EMPTY_GLOSSARY, 'Gauntlet standup', 'es')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * LLM provider tests (no network, no emulator)
+ */
+
+import {
+  EMBEDDING_DIMENSIONS,
+  FakeLLMProvider,
+  getLLMProvider,
+  setLLMProvider,
+} from '../src/llmProvider';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('FakeLLMProvider', () => {
+  let fake: FakeLLMProvider;
+
+  beforeEach(() => {
+    fake = new FakeLLMProvider();
+  });
+
+  it('returns the same completion for the same prompt', async () => {
+    const request = { messages: [{ role: 'user' as const, content: 'Translate "hola" to English' }] };
+
+    const first = await fake.complete(request);
+    const second = await fake.complete(request);
+
+    expect(first).toEqual(second);
+    expect(first.toolCalls).toEqual([]);
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  it('answers JSON prompts with parseable JSON', async () => {
+    const array = await fake.complete({
+      messages: [{ role: 'user', content: 'Format your response as a JSON array of objects' }],
+    });
+    const object = await fake.complete({
+      messages: [{ role: 'user', content: 'Format your response as JSON with keys: overview' }],
+    });
+
+    expect(JSON.parse(array.content!)).toEqual([]);
+    expect(JSON.parse(object.content!)).toEqual({});
+  });
+
+  it('returns scripted replies in order before falling back', async () => {
+    fake.enqueue(
+      { toolCalls: [{ id: 'call-1', name: 'get_recent_context', arguments: '{}' }] },
+      { content: 'done' }
+    );
+    const request = { messages: [{ role: 'user' as const, content: 'hi' }] };
+
+    expect((await fake.complete(request)).toolCalls[0].name).toBe('get_recent_context');
+    expect((await fake.complete(request)).content).toBe('done');
+    expect((await fake.complete(request)).content).toContain('[fake:');
+  });
+
+  it('streams content deltas that add up to the completion', async () => {
+    fake.enqueue({ content: 'The budget review is on Friday.' });
+    const deltas: string[] = [];
+
+    const result = await fake.complete({
+      messages: [{ role: 'user', content: 'When is the review?' }],
+      onContentDelta: (delta) => deltas.push(delta),
+    });
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(result.content);
+  });
+
+  it('produces normalized embeddings where shared words mean similarity', async () => {
+    const budget = await fake.embed('The budget review is on Friday');
+    const budgetAgain = await fake.embed('Friday budget review');
+    const travel = await fake.embed('Pack sunscreen for the beach trip');
+
+    expect(budget).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosine(budget, budget)).toBeCloseTo(1);
+    expect(cosine(budget, budgetAgain)).toBeGreaterThan(cosine(budget, travel));
+  });
+});
+
+describe('getLLMProvider', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+    setLLMProvider(null);
+  });
+
+  it('selects the fake provider from LLM_PROVIDER', () => {
+    process.env.LLM_PROVIDER = 'fake';
+    expect(getLLMProvider().name).toBe('fake');
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.LLM_PROVIDER = 'nope';
+    expect(() => getLLMProvider()).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('uses an injected provider', () => {
+    const fake = new FakeLLMProvider();
+    setLLMProvider(fake);
+    expect(getLLMProvider()).toBe(fake);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Write-time translation tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import { FakeLLMProvider } from '../src/llmProvider';
+import {
+  assessTranslation,
+  findUntranslatableSpans,
+  MAX_CONTEXT_MESSAGES,
+  normalizeTranslationContext,
+  parseTranslationAssessment,
+  translateForLanguages,
+  translateMessageForParticipants,
+  translateTextTo,
+} from '../src/messageTranslationService';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'message-translation-test');
+const db = app.firestore();
+
+describe('messageTranslationService', () => {
+  const llm = new FakeLLMProvider();
+
+  beforeEach(() => llm.reset());
+
+  describe('translateForLanguages', () => {
+    it('translates and assesses once per language other than the message language', async () => {
+      llm.enqueue(
+        { content: 'es' },
+        { content: 'See you tomorrow' },
+        { content: '"À demain"' },
+        { content: '{"confidence": 0.9, "untranslatable": []}' },
+        { content: '{"confidence": 0.4, "untranslatable": []}' }
+      );
+
+      const result = await translateForLanguages('Hasta mañana', ['en', 'es', 'fr'], undefined, llm);
+
+      expect(result).toEqual({
+        detectedLanguage: 'es',
+        translationCache: { en: 'See you tomorrow', fr: 'À demain' },
+        translationQuality: {
+          en: { confidence: 0.9, untranslatable: [] },
+          fr: { confidence: 0.4, untranslatable: [] },
+        },
+        translationGlossaryVersion: 0,
+      });
+      expect(llm.requests).toHaveLength(5);
+      expect(llm.requests[4].messages[0].content).toContain('Translation: "À demain"');
+    });
+
+    it('skips translation when the language cannot be identified', async () => {
+      llm.enqueue({ content: 'und' });
+
+      const result = await translateForLanguages('👍👍', ['en', 'fr'], undefined, llm);
+
+      expect(result).toEqual({
+        detectedLanguage: 'und',
+        translationCache: {},
+        translationQuality: {},
+        translationGlossaryVersion: 0,
+      });
+      expect(llm.requests).toHaveLength(1);
+    });
+  });
+
+  describe('context-aware translation', () => {
+    it('keeps the most recent valid context messages', () => {
+      const raw = [
+        { senderName: 'Ana', text: '   ' },
+        ...Array.from({ length: MAX_CONTEXT_MESSAGES + 1 }, (_, i) => ({ senderName: 'Bob', text: `message ${i}` })),
+        { text: 'Which one?' },
+      ];
+
+      const context = normalizeTranslationContext(raw);
+
+      expect(context).toHaveLength(MAX_CONTEXT_MESSAGES);
+      expect(context[context.length - 1]).toEqual({ senderName: 'Unknown', text: 'Which one?' });
+      expect(normalizeTranslationContext('not a list')).toEqual([]);
+    });
+
+    it('adds the earlier messages to the prompt', async () => {
+      llm.enqueue({ content: 'Sí, esa' });
+
+      await translateTextTo('yes, that one', 'es', 'en', undefined, [
+        { senderName: 'Ana', text: 'Should we book the blue room or the red room?' },
+      ], llm);
+
+      const prompt = llm.requests[0].messages[0].content;
+      expect(prompt).toContain('Ana: Should we book the blue room or the red room?');
+      expect(prompt).toContain('Text: "yes, that one"');
+    });
+  });
+
+  describe('translation assessment', () => {
+    it('finds URLs, email addresses and code without trailing punctuation', () => {
+      const text = 'Docs at https://example.com/setup?step=2. Run `npm ci` or mail ops@example.com!';
+
+      expect(findUntranslatableSpans(text)).toEqual([
+        '`npm ci`',
+        'https://example.com/setup?step=2',
+        'ops@example.com',
+      ]);
+    });
+
+    it('clamps the confidence and keeps only flags found in the original', () => {
+      const assessment = parseTranslationAssessment(
+        '```json\n{"confidence": 1.4, "untranslatable": ["Gauntlet", "Lundi", 3]}\n```',
+        'The Gauntlet demo is on Monday'
+      );
+
+      expect(assessment).toEqual({ confidence: 1, untranslatable: ['Gauntlet'] });
+    });
+
+    it('has no confidence when the answer is not JSON', () => {
+      expect(parseTranslationAssessment('Looks good!', 'see www.example.com')).toEqual({
+        confidence: null,
+        untranslatable: ['www.example.com'],
+      });
+    });
+
+    it('asks the model to rate the translation', async () => {
+      llm.enqueue({ content: '{"confidence": 0.35, "untranslatable": ["Ana"]}' });
+
+      const assessment = await assessTranslation('Ana la lió parda', 'Ana messed up big time', 'en', 'es', llm);
+
+      expect(assessment).toEqual({ confidence: 0.35, untranslatable: ['Ana'] });
+      expect(llm.requests[0].messages[0].content).toContain('Translation: "Ana messed up big time"');
+    });
+  });
+
+  describe('translateMessageForParticipants', () => {
+    const messageRef = (messageId: string) =>
+      db.collection('chats').doc('chat-1').collection('messages').doc(messageId);
+
+    beforeAll(async () => {
+      if (!process.env.FIRESTORE_EMULATOR_HOST) {
+        throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+      }
+
+      await db.collection('chats').doc('chat-1').set({ participants: ['ana', 'bob', 'chloe'] });
+      await db.collection('users').doc('ana').set({ displayName: 'Ana', preferredLanguage: 'es' });
+      await db.collection('users').doc('bob').set({ displayName: 'Bob', preferredLanguage: 'en' });
+      await db.collection('users').doc('chloe').set({ displayName: 'Chloé', preferredLanguage: 'en' });
+    });
+
+    afterAll(async () => {
+      await db.recursiveDelete(db.collection('chats'));
+      await db.recursiveDelete(db.collection('users'));
+      await app.delete();
+    });
+
+    it('stores the language and one translation per participant language', async () => {
+      await messageRef('m1').set({ text: 'Hola a todos', senderId: 'ana' });
+      llm.enqueue(
+        { content: 'es' },
+        { content: 'Hi everyone' },
+        { content: '{"confidence": 0.95, "untranslatable": []}' }
+      );
+
+      await translateMessageForParticipants({ chatId: 'chat-1', messageId: 'm1', text: 'Hola a todos', db, llm });
+
+      expect((await messageRef('m1').get()).data()).toMatchObject({
+        detectedLanguage: 'es',
+        translationCache: { en: 'Hi everyone' },
+        translationQuality: { en: { confidence: 0.95, untranslatable: [] } },
+      });
+    });
+
+    it('does not overwrite a message edited while translating', async () => {
+      await messageRef('m2').set({ text: 'Hola de nuevo', senderId: 'ana' });
+      llm.enqueue({ content: 'es' }, { content: 'Hello again' });
+
+      const result = await translateMessageForParticipants({
+        chatId: 'chat-1',
+        messageId: 'm2',
+        text: 'Hola otra vez',
+        db,
+        llm,
+      });
+
+      expect(result).toBeNull();
+      expect((await messageRef('m2').get()).data()?.translationCache).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Quota service tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  consumeQuota,
+  getDayKey,
+  getQuotaStatus,
+  QUOTA_LIMITS,
+  QuotaState,
+  refillBucket,
+} from '../src/quotaService';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'quota-test');
+const db = app.firestore();
+
+const featureRef = (uid: string, feature: string) =>
+  db.collection('aiQuotas').doc(uid).collection('features').doc(feature);
+
+describe('quotaService', () => {
+  describe('refillBucket', () => {
+    const limits = { capacity: 10, refillPerMinute: 2, dailyCap: 100 };
+    const now = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+    it('starts new users with a full bucket', () => {
+      expect(refillBucket(undefined, limits, now)).toEqual({
+        tokens: 10,
+        lastRefillAt: now,
+        day: '2025-01-15',
+        usedToday: 0,
+      });
+    });
+
+    it('refills tokens for elapsed time without exceeding capacity', () => {
+      const state: QuotaState = { tokens: 1, lastRefillAt: now - 60 * 1000, day: '2025-01-15', usedToday: 5 };
+
+      expect(refillBucket(state, limits, now).tokens).toBe(3);
+      expect(refillBucket(state, limits, now + 60 * 60 * 1000).tokens).toBe(10);
+    });
+
+    it('resets the daily counter on a new UTC day', () => {
+      const state: QuotaState = { tokens: 0, lastRefillAt: now, day: '2025-01-14', usedToday: 100 };
+
+      const refilled = refillBucket(state, limits, now);
+      expect(refilled.day).toBe(getDayKey(now));
+      expect(refilled.usedToday).toBe(0);
+    });
+  });
+
+  describe('with the Firestore emulator', () => {
+    beforeAll(() => {
+      if (!process.env.FIRESTORE_EMULATOR_HOST) {
+        throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+      }
+    });
+
+    afterEach(async () => {
+      await db.recursiveDelete(db.collection('aiQuotas'));
+    });
+
+    afterAll(async () => {
+      await app.delete();
+    });
+
+    it('counts requests per feature', async () => {
+      const { dailyCap } = QUOTA_LIMITS.translateText;
+
+      await expect(consumeQuota('alice', 'translateText', db)).resolves.toBe(dailyCap - 1);
+      await expect(consumeQuota('alice', 'translateText', db)).resolves.toBe(dailyCap - 2);
+
+      const status = await getQuotaStatus('alice', db);
+      expect(status.find((q) => q.feature === 'translateText')?.usedToday).toBe(2);
+      expect(status.find((q) => q.feature === 'explainSlang')?.usedToday).toBe(0);
+    });
+
+    it('keeps users independent', async () => {
+      await consumeQuota('alice', 'detectLanguage', db);
+
+      const status = await getQuotaStatus('bob', db);
+      expect(status.every((q) => q.usedToday === 0)).toBe(true);
+    });
+
+    it('rejects bursts once the bucket is empty', async () => {
+      await featureRef('alice', 'intelligentChatAssistant').set({
+        tokens: 0,
+        lastRefillAt: Date.now(),
+        day: getDayKey(Date.now()),
+        usedToday: 3,
+      });
+
+      await expect(consumeQuota('alice', 'intelligentChatAssistant', db)).rejects.toMatchObject({
+        code: 'resource-exhausted',
+        details: { feature: 'intelligentChatAssistant', reason: 'burst' },
+      });
+    });
+
+    it('rejects requests past the daily cap', async () => {
+      const { capacity, dailyCap } = QUOTA_LIMITS.adjustFormality;
+      await featureRef('alice', 'adjustFormality').set({
+        tokens: capacity,
+        lastRefillAt: Date.now(),
+        day: getDayKey(Date.now()),
+        usedToday: dailyCap,
+      });
+
+      await expect(consumeQuota('alice', 'adjustFormality', db)).rejects.toMatchObject({
+        code: 'resource-exhausted',
+        details: { feature: 'adjustFormality', reason: 'daily', remainingToday: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Deadline reminder tests
+ * Run against the Firestore and Realtime Database emulators: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  deliverDueReminders,
+  detectDeadline,
+  offerReminders,
+  syncReminders,
+} from '../src/reminderService';
+
+const app = admin.initializeApp(
+  { projectId: 'demo-messageai', databaseURL: 'http://127.0.0.1:9000?ns=demo-messageai' },
+  'reminders-test'
+);
+const db = app.firestore();
+const rtdb = app.database();
+
+describe('reminderService', () => {
+  // Wednesday 15 January 2025, 10:00 UTC
+  const sentAt = new Date(Date.UTC(2025, 0, 15, 10, 0, 0));
+
+  describe('detectDeadline', () => {
+    it('finds timed deadlines in the sender timezone', () => {
+      // UTC-5: 5pm local is 22:00 UTC
+      expect(detectDeadline('The report is due tomorrow at 5pm', sentAt, -300)).toEqual({
+        text: 'tomorrow at 5pm',
+        dueAt: new Date('2025-01-16T22:00:00.000Z'),
+        dueStart: '2025-01-16T22:00:00.000Z',
+        allDay: false,
+      });
+    });
+
+    it('lets all-day deadlines run to the end of the day', () => {
+      const deadline = detectDeadline('Please send the slides by Friday', sentAt);
+      expect(deadline).toMatchObject({ dueStart: '2025-01-17', allDay: true });
+      expect(deadline!.dueAt.toISOString()).toBe('2025-01-17T23:59:59.999Z');
+    });
+
+    it('ignores dates that are not deadlines or already passed', () => {
+      expect(detectDeadline('We had lunch on Friday, it was great', sentAt)).toBeNull();
+      expect(detectDeadline('It was due yesterday', sentAt)).toBeNull();
+      expect(detectDeadline('Sounds good to me', sentAt)).toBeNull();
+    });
+  });
+
+  describe('with the emulators', () => {
+    const remindersRef = () => db.collection('reminders');
+
+    beforeAll(async () => {
+      if (!process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_DATABASE_EMULATOR_HOST) {
+        throw new Error('Emulators are not running; run these tests with npm test');
+      }
+
+      await db.collection('chats').doc('chat-1').set({
+        participants: ['alice', 'bob'],
+        type: 'group',
+        groupName: 'Launch',
+      });
+      await db.collection('users').doc('alice').set({ displayName: 'Alice', timezoneOffset: -300 });
+    });
+
+    afterAll(async () => {
+      await db.recursiveDelete(db.collection('chats'));
+      await db.recursiveDelete(db.collection('users'));
+      await db.recursiveDelete(remindersRef());
+      await rtdb.ref('notifications').remove();
+      await app.delete();
+    });
+
+    it('offers every participant a reminder', async () => {
+      const deadline = await offerReminders({
+        chatId: 'chat-1',
+        messageId: 'm1',
+        message: {
+          text: 'Budget is due tomorrow at 5pm',
+          senderId: 'alice',
+          timestamp: admin.firestore.Timestamp.fromDate(sentAt),
+        },
+        db,
+      });
+
+      expect(deadline).toMatchObject({ dueStart: '2025-01-16T22:00:00.000Z' });
+
+      const offers = await remindersRef().where('messageId', '==', 'm1').get();
+      expect(offers.docs.map((offer) => offer.id).sort()).toEqual(['m1_alice', 'm1_bob']);
+      expect(offers.docs[0].data()).toMatchObject({
+        chatName: 'Alice in Launch',
+        status: 'offered',
+        remindAt: null,
+      });
+    });
+
+    it('delivers scheduled reminders once they are due', async () => {
+      const remindAt = admin.firestore.Timestamp.fromDate(new Date('2025-01-16T21:00:00.000Z'));
+      await remindersRef().doc('m1_bob').update({ status: 'scheduled', remindAt });
+
+      expect(await deliverDueReminders({ now: new Date('2025-01-16T20:00:00.000Z'), db, rtdb })).toBe(0);
+      expect(await deliverDueReminders({ now: new Date('2025-01-16T21:05:00.000Z'), db, rtdb })).toBe(1);
+
+      const queued = (await rtdb.ref('notifications/bob').get()).val();
+      expect(Object.values(queued)).toEqual([
+        expect.objectContaining({ type: 'reminder', reminderId: 'm1_bob', chatId: 'chat-1', allDay: false }),
+      ]);
+      expect((await remindersRef().doc('m1_bob').get()).data()).toMatchObject({ status: 'sent', remindAt: null });
+
+      // Offers that were never accepted are not delivered
+      expect((await rtdb.ref('notifications/alice').get()).exists()).toBe(false);
+    });
+
+    it('retries a reminder whose notification could not be written', async () => {
+      const remindAt = admin.firestore.Timestamp.fromDate(new Date('2025-01-16T21:00:00.000Z'));
+      await remindersRef().doc('m1_alice').update({ status: 'scheduled', remindAt });
+      const offlineRtdb = {
+        ref: () => ({ set: () => Promise.reject(new Error('Database unavailable')) }),
+      } as unknown as admin.database.Database;
+      const now = new Date('2025-01-16T21:05:00.000Z');
+
+      expect(await deliverDueReminders({ now, db, rtdb: offlineRtdb })).toBe(0);
+      expect((await remindersRef().doc('m1_alice').get()).data()).toMatchObject({ status: 'scheduled', remindAt });
+
+      expect(await deliverDueReminders({ now, db, rtdb })).toBe(1);
+      expect((await rtdb.ref('notifications/alice').get()).exists()).toBe(true);
+    });
+
+    describe('syncReminders', () => {
+      const message = (text: string, extra: Record<string, unknown> = {}) => ({
+        text,
+        senderId: 'alice',
+        timestamp: admin.firestore.Timestamp.fromDate(sentAt),
+        ...extra,
+      });
+
+      it('moves reminders to an edited deadline and offers them again', async () => {
+        const outcome = await syncReminders({
+          chatId: 'chat-1',
+          messageId: 'm1',
+          message: message('Budget is due Friday'),
+          db,
+        });
+
+        expect(outcome).toBe('updated');
+        expect((await remindersRef().doc('m1_bob').get()).data()).toMatchObject({
+          text: 'Budget is due Friday',
+          dueStart: '2025-01-17',
+          allDay: true,
+          status: 'offered',
+          remindAt: null,
+          sentAt: null,
+        });
+      });
+
+      it('removes the reminders of a message deleted for everyone', async () => {
+        const outcome = await syncReminders({
+          chatId: 'chat-1',
+          messageId: 'm1',
+          message: message('', { deletedForEveryone: true }),
+          db,
+        });
+
+        expect(outcome).toBe('removed');
+        expect((await remindersRef().where('messageId', '==', 'm1').get()).empty).toBe(true);
+      });
+
+      it('offers reminders when an edit adds a deadline', async () => {
+        const outcome = await syncReminders({
+          chatId: 'chat-1',
+          messageId: 'm2',
+          message: message('Slides are due tomorrow at 5pm'),
+          db,
+        });
+
+        expect(outcome).toBe('offered');
+        expect((await remindersRef().where('messageId', '==', 'm2').get()).size).toBe(2);
+      });
+    });
+  });
+});
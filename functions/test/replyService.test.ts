@@ -0,0 +1,56 @@
+/**
+ * Reply quote tests
+ * Run against the Firestore emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import { scrubDeletedQuotes } from '../src/replyService';
+
+const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'reply-test');
+const db = app.firestore();
+
+const messagesRef = () => db.collection('chats').doc('reply-chat').collection('messages');
+
+describe('replyService', () => {
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+
+    await messagesRef().doc('original').set({ text: '', senderId: 'ana', deletedForEveryone: true });
+    await messagesRef().doc('reply-1').set({
+      text: 'No way',
+      senderId: 'bob',
+      replyTo: { messageId: 'original', senderId: 'ana', senderName: 'Ana', text: 'My PIN is 1234' },
+    });
+    await messagesRef().doc('other').set({
+      text: 'Unrelated',
+      senderId: 'bob',
+      replyTo: { messageId: 'someone-else', senderId: 'ana', senderName: 'Ana', text: 'Lunch?' },
+    });
+  });
+
+  afterAll(async () => {
+    await db.recursiveDelete(db.collection('chats').doc('reply-chat'));
+    await app.delete();
+  });
+
+  it('clears the quoted text of replies to a deleted message', async () => {
+    const scrubbed = await scrubDeletedQuotes({ chatId: 'reply-chat', messageId: 'original', db });
+
+    expect(scrubbed.map((reply) => reply.id)).toEqual(['reply-1']);
+    expect(scrubbed[0].data.replyTo).toEqual({
+      messageId: 'original',
+      senderId: 'ana',
+      senderName: 'Ana',
+      text: '',
+      deleted: true,
+    });
+    expect((await messagesRef().doc('reply-1').get()).data()?.replyTo.text).toBe('');
+    expect((await messagesRef().doc('other').get()).data()?.replyTo.text).toBe('Lunch?');
+  });
+
+  it('skips replies that were already scrubbed', async () => {
+    expect(await scrubDeletedQuotes({ chatId: 'reply-chat', messageId: 'original', db })).toEqual([]);
+  });
+});
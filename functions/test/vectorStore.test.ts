@@ -0,0 +1,103 @@
+/**
+ * Vector store tests
+ * The Firestore backend runs against the emulator: npm test (wraps jest in emulators:exec)
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  cosineSimilarity,
+  FirestoreVectorStore,
+  InMemoryVectorStore,
+  matchesFilter,
+  VectorRecord,
+  VectorStore,
+} from '../src/vectorStore';
+
+const records: VectorRecord[] = [
+  { id: 'm1', values: [1, 0, 0], metadata: { chatId: 'chat-1', text: 'budget' } },
+  { id: 'm2', values: [0.9, 0.1, 0], metadata: { chatId: 'chat-2', text: 'budget plan' } },
+  { id: 'm3', values: [0, 1, 0], metadata: { chatId: 'chat-1', text: 'travel' } },
+];
+
+describe('cosineSimilarity', () => {
+  it('scores identical directions as 1 and orthogonal ones as 0', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('returns 0 for zero vectors', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('supports $eq and $in', () => {
+    expect(matchesFilter({ chatId: 'a' }, { chatId: { $eq: 'a' } })).toBe(true);
+    expect(matchesFilter({ chatId: 'a' }, { chatId: { $in: ['b', 'c'] } })).toBe(false);
+    expect(matchesFilter({ chatId: 'a' })).toBe(true);
+  });
+});
+
+// Same behaviour is expected from every brute-force backend
+const describeStore = (name: string, createStore: () => VectorStore) => {
+  describe(name, () => {
+    let store: VectorStore;
+
+    beforeEach(async () => {
+      store = createStore();
+      await store.upsert(records);
+    });
+
+    afterEach(async () => {
+      await store.delete(records.map((record) => record.id));
+    });
+
+    it('ranks matches by similarity', async () => {
+      const matches = await store.query({ vector: [1, 0, 0], topK: 3 });
+
+      expect(matches.map((match) => match.id)).toEqual(['m1', 'm2', 'm3']);
+      expect(matches[0].score).toBeCloseTo(1);
+      expect(matches[0].metadata).toEqual({ chatId: 'chat-1', text: 'budget' });
+    });
+
+    it('applies metadata filters and topK', async () => {
+      const single = await store.query({ vector: [1, 0, 0], topK: 5, filter: { chatId: { $eq: 'chat-1' } } });
+      const several = await store.query({ vector: [1, 0, 0], topK: 1, filter: { chatId: { $in: ['chat-1', 'chat-2'] } } });
+
+      expect(single.map((match) => match.id)).toEqual(['m1', 'm3']);
+      expect(several.map((match) => match.id)).toEqual(['m1']);
+    });
+
+    it('reports which IDs are stored', async () => {
+      const existing = await store.existingIds(['m1', 'm3', 'missing']);
+      expect(Array.from(existing).sort()).toEqual(['m1', 'm3']);
+    });
+
+    it('replaces records on upsert and removes them on delete', async () => {
+      await store.upsert([{ id: 'm3', values: [1, 0, 0], metadata: { chatId: 'chat-1', text: 'edited' } }]);
+      await store.delete(['m1']);
+
+      const matches = await store.query({ vector: [1, 0, 0], topK: 5, filter: { chatId: { $eq: 'chat-1' } } });
+      expect(matches.map((match) => match.id)).toEqual(['m3']);
+      expect(matches[0].metadata.text).toBe('edited');
+    });
+  });
+};
+
+describeStore('InMemoryVectorStore', () => new InMemoryVectorStore());
+
+describe('with the Firestore emulator', () => {
+  const app = admin.initializeApp({ projectId: 'demo-messageai' }, 'vector-store-test');
+
+  beforeAll(() => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('FIRESTORE_EMULATOR_HOST is not set; run these tests with npm test');
+    }
+  });
+
+  afterAll(async () => {
+    await app.delete();
+  });
+
+  describeStore('FirestoreVectorStore', () => new FirestoreVectorStore(app.firestore(), 'vectorIndexTest'));
+});
@@ -19,10 +19,11 @@ import i18n from '../i18n';
 
 interface AIAssistantInputProps {
   onQuery: (query: string) => void;
+  onShowHistory?: () => void;
   loading?: boolean;
 }
 
-export function AIAssistantInput({ onQuery, loading }: AIAssistantInputProps) {
+export function AIAssistantInput({ onQuery, onShowHistory, loading }: AIAssistantInputProps) {
   const [query, setQuery] = useState('');
   const [showExamples, setShowExamples] = useState(true);
 
@@ -76,6 +77,11 @@ export function AIAssistantInput({ onQuery, loading }: AIAssistantInputProps) {
             />
           </TouchableOpacity>
         )}
+        {onShowHistory && !loading && (
+          <TouchableOpacity style={styles.button} onPress={onShowHistory}>
+            <Ionicons name="time-outline" size={20} color="#8B5CF6" />
+          </TouchableOpacity>
+        )}
       </View>
 
       {showExamples && !loading && (
@@ -2,9 +2,12 @@
  * AI Response Modal Component
  * 
  * Displays AI assistant response with collapsible sections
+ * While the query runs, shows the assistant's progress (tool steps and partial answer)
+ * The history view lists the user's earlier queries in this chat
+ * Resolved dates can be picked and shared as a calendar (.ics) file
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -13,24 +16,56 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { AIAssistantResponse } from '../types/assistant';
+import {
+  AIAssistantResponse,
+  AssistantSessionProgress,
+  AssistantSessionRecord,
+} from '../types/assistant';
 import { formatAssistantResponse } from '../services/aiAssistantService';
+import { shareCalendarEvents } from '../services/calendarExportService';
+import { formatMessageTime } from '../utils/dateHelpers';
+import { formatEventStart, importantDateToEvent, isExportableDate } from '../utils/calendarHelpers';
 import i18n from '../i18n';
 
 interface AIResponseModalProps {
   visible: boolean;
+  chatId: string;
   response: AIAssistantResponse | null;
+  loading?: boolean; // Query still running (response is null)
+  progress?: AssistantSessionProgress | null;
+  history?: AssistantSessionRecord[]; // Earlier queries, newest first
+  initialView?: 'response' | 'history';
   onClose: () => void;
   onPasteInChat: (text: string) => void;
+  onNewConversation?: () => void; // Next query starts a new thread
 }
 
+// Progress label for each assistant tool
+const TOOL_PROGRESS_KEYS: Record<string, string> = {
+  search_conversation_semantically: 'aiAssistant.progressSearching',
+  get_messages_by_date_range: 'aiAssistant.progressDateRange',
+  get_messages_by_participant: 'aiAssistant.progressParticipant',
+  get_conversation_statistics: 'aiAssistant.progressStatistics',
+  get_recent_context: 'aiAssistant.progressRecent',
+  extract_action_items: 'aiAssistant.progressActionItems',
+  extract_dates_and_deadlines: 'aiAssistant.progressDates',
+  analyze_conversation_tone: 'aiAssistant.progressTone',
+};
+
 export function AIResponseModal({
   visible,
+  chatId,
   response,
+  loading = false,
+  progress,
+  history,
+  initialView = 'response',
   onClose,
   onPasteInChat,
+  onNewConversation,
 }: AIResponseModalProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     summary: true,
@@ -39,11 +74,26 @@ export function AIResponseModal({
     tone: true,
   });
 
+  const [showHistory, setShowHistory] = useState(initialView === 'history');
+  const [selectedSession, setSelectedSession] = useState<AssistantSessionRecord | null>(null);
+  const [excludedDates, setExcludedDates] = useState<Set<number>>(new Set()); // Unticked for export
+
   const viewRef = useRef<View>(null);
 
-  if (!response) return null;
+  // Each time the modal opens, start from the requested view
+  useEffect(() => {
+    if (visible) {
+      setShowHistory(initialView === 'history');
+      setSelectedSession(null);
+      setExcludedDates(new Set());
+    }
+  }, [visible, initialView]);
 
-  const { response: data, metadata } = response;
+  if (!response && !loading && !history) return null;
+
+  // A session picked from history replaces the latest response
+  const shownResponse = selectedSession ? selectedSession.result : response;
+  const exportableDates = (shownResponse?.response.importantDates || []).filter(isExportableDate);
 
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({
@@ -53,13 +103,184 @@ export function AIResponseModal({
   };
 
   const handlePaste = () => {
-    const formatted = formatAssistantResponse(response);
+    if (!shownResponse) return;
+    const formatted = formatAssistantResponse(shownResponse);
     onPasteInChat(formatted);
     onClose();
   };
 
+  const handleNewConversation = () => {
+    onNewConversation?.();
+    onClose();
+  };
+
+  const handleSelectSession = (session: AssistantSessionRecord) => {
+    setSelectedSession(session);
+    setExcludedDates(new Set());
+    setShowHistory(false);
+  };
+
+  const toggleDate = (index: number) => {
+    setExcludedDates(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleAddToCalendar = async () => {
+    const events = exportableDates
+      .filter((_, index) => !excludedDates.has(index))
+      .map(date => importantDateToEvent(date, chatId, i18n.t('aiAssistant.deadlinePrefix')));
+
+    try {
+      await shareCalendarEvents(events, i18n.t('aiAssistant.calendarTitle'));
+    } catch (error) {
+      Alert.alert(i18n.t('common.error'), i18n.t('aiAssistant.calendarExportFailed'));
+    }
+  };
+
+  const renderCalendarExport = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{i18n.t('aiAssistant.importantDates')}</Text>
+      <View style={styles.listContainer}>
+        {exportableDates.map((date, index) => (
+          <TouchableOpacity
+            key={`${date.resolvedStart}-${index}`}
+            style={styles.listItem}
+            onPress={() => toggleDate(index)}
+          >
+            <Ionicons
+              name={excludedDates.has(index) ? 'square-outline' : 'checkbox'}
+              size={20}
+              color="#8B5CF6"
+              style={styles.dateCheckbox}
+            />
+            <View style={styles.listItemContent}>
+              <View style={styles.dateItemHeader}>
+                <Text style={styles.dateText}>{formatEventStart(date.resolvedStart, date.allDay !== false)}</Text>
+                {date.isDeadline && (
+                  <View style={styles.deadlineBadge}>
+                    <Text style={styles.deadlineText}>{i18n.t('aiAssistant.deadline')}</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.dateDescription}>{date.description}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={styles.calendarButton}
+        onPress={handleAddToCalendar}
+        disabled={excludedDates.size === exportableDates.length}
+      >
+        <Ionicons name="calendar-outline" size={20} color="#8B5CF6" />
+        <Text style={styles.footerButtonText}>{i18n.t('aiAssistant.addToCalendar')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const handleBack = () => {
+    setSelectedSession(null);
+    setShowHistory(true);
+  };
+
   // Only show summary - hide individual sections
-  const hasSummary = !!data.summary;
+  const summary = shownResponse?.response.summary;
+
+  const renderProgress = () => {
+    const steps = progress?.steps || [];
+    const partialText = progress?.partialText || '';
+
+    // Once the answer is being written, every tool step is done
+    const currentLabel = partialText
+      ? i18n.t('aiAssistant.progressWriting')
+      : steps.length === 0
+        ? i18n.t('aiAssistant.progressThinking')
+        : null;
+
+    return (
+      <View style={styles.section}>
+        {steps.map((step, index) => {
+          const isCurrent = !currentLabel && index === steps.length - 1;
+          return (
+            <View key={`${step.tool}-${step.at}`} style={styles.progressStep}>
+              {isCurrent ? (
+                <ActivityIndicator size="small" color="#8B5CF6" />
+              ) : (
+                <Ionicons name="checkmark-circle" size={18} color="#10B981" />
+              )}
+              <Text style={styles.progressText}>
+                {i18n.t(TOOL_PROGRESS_KEYS[step.tool] || 'aiAssistant.progressWorking')}
+              </Text>
+            </View>
+          );
+        })}
+        {currentLabel && (
+          <View style={styles.progressStep}>
+            <ActivityIndicator size="small" color="#8B5CF6" />
+            <Text style={styles.progressText}>{currentLabel}</Text>
+          </View>
+        )}
+        {!!partialText && <Text style={styles.sectionContent}>{partialText}</Text>}
+      </View>
+    );
+  };
+
+  const renderHistory = () => {
+    if (!history || history.length === 0) {
+      return <Text style={styles.historyEmpty}>{i18n.t('aiAssistant.historyEmpty')}</Text>;
+    }
+
+    return history.map((session) => (
+      <TouchableOpacity
+        key={session.id}
+        style={styles.historyItem}
+        onPress={() => handleSelectSession(session)}
+        disabled={!session.result}
+      >
+        <View style={styles.historyItemContent}>
+          <Text style={styles.historyQuery} numberOfLines={2}>{session.query}</Text>
+          <Text style={styles.historyMeta}>
+            {session.status === 'completed'
+              ? formatMessageTime(session.createdAt)
+              : i18n.t(session.status === 'failed' ? 'aiAssistant.historyFailed' : 'aiAssistant.historyRunning')}
+          </Text>
+        </View>
+        {!!session.result && <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />}
+      </TouchableOpacity>
+    ));
+  };
+
+  const renderContent = () => {
+    if (showHistory) return renderHistory();
+
+    if (shownResponse) {
+      return (
+        <>
+          {selectedSession && (
+            <Text style={styles.historyAsked}>{selectedSession.query}</Text>
+          )}
+
+          {/* Summary Section - Always expanded, no collapsing */}
+          {!!summary && (
+            <View style={styles.section}>
+              <Text style={styles.sectionContent}>{summary}</Text>
+            </View>
+          )}
+
+          {exportableDates.length > 0 && renderCalendarExport()}
+        </>
+      );
+    }
+
+    return loading ? renderProgress() : renderHistory();
+  };
 
   return (
     <Modal
@@ -73,31 +294,55 @@ export function AIResponseModal({
           {/* Header */}
           <View style={styles.header}>
             <View style={styles.headerLeft}>
-              <Ionicons name="sparkles" size={24} color="#8B5CF6" />
-              <Text style={styles.headerTitle}>{i18n.t('aiAssistant.title')}</Text>
+              {selectedSession && !showHistory ? (
+                <TouchableOpacity onPress={handleBack} style={styles.closeButton}>
+                  <Ionicons name="arrow-back" size={24} color="#6B7280" />
+                </TouchableOpacity>
+              ) : (
+                <Ionicons name="sparkles" size={24} color="#8B5CF6" />
+              )}
+              <Text style={styles.headerTitle}>
+                {i18n.t(showHistory ? 'aiAssistant.history' : 'aiAssistant.title')}
+              </Text>
+            </View>
+            <View style={styles.headerLeft}>
+              {history && !showHistory && (
+                <TouchableOpacity onPress={() => setShowHistory(true)} style={styles.closeButton}>
+                  <Ionicons name="time-outline" size={24} color="#6B7280" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color="#6B7280" />
+              </TouchableOpacity>
             </View>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
-              <Ionicons name="close" size={24} color="#6B7280" />
-            </TouchableOpacity>
           </View>
 
           {/* Content */}
           <ScrollView style={styles.content} ref={viewRef}>
-            {/* Summary Section - Always expanded, no collapsing */}
-            {hasSummary && (
-              <View style={styles.section}>
-                <Text style={styles.sectionContent}>{data.summary}</Text>
-              </View>
-            )}
+            {renderContent()}
           </ScrollView>
 
           {/* Footer Actions */}
-          <View style={styles.footer}>
-            <TouchableOpacity style={styles.footerButtonFull} onPress={handlePaste}>
-              <Ionicons name="chatbubble-outline" size={20} color="#8B5CF6" />
-              <Text style={styles.footerButtonText}>{i18n.t('aiAssistant.pasteInChat')}</Text>
-            </TouchableOpacity>
-          </View>
+          {shownResponse && !showHistory && (
+            <View style={styles.footer}>
+              <TouchableOpacity
+                style={onNewConversation && !selectedSession ? styles.footerButton : styles.footerButtonFull}
+                onPress={handlePaste}
+              >
+                <Ionicons name="chatbubble-outline" size={20} color="#8B5CF6" />
+                <Text style={styles.footerButtonText}>{i18n.t('aiAssistant.pasteInChat')}</Text>
+              </TouchableOpacity>
+              {onNewConversation && !selectedSession && (
+                <>
+                  <View style={styles.footerDivider} />
+                  <TouchableOpacity style={styles.footerButton} onPress={handleNewConversation}>
+                    <Ionicons name="add-circle-outline" size={20} color="#8B5CF6" />
+                    <Text style={styles.footerButtonText}>{i18n.t('aiAssistant.newConversation')}</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
         </View>
       </View>
     </Modal>
@@ -163,6 +408,59 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 16,
   },
+  dateCheckbox: {
+    marginRight: 12,
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#EDE9FE',
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  historyItemContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  historyQuery: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  historyAsked: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  historyEmpty: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  progressStep: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  progressText: {
+    fontSize: 15,
+    color: '#374151',
+    marginLeft: 10,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,173 @@
+/**
+ * EditHistoryModal Component
+ *
+ * Bottom sheet modal listing previous versions of an edited message
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Message } from '../types';
+import { formatBubbleTime } from '../utils/dateHelpers';
+import i18n from '../i18n';
+
+interface EditHistoryModalProps {
+  visible: boolean;
+  message: Message | null;
+  onClose: () => void;
+}
+
+export const EditHistoryModal: React.FC<EditHistoryModalProps> = ({
+  visible,
+  message,
+  onClose,
+}) => {
+  if (!message) {
+    return null;
+  }
+
+  // Newest first: current text, then previous versions in reverse order
+  const previousVersions = [...(message.editHistory || [])].reverse();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+      testID="edit-history-modal"
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.modalContainer}>
+              {/* Header */}
+              <View style={styles.header}>
+                <Text style={styles.headerTitle}>{i18n.t('editHistory.title')}</Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  style={styles.closeButton}
+                  testID="close-button"
+                >
+                  <Text style={styles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                {/* Current version */}
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>
+                    {i18n.t('editHistory.current').toUpperCase()}
+                  </Text>
+                  <View style={styles.revisionRow}>
+                    <Text style={styles.revisionText}>{message.text}</Text>
+                    {message.editedAt && (
+                      <Text style={styles.revisionTime}>
+                        {formatBubbleTime(message.editedAt)}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+
+                {/* Previous versions */}
+                {previousVersions.length > 0 && (
+                  <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>
+                      {i18n.t('editHistory.previous').toUpperCase()} {previousVersions.length}
+                    </Text>
+                    {previousVersions.map((revision, index) => (
+                      <View key={index} style={styles.revisionRow}>
+                        <Text style={styles.previousText}>{revision.text}</Text>
+                        <Text style={styles.revisionTime}>
+                          {i18n.t('editHistory.replacedAt')} {formatBubbleTime(revision.editedAt)}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </ScrollView>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+    minHeight: 300,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#8E8E93',
+    fontWeight: '300',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    paddingVertical: 12,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    backgroundColor: '#F6F6F6',
+  },
+  revisionRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  revisionText: {
+    fontSize: 16,
+    color: '#000000',
+    marginBottom: 4,
+  },
+  previousText: {
+    fontSize: 16,
+    color: '#3C3C43',
+    marginBottom: 4,
+  },
+  revisionTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+});
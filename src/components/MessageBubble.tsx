@@ -7,15 +7,22 @@
 
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator, Alert } from 'react-native';
-import { Message } from '../types';
+import { Message, MessageDeleteScope } from '../types';
+import { TranslationContextMessage } from '../types/translation';
 import { formatBubbleTime } from '../utils/dateHelpers';
 import { Colors } from '../constants/Colors';
 import { useTranslationStore } from '../stores/translationStore';
+import { getReactionSummary } from '../utils/reactionHelpers';
+import { ReactionPicker } from './ReactionPicker';
+import { TranslationBadge } from './TranslationBadge';
+import { isLowConfidenceTranslation } from '../services/translationService';
 import i18n from '../i18n';
 
 interface MessageBubbleProps {
   message: Message;
   isSent: boolean;
+  chatId?: string; // Chat the message belongs to, for its translation glossary
+  getTranslationContext?: (message: Message) => TranslationContextMessage[]; // Set when the chat translates with context
   onRetry?: () => void;
   participants?: string[]; // Chat participants for read receipt logic
   senderName?: string; // Display name for group chats
@@ -25,11 +32,23 @@ interface MessageBubbleProps {
   autoTranslateEnabled?: boolean; // Whether auto-translate is enabled for this chat
   onCulturalContext?: (messageId: string, text: string, language: string) => void;
   onSlangExplanation?: (messageId: string, text: string, language: string) => void;
+  onEdit?: (message: Message) => void; // Only passed for the current user's messages
+  onEditHistoryPress?: (message: Message) => void; // Callback when the "edited" marker is tapped
+  onDelete?: (message: Message, scope: MessageDeleteScope) => void;
+  currentUserId?: string; // Used to highlight the current user's reactions
+  onReactionToggle?: (message: Message, emoji: string) => void;
+  onReactionsPress?: (message: Message) => void; // Callback when the reaction summary is tapped
+  onReply?: (message: Message) => void;
+  onReplyQuotePress?: (messageId: string) => void; // Callback when the quoted message is tapped
+  replyToDeleted?: boolean; // Whether the quoted message has since been deleted for everyone
+  highlighted?: boolean; // Briefly highlight the bubble (e.g. after jumping to it from a reply)
 }
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ 
   message, 
   isSent, 
+  chatId,
+  getTranslationContext,
   onRetry,
   participants = [],
   senderName,
@@ -39,17 +58,38 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   autoTranslateEnabled = false,
   onCulturalContext,
   onSlangExplanation,
+  onEdit,
+  onEditHistoryPress,
+  onDelete,
+  currentUserId,
+  onReactionToggle,
+  onReactionsPress,
+  onReply,
+  onReplyQuotePress,
+  replyToDeleted = false,
+  highlighted = false,
 }) => {
   const [imageLoading, setImageLoading] = useState(false);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [showingTranslation, setShowingTranslation] = useState(false);
   const [displayText, setDisplayText] = useState(message.text);
   
   const translationStore = useTranslationStore();
-  const { userLanguage, translateMessage, translations } = translationStore;
+  const { userLanguage, translateMessage, translations, translationQuality, glossaryVersions } = translationStore;
+
+  // Translation done at write time by the server, if it covered our language
+  // and followed the chat's current glossary. The server translates without
+  // context, so chats that opted into context-aware translation skip it.
+  const glossaryVersion = chatId ? glossaryVersions[chatId] ?? 0 : 0;
+  const precomputedTranslation = !getTranslationContext &&
+    (message.translationGlossaryVersion ?? 0) === glossaryVersion
+    ? message.translationCache?.[userLanguage]
+    : undefined;
 
   // Check if this message has been auto-translated
-  const autoTranslatedText = autoTranslateEnabled && translations[message.id]?.[userLanguage];
+  const autoTranslatedText = autoTranslateEnabled &&
+    (precomputedTranslation || translations[message.id]?.[userLanguage]);
 
   // Reset image states when message changes (e.g., when optimistic message is replaced with real one)
   useEffect(() => {
@@ -66,18 +106,37 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     }
   }, [message.id, message.imageUrl, message.text, autoTranslateEnabled, autoTranslatedText]);
   
+  // Quality of the translation on screen, from the server for write-time translations
+  const shownTranslationQuality = !showingTranslation
+    ? undefined
+    : precomputedTranslation && displayText === precomputedTranslation
+      ? message.translationQuality?.[userLanguage]
+      : displayText === translations[message.id]?.[userLanguage]
+        ? translationQuality[message.id]?.[userLanguage]
+        : undefined;
+  const showTranslationBadge = !!shownTranslationQuality &&
+    (isLowConfidenceTranslation(shownTranslationQuality) || shownTranslationQuality.untranslatable.length > 0);
+  
   // REMOVED: Individual auto-translate effect (now handled by ChatScreen batch translate)
   // Auto-translate is now much faster because ChatScreen batches all messages at once
 
   const handleTranslate = async () => {
     if (!message.id || !message.detectedLanguage) return;
 
+    if (precomputedTranslation) {
+      setDisplayText(precomputedTranslation);
+      setShowingTranslation(true);
+      return;
+    }
+
     try {
       const translated = await translateMessage(
         message.id,
         message.text,
         userLanguage,
-        message.detectedLanguage
+        message.detectedLanguage,
+        chatId,
+        getTranslationContext?.(message)
       );
       setDisplayText(translated);
       setShowingTranslation(true);
@@ -108,7 +167,11 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   };
 
   const handleLongPress = () => {
-    if (!message.text || message.text.trim().length === 0) return;
+    const hasText = !!message.text && message.text.trim().length > 0;
+    const canDelete = !!onDelete && !message.pending && !message.failed && !message.tempId;
+    const canReact = !!onReactionToggle && !message.pending && !message.failed && !message.tempId;
+    const canReply = !!onReply && !message.pending && !message.failed && !message.tempId;
+    if (!hasText && !canDelete && !canReact && !canReply) return;
 
     const detectedLanguage = message.detectedLanguage || userLanguage;
     
@@ -122,11 +185,37 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     
     const options = [i18n.t('common.cancel')];
     
-    // Cultural context option
-    options.unshift(`🧠 ${i18n.t('messageActions.culturalContext')}`);
+    // Delete options (delete for everyone is only available to the sender)
+    if (canDelete) {
+      if (isSent) {
+        options.unshift(`🗑️ ${i18n.t('messageActions.deleteForEveryone')}`);
+      }
+      options.unshift(`🗑️ ${i18n.t('messageActions.deleteForMe')}`);
+    }
     
-    // Slang explanation option
-    options.unshift(`💬 ${i18n.t('messageActions.explainSlang')}`);
+    // Edit option (own, confirmed messages only)
+    const canEdit = hasText && isSent && !!onEdit && !message.pending && !message.failed && !message.tempId;
+    if (canEdit) {
+      options.unshift(`✏️ ${i18n.t('messageActions.edit')}`);
+    }
+    
+    if (hasText) {
+      // Cultural context option
+      options.unshift(`🧠 ${i18n.t('messageActions.culturalContext')}`);
+      
+      // Slang explanation option
+      options.unshift(`💬 ${i18n.t('messageActions.explainSlang')}`);
+    }
+    
+    // Reaction option
+    if (canReact) {
+      options.unshift(`😀 ${i18n.t('messageActions.react')}`);
+    }
+    
+    // Reply option
+    if (canReply) {
+      options.unshift(`↩️ ${i18n.t('messageActions.reply')}`);
+    }
 
     // Create the subtitle showing the language information
     let subtitle = '';
@@ -150,6 +239,16 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
       options.map((option) => {
         if (option === i18n.t('common.cancel')) {
           return { text: option, style: 'cancel' };
+        } else if (option === `↩️ ${i18n.t('messageActions.reply')}`) {
+          return { text: option, onPress: () => onReply?.(message) };
+        } else if (option === `😀 ${i18n.t('messageActions.react')}`) {
+          return { text: option, onPress: () => setShowReactionPicker(true) };
+        } else if (option === `✏️ ${i18n.t('messageActions.edit')}`) {
+          return { text: option, onPress: () => onEdit?.(message) };
+        } else if (option === `🗑️ ${i18n.t('messageActions.deleteForMe')}`) {
+          return { text: option, style: 'destructive', onPress: () => onDelete?.(message, 'me') };
+        } else if (option === `🗑️ ${i18n.t('messageActions.deleteForEveryone')}`) {
+          return { text: option, style: 'destructive', onPress: () => onDelete?.(message, 'everyone') };
         } else if (option === `🧠 ${i18n.t('messageActions.culturalContext')}`) {
           return { 
             text: option, 
@@ -241,6 +340,48 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     return '#F0F0F0'; // White for sent/delivered
   };
 
+  // Tombstone for messages deleted for everyone
+  if (message.deletedForEveryone) {
+    return (
+      <View
+        style={[
+          styles.container,
+          isSent ? styles.sentContainer : styles.receivedContainer,
+        ]}
+        testID="message-bubble"
+      >
+        <View
+          style={[
+            styles.bubble,
+            styles.deletedBubble,
+            isSent && styles.sentBubbleShape,
+            !isSent && styles.receivedBubbleShape,
+          ]}
+          testID="deleted-message"
+        >
+          {!isSent && senderName && (
+            <Text style={[
+              styles.senderName,
+              senderColor && { color: senderColor }
+            ]}>
+              {senderName}
+            </Text>
+          )}
+          <Text style={styles.deletedText}>
+            🚫 {isSent ? i18n.t('chat.youDeletedMessage') : i18n.t('chat.messageDeleted')}
+          </Text>
+          <View style={styles.metaContainer}>
+            <Text style={[styles.time, styles.darkTime]}>
+              {formatBubbleTime(message.timestamp)}
+            </Text>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  const reactionSummary = getReactionSummary(message, currentUserId);
+
   return (
     <View
       style={[
@@ -249,124 +390,217 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
       ]}
       testID="message-bubble"
     >
-      <TouchableOpacity
-        activeOpacity={0.9}
-        onPress={handleBubbleTap}
-        onLongPress={handleLongPress}
-        delayLongPress={500}
-        style={[
-          styles.bubble,
-          { backgroundColor: getBubbleColor() },
-          isSent && styles.sentBubbleShape,
-          !isSent && styles.receivedBubbleShape,
-          !isSent && styles.receivedBubbleBorder, // Add border for all received messages
-          message.pending && styles.pendingBubble,
-          message.failed && styles.failedBubble,
-        ]}
-      >
-        {/* Show sender name for group chats on received messages */}
-        {!isSent && senderName && (
-          <Text style={[
-            styles.senderName,
-            senderColor && { color: senderColor } // Use sender's avatar color for name
-          ]}>
-            {senderName}
-          </Text>
-        )}
-        
-        {/* Show image if present */}
-        {message.imageUrl && (
-          <View 
-            style={[
-              styles.imageContainer,
-              {
-                width: Math.min(message.imageWidth || 200, 200),
-                height: Math.min(message.imageHeight || 200, 200),
-              }
-            ]}
-          >
-            {imageLoading && !imageError && (
-              <View style={styles.imagePlaceholder}>
-                <ActivityIndicator size="large" color={isSent ? '#FFFFFF' : Colors.primary} />
-              </View>
+      <View style={[styles.bubbleWrapper, isSent ? styles.sentWrapper : styles.receivedWrapper]}>
+        <TouchableOpacity
+          activeOpacity={0.9}
+          onPress={handleBubbleTap}
+          onLongPress={handleLongPress}
+          delayLongPress={500}
+          style={[
+            styles.bubble,
+            { backgroundColor: getBubbleColor() },
+            isSent && styles.sentBubbleShape,
+            !isSent && styles.receivedBubbleShape,
+            !isSent && styles.receivedBubbleBorder, // Add border for all received messages
+            message.pending && styles.pendingBubble,
+            message.failed && styles.failedBubble,
+            highlighted && styles.highlightedBubble,
+          ]}
+        >
+          {/* Show sender name for group chats on received messages */}
+          {!isSent && senderName && (
+            <Text style={[
+              styles.senderName,
+              senderColor && { color: senderColor } // Use sender's avatar color for name
+            ]}>
+              {senderName}
+            </Text>
+          )}
+          
+          {/* Show quoted message for replies */}
+          {message.replyTo && (
+            <TouchableOpacity
+              style={[
+                styles.replyQuote,
+                isSent ? styles.sentReplyQuote : styles.receivedReplyQuote,
+              ]}
+              onPress={onReplyQuotePress ? () => onReplyQuotePress(message.replyTo!.messageId) : undefined}
+              disabled={!onReplyQuotePress}
+              testID="reply-quote"
+            >
+              <Text
+                style={[styles.replyQuoteSender, isSent ? styles.lightText : styles.darkText]}
+                numberOfLines={1}
+              >
+                {message.replyTo.senderName}
+              </Text>
+              <Text
+                style={[
+                  styles.replyQuoteText,
+                  isSent ? styles.lightTime : styles.darkTime,
+                  replyToDeleted && styles.replyQuoteDeleted,
+                ]}
+                numberOfLines={2}
+              >
+                {replyToDeleted ? i18n.t('chat.messageDeleted') : message.replyTo.text}
+              </Text>
+            </TouchableOpacity>
+          )}
+          
+          {/* Show image if present */}
+          {message.imageUrl && (
+            <View 
+              style={[
+                styles.imageContainer,
+                {
+                  width: Math.min(message.imageWidth || 200, 200),
+                  height: Math.min(message.imageHeight || 200, 200),
+                }
+              ]}
+            >
+              {imageLoading && !imageError && (
+                <View style={styles.imagePlaceholder}>
+                  <ActivityIndicator size="large" color={isSent ? '#FFFFFF' : Colors.primary} />
+                </View>
+              )}
+              
+              {!imageError && (
+                <Image
+                  key={message.imageUrl} // Force re-render when URL changes
+                  source={{ uri: message.imageUrl }}
+                  style={styles.image}
+                  resizeMode="cover"
+                  onLoadStart={() => setImageLoading(true)}
+                  onLoadEnd={() => setImageLoading(false)}
+                  onError={() => {
+                    setImageLoading(false);
+                    setImageError(true);
+                  }}
+                />
+              )}
+              
+              {imageError && (
+                <View style={styles.imageErrorContainer}>
+                  <Text style={styles.imageErrorText}>Failed to load image</Text>
+                </View>
+              )}
+            </View>
+          )}
+          
+          {/* Flag uncertain translations; tapping the badge shows the original */}
+          {showTranslationBadge && (
+            <TranslationBadge
+              message={message}
+              userLanguage={userLanguage}
+              translated={true}
+              translating={false}
+              autoTranslated={autoTranslateEnabled}
+              quality={shownTranslationQuality}
+              onTranslate={handleTranslate}
+              onShowOriginal={handleShowOriginal}
+            />
+          )}
+          
+          {/* Show text if present */}
+          {displayText && (
+            <Text
+              style={[
+                styles.text,
+                isSent ? styles.lightText : styles.darkText,
+                message.imageUrl && styles.textWithImage, // Add spacing if there's an image
+              ]}
+            >
+              {displayText}
+            </Text>
+          )}
+          
+          <View style={styles.metaContainer}>
+            {message.editedAt && (
+              <TouchableOpacity
+                onPress={onEditHistoryPress ? () => onEditHistoryPress(message) : undefined}
+                disabled={!onEditHistoryPress}
+                testID="edited-marker"
+              >
+                <Text
+                  style={[
+                    styles.editedMarker,
+                    isSent ? styles.lightTime : styles.darkTime,
+                  ]}
+                >
+                  {i18n.t('chat.edited')}
+                </Text>
+              </TouchableOpacity>
             )}
             
-            {!imageError && (
-              <Image
-                key={message.imageUrl} // Force re-render when URL changes
-                source={{ uri: message.imageUrl }}
-                style={styles.image}
-                resizeMode="cover"
-                onLoadStart={() => setImageLoading(true)}
-                onLoadEnd={() => setImageLoading(false)}
-                onError={() => {
-                  setImageLoading(false);
-                  setImageError(true);
-                }}
-              />
-            )}
+            <Text
+              style={[
+                styles.time,
+                isSent ? styles.lightTime : styles.darkTime,
+              ]}
+            >
+              {formatBubbleTime(message.timestamp)}
+            </Text>
             
-            {imageError && (
-              <View style={styles.imageErrorContainer}>
-                <Text style={styles.imageErrorText}>Failed to load image</Text>
-              </View>
+            {isSent && (
+              <TouchableOpacity
+                onPress={isGroupChat && onReadReceiptPress ? onReadReceiptPress : undefined}
+                disabled={!isGroupChat || !onReadReceiptPress}
+                activeOpacity={isGroupChat && onReadReceiptPress ? 0.6 : 1}
+                testID={isGroupChat ? "read-receipt-touchable" : undefined}
+              >
+                <Text 
+                  style={[
+                    styles.statusIcon, 
+                    { color: getReadReceiptColor() }
+                  ]}
+                  testID="read-receipt"
+                >
+                  {getReadReceiptIcon()}
+                </Text>
+              </TouchableOpacity>
             )}
           </View>
-        )}
-        
-        {/* Show text if present */}
-        {displayText && (
-          <Text
-            style={[
-              styles.text,
-              isSent ? styles.lightText : styles.darkText,
-              message.imageUrl && styles.textWithImage, // Add spacing if there's an image
-            ]}
-          >
-            {displayText}
-          </Text>
-        )}
-        
-        <View style={styles.metaContainer}>
-          <Text
-            style={[
-              styles.time,
-              isSent ? styles.lightTime : styles.darkTime,
-            ]}
-          >
-            {formatBubbleTime(message.timestamp)}
-          </Text>
           
-          {isSent && (
+          {message.failed && onRetry && (
             <TouchableOpacity
-              onPress={isGroupChat && onReadReceiptPress ? onReadReceiptPress : undefined}
-              disabled={!isGroupChat || !onReadReceiptPress}
-              activeOpacity={isGroupChat && onReadReceiptPress ? 0.6 : 1}
-              testID={isGroupChat ? "read-receipt-touchable" : undefined}
+              style={styles.retryButton}
+              onPress={onRetry}
+              testID="retry-button"
             >
-              <Text 
-                style={[
-                  styles.statusIcon, 
-                  { color: getReadReceiptColor() }
-                ]}
-                testID="read-receipt"
-              >
-                {getReadReceiptIcon()}
-              </Text>
+              <Text style={styles.retryText}>Tap to retry</Text>
             </TouchableOpacity>
           )}
-        </View>
+        </TouchableOpacity>
         
-        {message.failed && onRetry && (
+        {/* Reaction summary (tap to see who reacted) */}
+        {reactionSummary.length > 0 && (
           <TouchableOpacity
-            style={styles.retryButton}
-            onPress={onRetry}
-            testID="retry-button"
+            style={styles.reactionSummary}
+            onPress={onReactionsPress ? () => onReactionsPress(message) : undefined}
+            disabled={!onReactionsPress}
+            testID="reaction-summary"
           >
-            <Text style={styles.retryText}>Tap to retry</Text>
+            {reactionSummary.map(({ emoji, count, reactedByMe }) => (
+              <View
+                key={emoji}
+                style={[styles.reactionChip, reactedByMe && styles.reactionChipMine]}
+              >
+                <Text style={styles.reactionEmoji}>{emoji}</Text>
+                {count > 1 && <Text style={styles.reactionCount}>{count}</Text>}
+              </View>
+            ))}
           </TouchableOpacity>
         )}
-      </TouchableOpacity>
+      </View>
+      
+      {showReactionPicker && (
+        <ReactionPicker
+          visible={showReactionPicker}
+          selectedEmojis={reactionSummary.filter(r => r.reactedByMe).map(r => r.emoji)}
+          onSelect={(emoji) => onReactionToggle?.(message, emoji)}
+          onClose={() => setShowReactionPicker(false)}
+        />
+      )}
     </View>
   );
 };
@@ -383,8 +617,17 @@ const styles = StyleSheet.create({
   receivedContainer: {
     justifyContent: 'flex-start',
   },
-  bubble: {
+  bubbleWrapper: {
     maxWidth: '75%',
+  },
+  sentWrapper: {
+    alignItems: 'flex-end',
+  },
+  receivedWrapper: {
+    alignItems: 'flex-start',
+  },
+  bubble: {
+    maxWidth: '100%',
     paddingHorizontal: 12,
     paddingVertical: 8,
     borderRadius: 16,
@@ -399,6 +642,78 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  highlightedBubble: {
+    // Shadow instead of a border so the highlight doesn't change the layout
+    shadowColor: '#4FC3F7',
+    shadowOffset: { width: 0, height: 0 },
+    shadowOpacity: 0.9,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  sentReplyQuote: {
+    borderLeftColor: '#FFFFFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  receivedReplyQuote: {
+    borderLeftColor: Colors.primary,
+    backgroundColor: '#F6F6F6',
+  },
+  replyQuoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  replyQuoteText: {
+    fontSize: 13,
+  },
+  replyQuoteDeleted: {
+    fontStyle: 'italic',
+  },
+  reactionSummary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: -6,
+    paddingHorizontal: 6,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+  },
+  reactionChipMine: {
+    borderColor: Colors.primary,
+    backgroundColor: '#FBF5EE',
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    color: '#3C3C43',
+    marginLeft: 3,
+  },
+  deletedBubble: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  deletedText: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    color: '#8E8E93',
+  },
   pendingBubble: {
     opacity: 0.7,
   },
@@ -476,6 +791,11 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginRight: 4,
   },
+  editedMarker: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginRight: 4,
+  },
   lightTime: {
     color: '#F0F0F0',
   },
@@ -14,11 +14,13 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  Text,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { FormalitySelector } from './FormalitySelector';
 import { useTranslationStore } from '../stores/translationStore';
 import { FormalityLevel } from '../types/translation';
+import { Message, MessageReplyRef } from '../types';
 import i18n from '../i18n';
 
 interface MessageInputProps {
@@ -27,6 +29,10 @@ interface MessageInputProps {
   onTypingChange?: (isTyping: boolean) => void;
   disabled?: boolean;
   chatId: string; // Added for auto-translate toggle
+  editingMessage?: Message | null; // When set, the input edits this message instead of sending a new one
+  onCancelEdit?: () => void;
+  replyingTo?: MessageReplyRef | null; // When set, the next message is sent as a reply
+  onCancelReply?: () => void;
 }
 
 export const MessageInput: React.FC<MessageInputProps> = ({ 
@@ -34,7 +40,11 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   onImagePick,
   onTypingChange,
   disabled = false,
-  chatId
+  chatId,
+  editingMessage,
+  onCancelEdit,
+  replyingTo,
+  onCancelReply,
 }) => {
   const [text, setText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -45,6 +55,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   const translationStore = useTranslationStore();
   const { userLanguage, adjustFormality } = translationStore;
   const isAutoTranslateEnabled = translationStore.isAutoTranslateEnabled(chatId);
+  const isContextAwareEnabled = translationStore.isContextAwareEnabled(chatId);
 
   // Cleanup on unmount only
   useEffect(() => {
@@ -67,6 +78,11 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Prefill the input with the message being edited
+  useEffect(() => {
+    setText(editingMessage ? editingMessage.text : '');
+  }, [editingMessage?.id]);
+
   const stopTyping = () => {
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
@@ -162,8 +178,26 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
+  // Long-pressing the auto-translate toggle opts this chat in or out of
+  // translating with the previous messages as context
+  const handleContextAwarePress = () => {
+    Alert.alert(
+      i18n.t('autoTranslate.contextTitle'),
+      `${i18n.t('autoTranslate.contextDescription')}\n\n${i18n.t(
+        isContextAwareEnabled ? 'autoTranslate.contextOn' : 'autoTranslate.contextOff'
+      )}`,
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        {
+          text: i18n.t(isContextAwareEnabled ? 'autoTranslate.turnOff' : 'autoTranslate.turnOn'),
+          onPress: () => translationStore.setContextAware(chatId, !isContextAwareEnabled),
+        },
+      ]
+    );
+  };
+
   const handleFormalityPreview = async (originalText: string, level: FormalityLevel): Promise<string> => {
-    return await adjustFormality(originalText, level, userLanguage);
+    return await adjustFormality(originalText, level, userLanguage, chatId);
   };
 
   const handleFormalityApply = (adjustedText: string) => {
@@ -177,6 +211,48 @@ export const MessageInput: React.FC<MessageInputProps> = ({
       behavior={Platform.OS === 'ios' ? 'padding' : undefined}
       keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
     >
+      {/* Edit preview bar */}
+      {editingMessage && (
+        <View style={styles.editBar} testID="edit-bar">
+          <Ionicons name="create-outline" size={18} color="#007AFF" />
+          <View style={styles.editBarContent}>
+            <Text style={styles.editBarTitle}>{i18n.t('chat.editing')}</Text>
+            <Text style={styles.editBarText} numberOfLines={1}>
+              {editingMessage.text}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={onCancelEdit}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            testID="cancel-edit-button"
+          >
+            <Ionicons name="close" size={20} color="#8E8E93" />
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      {/* Reply preview bar */}
+      {replyingTo && !editingMessage && (
+        <View style={styles.editBar} testID="reply-bar">
+          <Ionicons name="arrow-undo-outline" size={18} color="#007AFF" />
+          <View style={styles.editBarContent}>
+            <Text style={styles.editBarTitle}>
+              {i18n.t('chat.replyingTo')} {replyingTo.senderName}
+            </Text>
+            <Text style={styles.editBarText} numberOfLines={1}>
+              {replyingTo.text}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={onCancelReply}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            testID="cancel-reply-button"
+          >
+            <Ionicons name="close" size={20} color="#8E8E93" />
+          </TouchableOpacity>
+        </View>
+      )}
+      
       <View style={styles.container}>
         {/* Image picker button */}
         <TouchableOpacity
@@ -202,6 +278,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
             const currentSetting = translationStore.isAutoTranslateEnabled(chatId);
             translationStore.setAutoTranslate(chatId, !currentSetting);
           }}
+          onLongPress={handleContextAwarePress}
           disabled={disabled}
           testID="auto-translate-button"
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
@@ -211,6 +288,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
             size={20}
             color={isAutoTranslateEnabled ? '#FFFFFF' : (disabled ? '#C7C7CC' : '#007AFF')}
           />
+          {isContextAwareEnabled && <View style={styles.contextAwareDot} testID="context-aware-indicator" />}
         </TouchableOpacity>
 
         <View style={styles.inputContainer}>
@@ -251,7 +329,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           testID="send-button"
         >
           <Ionicons
-            name="send"
+            name={editingMessage ? 'checkmark' : 'send'}
             size={20}
             color={text.trim() && !disabled ? '#FFFFFF' : '#C7C7CC'}
           />
@@ -272,6 +350,30 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 };
 
 const styles = StyleSheet.create({
+  editBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#F6F6F6',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+  },
+  editBarContent: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  editBarTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  editBarText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
   container: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -296,6 +398,17 @@ const styles = StyleSheet.create({
     backgroundColor: '#4CAF50',
     borderColor: '#4CAF50',
   },
+  contextAwareDot: {
+    position: 'absolute',
+    top: -1,
+    right: -1,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#007AFF',
+    borderWidth: 1.5,
+    borderColor: '#FFFFFF',
+  },
   imageButton: {
     width: 36,
     height: 36,
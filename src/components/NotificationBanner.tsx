@@ -17,17 +17,21 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
+import i18n from '../i18n';
 
 const BANNER_HEIGHT = 80;
 const ANIMATION_DURATION = 300;
 const AUTO_DISMISS_DELAY = 4000;
 
+export type ReminderAction = 'snooze' | 'dismiss';
+
 export interface NotificationData {
   id: string;
   title: string;
   body: string;
   chatId?: string;
   senderId?: string;
+  reminderId?: string; // Deadline reminders can be snoozed or dismissed from the banner
   timestamp: number;
 }
 
@@ -35,12 +39,14 @@ interface NotificationBannerProps {
   notification: NotificationData | null;
   onDismiss: () => void;
   onPress?: (notification: NotificationData) => void;
+  onReminderAction?: (notification: NotificationData, action: ReminderAction) => void;
 }
 
 export const NotificationBanner: React.FC<NotificationBannerProps> = ({
   notification,
   onDismiss,
   onPress,
+  onReminderAction,
 }) => {
   const slideAnim = useRef(new Animated.Value(-BANNER_HEIGHT)).current;
   const insets = useSafeAreaInsets();
@@ -102,10 +108,19 @@ export const NotificationBanner: React.FC<NotificationBannerProps> = ({
     }
   };
 
+  const handleReminderAction = (action: ReminderAction) => {
+    if (notification && onReminderAction) {
+      handleDismiss();
+      onReminderAction(notification, action);
+    }
+  };
+
   if (!notification) {
     return null;
   }
 
+  const isReminder = !!notification.reminderId && !!onReminderAction;
+
   return (
     <Animated.View
       style={[
@@ -123,7 +138,7 @@ export const NotificationBanner: React.FC<NotificationBannerProps> = ({
         style={styles.content}
       >
         <View style={styles.iconContainer}>
-          <Text style={styles.icon}>💬</Text>
+          <Text style={styles.icon}>{notification.reminderId ? '⏰' : '💬'}</Text>
         </View>
         <View style={styles.textContainer}>
           <Text style={styles.title} numberOfLines={1}>
@@ -132,6 +147,16 @@ export const NotificationBanner: React.FC<NotificationBannerProps> = ({
           <Text style={styles.body} numberOfLines={2}>
             {notification.body}
           </Text>
+          {isReminder && (
+            <View style={styles.reminderActions}>
+              <TouchableOpacity onPress={() => handleReminderAction('snooze')}>
+                <Text style={styles.reminderActionText}>{i18n.t('reminders.snooze')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleReminderAction('dismiss')}>
+                <Text style={styles.reminderActionText}>{i18n.t('reminders.dismiss')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
         <TouchableOpacity
           onPress={handleDismiss}
@@ -201,6 +226,16 @@ const styles = StyleSheet.create({
     color: '#666666',
     lineHeight: 18,
   },
+  reminderActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  reminderActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   dismissButton: {
     width: 24,
     height: 24,
@@ -0,0 +1,101 @@
+/**
+ * ReactionPicker Component
+ *
+ * Compact popup with the available reaction emojis for a message
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { REACTION_EMOJIS } from '../utils/reactionHelpers';
+
+interface ReactionPickerProps {
+  visible: boolean;
+  selectedEmojis?: string[]; // Emojis the current user already reacted with
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  visible,
+  selectedEmojis = [],
+  onSelect,
+  onClose,
+}) => {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+      testID="reaction-picker"
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.container}>
+              {REACTION_EMOJIS.map((emoji) => (
+                <TouchableOpacity
+                  key={emoji}
+                  style={[
+                    styles.emojiButton,
+                    selectedEmojis.includes(emoji) && styles.selectedEmojiButton,
+                  ]}
+                  onPress={() => {
+                    onSelect(emoji);
+                    onClose();
+                  }}
+                  testID={`reaction-option-${emoji}`}
+                >
+                  <Text style={styles.emoji}>{emoji}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 28,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  emojiButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 2,
+  },
+  selectedEmojiButton: {
+    backgroundColor: Colors.border,
+  },
+  emoji: {
+    fontSize: 26,
+  },
+});
@@ -0,0 +1,231 @@
+/**
+ * ReactionsModal Component
+ *
+ * Bottom sheet modal showing who reacted to a message with each emoji
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Message, User } from '../types';
+import { formatReactionList, ReactionUser } from '../utils/reactionHelpers';
+import { getUserAvatarColor } from '../utils/userColors';
+import i18n from '../i18n';
+
+interface ReactionsModalProps {
+  visible: boolean;
+  message: Message | null;
+  currentUserId?: string;
+  userNames: Record<string, string>;
+  participantUsers: User[];
+  onRemoveReaction?: (message: Message, emoji: string) => void;
+  onClose: () => void;
+}
+
+export const ReactionsModal: React.FC<ReactionsModalProps> = ({
+  visible,
+  message,
+  currentUserId,
+  userNames,
+  participantUsers,
+  onRemoveReaction,
+  onClose,
+}) => {
+  if (!message) {
+    return null;
+  }
+
+  const reactionGroups = formatReactionList(
+    message,
+    userNames,
+    currentUserId,
+    i18n.t('reactions.you')
+  );
+
+  // Helper function to get user's avatar color
+  const getUserColor = (userId: string): string => {
+    const user = participantUsers.find(u => u.uid === userId);
+    return getUserAvatarColor(user || null);
+  };
+
+  const renderUser = (user: ReactionUser, emoji: string) => {
+    const isCurrentUser = user.userId === currentUserId;
+
+    return (
+      <View key={user.userId} style={styles.userRow}>
+        {/* Avatar placeholder */}
+        <View style={[styles.avatar, { backgroundColor: getUserColor(user.userId) }]}>
+          <Text style={styles.avatarText}>
+            {user.displayName.charAt(0).toUpperCase()}
+          </Text>
+        </View>
+
+        {/* User info */}
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{user.displayName}</Text>
+          {isCurrentUser && onRemoveReaction && (
+            <TouchableOpacity
+              onPress={() => onRemoveReaction(message, emoji)}
+              testID={`remove-reaction-${emoji}`}
+            >
+              <Text style={styles.removeText}>{i18n.t('reactions.tapToRemove')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.rowEmoji}>{emoji}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+      testID="reactions-modal"
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.modalContainer}>
+              {/* Header */}
+              <View style={styles.header}>
+                <Text style={styles.headerTitle}>{i18n.t('reactions.title')}</Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  style={styles.closeButton}
+                  testID="close-button"
+                >
+                  <Text style={styles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              {/* Scrollable content */}
+              <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                {reactionGroups.map(group => (
+                  <View key={group.emoji} style={styles.section}>
+                    <Text style={styles.sectionTitle}>
+                      {group.emoji} {group.users.length}
+                    </Text>
+                    {group.users.map(user => renderUser(user, group.emoji))}
+                  </View>
+                ))}
+
+                {/* No reactions case */}
+                {reactionGroups.length === 0 && (
+                  <View style={styles.emptyContainer}>
+                    <Text style={styles.emptyText}>{i18n.t('reactions.none')}</Text>
+                  </View>
+                )}
+              </ScrollView>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+    minHeight: 300,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#8E8E93',
+    fontWeight: '300',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    paddingVertical: 12,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    backgroundColor: '#F6F6F6',
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  removeText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  rowEmoji: {
+    fontSize: 22,
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -0,0 +1,106 @@
+/**
+ * ReminderOffer Component
+ *
+ * Bar above the message input offering a reminder for a deadline someone set
+ * in the chat ("Budget is due Friday"). Shows the soonest open offer.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { DeadlineReminder } from '../types';
+import { formatEventStart } from '../utils/calendarHelpers';
+import i18n from '../i18n';
+
+interface ReminderOfferProps {
+  reminder: DeadlineReminder;
+  onAccept: (reminder: DeadlineReminder) => void;
+  onDecline: (reminder: DeadlineReminder) => void;
+  onPressMessage?: (messageId: string) => void;
+}
+
+export const ReminderOffer: React.FC<ReminderOfferProps> = ({
+  reminder,
+  onAccept,
+  onDecline,
+  onPressMessage,
+}) => {
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.details}
+        onPress={() => onPressMessage?.(reminder.messageId)}
+        disabled={!onPressMessage}
+      >
+        <Text style={styles.title} numberOfLines={1}>
+          ⏰ {i18n.t('reminders.offerTitle', { due: formatEventStart(reminder.dueStart, reminder.allDay) })}
+        </Text>
+        <Text style={styles.text} numberOfLines={1}>
+          {reminder.text}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.acceptButton} onPress={() => onAccept(reminder)}>
+        <Text style={styles.acceptText}>{i18n.t('reminders.remindMe')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.declineButton}
+        onPress={() => onDecline(reminder)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityLabel={i18n.t('reminders.noThanks')}
+      >
+        <Text style={styles.declineText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F5EBE0',
+    borderTopWidth: 1,
+    borderTopColor: '#E8D7C7',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  details: {
+    flex: 1,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  text: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  acceptButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  acceptText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  declineButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#E8D7C7',
+  },
+  declineText: {
+    fontSize: 14,
+    color: '#666666',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,50 @@
+/**
+ * SystemMessageChip Component
+ * 
+ * Centered note for system messages (members joining/leaving, group renamed)
+ * shown in the conversation instead of a MessageBubble
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Message } from '../types';
+import { formatSystemMessage } from '../utils/systemMessageHelpers';
+
+interface SystemMessageChipProps {
+  message: Message;
+  currentUserId?: string;
+}
+
+export const SystemMessageChip: React.FC<SystemMessageChipProps> = ({
+  message,
+  currentUserId,
+}) => {
+  if (!message.system) {
+    return null;
+  }
+  
+  return (
+    <View style={styles.container} testID="system-message">
+      <Text style={styles.text}>
+        {formatSystemMessage(message.system, message.senderId, currentUserId)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'center',
+    maxWidth: '80%',
+    marginVertical: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  text: {
+    fontSize: 13,
+    color: '#6b6b6b',
+    textAlign: 'center',
+  },
+});
@@ -1,11 +1,14 @@
 /**
  * TranslationBadge Component
- * Shows language badge and allows translation on tap
+ * Shows language badge and allows translation on tap; low-confidence
+ * translations are flagged and show the original on tap
  */
 
 import React from 'react';
 import { TouchableOpacity, Text, StyleSheet, View, ActivityIndicator } from 'react-native';
 import { Message } from '../types';
+import { TranslationQuality } from '../types/translation';
+import { isLowConfidenceTranslation } from '../services/translationService';
 import i18n from '../i18n';
 
 interface TranslationBadgeProps {
@@ -14,6 +17,7 @@ interface TranslationBadgeProps {
   translated: boolean;
   translating: boolean;
   autoTranslated?: boolean; // Was it auto-translated?
+  quality?: TranslationQuality | null; // Confidence and untranslatable parts of the translation
   onTranslate: () => void;
   onShowOriginal?: () => void;
 }
@@ -24,6 +28,7 @@ export const TranslationBadge: React.FC<TranslationBadgeProps> = ({
   translated,
   translating,
   autoTranslated = false,
+  quality,
   onTranslate,
   onShowOriginal,
 }) => {
@@ -47,6 +52,34 @@ export const TranslationBadge: React.FC<TranslationBadgeProps> = ({
     ? i18n.t('errors.languageUnknown')
     : (i18n.t(`languages.${normalizedLanguage}`) || normalizedLanguage.toUpperCase());
 
+  const keptAsIs = translated && quality?.untranslatable.length
+    ? (
+      <Text style={styles.keptAsIsText} numberOfLines={1}>
+        {i18n.t('translation.keptAsIs', { items: quality.untranslatable.join(', ') })}
+      </Text>
+    )
+    : null;
+
+  if (translated && isLowConfidenceTranslation(quality)) {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity
+          onPress={onShowOriginal}
+          style={[styles.badge, styles.lowConfidenceBadge]}
+          disabled={!onShowOriginal}
+          hitSlop={{ top: 5, bottom: 5, left: 5, right: 5 }}
+          testID="low-confidence-badge"
+        >
+          <Text style={styles.lowConfidenceText}>⚠️ {i18n.t('translation.lowConfidence')}</Text>
+          {onShowOriginal && (
+            <Text style={styles.lowConfidenceHint}> • {i18n.t('translation.tapToSeeOriginal')}</Text>
+          )}
+        </TouchableOpacity>
+        {keptAsIs}
+      </View>
+    );
+  }
+
   if (translated) {
     return (
       <View style={styles.container}>
@@ -65,6 +98,7 @@ export const TranslationBadge: React.FC<TranslationBadgeProps> = ({
             <Text style={styles.showOriginalText}>{i18n.t('messageActions.showOriginal')}</Text>
           </TouchableOpacity>
         )}
+        {keptAsIs}
       </View>
     );
   }
@@ -116,6 +150,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#4CAF50',
   },
+  lowConfidenceBadge: {
+    backgroundColor: '#FFF8E1',
+    borderWidth: 1,
+    borderColor: '#FFA000',
+  },
   icon: {
     fontSize: 12,
     marginRight: 4,
@@ -130,6 +169,21 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#2E7D32',
   },
+  lowConfidenceText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#E65100',
+  },
+  lowConfidenceHint: {
+    fontSize: 10,
+    color: '#E65100',
+    opacity: 0.8,
+  },
+  keptAsIsText: {
+    flexBasis: '100%',
+    fontSize: 10,
+    color: '#757575',
+  },
   tapHint: {
     fontSize: 10,
     color: '#1976D2',
@@ -54,6 +54,11 @@ export default {
     title: 'Chat',
     noMessages: 'No messages yet',
     startConversation: 'Say hello!',
+    edited: 'edited',
+    editing: 'Editing message',
+    messageDeleted: 'This message was deleted',
+    youDeletedMessage: 'You deleted this message',
+    replyingTo: 'Replying to',
   },
 
   // Message Actions (Long Press Menu)
@@ -68,6 +73,14 @@ export default {
     translatedFrom: 'Translated from',
     originallyIn: 'Originally in',
     messageIn: 'Message in',
+    edit: 'Edit',
+    deleteForMe: 'Delete for Me',
+    deleteForEveryone: 'Delete for Everyone',
+    deleteConfirmTitle: 'Delete message?',
+    deleteForEveryoneConfirm: 'This message will be deleted for all participants.',
+    deleteForMeConfirm: 'This message will be removed from your device only.',
+    react: 'React',
+    reply: 'Reply',
   },
 
   // Chat List Screen
@@ -122,12 +135,21 @@ export default {
     disabled: 'Auto-translate disabled',
     toggle: 'Auto-translate',
     description: 'Automatically translate incoming messages',
+    contextTitle: 'Translate with context',
+    contextDescription: 'Send the previous few messages along with each translation so short replies like "yes, that one" come out right. Applies to this chat only.',
+    contextOn: 'Context-aware translation is on.',
+    contextOff: 'Context-aware translation is off.',
+    turnOn: 'Turn on',
+    turnOff: 'Turn off',
   },
 
   // Translation Badge
   translation: {
     translating: 'Translating...',
     tapToTranslate: 'Tap to translate',
+    lowConfidence: 'Uncertain translation',
+    tapToSeeOriginal: 'Tap to see the original',
+    keptAsIs: 'Kept as-is: {{items}}',
   },
 
   // Tone Adjustment
@@ -220,6 +242,9 @@ export default {
     languageUnknown: 'Language Unknown',
     languageUnknownMessage: 'Unable to identify the language of this message. AI features require recognizable text in a supported language.',
     untranslatableText: 'This text cannot be analyzed because its language is unknown or undefined.',
+    editFailed: 'Failed to edit message. Please try again.',
+    deleteFailed: 'Failed to delete message. Please try again.',
+    reactionFailed: 'Failed to update reaction. Please try again.',
   },
 
   // Empty States
@@ -299,6 +324,151 @@ export default {
     positive: 'POSITIVE',
     neutral: 'NEUTRAL',
     negative: 'NEGATIVE',
+    notChatMember: 'You can only ask the AI assistant about chats you are a member of.',
+    rateLimited: 'You\'ve reached your AI assistant limit for now. Please try again later.',
+    progressThinking: 'Thinking…',
+    progressWorking: 'Working…',
+    progressSearching: 'Searching messages…',
+    progressDateRange: 'Finding messages from that time…',
+    progressParticipant: 'Finding messages from that person…',
+    progressStatistics: 'Counting messages…',
+    progressRecent: 'Reading recent messages…',
+    progressActionItems: 'Extracting action items…',
+    progressDates: 'Extracting dates…',
+    progressTone: 'Analyzing tone…',
+    progressWriting: 'Writing answer…',
+    history: 'Previous Questions',
+    historyEmpty: 'You haven\'t asked the AI assistant anything in this chat yet.',
+    historyRunning: 'In progress…',
+    historyFailed: 'Failed',
+    newConversation: 'New Conversation',
+    addToCalendar: 'Add to Calendar',
+    calendarTitle: 'Dates from chat',
+    calendarExportFailed: 'Couldn\'t export these dates. Please try again.',
+    deadlinePrefix: 'Deadline',
+  },
+
+  // Edit History Modal
+  editHistory: {
+    title: 'Edit History',
+    current: 'Current',
+    previous: 'Previous versions',
+    replacedAt: 'Replaced at',
+  },
+
+  // Message Reactions
+  reactions: {
+    title: 'Reactions',
+    you: 'You',
+    tapToRemove: 'Tap to remove',
+    none: 'No reactions yet',
+  },
+
+  // Search Screen
+  search: {
+    title: 'Search',
+    placeholder: 'Search messages...',
+    hint: 'Find messages across all of your chats',
+    searching: 'Searching...',
+    noResults: 'No messages found',
+    tryDifferentSearch: 'Try different words',
+    relatedMatch: 'Related match',
+    keywordOnly: 'Showing exact matches from saved messages only',
+    unknownChat: 'Chat',
+    unknownSender: 'Unknown',
+  },
+
+  // Group Info Screen
+  groupInfo: {
+    title: 'Group Info',
+    members: '{{count}} members',
+    you: 'You',
+    youLower: 'you',
+    unknownMember: 'a member',
+    owner: 'Owner',
+    admin: 'Admin',
+    addMembers: 'Add Members',
+    add: 'Add',
+    makeAdmin: 'Make Admin',
+    removeAdmin: 'Remove as Admin',
+    removeMember: 'Remove from Group',
+    leaveGroup: 'Leave Group',
+    leave: 'Leave',
+    leaveConfirm: 'You will no longer receive messages from this group.',
+    updateFailed: 'Failed to update the group. Please try again.',
+    leaveFailed: 'Failed to leave the group. Please try again.',
+    systemMemberAdded: '{{actor}} added {{target}}',
+    systemMemberRemoved: '{{actor}} removed {{target}}',
+    systemMemberLeft: '{{actor}} left the group',
+    systemAdminPromoted: '{{actor}} made {{target}} an admin',
+    systemAdminDemoted: '{{actor}} removed {{target}} as admin',
+    rename: 'Rename Group',
+    groupNamePlaceholder: 'Group name',
+    systemGroupRenamed: '{{actor}} renamed the group to "{{name}}"',
+  },
+
+  // AI Usage Quota
+  aiQuota: {
+    title: 'AI Usage Today',
+    description: 'Daily limits reset at midnight UTC',
+    remaining: '{{remaining}} of {{limit}} left',
+    unavailable: 'Usage is unavailable while offline',
+    translateText: 'Translations',
+    detectLanguage: 'Language detection',
+    adjustFormality: 'Tone adjustments',
+    explainSlang: 'Slang explanations',
+    getCulturalContext: 'Cultural context',
+    summarizeMultilingualThread: 'Thread summaries',
+    intelligentChatAssistant: 'AI assistant',
+    searchAllMessages: 'Message search',
+  },
+
+  // Tasks Screen
+  tasks: {
+    title: 'Tasks',
+    open: 'To do ({{count}})',
+    done: 'Done ({{count}})',
+    emptyTitle: 'No tasks yet',
+    emptyDescription: 'Ask the AI assistant for action items and they\'ll be tracked here.',
+    assignTo: 'Assign to',
+    unassigned: 'Unassigned',
+    updateFailed: 'Failed to update task. Please try again.',
+    systemTaskCompleted: '{{actor}} completed "{{task}}"',
+  },
+
+  // Deadline reminders
+  reminders: {
+    title: 'Reminder · {{chatName}}',
+    dueBody: 'Due {{due}}: {{text}}',
+    offerTitle: 'Due {{due}} — remind you?',
+    remindMe: 'Remind me',
+    noThanks: 'No thanks',
+    snooze: 'Snooze 1h',
+    dismiss: 'Dismiss',
+    updateFailed: 'Couldn\'t update the reminder. Please try again.',
+  },
+
+  // Chat settings
+  chatSettings: {
+    title: 'Chat Settings',
+  },
+
+  // Translation glossary
+  glossary: {
+    title: 'Glossary',
+    description: 'Terms translated the same way for everyone in this chat',
+    empty: 'No terms yet. Add product names or jargon so they\'re translated consistently.',
+    addTerm: 'Add Term',
+    editTerm: 'Edit Term',
+    termPlaceholder: 'Term',
+    translationPlaceholder: 'Preferred translation',
+    doNotTranslate: 'Do not translate',
+    keepAsIs: 'Kept as-is in every language',
+    remove: 'Remove',
+    removeTitle: 'Remove Term',
+    removeMessage: 'Remove "{{term}}" from the glossary?',
+    limitReached: 'A glossary can have up to {{count}} terms.',
+    saveFailed: 'Couldn\'t save the glossary. Please try again.',
   },
 };
 
@@ -54,6 +54,11 @@ export default {
     title: 'Chat',
     noMessages: 'No hay mensajes aún',
     startConversation: '¡Saluda!',
+    edited: 'editado',
+    editing: 'Editando mensaje',
+    messageDeleted: 'Este mensaje fue eliminado',
+    youDeletedMessage: 'Eliminaste este mensaje',
+    replyingTo: 'Respondiendo a',
   },
 
   // Message Actions (Long Press Menu)
@@ -68,6 +73,14 @@ export default {
     translatedFrom: 'Traducido del',
     originallyIn: 'Originalmente en',
     messageIn: 'Mensaje en',
+    edit: 'Editar',
+    deleteForMe: 'Eliminar para mí',
+    deleteForEveryone: 'Eliminar para todos',
+    deleteConfirmTitle: '¿Eliminar mensaje?',
+    deleteForEveryoneConfirm: 'Este mensaje se eliminará para todos los participantes.',
+    deleteForMeConfirm: 'Este mensaje se eliminará solo de tu dispositivo.',
+    react: 'Reaccionar',
+    reply: 'Responder',
   },
 
   // Chat List Screen
@@ -122,12 +135,21 @@ export default {
     disabled: 'Traducción automática desactivada',
     toggle: 'Traducción automática',
     description: 'Traducir automáticamente mensajes entrantes',
+    contextTitle: 'Traducir con contexto',
+    contextDescription: 'Envía los mensajes anteriores junto con cada traducción para que respuestas cortas como "sí, ese" se traduzcan bien. Solo se aplica a este chat.',
+    contextOn: 'La traducción con contexto está activada.',
+    contextOff: 'La traducción con contexto está desactivada.',
+    turnOn: 'Activar',
+    turnOff: 'Desactivar',
   },
 
   // Translation Badge
   translation: {
     translating: 'Traduciendo...',
     tapToTranslate: 'Toca para traducir',
+    lowConfidence: 'Traducción poco fiable',
+    tapToSeeOriginal: 'Toca para ver el original',
+    keptAsIs: 'Sin traducir: {{items}}',
   },
 
   // Tone Adjustment
@@ -220,6 +242,9 @@ export default {
     languageUnknown: 'Idioma Desconocido',
     languageUnknownMessage: 'No se puede identificar el idioma de este mensaje. Las funciones de IA requieren texto reconocible en un idioma compatible.',
     untranslatableText: 'Este texto no se puede analizar porque su idioma es desconocido o indefinido.',
+    editFailed: 'No se pudo editar el mensaje. Inténtalo de nuevo.',
+    deleteFailed: 'No se pudo eliminar el mensaje. Inténtalo de nuevo.',
+    reactionFailed: 'No se pudo actualizar la reacción. Inténtalo de nuevo.',
   },
 
   // Empty States
@@ -299,6 +324,151 @@ export default {
     positive: 'POSITIVO',
     neutral: 'NEUTRAL',
     negative: 'NEGATIVO',
+    notChatMember: 'Solo puedes consultar al asistente de IA sobre chats de los que eres miembro.',
+    rateLimited: 'Has alcanzado tu límite del asistente de IA por ahora. Inténtalo de nuevo más tarde.',
+    progressThinking: 'Pensando…',
+    progressWorking: 'Trabajando…',
+    progressSearching: 'Buscando mensajes…',
+    progressDateRange: 'Buscando mensajes de esas fechas…',
+    progressParticipant: 'Buscando mensajes de esa persona…',
+    progressStatistics: 'Contando mensajes…',
+    progressRecent: 'Leyendo mensajes recientes…',
+    progressActionItems: 'Extrayendo tareas…',
+    progressDates: 'Extrayendo fechas…',
+    progressTone: 'Analizando el tono…',
+    progressWriting: 'Escribiendo respuesta…',
+    history: 'Preguntas anteriores',
+    historyEmpty: 'Aún no le has preguntado nada al asistente de IA en este chat.',
+    historyRunning: 'En curso…',
+    historyFailed: 'Falló',
+    newConversation: 'Nueva conversación',
+    addToCalendar: 'Añadir al calendario',
+    calendarTitle: 'Fechas del chat',
+    calendarExportFailed: 'No se pudieron exportar estas fechas. Inténtalo de nuevo.',
+    deadlinePrefix: 'Fecha límite',
+  },
+
+  // Edit History Modal
+  editHistory: {
+    title: 'Historial de ediciones',
+    current: 'Actual',
+    previous: 'Versiones anteriores',
+    replacedAt: 'Reemplazado a las',
+  },
+
+  // Message Reactions
+  reactions: {
+    title: 'Reacciones',
+    you: 'Tú',
+    tapToRemove: 'Toca para quitar',
+    none: 'Aún no hay reacciones',
+  },
+
+  // Search Screen
+  search: {
+    title: 'Buscar',
+    placeholder: 'Buscar mensajes...',
+    hint: 'Encuentra mensajes en todos tus chats',
+    searching: 'Buscando...',
+    noResults: 'No se encontraron mensajes',
+    tryDifferentSearch: 'Prueba con otras palabras',
+    relatedMatch: 'Coincidencia relacionada',
+    keywordOnly: 'Solo se muestran coincidencias exactas de los mensajes guardados',
+    unknownChat: 'Chat',
+    unknownSender: 'Desconocido',
+  },
+
+  // Group Info Screen
+  groupInfo: {
+    title: 'Info del grupo',
+    members: '{{count}} miembros',
+    you: 'Tú',
+    youLower: 'a ti',
+    unknownMember: 'un miembro',
+    owner: 'Propietario',
+    admin: 'Admin',
+    addMembers: 'Añadir miembros',
+    add: 'Añadir',
+    makeAdmin: 'Hacer admin',
+    removeAdmin: 'Quitar como admin',
+    removeMember: 'Eliminar del grupo',
+    leaveGroup: 'Salir del grupo',
+    leave: 'Salir',
+    leaveConfirm: 'Ya no recibirás mensajes de este grupo.',
+    updateFailed: 'No se pudo actualizar el grupo. Inténtalo de nuevo.',
+    leaveFailed: 'No se pudo salir del grupo. Inténtalo de nuevo.',
+    systemMemberAdded: '{{actor}} añadió a {{target}}',
+    systemMemberRemoved: '{{actor}} eliminó a {{target}}',
+    systemMemberLeft: '{{actor}} salió del grupo',
+    systemAdminPromoted: '{{actor}} hizo admin a {{target}}',
+    systemAdminDemoted: '{{actor}} quitó a {{target}} como admin',
+    rename: 'Cambiar nombre del grupo',
+    groupNamePlaceholder: 'Nombre del grupo',
+    systemGroupRenamed: '{{actor}} cambió el nombre del grupo a "{{name}}"',
+  },
+
+  // AI Usage Quota
+  aiQuota: {
+    title: 'Uso de IA hoy',
+    description: 'Los límites diarios se reinician a medianoche UTC',
+    remaining: 'Quedan {{remaining}} de {{limit}}',
+    unavailable: 'El uso no está disponible sin conexión',
+    translateText: 'Traducciones',
+    detectLanguage: 'Detección de idioma',
+    adjustFormality: 'Ajustes de tono',
+    explainSlang: 'Explicaciones de jerga',
+    getCulturalContext: 'Contexto cultural',
+    summarizeMultilingualThread: 'Resúmenes de conversaciones',
+    intelligentChatAssistant: 'Asistente de IA',
+    searchAllMessages: 'Búsqueda de mensajes',
+  },
+
+  // Tasks Screen
+  tasks: {
+    title: 'Tareas',
+    open: 'Pendientes ({{count}})',
+    done: 'Hechas ({{count}})',
+    emptyTitle: 'Aún no hay tareas',
+    emptyDescription: 'Pídele al asistente de IA las tareas pendientes y se guardarán aquí.',
+    assignTo: 'Asignar a',
+    unassigned: 'Sin asignar',
+    updateFailed: 'No se pudo actualizar la tarea. Inténtalo de nuevo.',
+    systemTaskCompleted: '{{actor}} completó "{{task}}"',
+  },
+
+  // Deadline reminders
+  reminders: {
+    title: 'Recordatorio · {{chatName}}',
+    dueBody: 'Vence {{due}}: {{text}}',
+    offerTitle: 'Vence {{due}} — ¿te lo recuerdo?',
+    remindMe: 'Recordármelo',
+    noThanks: 'No, gracias',
+    snooze: 'Posponer 1 h',
+    dismiss: 'Descartar',
+    updateFailed: 'No se pudo actualizar el recordatorio. Inténtalo de nuevo.',
+  },
+
+  // Chat settings
+  chatSettings: {
+    title: 'Ajustes del chat',
+  },
+
+  // Translation glossary
+  glossary: {
+    title: 'Glosario',
+    description: 'Términos que se traducen igual para todos en este chat',
+    empty: 'Aún no hay términos. Añade nombres de productos o jerga para que se traduzcan siempre igual.',
+    addTerm: 'Añadir término',
+    editTerm: 'Editar término',
+    termPlaceholder: 'Término',
+    translationPlaceholder: 'Traducción preferida',
+    doNotTranslate: 'No traducir',
+    keepAsIs: 'Se mantiene igual en todos los idiomas',
+    remove: 'Eliminar',
+    removeTitle: 'Eliminar término',
+    removeMessage: '¿Eliminar "{{term}}" del glosario?',
+    limitReached: 'Un glosario puede tener hasta {{count}} términos.',
+    saveFailed: 'No se pudo guardar el glosario. Inténtalo de nuevo.',
   },
 };
 
@@ -54,6 +54,11 @@ export default {
     title: 'Discussion',
     noMessages: 'Aucun message pour le moment',
     startConversation: 'Dites bonjour!',
+    edited: 'modifié',
+    editing: 'Modification du message',
+    messageDeleted: 'Ce message a été supprimé',
+    youDeletedMessage: 'Vous avez supprimé ce message',
+    replyingTo: 'Réponse à',
   },
 
   // Message Actions (Long Press Menu)
@@ -68,6 +73,14 @@ export default {
     translatedFrom: 'Traduit de',
     originallyIn: 'Originalement en',
     messageIn: 'Message en',
+    edit: 'Modifier',
+    deleteForMe: 'Supprimer pour moi',
+    deleteForEveryone: 'Supprimer pour tous',
+    deleteConfirmTitle: 'Supprimer le message ?',
+    deleteForEveryoneConfirm: 'Ce message sera supprimé pour tous les participants.',
+    deleteForMeConfirm: 'Ce message sera supprimé uniquement de votre appareil.',
+    react: 'Réagir',
+    reply: 'Répondre',
   },
 
   // Chat List Screen
@@ -122,12 +135,21 @@ export default {
     disabled: 'Traduction automatique désactivée',
     toggle: 'Traduction automatique',
     description: 'Traduire automatiquement les messages entrants',
+    contextTitle: 'Traduire avec le contexte',
+    contextDescription: 'Envoie les derniers messages avec chaque traduction pour que les réponses courtes comme « oui, celui-là » soient bien traduites. S\'applique uniquement à ce chat.',
+    contextOn: 'La traduction avec contexte est activée.',
+    contextOff: 'La traduction avec contexte est désactivée.',
+    turnOn: 'Activer',
+    turnOff: 'Désactiver',
   },
 
   // Translation Badge
   translation: {
     translating: 'Traduction en cours...',
     tapToTranslate: 'Appuyez pour traduire',
+    lowConfidence: 'Traduction incertaine',
+    tapToSeeOriginal: 'Appuyez pour voir l\'original',
+    keptAsIs: 'Non traduit : {{items}}',
   },
 
   // Tone Adjustment
@@ -220,6 +242,9 @@ export default {
     languageUnknown: 'Langue Inconnue',
     languageUnknownMessage: 'Impossible d\'identifier la langue de ce message. Les fonctionnalités IA nécessitent un texte reconnaissable dans une langue prise en charge.',
     untranslatableText: 'Ce texte ne peut pas être analysé car sa langue est inconnue ou indéfinie.',
+    editFailed: 'Impossible de modifier le message. Veuillez réessayer.',
+    deleteFailed: 'Impossible de supprimer le message. Veuillez réessayer.',
+    reactionFailed: 'Impossible de mettre à jour la réaction. Veuillez réessayer.',
   },
 
   // Empty States
@@ -299,6 +324,151 @@ export default {
     positive: 'POSITIF',
     neutral: 'NEUTRE',
     negative: 'NÉGATIF',
+    notChatMember: 'Vous ne pouvez interroger l\'assistant IA que sur les discussions dont vous êtes membre.',
+    rateLimited: 'Vous avez atteint votre limite d\'assistant IA pour le moment. Réessayez plus tard.',
+    progressThinking: 'Réflexion…',
+    progressWorking: 'Traitement…',
+    progressSearching: 'Recherche dans les messages…',
+    progressDateRange: 'Recherche des messages de cette période…',
+    progressParticipant: 'Recherche des messages de cette personne…',
+    progressStatistics: 'Comptage des messages…',
+    progressRecent: 'Lecture des messages récents…',
+    progressActionItems: 'Extraction des tâches…',
+    progressDates: 'Extraction des dates…',
+    progressTone: 'Analyse du ton…',
+    progressWriting: 'Rédaction de la réponse…',
+    history: 'Questions précédentes',
+    historyEmpty: 'Vous n\'avez encore rien demandé à l\'assistant IA dans cette discussion.',
+    historyRunning: 'En cours…',
+    historyFailed: 'Échec',
+    newConversation: 'Nouvelle conversation',
+    addToCalendar: 'Ajouter au calendrier',
+    calendarTitle: 'Dates de la discussion',
+    calendarExportFailed: 'Impossible d\'exporter ces dates. Veuillez réessayer.',
+    deadlinePrefix: 'Échéance',
+  },
+
+  // Edit History Modal
+  editHistory: {
+    title: 'Historique des modifications',
+    current: 'Actuel',
+    previous: 'Versions précédentes',
+    replacedAt: 'Remplacé à',
+  },
+
+  // Message Reactions
+  reactions: {
+    title: 'Réactions',
+    you: 'Vous',
+    tapToRemove: 'Appuyez pour retirer',
+    none: 'Aucune réaction pour le moment',
+  },
+
+  // Search Screen
+  search: {
+    title: 'Rechercher',
+    placeholder: 'Rechercher des messages...',
+    hint: 'Trouvez des messages dans toutes vos discussions',
+    searching: 'Recherche...',
+    noResults: 'Aucun message trouvé',
+    tryDifferentSearch: 'Essayez d\'autres mots',
+    relatedMatch: 'Résultat associé',
+    keywordOnly: 'Seuls les résultats exacts des messages enregistrés sont affichés',
+    unknownChat: 'Discussion',
+    unknownSender: 'Inconnu',
+  },
+
+  // Group Info Screen
+  groupInfo: {
+    title: 'Infos du groupe',
+    members: '{{count}} membres',
+    you: 'Vous',
+    youLower: 'vous',
+    unknownMember: 'un membre',
+    owner: 'Propriétaire',
+    admin: 'Admin',
+    addMembers: 'Ajouter des membres',
+    add: 'Ajouter',
+    makeAdmin: 'Nommer admin',
+    removeAdmin: 'Retirer le rôle d\'admin',
+    removeMember: 'Retirer du groupe',
+    leaveGroup: 'Quitter le groupe',
+    leave: 'Quitter',
+    leaveConfirm: 'Vous ne recevrez plus de messages de ce groupe.',
+    updateFailed: 'Impossible de mettre à jour le groupe. Veuillez réessayer.',
+    leaveFailed: 'Impossible de quitter le groupe. Veuillez réessayer.',
+    systemMemberAdded: '{{actor}} a ajouté {{target}}',
+    systemMemberRemoved: '{{actor}} a retiré {{target}}',
+    systemMemberLeft: '{{actor}} a quitté le groupe',
+    systemAdminPromoted: '{{actor}} a nommé {{target}} admin',
+    systemAdminDemoted: '{{actor}} a retiré le rôle d\'admin à {{target}}',
+    rename: 'Renommer le groupe',
+    groupNamePlaceholder: 'Nom du groupe',
+    systemGroupRenamed: '{{actor}} a renommé le groupe en « {{name}} »',
+  },
+
+  // AI Usage Quota
+  aiQuota: {
+    title: 'Utilisation de l\'IA aujourd\'hui',
+    description: 'Les limites quotidiennes sont réinitialisées à minuit UTC',
+    remaining: '{{remaining}} sur {{limit}} restants',
+    unavailable: 'L\'utilisation n\'est pas disponible hors ligne',
+    translateText: 'Traductions',
+    detectLanguage: 'Détection de la langue',
+    adjustFormality: 'Ajustements de ton',
+    explainSlang: 'Explications d\'argot',
+    getCulturalContext: 'Contexte culturel',
+    summarizeMultilingualThread: 'Résumés de conversations',
+    intelligentChatAssistant: 'Assistant IA',
+    searchAllMessages: 'Recherche de messages',
+  },
+
+  // Tasks Screen
+  tasks: {
+    title: 'Tâches',
+    open: 'À faire ({{count}})',
+    done: 'Terminées ({{count}})',
+    emptyTitle: 'Aucune tâche pour l\'instant',
+    emptyDescription: 'Demandez les tâches à l\'assistant IA et elles seront suivies ici.',
+    assignTo: 'Attribuer à',
+    unassigned: 'Non attribuée',
+    updateFailed: 'Impossible de mettre à jour la tâche. Veuillez réessayer.',
+    systemTaskCompleted: '{{actor}} a terminé « {{task}} »',
+  },
+
+  // Deadline reminders
+  reminders: {
+    title: 'Rappel · {{chatName}}',
+    dueBody: 'Échéance {{due}} : {{text}}',
+    offerTitle: 'Échéance {{due}} — vous le rappeler ?',
+    remindMe: 'Me le rappeler',
+    noThanks: 'Non merci',
+    snooze: 'Reporter d\'1 h',
+    dismiss: 'Ignorer',
+    updateFailed: 'Impossible de mettre à jour le rappel. Veuillez réessayer.',
+  },
+
+  // Chat settings
+  chatSettings: {
+    title: 'Paramètres du chat',
+  },
+
+  // Translation glossary
+  glossary: {
+    title: 'Glossaire',
+    description: 'Termes traduits de la même façon pour tous dans ce chat',
+    empty: 'Aucun terme pour l\'instant. Ajoutez des noms de produits ou du jargon pour qu\'ils soient traduits de façon cohérente.',
+    addTerm: 'Ajouter un terme',
+    editTerm: 'Modifier le terme',
+    termPlaceholder: 'Terme',
+    translationPlaceholder: 'Traduction préférée',
+    doNotTranslate: 'Ne pas traduire',
+    keepAsIs: 'Conservé tel quel dans toutes les langues',
+    remove: 'Supprimer',
+    removeTitle: 'Supprimer le terme',
+    removeMessage: 'Supprimer « {{term}} » du glossaire ?',
+    limitReached: 'Un glossaire peut contenir jusqu\'à {{count}} termes.',
+    saveFailed: 'Impossible d\'enregistrer le glossaire. Veuillez réessayer.',
   },
 };
 
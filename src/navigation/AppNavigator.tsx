@@ -5,7 +5,7 @@
 
 import React, { useEffect, useRef } from 'react';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
-import { NavigationContainer, NavigationContainerRef } from '@react-navigation/native';
+import { LinkingOptions, NavigationContainer, NavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import * as Notifications from 'expo-notifications';
 import { useAuthStore } from '../stores/authStore';
@@ -16,6 +16,11 @@ import { ChatScreen } from '../screens/ChatScreen';
 import { NewChatScreen } from '../screens/NewChatScreen';
 import { CreateGroupScreen } from '../screens/CreateGroupScreen';
 import { UserProfileScreen } from '../screens/UserProfileScreen';
+import { SearchScreen } from '../screens/SearchScreen';
+import { GroupInfoScreen } from '../screens/GroupInfoScreen';
+import { TasksScreen } from '../screens/TasksScreen';
+import { ChatSettingsScreen } from '../screens/ChatSettingsScreen';
+import { APP_URL_SCHEME } from '../utils/calendarHelpers';
 
 // Type definitions for navigation
 export type AuthStackParamList = {
@@ -28,14 +33,35 @@ export type MainStackParamList = {
   NewChat: undefined;
   CreateGroup: undefined;
   UserProfile: undefined;
+  Search: undefined;
+  GroupInfo: {
+    chatId: string;
+  };
+  Tasks: {
+    chatId: string;
+  };
+  ChatSettings: {
+    chatId: string;
+  };
   Chat: {
     chatId: string;
     chatName: string;
+    messageId?: string; // Message to scroll to when opening the chat (e.g. from search)
   };
 };
 
 const Stack = createNativeStackNavigator();
 
+// messageai://chat/{chatId}?messageId={messageId} opens a chat at a message (e.g. from calendar events)
+const linking: LinkingOptions<MainStackParamList> = {
+  prefixes: [`${APP_URL_SCHEME}://`],
+  config: {
+    screens: {
+      Chat: 'chat/:chatId',
+    },
+  },
+};
+
 /**
  * Root Stack - All screens in one navigator for smooth transitions
  */
@@ -77,11 +103,31 @@ const RootStack = ({ isAuthenticated }: { isAuthenticated: boolean }) => {
             component={UserProfileScreen}
             options={{ title: 'Profile' }}
           />
+          <Stack.Screen
+            name="Search"
+            component={SearchScreen}
+            options={{ title: 'Search' }}
+          />
           <Stack.Screen
             name="Chat"
             component={ChatScreen}
             options={{ title: 'Chat' }}
           />
+          <Stack.Screen
+            name="GroupInfo"
+            component={GroupInfoScreen}
+            options={{ title: 'Group Info' }}
+          />
+          <Stack.Screen
+            name="Tasks"
+            component={TasksScreen}
+            options={{ title: 'Tasks' }}
+          />
+          <Stack.Screen
+            name="ChatSettings"
+            component={ChatSettingsScreen}
+            options={{ title: 'Chat Settings' }}
+          />
         </>
       )}
     </Stack.Navigator>
@@ -117,6 +163,11 @@ export const AppNavigator = () => {
     // Listen for notification responses (when user taps notification)
     notificationResponseListener.current = Notifications.addNotificationResponseReceivedListener(
       (response) => {
+        // Action buttons (snoozing a reminder) are handled in App.tsx
+        if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+          return;
+        }
+
         const chatId = response.notification.request.content.data?.chatId;
         const chatName = response.notification.request.content.data?.chatName || 'Chat';
 
@@ -140,7 +191,7 @@ export const AppNavigator = () => {
   }
 
   return (
-    <NavigationContainer ref={navigationRef}>
+    <NavigationContainer ref={navigationRef} linking={linking}>
       <RootStack isAuthenticated={!!user} />
     </NavigationContainer>
   );
@@ -14,9 +14,11 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { RouteProp, useRoute, useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { doc, onSnapshot, getDoc, setDoc } from 'firebase/firestore';
 import { ref, onValue } from 'firebase/database';
 import { MainStackParamList } from '../navigation/AppNavigator';
@@ -27,31 +29,71 @@ import { useNetworkStore } from '../stores/networkStore';
 import { useNotificationStore } from '../stores/notificationStore';
 import { useTranslationStore } from '../stores/translationStore';
 import { MessageBubble } from '../components/MessageBubble';
+import { SystemMessageChip } from '../components/SystemMessageChip';
 import { MessageInput } from '../components/MessageInput';
 import { OnlineIndicator } from '../components/OnlineIndicator';
 import { TypingIndicator } from '../components/TypingIndicator';
 import { ReadReceiptModal } from '../components/ReadReceiptModal';
+import { EditHistoryModal } from '../components/EditHistoryModal';
+import { ReactionsModal } from '../components/ReactionsModal';
 import { CulturalContextModal } from '../components/CulturalContextModal';
 import { SlangExplanationModal } from '../components/SlangExplanationModal';
 import { AIAssistantInput } from '../components/AIAssistantInput';
 import { AIResponseModal } from '../components/AIResponseModal';
-import { Message, User } from '../types';
-import { AIAssistantResponse } from '../types/assistant';
+import { ReminderOffer } from '../components/ReminderOffer';
+import { AppError, DeadlineReminder, Message, MessageDeleteScope, MessageReplyRef, User } from '../types';
+import {
+  AIAssistantResponse,
+  AssistantSessionProgress,
+  AssistantSessionRecord,
+} from '../types/assistant';
 import { firestore, database } from '../services/firebase';
 import { chatService } from '../services/chatService';
 import { typingService } from '../services/typingService';
 import { notificationService } from '../services/notificationService';
-import { queryAIAssistant } from '../services/aiAssistantService';
+import { reminderService } from '../services/reminderService';
+import { glossaryService } from '../services/glossaryService';
+import {
+  createAssistantSessionId,
+  queryAIAssistant,
+  subscribeToAssistantHistory,
+  subscribeToAssistantSession,
+} from '../services/aiAssistantService';
+import { detectLanguageLocally } from '../services/translationService';
 import { Colors } from '../constants/Colors';
 import { getUserAvatarColor } from '../utils/userColors';
+import { getDefaultReminderTime } from '../utils/reminderHelpers';
+import { buildReplyRef } from '../utils/replyHelpers';
+import { isSystemMessage } from '../utils/systemMessageHelpers';
+import { getTranslationContext } from '../utils/translationContextHelpers';
 import i18n from '../i18n';
 
 type ChatScreenRouteProp = RouteProp<MainStackParamList, 'Chat'>;
+type ChatScreenNavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+// How many older pages to load when jumping to a quoted message or search result
+const MAX_PAGES_TO_FIND_MESSAGE = 5;
+
+// The translateNewMessage Cloud Function detects the language of new and edited
+// messages; clients only detect messages it hasn't handled within this window
+const SERVER_DETECTION_GRACE_MS = 60 * 1000;
+
+/**
+ * Key identifying a specific version of a message, so edited messages
+ * get re-detected and re-translated
+ */
+const getMessageVersionKey = (message: Message): string => {
+  if (!message.editedAt) {
+    return message.id;
+  }
+  const editedAt = message.editedAt instanceof Date ? message.editedAt.getTime() : message.editedAt.toMillis();
+  return `${message.id}_${editedAt}`;
+};
 
 export const ChatScreen: React.FC = () => {
   const route = useRoute<ChatScreenRouteProp>();
-  const navigation = useNavigation();
-  const { chatId, chatName } = route.params;
+  const navigation = useNavigation<ChatScreenNavigationProp>();
+  const { chatId, chatName, messageId: targetMessageId } = route.params;
   
   const flatListRef = useRef<FlatList<Message>>(null);
   const [otherUser, setOtherUser] = useState<User | null>(null);
@@ -69,6 +111,16 @@ export const ChatScreen: React.FC = () => {
   const [showReadReceiptModal, setShowReadReceiptModal] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
   
+  // Message editing state
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [editHistoryMessage, setEditHistoryMessage] = useState<Message | null>(null);
+  const [reactionsMessageId, setReactionsMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<MessageReplyRef | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isNearBottomRef = useRef(true); // Only auto-scroll when the user is reading the latest messages
+  const handledTargetMessageIdRef = useRef<string | null>(null); // Search result already jumped to
+  
   // AI Features state
   const [selectedMessageForContext, setSelectedMessageForContext] = useState<Message | null>(null);
   const [showCulturalContextModal, setShowCulturalContextModal] = useState(false);
@@ -79,6 +131,13 @@ export const ChatScreen: React.FC = () => {
   const [showAIResponseModal, setShowAIResponseModal] = useState(false);
   const [aiResponse, setAiResponse] = useState<AIAssistantResponse | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
+  const [aiProgress, setAiProgress] = useState<AssistantSessionProgress | null>(null);
+  const [aiHistory, setAiHistory] = useState<AssistantSessionRecord[]>([]);
+  const [aiThreadId, setAiThreadId] = useState<string | undefined>(undefined); // Follow-ups continue this thread
+  const [aiModalView, setAiModalView] = useState<'response' | 'history'>('response');
+  
+  // Deadline reminders offered for this chat
+  const [reminderOffers, setReminderOffers] = useState<DeadlineReminder[]>([]);
   
   const { user } = useAuthStore();
   const { chats } = useChatStore();
@@ -86,18 +145,33 @@ export const ChatScreen: React.FC = () => {
   const { setActiveChatId } = useNotificationStore();
   const translationStore = useTranslationStore();
   const isAutoTranslateEnabled = translationStore.isAutoTranslateEnabled(chatId); // Subscribe to this specific value
+  const glossaryVersion = translationStore.glossaryVersions[chatId] ?? 0;
+  const isContextAwareEnabled = translationStore.isContextAwareEnabled(chatId);
   const {
     messages,
     loading,
+    loadingOlder,
     sendMessageOptimistic,
     sendImageOptimistic,
+    editMessageOptimistic,
+    deleteMessageOptimistic,
+    toggleReactionOptimistic,
     retryMessage,
     subscribeToMessages,
     unsubscribeFromMessages,
+    loadOlderMessages,
   } = useMessageStore();
   
   const chatMessages = messages[chatId] || [];
+  // Messages the current user deleted for themselves are hidden entirely
+  const visibleMessages = user
+    ? chatMessages.filter(m => !m.deletedFor?.includes(user.uid))
+    : chatMessages;
+  // Looked up by ID so the who-reacted sheet stays in sync with live reactions
+  const reactionsMessage = chatMessages.find(m => m.id === reactionsMessageId) || null;
+  const deletedMessageIds = new Set(chatMessages.filter(m => m.deletedForEveryone).map(m => m.id));
   const isLoading = loading[chatId];
+  const isLoadingOlder = !!loadingOlder[chatId];
 
   // Debug: Log messages to see if detectedLanguage exists
   useEffect(() => {
@@ -131,8 +205,9 @@ export const ChatScreen: React.FC = () => {
       translationStore.loadUserLanguage(user.uid);
     }
     
-    // Load auto-translate setting for this chat
+    // Load auto-translate settings for this chat
     translationStore.loadAutoTranslateSetting(chatId);
+    translationStore.loadContextAwareSetting(chatId);
     
     // Reset processed messages when entering a new chat
     processedMessageIds.current.clear();
@@ -143,6 +218,15 @@ export const ChatScreen: React.FC = () => {
     };
   }, [chatId, setActiveChatId, user]);
   
+  // Cancel any pending reply highlight when leaving the screen
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+  
   // Clear processed messages when auto-translate is toggled on
   // This allows re-translation of existing messages
   useEffect(() => {
@@ -154,6 +238,19 @@ export const ChatScreen: React.FC = () => {
     }
   }, [isAutoTranslateEnabled]); // Watch the extracted value
   
+  // Track the chat's glossary; translations are cached per glossary version
+  useEffect(() => {
+    return glossaryService.subscribeToGlossary(chatId, (glossary) => {
+      useTranslationStore.getState().setGlossaryVersion(chatId, glossary.version);
+    });
+  }, [chatId]);
+  
+  // Re-translate when the glossary is edited or context-aware translation is toggled
+  useEffect(() => {
+    processedMessageIds.current.clear();
+    setAutoTranslateTrigger(prev => prev + 1);
+  }, [glossaryVersion, isContextAwareEnabled]);
+  
   // Batch auto-translate effect
   // Instead of letting each MessageBubble translate individually,
   // we batch translate all foreign messages at once for much better performance
@@ -164,18 +261,28 @@ export const ChatScreen: React.FC = () => {
     
     if (!isAutoTranslateEnabled || !chatMessages.length) return;
     
+    // Messages the server hasn't detected yet use a reliable on-device detection
+    const sourceLanguages = new Map<string, string | undefined>(chatMessages.map(msg => [
+      msg.id,
+      msg.detectedLanguage || (msg.text ? detectLanguageLocally(msg.text) ?? undefined : undefined),
+    ]));
+    
     // Find messages that need translation (foreign language, not sent by user, not already translated)
     const messagesToTranslate = chatMessages.filter(msg => {
+      const sourceLanguage = sourceLanguages.get(msg.id);
       const needsTranslation = 
         msg.senderId !== user?.uid && // Not our own messages
         msg.text && 
-        msg.detectedLanguage && 
-        msg.detectedLanguage !== userLanguage &&
+        sourceLanguage && 
+        sourceLanguage !== userLanguage &&
+        !(msg.translationCache?.[userLanguage] && // Not translated by the server with the current glossary
+          (msg.translationGlossaryVersion ?? 0) === glossaryVersion &&
+          !isContextAwareEnabled) && // (the server translates without context)
         !translationStore.translations[msg.id]?.[userLanguage] && // Not already translated
-        !processedMessageIds.current.has(msg.id); // Not already processed (prevent infinite loop)
+        !processedMessageIds.current.has(getMessageVersionKey(msg)); // Not already processed (prevent infinite loop)
       
       if (msg.detectedLanguage && msg.detectedLanguage !== userLanguage) {
-        console.log(`[ChatScreen] Message ${msg.id}: needsTranslation=${needsTranslation}, detectedLang=${msg.detectedLanguage}, cached=${!!translationStore.translations[msg.id]?.[userLanguage]}, processed=${processedMessageIds.current.has(msg.id)}`);
+        console.log(`[ChatScreen] Message ${msg.id}: needsTranslation=${needsTranslation}, detectedLang=${msg.detectedLanguage}, cached=${!!translationStore.translations[msg.id]?.[userLanguage]}, processed=${processedMessageIds.current.has(getMessageVersionKey(msg))}`);
       }
       
       return needsTranslation;
@@ -189,19 +296,20 @@ export const ChatScreen: React.FC = () => {
     console.log(`[ChatScreen] Batch auto-translating ${messagesToTranslate.length} messages`);
     
     // Mark these messages as processed BEFORE translating to prevent re-triggering
-    messagesToTranslate.forEach(msg => processedMessageIds.current.add(msg.id));
+    messagesToTranslate.forEach(msg => processedMessageIds.current.add(getMessageVersionKey(msg)));
     
     // Batch translate all messages at once
     const batchData = messagesToTranslate.map(msg => ({
       id: msg.id,
       text: msg.text,
-      sourceLanguage: msg.detectedLanguage
+      sourceLanguage: sourceLanguages.get(msg.id),
+      context: isContextAwareEnabled ? getTranslationContext(chatMessages, msg.id, senderNames) : undefined,
     }));
     
-    translationStore.batchTranslateMessages(batchData, userLanguage).catch(error => {
+    translationStore.batchTranslateMessages(batchData, userLanguage, chatId).catch(error => {
       console.error('[ChatScreen] Batch auto-translate failed:', error);
       // Remove from processed set on error so we can retry
-      messagesToTranslate.forEach(msg => processedMessageIds.current.delete(msg.id));
+      messagesToTranslate.forEach(msg => processedMessageIds.current.delete(getMessageVersionKey(msg)));
     });
   }, [chatId, chatMessages, user?.uid, autoTranslateTrigger]); // Added autoTranslateTrigger to dependencies
   
@@ -210,12 +318,10 @@ export const ChatScreen: React.FC = () => {
     if (currentChat) {
       setParticipants(currentChat.participants);
       
-      // Load sender names for group chats
-      if (currentChat.type === 'group') {
-        chatService.getUserDisplayNames(currentChat.participants)
-          .then(names => setSenderNames(names))
-          .catch(err => console.error('Error loading sender names:', err));
-      }
+      // Load participant names (sender labels in group chats, who-reacted lists in all chats)
+      chatService.getUserDisplayNames(currentChat.participants)
+        .then(names => setSenderNames(names))
+        .catch(err => console.error('Error loading sender names:', err));
     }
   }, [currentChat]);
   
@@ -394,7 +500,7 @@ export const ChatScreen: React.FC = () => {
       clearTimeout(rtdbTimeout);
       unsubscribers.forEach(unsub => unsub());
     };
-  }, [currentChat?.id, currentChat?.type, user?.uid, isConnected]);
+  }, [currentChat?.id, currentChat?.type, currentChat?.participants.join(','), user?.uid, isConnected]);
   
   // Update participant online status when network connection changes
   useEffect(() => {
@@ -415,12 +521,19 @@ export const ChatScreen: React.FC = () => {
       const markAllAsRead = async () => {
         try {
           const unreadMessageIds = chatMessages
-            .filter(msg => msg.senderId !== user.uid && !msg.readBy?.includes(user.uid))
+            .filter(msg => msg.senderId !== user.uid && !msg.readBy?.includes(user.uid) && !isSystemMessage(msg))
             .map(msg => msg.id)
             .filter((id): id is string => id !== undefined && id !== '' && !id.startsWith('temp_'));
           
-          if (unreadMessageIds.length > 0) {
-            await chatService.markMessagesAsRead(chatId, unreadMessageIds, user.uid);
+          // Also reset a server-side unread counter that's ahead of the loaded messages
+          const hasUnreadCounter = (currentChat?.unreadCount ?? 0) > 0;
+          
+          if (unreadMessageIds.length > 0 || hasUnreadCounter) {
+            // Newest confirmed message becomes the user's read pointer for this chat
+            const lastReadMessage = [...chatMessages]
+              .reverse()
+              .find(msg => msg.id && !msg.id.startsWith('temp_'));
+            await chatService.markMessagesAsRead(chatId, unreadMessageIds, user.uid, lastReadMessage);
           }
         } catch (error) {
           console.error('Error marking messages as read:', error);
@@ -434,7 +547,7 @@ export const ChatScreen: React.FC = () => {
       if (chatMessages.length > 0) {
         markAllAsRead();
       }
-    }, [chatId, user, chatMessages])
+    }, [chatId, user, chatMessages, currentChat?.unreadCount])
   );
   
   // Load other user's profile for direct chats (for display name only - presence comes from chat object)
@@ -481,14 +594,55 @@ export const ChatScreen: React.FC = () => {
     };
   }, [chatId, subscribeToMessages, unsubscribeFromMessages]);
 
+  // Assistant history, only while the AI panel or response modal is open
+  const aiPanelOpen = showAIInput || showAIResponseModal;
+  useEffect(() => {
+    if (!user || !aiPanelOpen) return;
+
+    return subscribeToAssistantHistory(chatId, user.uid, setAiHistory);
+  }, [chatId, user?.uid, aiPanelOpen]);
+
+  // Reminders offered for deadlines set in this chat
+  useEffect(() => {
+    if (!user) return;
+
+    return reminderService.subscribeToReminderOffers(chatId, user.uid, setReminderOffers);
+  }, [chatId, user?.uid]);
+
+  const handleAcceptReminder = async (reminder: DeadlineReminder) => {
+    try {
+      await reminderService.scheduleReminder(reminder.id, getDefaultReminderTime(reminder));
+    } catch (error) {
+      Alert.alert(i18n.t('common.error'), i18n.t('reminders.updateFailed'));
+    }
+  };
+
+  const handleDeclineReminder = async (reminder: DeadlineReminder) => {
+    try {
+      await reminderService.dismissReminder(reminder.id);
+    } catch (error) {
+      Alert.alert(i18n.t('common.error'), i18n.t('reminders.updateFailed'));
+    }
+  };
+
   // Track which messages we've already started detecting
   const detectingRef = useRef<Set<string>>(new Set());
 
-  // Detect language for new messages
+  // Bumped when a message's grace period runs out, to re-run detection
+  const [detectionTick, setDetectionTick] = useState(0);
+
+  // Detect language for messages the server didn't (sent before write-time
+  // translation, or its detection failed)
   useEffect(() => {
     if (!user) return;
 
+    const detectBefore = Date.now() - SERVER_DETECTION_GRACE_MS;
+    const graceEndsMs: number[] = [];
+
     chatMessages.forEach((message) => {
+      const lastWrite = message.editedAt || message.timestamp;
+      const lastWriteMs = lastWrite instanceof Date ? lastWrite.getTime() : lastWrite?.toMillis?.() ?? 0;
+
       // Skip if already processing or has language
       if (
         !message.text ||
@@ -497,13 +651,20 @@ export const ChatScreen: React.FC = () => {
         message.pending ||
         message.tempId ||
         !message.id ||
-        detectingRef.current.has(message.id)
+        detectingRef.current.has(getMessageVersionKey(message))
       ) {
         return;
       }
 
+      // Give the server time to detect it first; check again once that time is up
+      if (lastWriteMs > detectBefore) {
+        graceEndsMs.push(lastWriteMs + SERVER_DETECTION_GRACE_MS);
+        return;
+      }
+
       // Mark as detecting
-      detectingRef.current.add(message.id);
+      const versionKey = getMessageVersionKey(message);
+      detectingRef.current.add(versionKey);
 
       console.log(`[DETECT] Processing: ${message.id} - "${message.text}"`);
 
@@ -517,11 +678,19 @@ export const ChatScreen: React.FC = () => {
           console.log(`[DETECT] Saved`);
         } catch (error: any) {
           console.log(`[DETECT] Error: ${error?.message}`);
-          detectingRef.current.delete(message.id); // Allow retry
+          detectingRef.current.delete(versionKey); // Allow retry
         }
       })();
     });
-  }, [chatMessages, user, chatId]);
+
+    if (graceEndsMs.length === 0) return;
+
+    const timer = setTimeout(
+      () => setDetectionTick((tick) => tick + 1),
+      Math.min(...graceEndsMs) - Date.now() + 1
+    );
+    return () => clearTimeout(timer);
+  }, [chatMessages, user, chatId, detectionTick]);
 
   // Subscribe to typing indicators
   useEffect(() => {
@@ -566,20 +735,44 @@ export const ChatScreen: React.FC = () => {
   }, [chatId, user]);
 
   // Auto-scroll to bottom when new messages arrive or typing indicator appears
+  // (keyed on the newest message so loading older pages doesn't jump to the bottom)
+  const newestMessage = chatMessages[chatMessages.length - 1];
   useEffect(() => {
+    const isOwnMessage = !!newestMessage && newestMessage.senderId === user?.uid;
+    if (!isNearBottomRef.current && !isOwnMessage) {
+      return;
+    }
+    
     if ((chatMessages.length > 0 || typingUserIds.length > 0) && flatListRef.current) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [chatMessages.length, typingUserIds.length]);
+  }, [newestMessage?.id, newestMessage?.tempId, typingUserIds.length]);
 
   const handleSend = async (text: string) => {
     if (!user) return;
     
+    // Submitting while editing updates the existing message instead
+    if (editingMessage) {
+      const messageToEdit = editingMessage;
+      setEditingMessage(null);
+      
+      try {
+        await editMessageOptimistic(chatId, messageToEdit.id, text, user.uid);
+      } catch (error) {
+        console.error('Error editing message:', error);
+        alert(i18n.t('errors.editFailed'));
+      }
+      return;
+    }
+    
+    const replyTo = replyingTo || undefined;
+    setReplyingTo(null);
+    
     try {
       // Use optimistic sending - message appears instantly
-      await sendMessageOptimistic(chatId, text, user.uid);
+      await sendMessageOptimistic(chatId, text, user.uid, replyTo);
     } catch (error) {
       console.error('Error sending message:', error);
       // Message will show as failed, user can retry
@@ -640,6 +833,103 @@ export const ChatScreen: React.FC = () => {
     }
   };
 
+  const handleEditMessage = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+  };
+
+  const handleReply = (message: Message) => {
+    if (!user) return;
+    
+    const senderName = message.senderId === user.uid
+      ? user.displayName
+      : senderNames[message.senderId] || otherUser?.displayName || 'Unknown User';
+    
+    setEditingMessage(null);
+    setReplyingTo(buildReplyRef(message, senderName));
+  };
+
+  // Scroll to a message (loading older pages if needed) and briefly highlight it
+  const scrollToMessage = async (messageId: string) => {
+    const findIndex = () =>
+      (useMessageStore.getState().messages[chatId] || [])
+        .filter(m => !user || !m.deletedFor?.includes(user.uid))
+        .findIndex(m => m.id === messageId);
+    
+    // The original may be in an older page that isn't loaded yet
+    let index = findIndex();
+    for (let page = 0; index === -1 && page < MAX_PAGES_TO_FIND_MESSAGE; page++) {
+      if (!useMessageStore.getState().hasMoreMessages[chatId]) break;
+      await loadOlderMessages(chatId);
+      index = findIndex();
+    }
+    
+    if (index === -1) {
+      console.log(`[ChatScreen] Message ${messageId} is not loaded`);
+      return;
+    }
+    
+    isNearBottomRef.current = false;
+    
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    
+    setHighlightedMessageId(messageId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 1500);
+  };
+
+  // Jump to the message a search result points at once the first page has loaded
+  useEffect(() => {
+    if (!targetMessageId || isLoading || chatMessages.length === 0) return;
+    if (handledTargetMessageIdRef.current === targetMessageId) return;
+    
+    handledTargetMessageIdRef.current = targetMessageId;
+    scrollToMessage(targetMessageId);
+  }, [targetMessageId, isLoading, chatMessages.length]);
+
+  const handleReactionToggle = async (message: Message, emoji: string) => {
+    if (!user) return;
+    
+    try {
+      await toggleReactionOptimistic(chatId, message.id, emoji, user.uid);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      alert(i18n.t('errors.reactionFailed'));
+    }
+  };
+
+  const handleDeleteMessage = (message: Message, scope: MessageDeleteScope) => {
+    if (!user) return;
+    
+    Alert.alert(
+      i18n.t('messageActions.deleteConfirmTitle'),
+      scope === 'everyone'
+        ? i18n.t('messageActions.deleteForEveryoneConfirm')
+        : i18n.t('messageActions.deleteForMeConfirm'),
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        {
+          text: i18n.t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            if (editingMessage?.id === message.id) {
+              setEditingMessage(null);
+            }
+            
+            try {
+              await deleteMessageOptimistic(chatId, message.id, user.uid, scope);
+            } catch (error) {
+              console.error('Error deleting message:', error);
+              alert(i18n.t('errors.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // AI Feature Handlers
   const handleCulturalContext = async (messageId: string, text: string, language: string) => {
     setSelectedMessageForContext({ id: messageId, text, detectedLanguage: language } as Message);
@@ -669,33 +959,64 @@ export const ChatScreen: React.FC = () => {
 
     setAiLoading(true);
 
+    // Show progress in the modal while the assistant works
+    const sessionId = createAssistantSessionId(chatId);
+    setAiResponse(null);
+    setAiProgress(null);
+    setAiModalView('response');
+    setShowAIResponseModal(true);
+    const unsubscribeProgress = subscribeToAssistantSession(chatId, sessionId, setAiProgress);
+
     try {
       console.log('🤖 Querying AI assistant:', query);
       const response = await queryAIAssistant(
         chatId,
         query,
-        translationStore.userLanguage
+        translationStore.userLanguage,
+        sessionId,
+        aiThreadId
       );
       
       setAiResponse(response);
-      setShowAIResponseModal(true);
+      setAiThreadId(response.metadata.threadId);
       setShowAIInput(false); // Hide AI input after query
       console.log('✅ AI assistant response received');
     } catch (error) {
       console.error('❌ Error querying AI assistant:', error);
-      alert('Failed to get AI response. Please try again.');
+      setShowAIResponseModal(false);
+      alert(error instanceof AppError ? error.message : 'Failed to get AI response. Please try again.');
     } finally {
+      unsubscribeProgress();
       setAiLoading(false);
     }
   };
 
+  const handleShowAIHistory = () => {
+    setAiModalView('history');
+    setShowAIResponseModal(true);
+  };
+
+  const handleNewAIConversation = () => {
+    setAiThreadId(undefined);
+    setAiResponse(null);
+  };
+
   const handlePasteAIResponse = (text: string) => {
     if (user) {
       handleSend(text);
     }
   };
 
+  // Previous messages sent along when translating a message with context
+  const handleGetTranslationContext = (message: Message) =>
+    getTranslationContext(chatMessages, message.id, senderNames);
+
   const renderMessage = ({ item }: { item: Message }) => {
+    // Chat events render as a centered chip instead of a bubble
+    if (isSystemMessage(item)) {
+      return <SystemMessageChip message={item} currentUserId={user?.uid} />;
+    }
+    
     const isSent = item.senderId === user?.uid;
     const senderName = isGroupChat && !isSent ? senderNames[item.senderId] : undefined;
     
@@ -710,6 +1031,8 @@ export const ChatScreen: React.FC = () => {
       <MessageBubble 
         message={item} 
         isSent={isSent}
+        chatId={chatId}
+        getTranslationContext={isContextAwareEnabled ? handleGetTranslationContext : undefined}
         participants={participants}
         senderName={senderName}
         senderColor={senderColor}
@@ -719,6 +1042,16 @@ export const ChatScreen: React.FC = () => {
         onRetry={item.failed && item.tempId ? () => handleRetry(item.tempId!) : undefined}
         onCulturalContext={handleCulturalContext}
         onSlangExplanation={handleSlangExplanation}
+        onEdit={isSent ? handleEditMessage : undefined}
+        onEditHistoryPress={setEditHistoryMessage}
+        onDelete={handleDeleteMessage}
+        currentUserId={user?.uid}
+        onReactionToggle={handleReactionToggle}
+        onReactionsPress={(message) => setReactionsMessageId(message.id)}
+        onReply={handleReply}
+        onReplyQuotePress={scrollToMessage}
+        replyToDeleted={!!item.replyTo && (!!item.replyTo.deleted || deletedMessageIds.has(item.replyTo.messageId))}
+        highlighted={item.id === highlightedMessageId}
       />
     );
   };
@@ -761,9 +1094,14 @@ export const ChatScreen: React.FC = () => {
           >
             <Text style={styles.backText}>← {i18n.t('common.back')}</Text>
           </TouchableOpacity>
-          <View style={styles.headerCenter}>
+          <TouchableOpacity
+            style={styles.headerCenter}
+            onPress={() => navigation.navigate('GroupInfo', { chatId })}
+            disabled={!isGroupChat}
+            testID="group-info-button"
+          >
             <Text style={styles.headerTitle}>
-              {isGroupChat ? currentChat?.groupName : chatName}
+              {isGroupChat ? currentChat?.groupName : chatName || otherUser?.displayName}
             </Text>
             {isGroupChat ? (
               <View style={styles.participantsContainer}>
@@ -794,8 +1132,30 @@ export const ChatScreen: React.FC = () => {
                 />
               </View>
             ) : null}
-          </View>
+          </TouchableOpacity>
           <View style={styles.headerRight}>
+            {/* Chat settings (translation glossary) */}
+            <TouchableOpacity
+              onPress={() => navigation.navigate('ChatSettings', { chatId })}
+              style={styles.aiAssistantButton}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              testID="chat-settings-button"
+            >
+              <Text style={styles.aiAssistantButtonText}>
+                ⚙️
+              </Text>
+            </TouchableOpacity>
+            {/* Action items extracted by the AI assistant */}
+            <TouchableOpacity
+              onPress={() => navigation.navigate('Tasks', { chatId })}
+              style={styles.aiAssistantButton}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              testID="tasks-button"
+            >
+              <Text style={styles.aiAssistantButtonText}>
+                ✅
+              </Text>
+            </TouchableOpacity>
             {/* AI Assistant button */}
             <TouchableOpacity
               onPress={() => setShowAIInput(!showAIInput)}
@@ -813,6 +1173,7 @@ export const ChatScreen: React.FC = () => {
       {showAIInput && (
         <AIAssistantInput
           onQuery={handleAIQuery}
+          onShowHistory={handleShowAIHistory}
           loading={aiLoading}
         />
       )}
@@ -826,7 +1187,7 @@ export const ChatScreen: React.FC = () => {
       ) : (
         <FlatList
           ref={flatListRef}
-          data={chatMessages}
+          data={visibleMessages}
           renderItem={renderMessage}
           keyExtractor={(item, index) => item.id || item.tempId || `msg-${index}`}
           style={styles.messagesList}
@@ -837,7 +1198,31 @@ export const ChatScreen: React.FC = () => {
               typingUsers={typingUserNames}
             />
           )}
-          onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+          onContentSizeChange={() => {
+            if (isNearBottomRef.current) {
+              flatListRef.current?.scrollToEnd({ animated: true });
+            }
+          }}
+          onScroll={({ nativeEvent }) => {
+            const { contentOffset, contentSize, layoutMeasurement } = nativeEvent;
+            isNearBottomRef.current =
+              contentSize.height - layoutMeasurement.height - contentOffset.y < 150;
+          }}
+          scrollEventThrottle={100}
+          // Load older messages when the user scrolls up to the top
+          // (ignored on the initial render, before the list has scrolled to the bottom)
+          onStartReached={() => {
+            if (!isNearBottomRef.current) {
+              loadOlderMessages(chatId);
+            }
+          }}
+          onStartReachedThreshold={0.5}
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+          ListHeaderComponent={isLoadingOlder ? (
+            <View style={styles.loadingOlderContainer}>
+              <ActivityIndicator size="small" color={Colors.primary} />
+            </View>
+          ) : null}
           // Performance optimizations
           removeClippedSubviews={true}
           maxToRenderPerBatch={10}
@@ -845,6 +1230,22 @@ export const ChatScreen: React.FC = () => {
           initialNumToRender={15}
           updateCellsBatchingPeriod={50}
           getItemLayout={getMessageItemLayout}
+          onScrollToIndexFailed={({ index }) => {
+            // Item heights are estimated; retry once the list has rendered further
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+            }, 100);
+          }}
+        />
+      )}
+
+      {/* Deadline reminder offer */}
+      {reminderOffers.length > 0 && (
+        <ReminderOffer
+          reminder={reminderOffers[0]}
+          onAccept={handleAcceptReminder}
+          onDecline={handleDeclineReminder}
+          onPressMessage={scrollToMessage}
         />
       )}
 
@@ -855,6 +1256,10 @@ export const ChatScreen: React.FC = () => {
         onTypingChange={handleTypingChange}
         disabled={!user}
         chatId={chatId}
+        editingMessage={editingMessage}
+        onCancelEdit={() => setEditingMessage(null)}
+        replyingTo={replyingTo}
+        onCancelReply={() => setReplyingTo(null)}
       />
       
       {/* Read Receipt Modal */}
@@ -870,6 +1275,24 @@ export const ChatScreen: React.FC = () => {
         }}
       />
 
+      {/* Reactions Modal */}
+      <ReactionsModal
+        visible={!!reactionsMessage}
+        message={reactionsMessage}
+        currentUserId={user?.uid}
+        userNames={senderNames}
+        participantUsers={participantUsers}
+        onRemoveReaction={handleReactionToggle}
+        onClose={() => setReactionsMessageId(null)}
+      />
+
+      {/* Edit History Modal */}
+      <EditHistoryModal
+        visible={!!editHistoryMessage}
+        message={editHistoryMessage}
+        onClose={() => setEditHistoryMessage(null)}
+      />
+
       {/* Cultural Context Modal */}
       <CulturalContextModal
         visible={showCulturalContextModal}
@@ -907,9 +1330,15 @@ export const ChatScreen: React.FC = () => {
       {/* AI Response Modal */}
       <AIResponseModal
         visible={showAIResponseModal}
+        chatId={chatId}
         response={aiResponse}
+        loading={aiLoading}
+        progress={aiProgress}
+        history={aiHistory}
+        initialView={aiModalView}
         onClose={() => setShowAIResponseModal(false)}
         onPasteInChat={handlePasteAIResponse}
+        onNewConversation={handleNewAIConversation}
       />
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -1020,6 +1449,10 @@ const styles = StyleSheet.create({
     flexGrow: 1,
     paddingVertical: 8,
   },
+  loadingOlderContainer: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
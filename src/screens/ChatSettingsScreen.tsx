@@ -0,0 +1,497 @@
+/**
+ * ChatSettingsScreen
+ *
+ * Per-chat settings shared by all participants
+ * Features:
+ * - Translation glossary: product names and jargon with the translation the
+ *   chat prefers in each participant's language, or kept as-is
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  FlatList,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  TextInput,
+  Switch,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MainStackParamList } from '../navigation/AppNavigator';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore } from '../stores/chatStore';
+import { glossaryService } from '../services/glossaryService';
+import * as languageService from '../services/languageService';
+import { GlossaryEntry } from '../types/translation';
+import {
+  isCompleteGlossaryEntry,
+  MAX_GLOSSARY_ENTRIES,
+  removeGlossaryEntry,
+  upsertGlossaryEntry,
+} from '../utils/glossaryHelpers';
+import { Colors } from '../constants/Colors';
+import i18n from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type ChatSettingsRouteProp = RouteProp<MainStackParamList, 'ChatSettings'>;
+
+const EMPTY_ENTRY: GlossaryEntry = { term: '', doNotTranslate: false, translations: {} };
+
+export const ChatSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<ChatSettingsRouteProp>();
+  const { chatId } = route.params;
+  const { user } = useAuthStore();
+  const chat = useChatStore((state) => state.chats.find(c => c.id === chatId));
+
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [participantLanguages, setParticipantLanguages] = useState<string[]>([]);
+
+  // Entry being added or edited; editingTerm is null for a new entry
+  const [draft, setDraft] = useState<GlossaryEntry | null>(null);
+  const [editingTerm, setEditingTerm] = useState<string | null>(null);
+
+  const participantsKey = chat?.participants.join(',') ?? '';
+
+  useEffect(() => {
+    return glossaryService.subscribeToGlossary(
+      chatId,
+      (glossary) => {
+        setEntries(glossary.entries);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [chatId]);
+
+  // Languages the form asks a translation for
+  useEffect(() => {
+    if (!chat) return;
+
+    let cancelled = false;
+    Promise.all(chat.participants.map(uid => languageService.getUserLanguage(uid))).then((languages) => {
+      if (!cancelled) {
+        setParticipantLanguages(Array.from(new Set(languages)));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [participantsKey]);
+
+  if (!user) {
+    return null;
+  }
+
+  // Participant languages first, then any others the glossary already covers
+  const formLanguages = Array.from(new Set([
+    ...participantLanguages,
+    ...Object.keys(draft?.translations ?? {}),
+  ]));
+
+  const saveEntries = async (updated: GlossaryEntry[]): Promise<boolean> => {
+    setSaving(true);
+    try {
+      await glossaryService.saveGlossary(chatId, updated, user.uid);
+      return true;
+    } catch (error) {
+      console.error('Error saving glossary:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('glossary.saveFailed'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (entries.length >= MAX_GLOSSARY_ENTRIES) {
+      Alert.alert(i18n.t('glossary.title'), i18n.t('glossary.limitReached', { count: MAX_GLOSSARY_ENTRIES }));
+      return;
+    }
+    setEditingTerm(null);
+    setDraft(EMPTY_ENTRY);
+  };
+
+  const handleEdit = (entry: GlossaryEntry) => {
+    setEditingTerm(entry.term);
+    setDraft(entry);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !isCompleteGlossaryEntry(draft)) return;
+
+    const saved = await saveEntries(upsertGlossaryEntry(entries, draft, editingTerm ?? undefined));
+    if (saved) {
+      setDraft(null);
+    }
+  };
+
+  const handleRemove = (entry: GlossaryEntry) => {
+    Alert.alert(
+      i18n.t('glossary.removeTitle'),
+      i18n.t('glossary.removeMessage', { term: entry.term }),
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        {
+          text: i18n.t('glossary.remove'),
+          style: 'destructive',
+          onPress: () => saveEntries(removeGlossaryEntry(entries, entry.term)),
+        },
+      ]
+    );
+  };
+
+  const describeEntry = (entry: GlossaryEntry): string => {
+    if (entry.doNotTranslate) {
+      return i18n.t('glossary.keepAsIs');
+    }
+    return Object.entries(entry.translations)
+      .map(([language, translation]) => `${languageService.getLanguageFlag(language)} ${translation}`)
+      .join('  ·  ');
+  };
+
+  const renderItem = ({ item }: { item: GlossaryEntry }) => (
+    <TouchableOpacity
+      style={styles.entryItem}
+      onPress={() => handleEdit(item)}
+      testID={`glossary-entry-${item.term}`}
+    >
+      <View style={styles.entryContent}>
+        <Text style={styles.entryTerm}>{item.term}</Text>
+        <Text style={styles.entryDescription} numberOfLines={2}>{describeEntry(item)}</Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRemove(item)}
+        style={styles.removeButton}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityLabel={i18n.t('glossary.remove')}
+      >
+        <Text style={styles.removeButtonText}>✕</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+          >
+            <Text style={styles.backButtonText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {i18n.t('chatSettings.title')}
+          </Text>
+        </View>
+
+        {loading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            renderItem={renderItem}
+            keyExtractor={(item) => item.term}
+            ListHeaderComponent={(
+              <View>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>{i18n.t('glossary.title')}</Text>
+                  <TouchableOpacity onPress={handleAdd} disabled={saving} testID="glossary-add-button">
+                    <Text style={styles.addButtonText}>+ {i18n.t('glossary.addTerm')}</Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.sectionDescription}>{i18n.t('glossary.description')}</Text>
+              </View>
+            )}
+            ListEmptyComponent={(
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>{i18n.t('glossary.empty')}</Text>
+              </View>
+            )}
+          />
+        )}
+      </View>
+
+      {/* Add / edit a glossary entry */}
+      <Modal
+        visible={draft !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setDraft(null)}
+      >
+        {draft && (
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>
+                {i18n.t(editingTerm ? 'glossary.editTerm' : 'glossary.addTerm')}
+              </Text>
+              <ScrollView keyboardShouldPersistTaps="handled">
+                <TextInput
+                  style={styles.modalInput}
+                  placeholder={i18n.t('glossary.termPlaceholder')}
+                  placeholderTextColor="#8e8e93"
+                  value={draft.term}
+                  onChangeText={(term) => setDraft({ ...draft, term })}
+                  autoFocus={!editingTerm}
+                  autoCapitalize="none"
+                  maxLength={60}
+                />
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>{i18n.t('glossary.doNotTranslate')}</Text>
+                  <Switch
+                    value={draft.doNotTranslate}
+                    onValueChange={(doNotTranslate) => setDraft({ ...draft, doNotTranslate })}
+                    trackColor={{ true: Colors.primary }}
+                  />
+                </View>
+                {!draft.doNotTranslate && formLanguages.map((language) => (
+                  <View key={language}>
+                    <Text style={styles.languageLabel}>
+                      {languageService.getLanguageFlag(language)} {languageService.getLanguageName(language)}
+                    </Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      placeholder={i18n.t('glossary.translationPlaceholder')}
+                      placeholderTextColor="#8e8e93"
+                      value={draft.translations[language] ?? ''}
+                      onChangeText={(translation) => setDraft({
+                        ...draft,
+                        translations: { ...draft.translations, [language]: translation },
+                      })}
+                      maxLength={60}
+                    />
+                  </View>
+                ))}
+              </ScrollView>
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalButtonCancel]}
+                  onPress={() => setDraft(null)}
+                >
+                  <Text style={styles.modalButtonTextCancel}>{i18n.t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalButtonSave]}
+                  onPress={handleSaveDraft}
+                  disabled={saving || !isCompleteGlossaryEntry(draft)}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.modalButtonTextSave}>{i18n.t('common.save')}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        )}
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.primary,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5', // Light gray background
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.primaryDark,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+  },
+  backButtonText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#8e8e93',
+    lineHeight: 18,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  entryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#F5EBE0', // Light tan background (matches chat list items)
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D7C7', // Slightly darker tan for border
+  },
+  entryContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  entryTerm: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  entryDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  removeButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#E8D7C7',
+  },
+  removeButtonText: {
+    fontSize: 14,
+    color: '#666666',
+    fontWeight: '600',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8e8e93',
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  modalInput: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#000',
+    flex: 1,
+    marginRight: 12,
+  },
+  languageLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 6,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalButtonCancel: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  modalButtonSave: {
+    backgroundColor: Colors.primary,
+  },
+  modalButtonTextCancel: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalButtonTextSave: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
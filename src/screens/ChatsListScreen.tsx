@@ -28,6 +28,7 @@ import { useAuthStore } from '../stores/authStore';
 import { useTranslationStore } from '../stores/translationStore';
 import { SwipeableChatListItem } from '../components/SwipeableChatListItem';
 import { Chat } from '../types';
+import { notificationService } from '../services/notificationService';
 import { Colors } from '../constants/Colors';
 import i18n from '../i18n';
 
@@ -51,6 +52,12 @@ export const ChatsListScreen: React.FC = () => {
     };
   }, [user, subscribeToChats]);
 
+  // Keep the app icon badge in sync with the server-side unread counters
+  const totalUnreadCount = chats.reduce((total, chat) => total + (chat.unreadCount ?? 0), 0);
+  useEffect(() => {
+    notificationService.setBadgeCount(totalUnreadCount);
+  }, [totalUnreadCount]);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -97,13 +104,22 @@ export const ChatsListScreen: React.FC = () => {
         {/* Header with logout button */}
         <View style={styles.header}>
           <Text style={styles.headerTitle}>{i18n.t('chatList.title')}</Text>
-          <TouchableOpacity
-            onPress={handleLogout}
-            style={styles.logoutButton}
-            testID="logout-button"
-          >
-            <Text style={styles.logoutText}>{i18n.t('profile.logout')}</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('Search')}
+              style={styles.searchButton}
+              testID="search-button"
+            >
+              <Ionicons name="search" size={22} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleLogout}
+              style={styles.logoutButton}
+              testID="logout-button"
+            >
+              <Text style={styles.logoutText}>{i18n.t('profile.logout')}</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
       {/* Chats list */}
@@ -166,6 +182,14 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchButton: {
+    padding: 8,
+    marginRight: 8,
+  },
   logoutButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -0,0 +1,550 @@
+/**
+ * GroupInfoScreen
+ *
+ * Group details and membership management
+ * Features:
+ * - Member list with owner/admin badges
+ * - Admins can add and remove members, promote/demote admins and rename the group
+ * - Anyone can leave the group
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  FlatList,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MainStackParamList } from '../navigation/AppNavigator';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore } from '../stores/chatStore';
+import { chatService } from '../services/chatService';
+import { getUserById } from '../services/authService';
+import { UserSelector } from '../components/UserSelector';
+import { GroupRole, User } from '../types';
+import { Colors } from '../constants/Colors';
+import { getUserAvatarColor } from '../utils/userColors';
+import { canManageMembers, getGroupRole } from '../utils/groupHelpers';
+import i18n from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type GroupInfoRouteProp = RouteProp<MainStackParamList, 'GroupInfo'>;
+
+// Owner first, then admins, then members
+const ROLE_ORDER: Record<GroupRole, number> = { owner: 0, admin: 1, member: 2 };
+
+export const GroupInfoScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<GroupInfoRouteProp>();
+  const { chatId } = route.params;
+  const { user } = useAuthStore();
+  const chat = useChatStore((state) => state.chats.find(c => c.id === chatId));
+
+  const [members, setMembers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [showRename, setShowRename] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+
+  const participantsKey = chat?.participants.join(',') ?? '';
+
+  // Load profiles whenever membership changes
+  useEffect(() => {
+    if (!chat) return;
+
+    let cancelled = false;
+    const loadMembers = async () => {
+      try {
+        const users = await Promise.all(chat.participants.map(uid => getUserById(uid)));
+        if (!cancelled) {
+          setMembers(users.filter((u): u is User => u !== null));
+        }
+      } catch (error) {
+        console.error('Error loading group members:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadMembers();
+    return () => {
+      cancelled = true;
+    };
+  }, [participantsKey]);
+
+  if (!chat || !user) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={[styles.container, styles.centerContainer]}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isAdmin = canManageMembers(chat, user.uid);
+  const sortedMembers = [...members].sort(
+    (a, b) => ROLE_ORDER[getGroupRole(chat, a.uid)] - ROLE_ORDER[getGroupRole(chat, b.uid)]
+  );
+
+  const runMembershipAction = async (action: () => Promise<void>) => {
+    try {
+      setUpdating(true);
+      await action();
+    } catch (error) {
+      console.error('Error updating group membership:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('groupInfo.updateFailed'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleMemberPress = (member: User) => {
+    if (!isAdmin || member.uid === user.uid) return;
+
+    const role = getGroupRole(chat, member.uid);
+    if (role === 'owner') return;
+
+    Alert.alert(member.displayName, undefined, [
+      role === 'admin'
+        ? {
+            text: i18n.t('groupInfo.removeAdmin'),
+            onPress: () => runMembershipAction(() =>
+              chatService.setGroupRole(chatId, member.uid, 'member', user.uid)
+            ),
+          }
+        : {
+            text: i18n.t('groupInfo.makeAdmin'),
+            onPress: () => runMembershipAction(() =>
+              chatService.setGroupRole(chatId, member.uid, 'admin', user.uid)
+            ),
+          },
+      {
+        text: i18n.t('groupInfo.removeMember'),
+        style: 'destructive',
+        onPress: () => runMembershipAction(() =>
+          chatService.removeParticipant(chatId, member.uid, user.uid)
+        ),
+      },
+      { text: i18n.t('common.cancel'), style: 'cancel' },
+    ]);
+  };
+
+  const handleAddMembers = async () => {
+    const userIds = selectedUserIds;
+    setShowAddMembers(false);
+    setSelectedUserIds([]);
+
+    await runMembershipAction(async () => {
+      for (const userId of userIds) {
+        await chatService.addParticipant(chatId, userId, user.uid);
+      }
+    });
+  };
+
+  const handleRename = async () => {
+    const groupName = newGroupName;
+    setShowRename(false);
+
+    await runMembershipAction(() => chatService.renameGroup(chatId, groupName, user.uid));
+  };
+
+  const handleLeaveGroup = () => {
+    Alert.alert(
+      i18n.t('groupInfo.leaveGroup'),
+      i18n.t('groupInfo.leaveConfirm'),
+      [
+        { text: i18n.t('common.cancel'), style: 'cancel' },
+        {
+          text: i18n.t('groupInfo.leave'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setUpdating(true);
+              await chatService.leaveGroup(chatId, user.uid);
+              navigation.popToTop();
+            } catch (error) {
+              console.error('Error leaving group:', error);
+              setUpdating(false);
+              Alert.alert(i18n.t('common.error'), i18n.t('groupInfo.leaveFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMember = ({ item }: { item: User }) => {
+    const role = getGroupRole(chat, item.uid);
+    const isCurrentUser = item.uid === user.uid;
+
+    return (
+      <TouchableOpacity
+        style={styles.memberItem}
+        onPress={() => handleMemberPress(item)}
+        disabled={!isAdmin || isCurrentUser || role === 'owner'}
+        testID={`member-${item.uid}`}
+      >
+        <View style={[styles.avatar, { backgroundColor: getUserAvatarColor(item) }]}>
+          <Text style={styles.avatarText}>{item.displayName.charAt(0).toUpperCase()}</Text>
+        </View>
+        <Text style={styles.memberName} numberOfLines={1}>
+          {isCurrentUser ? i18n.t('groupInfo.you') : item.displayName}
+        </Text>
+        {chat.roles && role !== 'member' && (
+          <Text style={styles.roleBadge}>
+            {role === 'owner' ? i18n.t('groupInfo.owner') : i18n.t('groupInfo.admin')}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+          >
+            <Text style={styles.backButtonText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {chat.groupName || i18n.t('groupInfo.title')}
+          </Text>
+          {isAdmin && (
+            <TouchableOpacity
+              onPress={() => {
+                setNewGroupName(chat.groupName || '');
+                setShowRename(true);
+              }}
+              testID="rename-group-button"
+            >
+              <Text style={styles.headerAction}>✏️</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+      <Text style={styles.sectionTitle}>
+        {i18n.t('groupInfo.members', { count: chat.participants.length })}
+      </Text>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={sortedMembers}
+          renderItem={renderMember}
+          keyExtractor={(item) => item.uid}
+          ListHeaderComponent={isAdmin ? (
+            <TouchableOpacity
+              style={styles.addMembersButton}
+              onPress={() => setShowAddMembers(true)}
+              testID="add-members-button"
+            >
+              <Text style={styles.addMembersText}>+ {i18n.t('groupInfo.addMembers')}</Text>
+            </TouchableOpacity>
+          ) : null}
+          ListFooterComponent={(
+            <TouchableOpacity
+              style={styles.leaveButton}
+              onPress={handleLeaveGroup}
+              testID="leave-group-button"
+            >
+              <Text style={styles.leaveButtonText}>{i18n.t('groupInfo.leaveGroup')}</Text>
+            </TouchableOpacity>
+          )}
+        />
+      )}
+
+      {/* Add members */}
+      <Modal
+        visible={showAddMembers}
+        animationType="slide"
+        onRequestClose={() => setShowAddMembers(false)}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          <View style={styles.container}>
+            <View style={styles.header}>
+              <TouchableOpacity
+                onPress={() => {
+                  setShowAddMembers(false);
+                  setSelectedUserIds([]);
+                }}
+                style={styles.backButton}
+                hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+              >
+                <Text style={styles.backButtonText}>✕</Text>
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>{i18n.t('groupInfo.addMembers')}</Text>
+              <TouchableOpacity
+                onPress={handleAddMembers}
+                disabled={selectedUserIds.length === 0}
+              >
+                <Text
+                  style={[
+                    styles.headerAction,
+                    selectedUserIds.length === 0 && styles.headerActionDisabled,
+                  ]}
+                >
+                  {i18n.t('groupInfo.add')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <UserSelector
+              currentUserId={user.uid}
+              selectedUserIds={selectedUserIds}
+              onSelectionChange={setSelectedUserIds}
+              excludeUserIds={chat.participants}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Rename group */}
+      <Modal
+        visible={showRename}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowRename(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{i18n.t('groupInfo.rename')}</Text>
+            <TextInput
+              style={styles.modalInput}
+              placeholder={i18n.t('groupInfo.groupNamePlaceholder')}
+              placeholderTextColor="#8e8e93"
+              value={newGroupName}
+              onChangeText={setNewGroupName}
+              autoFocus
+              maxLength={50}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonCancel]}
+                onPress={() => setShowRename(false)}
+              >
+                <Text style={styles.modalButtonTextCancel}>{i18n.t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonSave]}
+                onPress={handleRename}
+                disabled={!newGroupName.trim()}
+              >
+                <Text style={styles.modalButtonTextSave}>{i18n.t('common.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {updating && (
+        <View style={styles.loadingOverlay}>
+          <ActivityIndicator size="large" color="#fff" />
+        </View>
+      )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.primary,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5', // Light gray background
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.primaryDark,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+  },
+  backButtonText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  headerAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  headerActionDisabled: {
+    opacity: 0.5,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  addMembersButton: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  addMembersText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#F5EBE0', // Light tan background (matches chat list items)
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D7C7', // Slightly darker tan for border
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  avatarText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  roleBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  leaveButton: {
+    marginTop: 24,
+    marginBottom: 40,
+    padding: 16,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  leaveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  modalInput: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalButtonCancel: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  modalButtonSave: {
+    backgroundColor: Colors.primary,
+  },
+  modalButtonTextCancel: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalButtonTextSave: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
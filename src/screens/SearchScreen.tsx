@@ -0,0 +1,324 @@
+/**
+ * SearchScreen
+ *
+ * Global message search across all of the user's chats
+ * Features:
+ * - Keyword matches over locally cached messages
+ * - Semantic matches from the server (when online)
+ * - Tap a result to jump to the message in its chat
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  FlatList,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MainStackParamList } from '../navigation/AppNavigator';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore } from '../stores/chatStore';
+import { searchService } from '../services/searchService';
+import { ChatWithDetails, MessageSearchResult } from '../types';
+import { Colors } from '../constants/Colors';
+import { formatMessageTime } from '../utils/dateHelpers';
+import i18n from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+// Wait for the user to stop typing before hitting the server
+const SEARCH_DEBOUNCE_MS = 400;
+
+const getChatName = (chat?: ChatWithDetails): string => {
+  if (!chat) return i18n.t('search.unknownChat');
+  return chat.type === 'group'
+    ? chat.groupName || i18n.t('search.unknownChat')
+    : chat.otherUserName || i18n.t('search.unknownChat');
+};
+
+export const SearchScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { user } = useAuthStore();
+  const { chats } = useChatStore();
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [semanticFailed, setSemanticFailed] = useState(false);
+  const latestSearchRef = useRef(0);
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      latestSearchRef.current++;
+      setResults([]);
+      setSearching(false);
+      setSemanticFailed(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      // Ignore results from searches that were superseded while in flight
+      const searchId = ++latestSearchRef.current;
+
+      try {
+        const chatIds = useChatStore.getState().chats.map(chat => chat.id);
+        const response = await searchService.searchAllMessages(chatIds, trimmedQuery, user?.uid);
+
+        if (searchId !== latestSearchRef.current) return;
+        setResults(response.results);
+        setSemanticFailed(response.semanticFailed);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+        if (searchId !== latestSearchRef.current) return;
+        setResults([]);
+      } finally {
+        if (searchId === latestSearchRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, user?.uid]);
+
+  const getSenderName = (result: MessageSearchResult, chat?: ChatWithDetails): string => {
+    if (result.senderId === user?.uid) return i18n.t('reactions.you');
+    if (result.senderName) return result.senderName;
+    if (chat?.type === 'direct') return chat.otherUserName || i18n.t('search.unknownSender');
+    return chat?.participantDetails?.find(p => p.uid === result.senderId)?.displayName
+      || i18n.t('search.unknownSender');
+  };
+
+  const handleResultPress = (result: MessageSearchResult) => {
+    const chat = chats.find(c => c.id === result.chatId);
+    navigation.navigate('Chat', {
+      chatId: result.chatId,
+      chatName: getChatName(chat),
+      messageId: result.messageId,
+    });
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const chat = chats.find(c => c.id === item.chatId);
+
+    return (
+      <TouchableOpacity
+        style={styles.resultItem}
+        onPress={() => handleResultPress(item)}
+        testID={`search-result-${item.messageId}`}
+      >
+        <View style={styles.resultHeader}>
+          <Text style={styles.chatName} numberOfLines={1}>
+            {getChatName(chat)}
+          </Text>
+          <Text style={styles.resultTime}>{formatMessageTime(item.timestamp)}</Text>
+        </View>
+        <Text style={styles.resultText} numberOfLines={2}>
+          <Text style={styles.senderName}>{getSenderName(item, chat)}: </Text>
+          {item.text}
+        </Text>
+        {item.source === 'semantic' && (
+          <Text style={styles.semanticLabel}>{i18n.t('search.relatedMatch')}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (searching) {
+      return (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>{i18n.t('search.searching')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyIcon}>🔍</Text>
+        <Text style={styles.emptyTitle}>
+          {query.trim() ? i18n.t('search.noResults') : i18n.t('search.title')}
+        </Text>
+        <Text style={styles.emptySubtitle}>
+          {query.trim() ? i18n.t('search.tryDifferentSearch') : i18n.t('search.hint')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+          >
+            <Text style={styles.backButtonText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{i18n.t('search.title')}</Text>
+        </View>
+
+      {/* Search bar */}
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder={i18n.t('search.placeholder')}
+          placeholderTextColor="#8e8e93"
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          testID="search-input"
+        />
+        {semanticFailed && !searching && (
+          <Text style={styles.offlineNotice}>{i18n.t('search.keywordOnly')}</Text>
+        )}
+      </View>
+
+      {/* Results */}
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(item) => `${item.chatId}_${item.messageId}`}
+        contentContainerStyle={results.length === 0 ? styles.emptyList : undefined}
+        ListEmptyComponent={renderEmptyState}
+        keyboardShouldPersistTaps="handled"
+      />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.primary,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5', // Light gray background
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.primaryDark,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+  },
+  backButtonText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  searchContainer: {
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  searchInput: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  offlineNotice: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#8e8e93',
+  },
+  resultItem: {
+    padding: 16,
+    backgroundColor: '#F5EBE0', // Light tan background (matches chat list items)
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D7C7', // Slightly darker tan for border
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  chatName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginRight: 8,
+  },
+  resultTime: {
+    fontSize: 12,
+    color: '#8e8e93',
+  },
+  resultText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  senderName: {
+    fontWeight: '600',
+  },
+  semanticLabel: {
+    marginTop: 4,
+    fontSize: 12,
+    color: Colors.primary,
+    fontStyle: 'italic',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8e8e93',
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#8e8e93',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,329 @@
+/**
+ * TasksScreen
+ *
+ * A chat's action items, extracted by the AI assistant
+ * Features:
+ * - Open items first (by priority), completed items below
+ * - Tick items off; completing one posts a system message to the chat
+ * - Assign items to any participant
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  SectionList,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MainStackParamList } from '../navigation/AppNavigator';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore } from '../stores/chatStore';
+import { chatService } from '../services/chatService';
+import { actionItemService } from '../services/actionItemService';
+import { ChatActionItem } from '../types/assistant';
+import { Colors } from '../constants/Colors';
+import i18n from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type TasksRouteProp = RouteProp<MainStackParamList, 'Tasks'>;
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+const PRIORITY_STYLES: Record<string, object> = {
+  high: { backgroundColor: '#FEE2E2' },
+  medium: { backgroundColor: '#FEF3C7' },
+  low: { backgroundColor: '#DBEAFE' },
+};
+
+export const TasksScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<TasksRouteProp>();
+  const { chatId } = route.params;
+  const { user } = useAuthStore();
+  const chat = useChatStore((state) => state.chats.find(c => c.id === chatId));
+
+  const [items, setItems] = useState<ChatActionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [participantNames, setParticipantNames] = useState<Record<string, string>>({});
+
+  const participantsKey = chat?.participants.join(',') ?? '';
+
+  useEffect(() => {
+    return actionItemService.subscribeToActionItems(
+      chatId,
+      (updated) => {
+        setItems(updated);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [chatId]);
+
+  // Names for the assignee picker
+  useEffect(() => {
+    if (!chat) return;
+
+    let cancelled = false;
+    chatService.getUserDisplayNames(chat.participants).then((names) => {
+      if (!cancelled) {
+        setParticipantNames(names);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [participantsKey]);
+
+  if (!user) {
+    return null;
+  }
+
+  const actor = { uid: user.uid, displayName: user.displayName };
+
+  const openItems = items
+    .filter(item => !item.done)
+    .sort((a, b) => (PRIORITY_ORDER[a.priority || ''] ?? 3) - (PRIORITY_ORDER[b.priority || ''] ?? 3));
+  const doneItems = items
+    .filter(item => item.done)
+    .sort((a, b) => (b.doneAt?.getTime() || 0) - (a.doneAt?.getTime() || 0));
+
+  const sections = [
+    { key: 'open', title: i18n.t('tasks.open', { count: openItems.length }), data: openItems },
+    { key: 'done', title: i18n.t('tasks.done', { count: doneItems.length }), data: doneItems },
+  ].filter(section => section.data.length > 0);
+
+  const handleToggleDone = async (item: ChatActionItem) => {
+    try {
+      await actionItemService.setActionItemDone(chatId, item, !item.done, actor);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('tasks.updateFailed'));
+    }
+  };
+
+  const handleAssign = (item: ChatActionItem) => {
+    const assign = async (assignee: { uid: string; displayName: string } | null) => {
+      try {
+        await actionItemService.assignActionItem(chatId, item.id, assignee);
+      } catch (error) {
+        console.error('Error assigning task:', error);
+        Alert.alert(i18n.t('common.error'), i18n.t('tasks.updateFailed'));
+      }
+    };
+
+    Alert.alert(i18n.t('tasks.assignTo'), item.text, [
+      ...Object.entries(participantNames).map(([uid, displayName]) => ({
+        text: uid === user.uid ? i18n.t('groupInfo.you') : displayName,
+        onPress: () => assign({ uid, displayName }),
+      })),
+      { text: i18n.t('tasks.unassigned'), onPress: () => assign(null) },
+      { text: i18n.t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: ChatActionItem }) => {
+    const assigneeLabel = item.assigneeId === user.uid
+      ? i18n.t('groupInfo.you')
+      : item.assigneeName || i18n.t('tasks.unassigned');
+
+    return (
+      <View style={styles.taskItem} testID={`task-${item.id}`}>
+        <TouchableOpacity
+          onPress={() => handleToggleDone(item)}
+          style={[styles.checkbox, item.done && styles.checkboxDone]}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          testID={`task-toggle-${item.id}`}
+        >
+          {item.done && <Text style={styles.checkmark}>✓</Text>}
+        </TouchableOpacity>
+        <View style={styles.taskContent}>
+          <Text style={[styles.taskText, item.done && styles.taskTextDone]}>{item.text}</Text>
+          <View style={styles.taskMeta}>
+            {item.priority && (
+              <View style={[styles.priorityBadge, PRIORITY_STYLES[item.priority]]}>
+                <Text style={styles.priorityText}>{i18n.t(`aiAssistant.${item.priority}`)}</Text>
+              </View>
+            )}
+            <TouchableOpacity onPress={() => handleAssign(item)} disabled={item.done}>
+              <Text style={styles.assigneeText}>👤 {assigneeLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+          >
+            <Text style={styles.backButtonText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {i18n.t('tasks.title')}
+          </Text>
+        </View>
+
+        {loading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <SectionList
+            sections={sections}
+            renderItem={renderItem}
+            renderSectionHeader={({ section }) => (
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+            )}
+            keyExtractor={(item) => item.id}
+            stickySectionHeadersEnabled={false}
+            ListEmptyComponent={(
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyTitle}>{i18n.t('tasks.emptyTitle')}</Text>
+                <Text style={styles.emptyText}>{i18n.t('tasks.emptyDescription')}</Text>
+              </View>
+            )}
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Colors.primary,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5', // Light gray background
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.primaryDark,
+  },
+  backButton: {
+    marginRight: 16,
+    padding: 4,
+  },
+  backButtonText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  taskItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    backgroundColor: '#F5EBE0', // Light tan background (matches chat list items)
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D7C7', // Slightly darker tan for border
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+    marginTop: 1,
+  },
+  checkboxDone: {
+    backgroundColor: Colors.primary,
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  taskContent: {
+    flex: 1,
+  },
+  taskText: {
+    fontSize: 16,
+    color: '#000',
+    lineHeight: 22,
+  },
+  taskTextDone: {
+    color: '#8e8e93',
+    textDecorationLine: 'line-through',
+  },
+  taskMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  priorityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  priorityText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  assigneeText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8e8e93',
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+});
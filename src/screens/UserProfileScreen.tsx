@@ -4,6 +4,7 @@
  * User profile page where users can:
  * - Change their display name
  * - Choose their avatar color
+ * - See how much of their daily AI quota is left
  */
 
 import React, { useState, useEffect } from 'react';
@@ -27,6 +28,8 @@ import { doc, updateDoc, getDoc } from 'firebase/firestore';
 import { firestore } from '../services/firebase';
 import { Colors } from '../constants/Colors';
 import { COMMON_LANGUAGES, getNativeLanguageName } from '../services/languageService';
+import { quotaService } from '../services/quotaService';
+import { AIQuotaStatus } from '../types';
 import i18n from '../i18n';
 
 const AVATAR_COLORS = [
@@ -56,6 +59,8 @@ export const UserProfileScreen: React.FC = () => {
   const [showLanguagePicker, setShowLanguagePicker] = useState(false);
   const [saving, setSaving] = useState(false);
   const [, forceUpdate] = useState(0); // Force re-render when language changes
+  const [quotas, setQuotas] = useState<AIQuotaStatus[]>([]);
+  const [loadingQuota, setLoadingQuota] = useState(false);
 
   // Load user data
   useEffect(() => {
@@ -68,6 +73,29 @@ export const UserProfileScreen: React.FC = () => {
     }
   }, [user]);
 
+  // Load remaining AI quota (only the server knows the counters)
+  useEffect(() => {
+    if (!user || !isConnected) return;
+
+    let cancelled = false;
+    setLoadingQuota(true);
+
+    quotaService.getAIQuota()
+      .then((result) => {
+        if (!cancelled) setQuotas(result);
+      })
+      .catch((error) => {
+        console.error('Error loading AI quota:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingQuota(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid, isConnected]);
+
   const loadUserLanguage = async () => {
     if (!user) return;
     
@@ -319,6 +347,39 @@ export const UserProfileScreen: React.FC = () => {
             </TouchableOpacity>
           </View>
 
+          {/* AI Usage */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🤖 {i18n.t('aiQuota.title')}</Text>
+            <Text style={styles.sectionSubtitle}>
+              {i18n.t('aiQuota.description')}
+            </Text>
+
+            {loadingQuota ? (
+              <ActivityIndicator color={Colors.primary} />
+            ) : quotas.length === 0 ? (
+              <Text style={styles.quotaUnavailable}>{i18n.t('aiQuota.unavailable')}</Text>
+            ) : (
+              <View style={styles.quotaList}>
+                {quotas.map((quota) => (
+                  <View key={quota.feature} style={styles.quotaRow} testID={`quota-${quota.feature}`}>
+                    <Text style={styles.quotaLabel}>{i18n.t(`aiQuota.${quota.feature}`)}</Text>
+                    <Text
+                      style={[
+                        styles.quotaRemaining,
+                        quota.remainingToday === 0 && styles.quotaExhausted,
+                      ]}
+                    >
+                      {i18n.t('aiQuota.remaining', {
+                        remaining: quota.remainingToday,
+                        limit: quota.dailyCap,
+                      })}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
           {/* Avatar Color */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>{i18n.t('profile.avatarColor')}</Text>
@@ -501,6 +562,39 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#000',
   },
+  quotaList: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  quotaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  quotaLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+  },
+  quotaRemaining: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  quotaExhausted: {
+    color: '#F44336',
+    fontWeight: '600',
+  },
+  quotaUnavailable: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontStyle: 'italic',
+  },
   colorGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,135 @@
+/**
+ * Action Item Service
+ *
+ * Per-chat task list built from the AI assistant's extracted action items
+ * Items are created by the intelligentChatAssistant Cloud Function; participants
+ * assign them and tick them off here
+ */
+
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import { addSystemMessage } from './chatService';
+import { ChatActionItem } from '../types/assistant';
+
+const toDate = (value: any): Date | null =>
+  value && typeof value.toDate === 'function' ? (value as Timestamp).toDate() : null;
+
+/**
+ * Subscribe to a chat's action items (newest first)
+ * @param chatId - The chat ID
+ * @param onItems - Called with every item whenever one changes
+ * @param onError - Optional error callback
+ * @returns Unsubscribe function
+ */
+export function subscribeToActionItems(
+  chatId: string,
+  onItems: (items: ChatActionItem[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const itemsRef = collection(firestore, 'chats', chatId, 'actionItems');
+  const q = query(itemsRef, orderBy('createdAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onItems(snapshot.docs.map((itemDoc) => {
+        const data = itemDoc.data();
+        return {
+          id: itemDoc.id,
+          text: data.text,
+          priority: data.priority || null,
+          assigneeId: data.assigneeId || null,
+          assigneeName: data.assigneeName || null,
+          done: !!data.done,
+          doneBy: data.doneBy || null,
+          doneAt: toDate(data.doneAt),
+          createdBy: data.createdBy,
+          sourceMessageIds: data.sourceMessageIds || [],
+          createdAt: toDate(data.createdAt) || new Date(),
+        };
+      }));
+    },
+    (error) => {
+      console.error('Error in action items subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+/**
+ * Assign an action item to a participant
+ * @param chatId - The chat ID
+ * @param itemId - The action item ID
+ * @param assignee - Participant to assign, or null to unassign
+ */
+export async function assignActionItem(
+  chatId: string,
+  itemId: string,
+  assignee: { uid: string; displayName: string } | null
+): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, 'chats', chatId, 'actionItems', itemId), {
+      assigneeId: assignee?.uid ?? null,
+      assigneeName: assignee?.displayName ?? null,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error assigning action item:', error);
+    throw new Error('Failed to assign action item');
+  }
+}
+
+/**
+ * Mark an action item done or not done
+ * Completing an item posts a system message to the chat
+ * @param chatId - The chat ID
+ * @param item - The action item
+ * @param done - New state
+ * @param actor - The current user
+ */
+export async function setActionItemDone(
+  chatId: string,
+  item: ChatActionItem,
+  done: boolean,
+  actor: { uid: string; displayName: string }
+): Promise<void> {
+  if (item.done === done) return;
+
+  try {
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId, 'actionItems', item.id), {
+      done,
+      doneBy: done ? actor.uid : null,
+      doneAt: done ? serverTimestamp() : null,
+      updatedAt: serverTimestamp(),
+    });
+    if (done) {
+      addSystemMessage(batch, chatId, actor.uid, {
+        event: 'task_completed',
+        actorName: actor.displayName,
+        taskId: item.id,
+        taskText: item.text,
+      });
+    }
+    await batch.commit();
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    throw new Error('Failed to update action item');
+  }
+}
+
+export const actionItemService = {
+  subscribeToActionItems,
+  assignActionItem,
+  setActionItemDone,
+};
@@ -5,8 +5,24 @@
  */
 
 import { httpsCallable } from 'firebase/functions';
-import { functions } from './firebase';
-import { AIAssistantResponse, AIAssistantQuery } from '../types/assistant';
+import {
+  collection,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query as firestoreQuery,
+  where,
+} from 'firebase/firestore';
+import { functions, firestore } from './firebase';
+import {
+  AIAssistantResponse,
+  AIAssistantQuery,
+  AssistantSessionProgress,
+  AssistantSessionRecord,
+} from '../types/assistant';
+import { AppError, ErrorCode } from '../types';
+import i18n from '../i18n';
 
 /**
  * Query the intelligent AI assistant with natural language
@@ -17,11 +33,17 @@ import { AIAssistantResponse, AIAssistantQuery } from '../types/assistant';
  * - "Show me action items from last week"
  * - "What's the tone of our conversation?"
  * - "Summarize everything John said since Monday"
+ *
+ * Pass a sessionId (see createAssistantSessionId) to follow progress with
+ * subscribeToAssistantSession while the query runs, and the threadId from an
+ * earlier response's metadata to ask a follow-up question
  */
 export async function queryAIAssistant(
   chatId: string,
   query: string,
-  userLanguage: string = 'English'
+  userLanguage: string = 'English',
+  sessionId?: string,
+  threadId?: string
 ): Promise<AIAssistantResponse> {
   try {
     const assistantFunction = httpsCallable<AIAssistantQuery, AIAssistantResponse>(
@@ -33,15 +55,121 @@ export async function queryAIAssistant(
       chatId,
       query,
       userLanguage,
+      ...(sessionId && { sessionId }),
+      ...(threadId && { threadId }),
+      timezoneOffset: -new Date().getTimezoneOffset(),
     });
 
     return result.data;
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error querying AI assistant:', error);
+
+    // The server rejects callers who aren't participants of the chat
+    if (error?.code === 'functions/permission-denied') {
+      throw new AppError(
+        i18n.t('aiAssistant.notChatMember'),
+        ErrorCode.PERMISSION_DENIED,
+        error
+      );
+    }
+
+    // Per-user AI quota exhausted on the server
+    if (error?.code === 'functions/resource-exhausted') {
+      throw new AppError(
+        i18n.t('aiAssistant.rateLimited'),
+        ErrorCode.RATE_LIMIT,
+        error
+      );
+    }
+
     throw error;
   }
 }
 
+/**
+ * Generate an ID for a new assistant session (no document is written)
+ */
+export function createAssistantSessionId(chatId: string): string {
+  return doc(collection(firestore, 'chats', chatId, 'assistantSessions')).id;
+}
+
+/**
+ * Subscribe to a running query's progress
+ * The session doc only appears once the server starts, so there may be no update at first
+ * (the rules let the caller listen to a session that doesn't exist yet)
+ * @returns Unsubscribe function
+ */
+export function subscribeToAssistantSession(
+  chatId: string,
+  sessionId: string,
+  onProgress: (progress: AssistantSessionProgress) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const sessionRef = doc(firestore, 'chats', chatId, 'assistantSessions', sessionId);
+
+  return onSnapshot(
+    sessionRef,
+    (snapshot) => {
+      if (!snapshot.exists()) return;
+
+      const data = snapshot.data();
+      onProgress({
+        status: data.status,
+        steps: data.steps || [],
+        partialText: data.partialText || '',
+      });
+    },
+    (error) => {
+      console.error('Error in assistant session subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Subscribe to the user's recent assistant queries in a chat (newest first)
+ * @returns Unsubscribe function
+ */
+export function subscribeToAssistantHistory(
+  chatId: string,
+  userId: string,
+  onHistory: (sessions: AssistantSessionRecord[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const sessionsRef = collection(firestore, 'chats', chatId, 'assistantSessions');
+  const q = firestoreQuery(
+    sessionsRef,
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(HISTORY_PAGE_SIZE)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onHistory(snapshot.docs.map((sessionDoc) => {
+        const data = sessionDoc.data();
+        return {
+          id: sessionDoc.id,
+          threadId: data.threadId || sessionDoc.id,
+          query: data.query,
+          status: data.status,
+          steps: data.steps || [],
+          result: data.result || null,
+          // Pending server timestamp while the session is being created
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+        };
+      }));
+    },
+    (error) => {
+      console.error('Error in assistant history subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
 /**
  * Format AI assistant response for display
  */
@@ -0,0 +1,51 @@
+/**
+ * Calendar Export Service
+ *
+ * Shares dates found by the AI assistant as an iCalendar (.ics) file
+ */
+
+import { Platform, Share } from 'react-native';
+import { buildICalendar, CalendarEvent } from '../utils/calendarHelpers';
+
+/**
+ * Base64-encode UTF-8 text (btoa only accepts Latin-1)
+ */
+function encodeBase64Utf8(text: string): string {
+  const bytes = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+  return btoa(bytes);
+}
+
+/**
+ * Open the share sheet with an .ics file for the events
+ * iOS shares it as a file (Calendar, Mail, Files...); Android's share sheet only
+ * takes text, so the calendar data is shared as text there
+ * @param events - Events to export
+ * @param title - Share sheet title
+ * @returns Whether the user shared it
+ */
+export async function shareCalendarEvents(
+  events: CalendarEvent[],
+  title: string
+): Promise<boolean> {
+  try {
+    const ics = buildICalendar(events);
+
+    const result = await Share.share(
+      Platform.OS === 'ios'
+        ? { url: `data:text/calendar;base64,${encodeBase64Utf8(ics)}`, title }
+        : { message: ics, title },
+      { subject: title }
+    );
+
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    console.error('Error sharing calendar events:', error);
+    throw new Error('Failed to export calendar events');
+  }
+}
+
+export const calendarExportService = {
+  shareCalendarEvents,
+};
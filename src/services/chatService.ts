@@ -22,11 +22,36 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
+  FieldPath,
+  limit,
+  startAfter,
+  startAt,
+  QueryDocumentSnapshot,
+  DocumentData,
+  writeBatch,
+  WriteBatch,
+  runTransaction,
 } from 'firebase/firestore';
 import { ref, onValue } from 'firebase/database';
 import { firestore, database } from './firebase';
-import { Chat, ChatWithDetails, User, Message } from '../types';
+import {
+  Chat,
+  ChatWithDetails,
+  User,
+  Message,
+  MessageReplyRef,
+  GroupRole,
+  SystemMessagePayload,
+} from '../types';
+import { TranslationQuality } from '../types/translation';
 import { sendRealtimeNotification } from './realtimeNotificationService';
+import { canManageMembers, getGroupRoles, pickNextOwner } from '../utils/groupHelpers';
+
+// Firestore rejects batches with more than 500 operations
+const FIRESTORE_BATCH_LIMIT = 500;
 
 /**
  * Subscribe to a user's chats in real-time
@@ -49,20 +74,41 @@ export function subscribeToUserChats(
 
   // Store user status subscriptions
   const userStatusUnsubscribers = new Map<string, () => void>();
-  // Store message subscriptions for unread count updates
-  const messageUnsubscribers = new Map<string, () => void>();
   let latestChats: ChatWithDetails[] = [];
 
+  // Unread counters are maintained server-side on users/{uid}/userChats/{chatId}
+  const unreadCounts = new Map<string, number>();
+  const userChatsRef = collection(firestore, 'users', userId, 'userChats');
+  const userChatsUnsubscribe = onSnapshot(
+    userChatsRef,
+    (userChatsSnapshot) => {
+      userChatsSnapshot.docChanges().forEach((change) => {
+        if (change.type === 'removed') {
+          unreadCounts.delete(change.doc.id);
+        } else {
+          unreadCounts.set(change.doc.id, change.doc.data().unreadCount ?? 0);
+        }
+      });
+      
+      latestChats = latestChats.map(chat => ({
+        ...chat,
+        unreadCount: unreadCounts.get(chat.id) ?? 0,
+      }));
+      onChatsUpdate([...latestChats]);
+    },
+    (error) => {
+      console.error('Error subscribing to unread counters:', error);
+    }
+  );
+
   const unsubscribe = onSnapshot(
     q,
     async (snapshot) => {
       const chats: ChatWithDetails[] = [];
       const newUserIds = new Set<string>();
-      const newChatIds = new Set<string>();
       
       for (const docSnap of snapshot.docs) {
         const chatData = docSnap.data();
-        newChatIds.add(docSnap.id);
         
         // Get the other participant's details for direct chats
         if (chatData.type === 'direct') {
@@ -127,7 +173,7 @@ export function subscribeToUserChats(
               otherUserOnline: isOnline,
               otherUserLastSeen: lastSeen,
               otherUserAvatarColor: avatarColor,
-              unreadCount: latestChats.find(c => c.id === docSnap.id)?.unreadCount ?? 0, // Preserve existing count
+              unreadCount: unreadCounts.get(docSnap.id) ?? 0,
             };
             
             chats.push(chatWithDetails);
@@ -244,7 +290,9 @@ export function subscribeToUserChats(
             createdAt: chatData.createdAt,
             groupName: chatData.groupName,
             groupPhoto: chatData.groupPhoto,
-            unreadCount: latestChats.find(c => c.id === docSnap.id)?.unreadCount ?? 0, // Preserve existing count
+            ownerId: chatData.ownerId,
+            roles: chatData.roles,
+            unreadCount: unreadCounts.get(docSnap.id) ?? 0,
             participantDetails,
           });
         }
@@ -258,56 +306,8 @@ export function subscribeToUserChats(
         }
       }
       
-      // Clean up message subscriptions for chats no longer in the list
-      for (const [chatId, unsubFunc] of messageUnsubscribers.entries()) {
-        if (!newChatIds.has(chatId)) {
-          unsubFunc();
-          messageUnsubscribers.delete(chatId);
-        }
-      }
-      
-      // Update latestChats FIRST before setting up message subscriptions
       latestChats = chats;
       onChatsUpdate(chats);
-      
-      // NOW set up real-time listeners for unread counts (after latestChats is populated)
-      for (const chat of chats) {
-        if (!messageUnsubscribers.has(chat.id)) {
-          const messagesRef = collection(firestore, 'chats', chat.id, 'messages');
-          const messagesUnsubscribe = onSnapshot(
-            messagesRef,
-            (messagesSnapshot) => {
-              // Calculate unread count
-              let newUnreadCount = 0;
-              messagesSnapshot.forEach((msgDoc) => {
-                const msgData = msgDoc.data();
-                // Count messages not sent by current user and not read by them
-                if (msgData.senderId !== userId && !msgData.readBy?.includes(userId)) {
-                  newUnreadCount++;
-                }
-              });
-              
-              // Update the unread count for this specific chat
-              latestChats = latestChats.map(c => {
-                if (c.id === chat.id) {
-                  return {
-                    ...c,
-                    unreadCount: newUnreadCount,
-                  };
-                }
-                return c;
-              });
-              
-              onChatsUpdate([...latestChats]);
-            },
-            (error) => {
-              console.error(`Error subscribing to messages for chat ${chat.id}:`, error);
-            }
-          );
-          
-          messageUnsubscribers.set(chat.id, messagesUnsubscribe);
-        }
-      }
     },
     (error) => {
       console.error('Error in chat subscription:', error);
@@ -323,11 +323,8 @@ export function subscribeToUserChats(
       unsubFunc();
     }
     userStatusUnsubscribers.clear();
-    // Clean up all message subscriptions
-    for (const unsubFunc of messageUnsubscribers.values()) {
-      unsubFunc();
-    }
-    messageUnsubscribers.clear();
+    // Clean up the unread counter subscription
+    userChatsUnsubscribe();
   };
 }
 
@@ -471,6 +468,7 @@ export async function createOrGetDirectChat(
  * @param imageUrl - Optional image URL
  * @param imageWidth - Optional image width
  * @param imageHeight - Optional image height
+ * @param replyTo - Optional reference to the message being replied to
  * @returns The message ID
  */
 export async function sendMessage(
@@ -479,12 +477,14 @@ export async function sendMessage(
   senderId: string,
   imageUrl?: string,
   imageWidth?: number,
-  imageHeight?: number
+  imageHeight?: number,
+  replyTo?: MessageReplyRef
 ): Promise<string> {
   try {
     // Create message in messages subcollection
     const messagesRef = collection(firestore, 'chats', chatId, 'messages');
     const newMessage: any = {
+      type: imageUrl ? 'image' : 'text',
       text,
       senderId,
       timestamp: serverTimestamp(),
@@ -498,6 +498,11 @@ export async function sendMessage(
       newMessage.imageHeight = imageHeight;
     }
     
+    // Add reply reference if present
+    if (replyTo) {
+      newMessage.replyTo = replyTo;
+    }
+    
     const messageDoc = await addDoc(messagesRef, newMessage);
     
     // Update chat's lastMessage and lastMessageTime
@@ -547,46 +552,102 @@ export async function sendMessage(
   }
 }
 
+// Number of messages loaded per page (live window and each older page)
+export const MESSAGES_PAGE_SIZE = 50;
+
+// Opaque cursor pointing at the oldest loaded message document
+export type MessagePageCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface MessagePage {
+  cursor: MessagePageCursor | null; // null when the page is empty
+  hasMore: boolean; // Whether older messages may exist before the cursor
+}
+
 /**
- * Subscribe to messages in a chat in real-time
+ * Keep the server's translation assessments that have a confidence
+ * (a failed assessment is stored with a null one)
+ */
+function mapTranslationQuality(
+  raw: Record<string, { confidence?: unknown; untranslatable?: unknown }> | undefined
+): Record<string, TranslationQuality> | undefined {
+  if (!raw) return undefined;
+  
+  const quality: Record<string, TranslationQuality> = {};
+  Object.entries(raw).forEach(([language, assessment]) => {
+    if (typeof assessment?.confidence === 'number') {
+      quality[language] = {
+        confidence: assessment.confidence,
+        untranslatable: Array.isArray(assessment.untranslatable) ? assessment.untranslatable : [],
+      };
+    }
+  });
+  return quality;
+}
+
+/**
+ * Convert a message document to a Message
+ */
+function mapMessageDoc(docSnap: QueryDocumentSnapshot<DocumentData>): Message {
+  const messageData = docSnap.data();
+  return {
+    id: docSnap.id,
+    type: messageData.type,
+    text: messageData.text || '',
+    senderId: messageData.senderId,
+    timestamp: messageData.timestamp || new Date(),
+    readBy: messageData.readBy || [],
+    pending: messageData.pending,
+    failed: messageData.failed,
+    tempId: messageData.tempId,
+    imageUrl: messageData.imageUrl,
+    imageWidth: messageData.imageWidth,
+    imageHeight: messageData.imageHeight,
+    detectedLanguage: messageData.detectedLanguage,
+    translationCache: messageData.translationCache,
+    translationQuality: mapTranslationQuality(messageData.translationQuality),
+    translationGlossaryVersion: messageData.translationGlossaryVersion,
+    // editedAt is null until the server timestamp resolves
+    editedAt: messageData.editedAt || (messageData.editHistory?.length ? new Date() : undefined),
+    editHistory: messageData.editHistory,
+    deletedForEveryone: messageData.deletedForEveryone,
+    deletedAt: messageData.deletedAt || (messageData.deletedForEveryone ? new Date() : undefined),
+    deletedFor: messageData.deletedFor,
+    reactions: messageData.reactions,
+    replyTo: messageData.replyTo,
+    system: messageData.system,
+  } as Message;
+}
+
+/**
+ * Subscribe to the latest messages in a chat in real-time
+ * Only the newest `pageSize` messages are listened to; older messages are
+ * fetched on demand with loadOlderMessages using the returned cursor.
  * @param chatId - The chat ID
- * @param onMessagesUpdate - Callback when messages change
+ * @param onMessagesUpdate - Callback with the window (oldest first) and its cursor
  * @param onError - Callback for errors
+ * @param pageSize - Number of messages in the live window
  * @returns Unsubscribe function
  */
 export function subscribeToMessages(
   chatId: string,
-  onMessagesUpdate: (messages: Message[]) => void,
-  onError?: (error: Error) => void
+  onMessagesUpdate: (messages: Message[], page: MessagePage) => void,
+  onError?: (error: Error) => void,
+  pageSize: number = MESSAGES_PAGE_SIZE
 ): () => void {
   const messagesRef = collection(firestore, 'chats', chatId, 'messages');
-  const q = query(messagesRef, orderBy('timestamp', 'asc'));
+  const q = query(messagesRef, orderBy('timestamp', 'desc'), limit(pageSize));
   
   const unsubscribe = onSnapshot(
     q,
     (snapshot) => {
-      const messages: Message[] = [];
+      // Query is newest first; callers expect chronological order
+      const docs = [...snapshot.docs].reverse();
+      const messages = docs.map(mapMessageDoc);
       
-      snapshot.forEach((docSnap) => {
-        const messageData = docSnap.data();
-        messages.push({
-          id: docSnap.id,
-          text: messageData.text || '',
-          senderId: messageData.senderId,
-          timestamp: messageData.timestamp || new Date(),
-          readBy: messageData.readBy || [],
-          pending: messageData.pending,
-          failed: messageData.failed,
-          tempId: messageData.tempId,
-          imageUrl: messageData.imageUrl,
-          imageWidth: messageData.imageWidth,
-          imageHeight: messageData.imageHeight,
-          detectedLanguage: messageData.detectedLanguage,
-          translationCache: messageData.translationCache,
-        } as Message);
+      onMessagesUpdate(messages, {
+        cursor: docs[0] || null,
+        hasMore: snapshot.size >= pageSize,
       });
-      
-      onMessagesUpdate(messages);
     },
     (error) => {
       console.error('Error in messages subscription:', error);
@@ -598,44 +659,356 @@ export function subscribeToMessages(
 }
 
 /**
- * Mark messages as read by a user
+ * Subscribe to every message from the cursor on in real-time
+ * Unlike the latest-page window, this one grows as messages arrive, so
+ * messages already on screen never drop out of it and keep receiving edits,
+ * reactions and deletions.
+ * @param chatId - The chat ID
+ * @param cursor - Cursor of the oldest message to listen to (null for the whole chat)
+ * @param onMessagesUpdate - Callback with the messages (oldest first)
+ * @param onError - Callback for errors
+ * @returns Unsubscribe function
+ */
+export function subscribeToMessagesSince(
+  chatId: string,
+  cursor: MessagePageCursor | null,
+  onMessagesUpdate: (messages: Message[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const messagesRef = collection(firestore, 'chats', chatId, 'messages');
+  const q = cursor
+    ? query(messagesRef, orderBy('timestamp', 'asc'), startAt(cursor))
+    : query(messagesRef, orderBy('timestamp', 'asc'));
+  
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onMessagesUpdate(snapshot.docs.map(mapMessageDoc));
+    },
+    (error) => {
+      console.error('Error in messages subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+/**
+ * Subscribe to a page of messages older than the cursor
+ * New messages only arrive at the top of the chat, so the page keeps the same
+ * messages; the listener delivers their edits, reactions and deletions.
+ * @param chatId - The chat ID
+ * @param cursor - Cursor of the oldest message already loaded
+ * @param onMessagesUpdate - Callback with the page (oldest first) and the cursor for the next page
+ * @param onError - Callback for errors
+ * @param pageSize - Number of messages in the page
+ * @returns Unsubscribe function
+ */
+export function subscribeToOlderMessages(
+  chatId: string,
+  cursor: MessagePageCursor,
+  onMessagesUpdate: (messages: Message[], page: MessagePage) => void,
+  onError?: (error: Error) => void,
+  pageSize: number = MESSAGES_PAGE_SIZE
+): () => void {
+  const messagesRef = collection(firestore, 'chats', chatId, 'messages');
+  const q = query(
+    messagesRef,
+    orderBy('timestamp', 'desc'),
+    startAfter(cursor),
+    limit(pageSize)
+  );
+  
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const docs = [...snapshot.docs].reverse();
+      
+      onMessagesUpdate(docs.map(mapMessageDoc), {
+        cursor: docs[0] || null,
+        hasMore: snapshot.size >= pageSize,
+      });
+    },
+    (error) => {
+      console.error('Error in older messages subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+/**
+ * Edit the text of a message
+ * The previous text is appended to editHistory, and the detected language and
+ * translation cache are cleared so they get regenerated for the new text.
+ * @param chatId - The chat ID
+ * @param messageId - The message ID to edit
+ * @param newText - The new message text
+ * @param userId - The user ID requesting the edit (must be the sender)
+ */
+export async function editMessage(
+  chatId: string,
+  messageId: string,
+  newText: string,
+  userId: string
+): Promise<void> {
+  try {
+    const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+    const messageSnap = await getDoc(messageRef);
+    
+    if (!messageSnap.exists()) {
+      throw new Error('Message not found');
+    }
+    
+    const messageData = messageSnap.data() as Message;
+    
+    if (messageData.senderId !== userId) {
+      throw new Error('Only the sender can edit a message');
+    }
+    
+    // Nothing to do if the text didn't change
+    if (messageData.text === newText) {
+      return;
+    }
+    
+    await updateDoc(messageRef, {
+      text: newText,
+      editedAt: serverTimestamp(),
+      editHistory: arrayUnion({
+        text: messageData.text,
+        editedAt: Timestamp.now(),
+      }),
+      detectedLanguage: deleteField(),
+      translationCache: deleteField(),
+      translationQuality: deleteField(),
+      translationGlossaryVersion: deleteField(),
+    });
+    
+    // Keep the chat preview in sync if this was the latest message
+    const chatRef = doc(firestore, 'chats', chatId);
+    const chatSnap = await getDoc(chatRef);
+    if (chatSnap.exists() && chatSnap.data().lastMessage === messageData.text) {
+      await updateDoc(chatRef, {
+        lastMessage: newText,
+      });
+    }
+  } catch (error) {
+    console.error('Error editing message:', error);
+    throw new Error('Failed to edit message');
+  }
+}
+
+/**
+ * Delete a message for everyone (soft delete)
+ * The document is kept as a tombstone so ordering and read receipts stay intact,
+ * but its content, edit history and translations are removed.
+ * @param chatId - The chat ID
+ * @param messageId - The message ID to delete
+ * @param userId - The user ID requesting the deletion (must be the sender)
+ */
+export async function deleteMessageForEveryone(
+  chatId: string,
+  messageId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+    const messageSnap = await getDoc(messageRef);
+    
+    if (!messageSnap.exists()) {
+      throw new Error('Message not found');
+    }
+    
+    const messageData = messageSnap.data() as Message;
+    
+    if (messageData.senderId !== userId) {
+      throw new Error('Only the sender can delete a message for everyone');
+    }
+    
+    if (messageData.deletedForEveryone) {
+      return;
+    }
+    
+    await updateDoc(messageRef, {
+      text: '',
+      deletedForEveryone: true,
+      deletedAt: serverTimestamp(),
+      imageUrl: deleteField(),
+      imageWidth: deleteField(),
+      imageHeight: deleteField(),
+      editHistory: deleteField(),
+      reactions: deleteField(),
+      detectedLanguage: deleteField(),
+      translationCache: deleteField(),
+      translationQuality: deleteField(),
+      translationGlossaryVersion: deleteField(),
+    });
+    
+    // Don't leave the deleted text in the chat preview
+    const chatRef = doc(firestore, 'chats', chatId);
+    const chatSnap = await getDoc(chatRef);
+    const lastMessageText = messageData.imageUrl ? (messageData.text || '📷 Photo') : messageData.text;
+    if (chatSnap.exists() && chatSnap.data().lastMessage === lastMessageText) {
+      await updateDoc(chatRef, {
+        lastMessage: '🚫 Message deleted',
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting message for everyone:', error);
+    throw new Error('Failed to delete message');
+  }
+}
+
+/**
+ * Delete a message only for the current user
+ * Other participants still see the message.
+ * @param chatId - The chat ID
+ * @param messageId - The message ID to delete
+ * @param userId - The user ID hiding the message
+ */
+export async function deleteMessageForMe(
+  chatId: string,
+  messageId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+    await updateDoc(messageRef, {
+      deletedFor: arrayUnion(userId),
+    });
+  } catch (error) {
+    console.error('Error deleting message for user:', error);
+    throw new Error('Failed to delete message');
+  }
+}
+
+/**
+ * Add an emoji reaction to a message
+ * Reactions are stored as a map of emoji -> user IDs, so each user can
+ * react with several different emojis but only once per emoji.
+ * @param chatId - The chat ID
+ * @param messageId - The message ID to react to
+ * @param emoji - The reaction emoji
+ * @param userId - The user ID reacting
+ */
+export async function addReaction(
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  userId: string
+): Promise<void> {
+  try {
+    const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+    // FieldPath keeps the emoji as a single map key
+    await updateDoc(messageRef, new FieldPath('reactions', emoji), arrayUnion(userId));
+  } catch (error) {
+    console.error('Error adding reaction:', error);
+    throw new Error('Failed to add reaction');
+  }
+}
+
+/**
+ * Remove an emoji reaction from a message
+ * @param chatId - The chat ID
+ * @param messageId - The message ID
+ * @param emoji - The reaction emoji to remove
+ * @param userId - The user ID removing their reaction
+ */
+export async function removeReaction(
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  userId: string
+): Promise<void> {
+  try {
+    const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+    await updateDoc(messageRef, new FieldPath('reactions', emoji), arrayRemove(userId));
+  } catch (error) {
+    console.error('Error removing reaction:', error);
+    throw new Error('Failed to remove reaction');
+  }
+}
+
+/**
+ * Mark messages as read by a user, advance their read pointer for the chat
+ * and reset its unread counter
  * @param chatId - The chat ID
  * @param messageIds - Array of message IDs to mark as read
  * @param userId - The user ID marking messages as read
+ * @param lastReadMessage - Newest message the user has seen, stored on their UserChat doc
  */
 export async function markMessagesAsRead(
   chatId: string,
   messageIds: string[],
-  userId: string
+  userId: string,
+  lastReadMessage?: Pick<Message, 'id' | 'timestamp'>
 ): Promise<void> {
   try {
-    const batch: Promise<void>[] = [];
-    
-    for (const messageId of messageIds) {
-      const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
-      const messageSnap = await getDoc(messageRef);
-      
-      if (messageSnap.exists()) {
-        const messageData = messageSnap.data() as Message;
-        
-        // Only update if user hasn't already read it
-        if (!messageData.readBy?.includes(userId)) {
-          batch.push(
-            updateDoc(messageRef, {
-              readBy: [...(messageData.readBy || []), userId],
-            })
-          );
-        }
+    // arrayUnion is idempotent, so messages don't need to be read first
+    const commits: Promise<void>[] = [];
+    for (let i = 0; i < messageIds.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(firestore);
+      for (const messageId of messageIds.slice(i, i + FIRESTORE_BATCH_LIMIT)) {
+        const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+        batch.update(messageRef, { readBy: arrayUnion(userId) });
       }
+      commits.push(batch.commit());
     }
     
-    await Promise.all(batch);
+    await Promise.all(commits);
+    
+    if (lastReadMessage?.id) {
+      await updateReadPointer(chatId, userId, lastReadMessage.id, lastReadMessage.timestamp);
+    }
   } catch (error) {
     console.error('Error marking messages as read:', error);
     throw new Error('Failed to mark messages as read');
   }
 }
 
+/**
+ * Move a user's read pointer for a chat forward (never backwards)
+ * @param chatId - The chat ID
+ * @param userId - The user ID
+ * @param messageId - ID of the newest message the user has read
+ * @param timestamp - Timestamp of that message
+ */
+async function updateReadPointer(
+  chatId: string,
+  userId: string,
+  messageId: string,
+  timestamp: Timestamp | Date
+): Promise<void> {
+  const userChatRef = doc(firestore, 'users', userId, 'userChats', chatId);
+  const lastReadTimestamp = 'toMillis' in timestamp
+    ? timestamp
+    : Timestamp.fromDate(new Date(timestamp));
+  
+  await runTransaction(firestore, async (transaction) => {
+    const userChatSnap = await transaction.get(userChatRef);
+    const currentPointer = userChatSnap.data()?.lastReadTimestamp as Timestamp | undefined;
+    
+    if (currentPointer && currentPointer.toMillis() >= lastReadTimestamp.toMillis()) {
+      transaction.set(
+        userChatRef,
+        { chatId, lastViewed: serverTimestamp(), unreadCount: 0 },
+        { merge: true }
+      );
+      return;
+    }
+    
+    transaction.set(
+      userChatRef,
+      {
+        chatId,
+        lastReadMessageId: messageId,
+        lastReadTimestamp,
+        lastViewed: serverTimestamp(),
+        unreadCount: 0,
+      },
+      { merge: true }
+    );
+  });
+}
+
 /**
  * Create a new group chat
  * @param creatorId - The creator's user ID
@@ -663,6 +1036,8 @@ export async function createGroupChat(
       createdAt: serverTimestamp() as Timestamp,
       groupName,
       // Don't include groupPhoto if it's not provided - Firestore doesn't accept undefined
+      ownerId: creatorId,
+      roles: { [creatorId]: 'owner' },
     };
     
     await setDoc(newChatRef, newChat);
@@ -675,26 +1050,70 @@ export async function createGroupChat(
 }
 
 /**
- * Add a participant to an existing group chat
+ * Queue a system message recording a chat event
+ * Written in the same batch as the change itself, which the rules check the event
+ * against. Never sent through sendMessage, so it doesn't notify anyone or update
+ * the chat's lastMessage
+ * @param batch - Batch the change is written in
+ * @param chatId - The chat ID
+ * @param actorId - Who made the change (stored as the sender)
+ * @param system - The event
+ */
+export function addSystemMessage(
+  batch: WriteBatch,
+  chatId: string,
+  actorId: string,
+  system: SystemMessagePayload
+): void {
+  const messageRef = doc(collection(firestore, 'chats', chatId, 'messages'));
+  
+  batch.set(messageRef, {
+    type: 'system',
+    text: '',
+    senderId: actorId,
+    timestamp: serverTimestamp(),
+    readBy: [actorId],
+    system,
+  });
+}
+
+/**
+ * Load a group chat, checking that it exists and is a group
+ * @param chatId - The chat ID
+ * @returns The chat data
+ */
+async function getGroupChat(chatId: string): Promise<Chat> {
+  const chatSnap = await getDoc(doc(firestore, 'chats', chatId));
+  
+  if (!chatSnap.exists()) {
+    throw new Error('Chat not found');
+  }
+  
+  const chatData = { id: chatSnap.id, ...chatSnap.data() } as Chat;
+  
+  if (chatData.type !== 'group') {
+    throw new Error('Only group chats have members to manage');
+  }
+  
+  return chatData;
+}
+
+/**
+ * Add a participant to an existing group chat (admins only)
  * @param chatId - The chat ID
  * @param userId - The user ID to add
+ * @param actorId - The admin adding them
  */
 export async function addParticipant(
   chatId: string,
-  userId: string
+  userId: string,
+  actorId: string
 ): Promise<void> {
   try {
-    const chatRef = doc(firestore, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
+    const chatData = await getGroupChat(chatId);
     
-    if (!chatSnap.exists()) {
-      throw new Error('Chat not found');
-    }
-    
-    const chatData = chatSnap.data() as Chat;
-    
-    if (chatData.type !== 'group') {
-      throw new Error('Can only add participants to group chats');
+    if (!canManageMembers(chatData, actorId)) {
+      throw new Error('Only group admins can add participants');
     }
     
     // Check if user is already a participant
@@ -702,10 +1121,22 @@ export async function addParticipant(
       return; // Already a participant
     }
     
-    // Add user to participants array
-    await updateDoc(chatRef, {
-      participants: [...chatData.participants, userId],
+    const [actorName, targetName] = await Promise.all([
+      getUserDisplayName(actorId),
+      getUserDisplayName(userId),
+    ]);
+    
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId), {
+      participants: arrayUnion(userId),
+    });
+    addSystemMessage(batch, chatId, actorId, {
+      event: 'member_added',
+      actorName,
+      targetId: userId,
+      targetName,
     });
+    await batch.commit();
   } catch (error) {
     console.error('Error adding participant:', error);
     throw new Error('Failed to add participant');
@@ -713,26 +1144,25 @@ export async function addParticipant(
 }
 
 /**
- * Remove a participant from a group chat
+ * Remove a participant from a group chat (admins only)
  * @param chatId - The chat ID
  * @param userId - The user ID to remove
+ * @param actorId - The admin removing them
  */
 export async function removeParticipant(
   chatId: string,
-  userId: string
+  userId: string,
+  actorId: string
 ): Promise<void> {
   try {
-    const chatRef = doc(firestore, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
+    const chatData = await getGroupChat(chatId);
     
-    if (!chatSnap.exists()) {
-      throw new Error('Chat not found');
+    if (!canManageMembers(chatData, actorId)) {
+      throw new Error('Only group admins can remove participants');
     }
     
-    const chatData = chatSnap.data() as Chat;
-    
-    if (chatData.type !== 'group') {
-      throw new Error('Can only remove participants from group chats');
+    if (chatData.ownerId === userId) {
+      throw new Error('The group owner cannot be removed');
     }
     
     // Remove user from participants array
@@ -743,15 +1173,176 @@ export async function removeParticipant(
       throw new Error('Cannot remove the last participant from a group');
     }
     
-    await updateDoc(chatRef, {
+    const [actorName, targetName] = await Promise.all([
+      getUserDisplayName(actorId),
+      getUserDisplayName(userId),
+    ]);
+    
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId), {
       participants: updatedParticipants,
+      ...(chatData.roles ? { [`roles.${userId}`]: deleteField() } : {}),
+    });
+    addSystemMessage(batch, chatId, actorId, {
+      event: 'member_removed',
+      actorName,
+      targetId: userId,
+      targetName,
     });
+    await batch.commit();
   } catch (error) {
     console.error('Error removing participant:', error);
     throw new Error('Failed to remove participant');
   }
 }
 
+/**
+ * Promote a member to admin or demote an admin (admins only)
+ * @param chatId - The chat ID
+ * @param userId - The member whose role changes
+ * @param role - The new role
+ * @param actorId - The admin making the change
+ */
+export async function setGroupRole(
+  chatId: string,
+  userId: string,
+  role: Exclude<GroupRole, 'owner'>,
+  actorId: string
+): Promise<void> {
+  try {
+    const chatData = await getGroupChat(chatId);
+    
+    if (!canManageMembers(chatData, actorId)) {
+      throw new Error('Only group admins can change roles');
+    }
+    
+    if (!chatData.participants.includes(userId)) {
+      throw new Error('User is not a participant in this chat');
+    }
+    
+    if (chatData.ownerId === userId) {
+      throw new Error('The group owner\'s role cannot be changed');
+    }
+    
+    const [actorName, targetName] = await Promise.all([
+      getUserDisplayName(actorId),
+      getUserDisplayName(userId),
+    ]);
+    
+    // Older groups have no roles map yet; write every participant's role so
+    // existing admins keep their rights
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId), {
+      roles: { ...getGroupRoles(chatData), [userId]: role },
+    });
+    addSystemMessage(batch, chatId, actorId, {
+      event: role === 'admin' ? 'admin_promoted' : 'admin_demoted',
+      actorName,
+      targetId: userId,
+      targetName,
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error changing group role:', error);
+    throw new Error('Failed to change group role');
+  }
+}
+
+/**
+ * Rename a group chat (admins only)
+ * @param chatId - The chat ID
+ * @param groupName - The new name
+ * @param actorId - The admin renaming the group
+ */
+export async function renameGroup(
+  chatId: string,
+  groupName: string,
+  actorId: string
+): Promise<void> {
+  try {
+    const chatData = await getGroupChat(chatId);
+    
+    if (!canManageMembers(chatData, actorId)) {
+      throw new Error('Only group admins can rename the group');
+    }
+    
+    const trimmedName = groupName.trim();
+    if (!trimmedName || trimmedName === chatData.groupName) {
+      return;
+    }
+    
+    const actorName = await getUserDisplayName(actorId);
+    
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId), {
+      groupName: trimmedName,
+    });
+    addSystemMessage(batch, chatId, actorId, {
+      event: 'group_renamed',
+      actorName,
+      groupName: trimmedName,
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error renaming group:', error);
+    throw new Error('Failed to rename group');
+  }
+}
+
+/**
+ * Leave a group chat
+ * If the owner leaves, ownership passes to an admin (or the next member)
+ * @param chatId - The chat ID
+ * @param userId - The user leaving
+ */
+export async function leaveGroup(
+  chatId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const chatData = await getGroupChat(chatId);
+    
+    if (!chatData.participants.includes(userId)) {
+      return; // Already left
+    }
+    
+    const updatedParticipants = chatData.participants.filter(id => id !== userId);
+    
+    if (updatedParticipants.length === 0) {
+      throw new Error('Cannot leave a group as its last participant');
+    }
+    
+    const chatUpdate: Record<string, unknown> = {
+      participants: updatedParticipants,
+    };
+    
+    if (chatData.roles) {
+      chatUpdate[`roles.${userId}`] = deleteField();
+      
+      if (chatData.ownerId === userId) {
+        const nextOwnerId = pickNextOwner(chatData, userId);
+        if (nextOwnerId) {
+          chatUpdate.ownerId = nextOwnerId;
+          chatUpdate[`roles.${nextOwnerId}`] = 'owner';
+        }
+      }
+    }
+    
+    const actorName = await getUserDisplayName(userId);
+    
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'chats', chatId), chatUpdate);
+    addSystemMessage(batch, chatId, userId, {
+      event: 'member_left',
+      actorName,
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error leaving group:', error);
+    throw new Error('Failed to leave group');
+  }
+}
+
 /**
  * Get chat details by ID
  * @param chatId - The chat ID
@@ -850,11 +1441,21 @@ export const chatService = {
   getChatParticipants,
   createOrGetDirectChat,
   sendMessage,
+  editMessage,
+  deleteMessageForEveryone,
+  deleteMessageForMe,
+  addReaction,
+  removeReaction,
   subscribeToMessages,
+  subscribeToMessagesSince,
+  subscribeToOlderMessages,
   markMessagesAsRead,
   createGroupChat,
   addParticipant,
   removeParticipant,
+  setGroupRole,
+  renameGroup,
+  leaveGroup,
   getChatById,
   getUserDisplayNames,
   deleteChat,
@@ -0,0 +1,82 @@
+/**
+ * Glossary Service
+ *
+ * Per-chat translation glossary stored in glossaries/{chatId}. The translate,
+ * tone and summary Cloud Functions add its terms to their prompts; every save
+ * bumps `version` so translations cached under the old glossary are ignored.
+ */
+
+import { doc, onSnapshot, runTransaction, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { ChatGlossary, GlossaryEntry } from '../types/translation';
+
+const toDate = (value: any): Date | undefined =>
+  value && typeof value.toDate === 'function' ? (value as Timestamp).toDate() : undefined;
+
+/**
+ * Subscribe to a chat's glossary
+ * @param chatId - The chat ID
+ * @param onGlossary - Called with the glossary whenever it changes (version 0 if there is none)
+ * @param onError - Optional error callback
+ * @returns Unsubscribe function
+ */
+export function subscribeToGlossary(
+  chatId: string,
+  onGlossary: (glossary: ChatGlossary) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(firestore, 'glossaries', chatId),
+    (snapshot) => {
+      const data = snapshot.data();
+      onGlossary({
+        entries: Array.isArray(data?.entries) ? data.entries : [],
+        version: typeof data?.version === 'number' ? data.version : 0,
+        updatedAt: toDate(data?.updatedAt),
+        updatedBy: data?.updatedBy,
+      });
+    },
+    (error) => {
+      console.error('Error in glossary subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+/**
+ * Replace a chat's glossary entries and bump its version
+ * @param chatId - The chat ID
+ * @param entries - The full list of entries
+ * @param userId - Current user's ID
+ * @returns The new glossary version
+ */
+export async function saveGlossary(
+  chatId: string,
+  entries: GlossaryEntry[],
+  userId: string
+): Promise<number> {
+  try {
+    const glossaryRef = doc(firestore, 'glossaries', chatId);
+
+    return await runTransaction(firestore, async (transaction) => {
+      const current = await transaction.get(glossaryRef);
+      const version = (current.data()?.version ?? 0) + 1;
+
+      transaction.set(glossaryRef, {
+        entries,
+        version,
+        updatedAt: serverTimestamp(),
+        updatedBy: userId,
+      });
+      return version;
+    });
+  } catch (error) {
+    console.error('Error saving glossary:', error);
+    throw new Error('Failed to save glossary');
+  }
+}
+
+export const glossaryService = {
+  subscribeToGlossary,
+  saveGlossary,
+};
@@ -9,6 +9,20 @@ import * as Notifications from 'expo-notifications';
 import { Platform, AppState } from 'react-native';
 import { useNotificationStore } from '../stores/notificationStore';
 import { NotificationData } from '../components/NotificationBanner';
+import { formatReminderBody } from '../utils/reminderHelpers';
+import i18n from '../i18n';
+
+// Notification category with Snooze / Dismiss buttons for deadline reminders
+export const REMINDER_CATEGORY = 'deadline-reminder';
+
+export interface ReminderNotification {
+  reminderId: string;
+  chatId: string;
+  chatName: string;
+  messageText: string;
+  dueStart: string;
+  allDay: boolean;
+}
 
 /**
  * Register for local notifications and request permissions
@@ -43,6 +57,11 @@ export async function registerForLocalNotifications(): Promise<boolean> {
       });
     }
 
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+      { identifier: 'snooze', buttonTitle: i18n.t('reminders.snooze'), options: { opensAppToForeground: false } },
+      { identifier: 'dismiss', buttonTitle: i18n.t('reminders.dismiss'), options: { opensAppToForeground: false, isDestructive: true } },
+    ]);
+
     return true;
   } catch (error) {
     // Silently fail on emulators or when notifications aren't available
@@ -184,6 +203,48 @@ export async function triggerMessageNotification(
   }
 }
 
+/**
+ * Trigger notification for a deadline reminder that is due
+ * Unlike message notifications, reminders also show while the chat is open
+ * and never replace the chat's message notification
+ * @param reminder - Reminder from the notification queue
+ */
+export async function triggerReminderNotification(reminder: ReminderNotification): Promise<void> {
+  try {
+    const title = i18n.t('reminders.title', { chatName: reminder.chatName });
+    const body = formatReminderBody({
+      dueStart: reminder.dueStart,
+      allDay: reminder.allDay,
+      text: reminder.messageText,
+    });
+
+    if (AppState.currentState === 'active') {
+      showInAppNotification({
+        id: `reminder_${reminder.reminderId}_${Date.now()}`,
+        title,
+        body,
+        chatId: reminder.chatId,
+        reminderId: reminder.reminderId,
+        timestamp: Date.now(),
+      });
+    } else {
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title,
+          body,
+          data: { chatId: reminder.chatId, chatName: reminder.chatName, reminderId: reminder.reminderId },
+          categoryIdentifier: REMINDER_CATEGORY,
+          sound: true,
+          priority: Notifications.AndroidNotificationPriority.HIGH,
+        },
+        trigger: null, // Show immediately
+      });
+    }
+  } catch (error) {
+    console.error('Error triggering reminder notification:', error);
+  }
+}
+
 /**
  * Cancel all scheduled notifications and clear tracking
  */
@@ -262,6 +323,7 @@ export const notificationService = {
   setNotificationHandler,
   scheduleLocalNotification,
   triggerMessageNotification,
+  triggerReminderNotification,
   showInAppNotification,
   cancelAllNotifications,
   clearChatNotificationCount,
@@ -88,12 +88,14 @@ export const setupPresence = (userId: string): (() => void) => {
       await set(userStatusDatabaseRef, isOnlineData);
       console.log(`[Presence] ${userId} set to ONLINE in RTDB`);
       
-      // Mirror to Firestore
+      // Mirror to Firestore (with the timezone, so deadlines the user sets like
+      // "Friday at 5pm" are read in their local time)
       await setDoc(
         userStatusFirestoreRef,
         {
           isOnline: true,
           lastSeen: serverTimestamp(),
+          timezoneOffset: -new Date().getTimezoneOffset(),
         },
         { merge: true }
       );
@@ -0,0 +1,42 @@
+/**
+ * Quota Service
+ *
+ * Reads the caller's remaining AI usage from the getAIQuota Cloud Function
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { AIQuotaStatus } from '../types';
+
+interface AIQuotaResponse {
+  quotas: Array<{
+    feature: string;
+    dailyCap: number;
+    usedToday: number;
+    remainingToday: number;
+    resetsAt: number;
+  }>;
+}
+
+/**
+ * Get today's remaining quota for every AI feature
+ * @returns One entry per feature
+ */
+export async function getAIQuota(): Promise<AIQuotaStatus[]> {
+  try {
+    const quotaFunction = httpsCallable<void, AIQuotaResponse>(functions, 'getAIQuota');
+    const result = await quotaFunction();
+
+    return result.data.quotas.map((quota) => ({
+      ...quota,
+      resetsAt: new Date(quota.resetsAt),
+    }));
+  } catch (error) {
+    console.error('Error getting AI quota:', error);
+    throw new Error('Failed to get AI quota');
+  }
+}
+
+export const quotaService = {
+  getAIQuota,
+};
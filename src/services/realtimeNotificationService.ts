@@ -7,7 +7,7 @@
 
 import { ref, onValue, set, remove } from 'firebase/database';
 import { database } from './firebase';
-import { triggerMessageNotification } from './notificationService';
+import { triggerMessageNotification, triggerReminderNotification } from './notificationService';
 import { useAuthStore } from '../stores/authStore';
 import { useTranslationStore } from '../stores/translationStore';
 import { detectLanguage, translateText } from './translationService';
@@ -21,6 +21,15 @@ interface MessageNotificationPayload {
   timestamp: number;
 }
 
+// Queued by the deliverDeadlineReminders Cloud Function
+interface ReminderNotificationPayload extends MessageNotificationPayload {
+  type: 'reminder';
+  reminderId: string;
+  dueAt: number;
+  dueStart: string;
+  allDay: boolean;
+}
+
 let notificationListener: (() => void) | null = null;
 let processedNotificationIds: Set<string> = new Set();
 
@@ -57,24 +66,30 @@ export function initializeRealtimeNotifications(userId: string): () => void {
 
     // Collect all new notifications, grouped by chat
     Object.entries(data).forEach(([notificationId, payload]) => {
-      const notification = payload as MessageNotificationPayload;
+      const notification = payload as MessageNotificationPayload | ReminderNotificationPayload;
       
       // Skip if already processed (prevents duplicates on rapid changes)
       if (processedNotificationIds.has(notificationId)) {
         return;
       }
       processedNotificationIds.add(notificationId);
-      
-      // Add to buffer, grouped by chatId
-      const chatNotifications = notificationBuffer.get(notification.chatId) || [];
-      chatNotifications.push(notification);
-      notificationBuffer.set(notification.chatId, chatNotifications);
 
       // Remove the notification from the queue
       const notificationRef = ref(database, `notifications/${userId}/${notificationId}`);
       remove(notificationRef).catch(error => {
         console.error('Error removing notification from queue:', error);
       });
+
+      // Reminders are shown on their own, never grouped with messages
+      if ('type' in notification && notification.type === 'reminder') {
+        triggerReminderNotification(notification);
+        return;
+      }
+      
+      // Add to buffer, grouped by chatId
+      const chatNotifications = notificationBuffer.get(notification.chatId) || [];
+      chatNotifications.push(notification);
+      notificationBuffer.set(notification.chatId, chatNotifications);
     });
 
     // Clear any existing timeout and schedule new processing
@@ -110,7 +125,14 @@ export function initializeRealtimeNotifications(userId: string): () => void {
             
             // Only translate if it's a different language
             if (detectedLanguage !== userLanguage) {
-              const translationResult = await translateText(messageText, userLanguage);
+              // Follow the chat's glossary once its version is known (the chat was opened)
+              const glossaryVersion = translationState.glossaryVersions[chatId];
+              const translationResult = await translateText(
+                messageText,
+                userLanguage,
+                undefined,
+                glossaryVersion !== undefined ? { chatId, version: glossaryVersion } : undefined
+              );
               messageText = translationResult.translatedText;
               console.log(`[Notification] Translated: "${lastNotification.messageText}" → "${messageText}"`);
             }
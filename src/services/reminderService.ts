@@ -0,0 +1,128 @@
+/**
+ * Reminder Service
+ *
+ * Deadline reminders offered by the offerDeadlineReminders Cloud Function
+ * Users accept, snooze or dismiss their own reminders here; the
+ * deliverDeadlineReminders function sends scheduled ones through the
+ * Realtime Database notification queue when they are due
+ */
+
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import { DeadlineReminder } from '../types';
+import { getSnoozeTime } from '../utils/reminderHelpers';
+
+const toDate = (value: any): Date | null =>
+  value && typeof value.toDate === 'function' ? (value as Timestamp).toDate() : null;
+
+/**
+ * Subscribe to the reminders a user hasn't answered yet in a chat (soonest deadline first)
+ * @param chatId - The chat ID
+ * @param userId - Current user's ID
+ * @param onOffers - Called with the open offers whenever they change
+ * @param onError - Optional error callback
+ * @returns Unsubscribe function
+ */
+export function subscribeToReminderOffers(
+  chatId: string,
+  userId: string,
+  onOffers: (reminders: DeadlineReminder[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const q = query(
+    collection(firestore, 'reminders'),
+    where('userId', '==', userId),
+    where('chatId', '==', chatId),
+    where('status', '==', 'offered')
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const reminders = snapshot.docs.map((reminderDoc) => {
+        const data = reminderDoc.data();
+        return {
+          id: reminderDoc.id,
+          chatId: data.chatId,
+          messageId: data.messageId,
+          chatName: data.chatName,
+          text: data.text,
+          dueAt: toDate(data.dueAt) || new Date(),
+          dueStart: data.dueStart,
+          allDay: !!data.allDay,
+          status: data.status,
+          remindAt: toDate(data.remindAt),
+        };
+      });
+
+      // Deadlines that passed while the offer was open aren't worth offering
+      const now = Date.now();
+      onOffers(reminders
+        .filter((reminder) => reminder.dueAt.getTime() > now)
+        .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime()));
+    },
+    (error) => {
+      console.error('Error in reminder offers subscription:', error);
+      onError?.(error as Error);
+    }
+  );
+}
+
+/**
+ * Schedule (or reschedule) a reminder
+ * @param reminderId - The reminder ID
+ * @param remindAt - When to send it
+ */
+export async function scheduleReminder(reminderId: string, remindAt: Date): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, 'reminders', reminderId), {
+      status: 'scheduled',
+      remindAt: Timestamp.fromDate(remindAt),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error scheduling reminder:', error);
+    throw new Error('Failed to schedule reminder');
+  }
+}
+
+/**
+ * Send a delivered reminder again later
+ * @param reminderId - The reminder ID
+ */
+export async function snoozeReminder(reminderId: string): Promise<void> {
+  await scheduleReminder(reminderId, getSnoozeTime());
+}
+
+/**
+ * Decline an offered reminder or stop a scheduled one
+ * @param reminderId - The reminder ID
+ */
+export async function dismissReminder(reminderId: string): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, 'reminders', reminderId), {
+      status: 'dismissed',
+      remindAt: null,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error dismissing reminder:', error);
+    throw new Error('Failed to dismiss reminder');
+  }
+}
+
+export const reminderService = {
+  subscribeToReminderOffers,
+  scheduleReminder,
+  snoozeReminder,
+  dismissReminder,
+};
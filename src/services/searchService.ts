@@ -0,0 +1,118 @@
+/**
+ * Search Service
+ *
+ * Global message search across all of the user's chats:
+ * - Keyword matches over locally cached messages (works offline)
+ * - Semantic matches from the searchAllMessages Cloud Function
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { getCachedMessages } from './storageService';
+import { findKeywordMatches, mergeSearchResults } from '../utils/searchHelpers';
+import { MessageSearchResult } from '../types';
+
+interface SemanticSearchRequest {
+  query: string;
+  limit?: number;
+}
+
+interface SemanticSearchResponse {
+  results: Array<{
+    chatId: string;
+    messageId: string;
+    text: string;
+    senderId: string;
+    senderName: string;
+    timestamp: number;
+    score: number;
+  }>;
+}
+
+/**
+ * Search the locally cached messages of the given chats
+ * @param chatIds - Chats to search
+ * @param query - Search input
+ * @param userId - Current user ID
+ * @returns Keyword matches, newest first
+ */
+export async function searchCachedMessages(
+  chatIds: string[],
+  query: string,
+  userId?: string
+): Promise<MessageSearchResult[]> {
+  const resultsPerChat = await Promise.all(
+    chatIds.map(async (chatId) => {
+      const messages = await getCachedMessages(chatId);
+      return findKeywordMatches(chatId, messages, query, userId);
+    })
+  );
+
+  return resultsPerChat
+    .flat()
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+/**
+ * Semantic search across every chat the user participates in
+ * @param query - Search input
+ * @param limit - Maximum number of results
+ * @returns Semantic matches, most relevant first
+ */
+export async function searchMessagesSemantically(
+  query: string,
+  limit: number = 20
+): Promise<MessageSearchResult[]> {
+  try {
+    const searchFunction = httpsCallable<SemanticSearchRequest, SemanticSearchResponse>(
+      functions,
+      'searchAllMessages'
+    );
+
+    const result = await searchFunction({ query, limit });
+
+    return result.data.results.map((match) => ({
+      chatId: match.chatId,
+      messageId: match.messageId,
+      text: match.text,
+      senderId: match.senderId,
+      senderName: match.senderName,
+      timestamp: new Date(match.timestamp),
+      source: 'semantic' as const,
+      score: match.score,
+    }));
+  } catch (error) {
+    console.error('Error searching messages semantically:', error);
+    throw new Error('Failed to search messages');
+  }
+}
+
+/**
+ * Search all of the user's chats, combining keyword and semantic matches
+ * Semantic search needs a connection; keyword results are still returned without one
+ * @param chatIds - The user's chats
+ * @param query - Search input
+ * @param userId - Current user ID
+ * @returns Merged results, plus whether semantic search failed
+ */
+export async function searchAllMessages(
+  chatIds: string[],
+  query: string,
+  userId?: string
+): Promise<{ results: MessageSearchResult[]; semanticFailed: boolean }> {
+  const [keywordResults, semanticResults] = await Promise.all([
+    searchCachedMessages(chatIds, query, userId),
+    searchMessagesSemantically(query).catch(() => null),
+  ]);
+
+  return {
+    results: mergeSearchResults(keywordResults, semanticResults || []),
+    semanticFailed: semanticResults === null,
+  };
+}
+
+export const searchService = {
+  searchCachedMessages,
+  searchMessagesSemantically,
+  searchAllMessages,
+};
@@ -19,17 +19,24 @@ const STORAGE_KEYS = {
 // Maximum number of messages to cache per chat
 const MAX_CACHED_MESSAGES = 100;
 
+// Deleted messages are not cached so their content can't be recovered from the device
+const isDeletedForUser = (message: Message, userId?: string): boolean =>
+  !!message.deletedForEveryone || (!!userId && !!message.deletedFor?.includes(userId));
+
 /**
  * Cache messages for a specific chat
  * Stores last 100 messages to AsyncStorage
+ * Messages deleted for everyone (or for userId) are never written to the cache
  */
 export const cacheMessages = async (
   chatId: string,
-  messages: Message[]
+  messages: Message[],
+  userId?: string
 ): Promise<void> => {
   try {
     // Sort by timestamp (most recent first) and limit to MAX_CACHED_MESSAGES
-    const sortedMessages = [...messages]
+    const sortedMessages = messages
+      .filter((msg) => !isDeletedForUser(msg, userId))
       .sort((a, b) => {
         const timeA = a.timestamp instanceof Date ? a.timestamp.getTime() : a.timestamp.toMillis();
         const timeB = b.timestamp instanceof Date ? b.timestamp.getTime() : b.timestamp.toMillis();
@@ -44,6 +51,15 @@ export const cacheMessages = async (
         ? msg.timestamp.toISOString()
         : msg.timestamp.toDate().toISOString(),
       readBy: msg.readBy || [],
+      editedAt: msg.editedAt
+        ? (msg.editedAt instanceof Date ? msg.editedAt.toISOString() : msg.editedAt.toDate().toISOString())
+        : undefined,
+      editHistory: msg.editHistory?.map((revision) => ({
+        text: revision.text,
+        editedAt: revision.editedAt instanceof Date
+          ? revision.editedAt.toISOString()
+          : revision.editedAt.toDate().toISOString(),
+      })),
     }));
 
     const key = `${STORAGE_KEYS.MESSAGES}${chatId}`;
@@ -56,6 +72,35 @@ export const cacheMessages = async (
   }
 };
 
+/**
+ * Remove a single message from a chat's cache
+ * Used when a message is deleted so its content doesn't survive offline
+ */
+export const removeCachedMessage = async (
+  chatId: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    const key = `${STORAGE_KEYS.MESSAGES}${chatId}`;
+    const cached = await AsyncStorage.getItem(key);
+    
+    if (!cached) {
+      return;
+    }
+
+    const messages = JSON.parse(cached);
+    const remaining = messages.filter((msg: any) => msg.id !== messageId);
+    
+    if (remaining.length !== messages.length) {
+      await AsyncStorage.setItem(key, JSON.stringify(remaining));
+      console.log(`Removed message ${messageId} from cache for chat ${chatId}`);
+    }
+  } catch (error) {
+    console.error('Error removing cached message:', error);
+    // Don't throw - caching is not critical
+  }
+};
+
 /**
  * Get cached messages for a specific chat
  * Returns empty array if no cache exists
@@ -77,6 +122,11 @@ export const getCachedMessages = async (
     return messages.map((msg: any) => ({
       ...msg,
       timestamp: new Date(msg.timestamp),
+      editedAt: msg.editedAt ? new Date(msg.editedAt) : undefined,
+      editHistory: msg.editHistory?.map((revision: any) => ({
+        text: revision.text,
+        editedAt: new Date(revision.editedAt),
+      })),
     }));
   } catch (error) {
     console.error('Error retrieving cached messages:', error);
@@ -13,8 +13,31 @@ import {
   SlangExplanation,
   CulturalContext,
   MultilingualSummary,
+  GlossaryRef,
+  TranslationContextMessage,
+  TranslationQuality,
 } from '../types/translation';
 import { Message, User } from '../types';
+import { isSystemMessage } from '../utils/systemMessageHelpers';
+import {
+  identifyLanguage,
+  isIdentifiableLanguage,
+  LanguageIdentification,
+  UNDETERMINED_LANGUAGE,
+} from '../utils/languageIdentifier';
+
+// ==================== LANGUAGE DETECTION CONFIGURATION ====================
+
+// On-device detections below this confidence, or of shorter texts, are
+// escalated to the detectLanguage Cloud Function
+const LOCAL_DETECTION_MIN_CONFIDENCE = 0.7;
+const LOCAL_DETECTION_MIN_LENGTH = 12;
+
+// The server's detections aren't scored; the model is treated as reliable
+const SERVER_DETECTION_CONFIDENCE = 0.9;
+
+// Translations below this confidence are flagged so the original can be checked
+export const LOW_TRANSLATION_CONFIDENCE = 0.6;
 
 // ==================== CACHING CONFIGURATION ====================
 
@@ -94,6 +117,49 @@ async function setCachedResult<T>(
   }
 }
 
+/**
+ * Cache params for a chat glossary. Results that followed no glossary are
+ * shared across chats; the others are cached per chat and glossary version.
+ */
+function glossaryCacheParams(glossary?: GlossaryRef): Record<string, any> {
+  if (!glossary || glossary.version === 0) {
+    return {};
+  }
+  return { glossaryChatId: glossary.chatId, glossaryVersion: glossary.version };
+}
+
+/**
+ * Whether an on-device detection can be used without asking the server
+ */
+function isReliableLocalDetection(text: string, identification: LanguageIdentification): boolean {
+  return identification.confidence >= LOCAL_DETECTION_MIN_CONFIDENCE &&
+    text.trim().length >= LOCAL_DETECTION_MIN_LENGTH;
+}
+
+/**
+ * Detect a text's language on the device, without a network round trip
+ * @returns ISO 639-1 code, or null if the text is too short or ambiguous
+ */
+export function detectLanguageLocally(text: string): string | null {
+  const identification = identifyLanguage(text);
+  return isReliableLocalDetection(text, identification) ? identification.languageCode : null;
+}
+
+/**
+ * How sure we are that a text is in the language it's translated from
+ * Judged on the device where that's reliable; otherwise the language came
+ * from the server's detection
+ */
+function getSourceLanguageConfidence(text: string, sourceLanguage: string): number {
+  const identification = identifyLanguage(text);
+  if (!isReliableLocalDetection(text, identification) || !isIdentifiableLanguage(sourceLanguage)) {
+    return SERVER_DETECTION_CONFIDENCE;
+  }
+  return identification.languageCode === sourceLanguage
+    ? identification.confidence
+    : 1 - identification.confidence;
+}
+
 /**
  * Helper: Retry with exponential backoff
  */
@@ -110,6 +176,15 @@ async function retryWithBackoff<T>(
       lastError = error as Error;
       
       console.error(`Attempt ${attempt + 1} failed:`, error);
+
+      // Quota errors won't clear up within the retry window
+      if (error?.code === 'functions/resource-exhausted') {
+        throw new TranslationError(
+          'AI usage limit reached. Please try again later.',
+          'rate_limit',
+          error
+        );
+      }
       
       // Wait before retrying
       if (attempt < maxRetries - 1) {
@@ -181,36 +256,41 @@ export async function batchDetectLanguages(
  * Processes all messages simultaneously instead of sequentially
  */
 export async function batchTranslateMessages(
-  texts: Array<{ id: string; text: string; sourceLanguage?: string }>,
-  targetLanguage: string
-): Promise<Record<string, string>> {
+  texts: Array<{ id: string; text: string; sourceLanguage?: string; context?: TranslationContextMessage[] }>,
+  targetLanguage: string,
+  glossary?: GlossaryRef
+): Promise<Record<string, TranslationResult>> {
   console.log(`[Parallel] Batch translating ${texts.length} messages`);
   const startTime = Date.now();
 
   const results = await Promise.all(
-    texts.map(async ({ id, text, sourceLanguage }) => {
-      const result = await translateText(text, targetLanguage, sourceLanguage);
-      return { id, translatedText: result.translatedText };
+    texts.map(async ({ id, text, sourceLanguage, context }) => {
+      const result = await translateText(text, targetLanguage, sourceLanguage, glossary, context);
+      return { id, result };
     })
   );
 
   const duration = Date.now() - startTime;
   console.log(`[Parallel] Batch translation completed in ${duration}ms (avg ${Math.round(duration / texts.length)}ms per message)`);
 
-  return results.reduce((acc, { id, translatedText }) => {
-    acc[id] = translatedText;
+  return results.reduce((acc, { id, result }) => {
+    acc[id] = result;
     return acc;
-  }, {} as Record<string, string>);
+  }, {} as Record<string, TranslationResult>);
 }
 
 /**
  * 1. Translate Text
  * Translates text from one language to another using OpenAI
+ * @param glossary - Glossary of the chat the text belongs to
+ * @param context - Messages sent before the text, oldest first (context-aware translation)
  */
 export async function translateText(
   text: string,
   targetLanguage: string,
-  sourceLanguage?: string
+  sourceLanguage?: string,
+  glossary?: GlossaryRef,
+  context?: TranslationContextMessage[]
 ): Promise<TranslationResult> {
   if (!text || text.trim().length === 0) {
     throw new TranslationError(
@@ -219,8 +299,19 @@ export async function translateText(
     );
   }
 
+  // Without a known source language, use an on-device detection if it's reliable
+  const resolvedSourceLanguage = sourceLanguage || detectLanguageLocally(text) || undefined;
+  const confidence = resolvedSourceLanguage
+    ? getSourceLanguageConfidence(text, resolvedSourceLanguage)
+    : identifyLanguage(text).confidence;
+
   // Check cache first
-  const cacheParams = { targetLanguage, sourceLanguage: sourceLanguage || 'auto' };
+  const cacheParams = {
+    targetLanguage,
+    sourceLanguage: resolvedSourceLanguage || 'auto',
+    ...glossaryCacheParams(glossary),
+    ...(context?.length ? { context } : {}),
+  };
   const cached = await getCachedResult<TranslationResult>('translate', text, cacheParams);
   if (cached) {
     return cached;
@@ -233,16 +324,20 @@ export async function translateText(
       const result = await translateTextFn({
         text,
         targetLanguage,
-        sourceLanguage,
+        sourceLanguage: resolvedSourceLanguage,
+        chatId: glossary?.chatId,
+        context: context?.length ? context : undefined,
       });
 
       const data = result.data as any;
 
+      // A translation is only as sure as the language it was translated from
       const translationResult: TranslationResult = {
         translatedText: data.translatedText || '',
-        sourceLanguage: data.sourceLanguage || sourceLanguage || 'unknown',
+        sourceLanguage: data.sourceLanguage || resolvedSourceLanguage || 'unknown',
         targetLanguage: data.targetLanguage || targetLanguage,
-        confidence: data.confidence || 0.8,
+        confidence: typeof data.confidence === 'number' ? Math.min(data.confidence, confidence) : confidence,
+        untranslatable: Array.isArray(data.untranslatable) ? data.untranslatable : [],
       };
 
       // Cache the result
@@ -258,15 +353,21 @@ export async function translateText(
 
 /**
  * 2. Detect Language
- * Detects the language of a text using OpenAI
+ * Detects the language of a text on the device, asking the server (OpenAI)
+ * only for short or ambiguous text
  */
-export async function detectLanguage(text: string): Promise<string> {
+export async function detectLanguageWithConfidence(text: string): Promise<LanguageIdentification> {
   if (!text || text.trim().length === 0) {
-    return 'en';
+    return { languageCode: 'en', confidence: 0 };
+  }
+
+  const local = identifyLanguage(text);
+  if (isReliableLocalDetection(text, local)) {
+    return local;
   }
 
   // Check cache first
-  const cached = await getCachedResult<string>('detectLang', text);
+  const cached = await getCachedResult<LanguageIdentification>('detectLanguage', text);
   if (cached) {
     return cached;
   }
@@ -277,25 +378,43 @@ export async function detectLanguage(text: string): Promise<string> {
     const result = await detectLanguageFn({ text });
     const data = result.data as any;
     const languageCode = data.languageCode || 'en';
+    const detection: LanguageIdentification = {
+      languageCode,
+      confidence: languageCode === local.languageCode
+        ? Math.max(local.confidence, SERVER_DETECTION_CONFIDENCE)
+        : SERVER_DETECTION_CONFIDENCE,
+    };
     
     // Cache the result
-    await setCachedResult('detectLang', text, {}, languageCode);
+    await setCachedResult('detectLanguage', text, {}, detection);
     
-    return languageCode;
+    return detection;
   } catch (error) {
     console.error('detectLanguage function call failed:', error);
-    return 'en';
+    // Offline: the on-device guess beats a blind default
+    return local.languageCode !== UNDETERMINED_LANGUAGE ? local : { languageCode: 'en', confidence: 0 };
   }
 }
 
+/**
+ * Detect the language of a text
+ * @returns ISO 639-1 code
+ */
+export async function detectLanguage(text: string): Promise<string> {
+  const detection = await detectLanguageWithConfidence(text);
+  return detection.languageCode;
+}
+
 /**
  * 3. Adjust Formality
  * Rewrites text with the specified formality level
+ * @param glossary - Glossary of the chat the text is written in
  */
 export async function adjustFormality(
   text: string,
   formalityLevel: FormalityLevel,
-  targetLanguage: string
+  targetLanguage: string,
+  glossary?: GlossaryRef
 ): Promise<string> {
   if (!text || text.trim().length === 0) {
     throw new TranslationError(
@@ -305,7 +424,7 @@ export async function adjustFormality(
   }
 
   // Check cache first
-  const cacheParams = { formalityLevel, targetLanguage };
+  const cacheParams = { formalityLevel, targetLanguage, ...glossaryCacheParams(glossary) };
   const cached = await getCachedResult<string>('formality', text, cacheParams);
   if (cached) {
     return cached;
@@ -318,6 +437,7 @@ export async function adjustFormality(
       text,
       formalityLevel,
       targetLanguage,
+      chatId: glossary?.chatId,
     });
 
     const data = result.data as any;
@@ -442,13 +562,20 @@ export async function getCulturalContext(
 /**
  * 6. Summarize Multilingual Thread
  * Generates a summary of a conversation in the user's preferred language
+ * @param glossary - Glossary of the chat being summarized
  */
 export async function summarizeMultilingualThread(
   messages: Message[],
   users: Record<string, User>,
-  userLanguage: string
+  userLanguage: string,
+  glossary?: GlossaryRef
 ): Promise<MultilingualSummary> {
-  if (messages.length < 5) {
+  // Deleted messages must never reach the model; system messages have no content
+  const activeMessages = messages.filter(
+    (msg) => !msg.deletedForEveryone && !isSystemMessage(msg)
+  );
+
+  if (activeMessages.length < 5) {
     throw new TranslationError(
       'Need at least 5 messages to summarize',
       'invalid_input'
@@ -456,7 +583,7 @@ export async function summarizeMultilingualThread(
   }
 
   // Format messages for API
-  const formattedMessages = messages.map((msg) => ({
+  const formattedMessages = activeMessages.map((msg) => ({
     id: msg.id,
     text: msg.text,
     senderId: msg.senderId,
@@ -473,6 +600,7 @@ export async function summarizeMultilingualThread(
     const result = await summaryFunction({
       messages: formattedMessages,
       userLanguage,
+      chatId: glossary?.chatId,
     });
 
     const data = result.data as any;
@@ -489,15 +617,34 @@ export async function summarizeMultilingualThread(
 
 // ==================== CACHING ====================
 
+/**
+ * AsyncStorage key of a message translation, per glossary version and
+ * whether it was translated with context
+ */
+function translationCacheKey(
+  messageId: string,
+  targetLanguage: string,
+  glossaryVersion: number = 0,
+  contextAware: boolean = false
+): string {
+  let key = `translation_cache_${messageId}_${targetLanguage}`;
+  if (glossaryVersion > 0) {
+    key += `_g${glossaryVersion}`;
+  }
+  return contextAware ? `${key}_ctx` : key;
+}
+
 /**
  * Get cached translation from AsyncStorage
  */
 export async function getCachedTranslation(
   messageId: string,
-  targetLanguage: string
+  targetLanguage: string,
+  glossaryVersion?: number,
+  contextAware?: boolean
 ): Promise<string | null> {
   try {
-    const key = `translation_cache_${messageId}_${targetLanguage}`;
+    const key = translationCacheKey(messageId, targetLanguage, glossaryVersion, contextAware);
     const cached = await AsyncStorage.getItem(key);
     return cached;
   } catch (error) {
@@ -512,10 +659,12 @@ export async function getCachedTranslation(
 export async function cacheTranslation(
   messageId: string,
   targetLanguage: string,
-  translatedText: string
+  translatedText: string,
+  glossaryVersion?: number,
+  contextAware?: boolean
 ): Promise<void> {
   try {
-    const key = `translation_cache_${messageId}_${targetLanguage}`;
+    const key = translationCacheKey(messageId, targetLanguage, glossaryVersion, contextAware);
     await AsyncStorage.setItem(key, translatedText);
   } catch (error) {
     console.error('Error caching translation:', error);
@@ -523,6 +672,68 @@ export async function cacheTranslation(
   }
 }
 
+/**
+ * Get the cached quality of a translation
+ */
+export async function getCachedTranslationQuality(
+  messageId: string,
+  targetLanguage: string,
+  glossaryVersion?: number,
+  contextAware?: boolean
+): Promise<TranslationQuality | null> {
+  try {
+    const key = `${translationCacheKey(messageId, targetLanguage, glossaryVersion, contextAware)}_quality`;
+    const cached = await AsyncStorage.getItem(key);
+    return cached ? JSON.parse(cached) : null;
+  } catch (error) {
+    console.error('Error getting cached translation quality:', error);
+    return null;
+  }
+}
+
+/**
+ * Cache the quality of a translation next to it
+ */
+export async function cacheTranslationQuality(
+  messageId: string,
+  targetLanguage: string,
+  quality: TranslationQuality,
+  glossaryVersion?: number,
+  contextAware?: boolean
+): Promise<void> {
+  try {
+    const key = `${translationCacheKey(messageId, targetLanguage, glossaryVersion, contextAware)}_quality`;
+    await AsyncStorage.setItem(key, JSON.stringify(quality));
+  } catch (error) {
+    console.error('Error caching translation quality:', error);
+    // Don't throw - caching is not critical
+  }
+}
+
+/**
+ * Whether a translation should be flagged so the user can check the original
+ */
+export function isLowConfidenceTranslation(quality?: TranslationQuality | null): boolean {
+  return !!quality && quality.confidence < LOW_TRANSLATION_CONFIDENCE;
+}
+
+/**
+ * Remove all cached translations of a message (e.g. after it was edited)
+ */
+export async function clearCachedTranslations(messageId: string): Promise<void> {
+  try {
+    const prefix = `translation_cache_${messageId}_`;
+    const keys = await AsyncStorage.getAllKeys();
+    const translationKeys = keys.filter((key) => key.startsWith(prefix));
+    
+    if (translationKeys.length > 0) {
+      await AsyncStorage.multiRemove(translationKeys);
+    }
+  } catch (error) {
+    console.error('Error clearing cached translations:', error);
+  }
+}
+
 /**
  * Get cached cultural context
  */
@@ -7,10 +7,12 @@
  */
 
 import { create } from 'zustand';
-import { Message } from '../types';
-import { chatService } from '../services/chatService';
+import { Message, MessageDeleteScope, MessageReplyRef } from '../types';
+import { chatService, MessagePage, MessagePageCursor } from '../services/chatService';
 import * as storageService from '../services/storageService';
 import { useNetworkStore } from './networkStore';
+import { useTranslationStore } from './translationStore';
+import { useAuthStore } from './authStore';
 
 interface MessageState {
   // Messages organized by chatId: { chatId: Message[] }
@@ -24,11 +26,33 @@ interface MessageState {
   
   // Unsubscribe functions for active subscriptions
   unsubscribers: Record<string, () => void>;
+  
+  // Unsubscribe functions for the listeners on loaded older pages
+  pageUnsubscribers: Record<string, Array<() => void>>;
+  
+  // Pagination per chat: cursor of the oldest loaded message
+  cursors: Record<string, MessagePageCursor | null>;
+  
+  // Whether older messages may exist before the cursor
+  hasMoreMessages: Record<string, boolean>;
+  
+  // Loading state for older pages per chat
+  loadingOlder: Record<string, boolean>;
 }
 
 interface MessageActions {
-  // Set all messages for a chat (from subscription)
-  setMessages: (chatId: string, messages: Message[]) => void;
+  // Set messages for a chat (from subscription)
+  // With preserveOlder, loaded messages older than the incoming window are kept
+  setMessages: (chatId: string, messages: Message[], preserveOlder?: boolean) => void;
+  
+  // Merge a page of older messages into a chat
+  addOlderMessages: (chatId: string, messages: Message[]) => void;
+  
+  // Apply a live update of a loaded older page (edits, reactions, deletions)
+  syncOlderMessages: (chatId: string, messages: Message[]) => void;
+  
+  // Load the next page of older messages for a chat
+  loadOlderMessages: (chatId: string) => Promise<void>;
   
   // Add a single message to a chat (optimistic or real-time)
   addMessage: (chatId: string, message: Message) => void;
@@ -37,7 +61,12 @@ interface MessageActions {
   updateMessage: (chatId: string, messageId: string, updates: Partial<Message>) => void;
   
   // Send message with optimistic update
-  sendMessageOptimistic: (chatId: string, text: string, senderId: string) => Promise<void>;
+  sendMessageOptimistic: (
+    chatId: string,
+    text: string,
+    senderId: string,
+    replyTo?: MessageReplyRef
+  ) => Promise<void>;
   
   // Send image with optimistic update
   sendImageOptimistic: (
@@ -49,6 +78,25 @@ interface MessageActions {
     imageHeight: number
   ) => Promise<void>;
   
+  // Edit a sent message with optimistic update
+  editMessageOptimistic: (chatId: string, messageId: string, newText: string, userId: string) => Promise<void>;
+  
+  // Delete a message for the current user or for everyone, with optimistic update
+  deleteMessageOptimistic: (
+    chatId: string,
+    messageId: string,
+    userId: string,
+    scope: MessageDeleteScope
+  ) => Promise<void>;
+  
+  // Add or remove the user's emoji reaction with optimistic update
+  toggleReactionOptimistic: (
+    chatId: string,
+    messageId: string,
+    emoji: string,
+    userId: string
+  ) => Promise<void>;
+  
   // Retry failed message
   retryMessage: (chatId: string, tempId: string) => Promise<void>;
   
@@ -83,9 +131,23 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
   loading: {},
   error: {},
   unsubscribers: {},
+  pageUnsubscribers: {},
+  cursors: {},
+  hasMoreMessages: {},
+  loadingOlder: {},
   
   // Actions
-  setMessages: (chatId, messages) => {
+  setMessages: (chatId, messages, preserveOlder = false) => {
+    // Drop stale translations for messages whose text was edited since we last saw them
+    const previousMessages = get().messages[chatId] || [];
+    messages.forEach(msg => {
+      if (!msg.editedAt) return;
+      const previous = previousMessages.find(m => m.id === msg.id);
+      if (previous && previous.text !== msg.text) {
+        useTranslationStore.getState().clearTranslationCache(msg.id);
+      }
+    });
+    
     set((state) => {
       const existingMessages = state.messages[chatId] || [];
       
@@ -155,8 +217,24 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
       
       console.log(`[setMessages] After filtering: ${uniqueFirestoreMessages.length} Firestore messages, ${pendingMessages.length} pending`);
       
-      // Combine deduplicated Firestore messages with pending local messages
-      const allMessages = [...uniqueFirestoreMessages];
+      // Keep confirmed messages that are older than the live window
+      // (pages loaded with loadOlderMessages, which have listeners of their own)
+      let olderMessages: Message[] = [];
+      if (preserveOlder && uniqueFirestoreMessages.length > 0) {
+        const windowStart = Math.min(
+          ...uniqueFirestoreMessages.map(m =>
+            m.timestamp instanceof Date ? m.timestamp.getTime() : m.timestamp.toMillis()
+          )
+        );
+        olderMessages = existingMessages.filter(m => {
+          if (m.pending || m.failed || m.tempId || seenIds.has(m.id)) return false;
+          const mTime = m.timestamp instanceof Date ? m.timestamp.getTime() : m.timestamp.toMillis();
+          return mTime < windowStart;
+        });
+      }
+      
+      // Combine older pages, deduplicated Firestore messages and pending local messages
+      const allMessages = [...olderMessages, ...uniqueFirestoreMessages];
       
       // Add pending messages that aren't already represented in Firestore      
       pendingMessages.forEach(pendingMsg => {
@@ -212,6 +290,120 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     get().saveMessagesToCache(chatId);
   },
   
+  addOlderMessages: (chatId, messages) => {
+    set((state) => {
+      const existingMessages = state.messages[chatId] || [];
+      const existingIds = new Set(existingMessages.map(m => m.id));
+      const newMessages = messages.filter(m => !existingIds.has(m.id));
+      
+      return {
+        messages: {
+          ...state.messages,
+          [chatId]: [...newMessages, ...existingMessages].sort((a, b) => {
+            const aTime = a.timestamp instanceof Date ? a.timestamp.getTime() : a.timestamp.toMillis();
+            const bTime = b.timestamp instanceof Date ? b.timestamp.getTime() : b.timestamp.toMillis();
+            return aTime - bTime;
+          }),
+        },
+      };
+    });
+  },
+  
+  syncOlderMessages: (chatId, messages) => {
+    const updates = new Map(messages.map(m => [m.id, m]));
+    
+    // Drop stale translations for messages whose text was edited
+    (get().messages[chatId] || []).forEach(m => {
+      const updated = updates.get(m.id);
+      if (updated && updated.text !== m.text) {
+        useTranslationStore.getState().clearTranslationCache(m.id);
+      }
+    });
+    
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [chatId]: (state.messages[chatId] || []).map(m => updates.get(m.id) || m),
+      },
+    }));
+    
+    // Save to cache asynchronously
+    get().saveMessagesToCache(chatId);
+  },
+  
+  loadOlderMessages: async (chatId) => {
+    const state = get();
+    const cursor = state.cursors[chatId];
+    
+    if (!cursor || !state.hasMoreMessages[chatId] || state.loadingOlder[chatId]) {
+      return;
+    }
+    
+    set((state) => ({
+      loadingOlder: { ...state.loadingOlder, [chatId]: true },
+    }));
+    
+    try {
+      // Keep listening to the page so later edits and deletions reach it,
+      // the live window only starts at the first page's oldest message
+      let unsubscribe: () => void = () => {};
+      const firstPage = new Promise<{ messages: Message[]; page: MessagePage }>(
+        (resolve, reject) => {
+          let isFirstSnapshot = true;
+          unsubscribe = chatService.subscribeToOlderMessages(
+            chatId,
+            cursor,
+            (messages, page) => {
+              if (isFirstSnapshot) {
+                isFirstSnapshot = false;
+                resolve({ messages, page });
+              } else {
+                get().syncOlderMessages(chatId, messages);
+              }
+            },
+            (error) => {
+              if (isFirstSnapshot) {
+                reject(error);
+              } else {
+                get().setError(chatId, error);
+              }
+            }
+          );
+        }
+      );
+      
+      // Record the listener right away so leaving the chat mid-load stops it
+      set((state) => ({
+        pageUnsubscribers: {
+          ...state.pageUnsubscribers,
+          [chatId]: [...(state.pageUnsubscribers[chatId] || []), unsubscribe],
+        },
+      }));
+      
+      const { messages, page } = await firstPage;
+      
+      if (!get().unsubscribers[chatId]) {
+        unsubscribe();
+        return;
+      }
+      console.log(`📜 [loadOlderMessages] Loaded ${messages.length} older messages for chat ${chatId}`);
+      
+      get().addOlderMessages(chatId, messages);
+      
+      set((state) => ({
+        cursors: { ...state.cursors, [chatId]: page.cursor || cursor },
+        hasMoreMessages: { ...state.hasMoreMessages, [chatId]: page.hasMore },
+      }));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      get().setError(chatId, error as Error);
+    } finally {
+      set((state) => ({
+        loadingOlder: { ...state.loadingOlder, [chatId]: false },
+      }));
+    }
+  },
+  
   addMessage: (chatId, message) => {
     set((state) => {
       const existingMessages = state.messages[chatId] || [];
@@ -293,28 +485,53 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     get().setLoading(chatId, true);
     get().setError(chatId, null);
     
-    // Subscribe to messages
-    const unsubscribe = chatService.subscribeToMessages(
+    const handleError = (error: Error) => {
+      console.error('Error in message subscription:', error);
+      get().setError(chatId, error);
+      get().setLoading(chatId, false);
+    };
+    
+    // Subscribe to the latest page of messages. Its first snapshot replaces
+    // whatever was loaded before (it may be stale or have gaps); the listener
+    // is then swapped for one anchored at the page's oldest message, which
+    // grows instead of sliding, so no message on screen goes unwatched
+    let unsubscribeCurrent: () => void = () => {};
+    let isFirstSnapshot = true;
+    unsubscribeCurrent = chatService.subscribeToMessages(
       chatId,
-      (messages) => {
+      (messages, page) => {
+        if (!isFirstSnapshot) return;
+        isFirstSnapshot = false;
         console.log(`📥 Firestore update for chat ${chatId}: ${messages.length} messages`);
         
-        // Preserve pending messages when setting new messages from Firestore
         get().setMessages(chatId, messages);
         get().setLoading(chatId, false);
+        set((state) => ({
+          cursors: { ...state.cursors, [chatId]: page.cursor },
+          hasMoreMessages: { ...state.hasMoreMessages, [chatId]: page.hasMore },
+        }));
+        
+        unsubscribeCurrent();
+        unsubscribeCurrent = chatService.subscribeToMessagesSince(
+          chatId,
+          page.cursor,
+          (messages) => {
+            console.log(`📥 Firestore update for chat ${chatId}: ${messages.length} messages`);
+            
+            // Preserve pending messages and loaded older pages
+            get().setMessages(chatId, messages, true);
+          },
+          handleError
+        );
       },
-      (error) => {
-        console.error('Error in message subscription:', error);
-        get().setError(chatId, error);
-        get().setLoading(chatId, false);
-      }
+      handleError
     );
     
-    // Store unsubscribe function
+    // Store unsubscribe function (whichever listener is current)
     set((state) => ({
       unsubscribers: {
         ...state.unsubscribers,
-        [chatId]: unsubscribe,
+        [chatId]: () => unsubscribeCurrent(),
       },
     }));
   },
@@ -331,6 +548,16 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
         return { unsubscribers: restUnsubscribers };
       });
     }
+    
+    const pageUnsubscribers = state.pageUnsubscribers[chatId];
+    if (pageUnsubscribers) {
+      pageUnsubscribers.forEach(unsubscribePage => unsubscribePage());
+      
+      set((state) => {
+        const { [chatId]: _, ...restPageUnsubscribers } = state.pageUnsubscribers;
+        return { pageUnsubscribers: restPageUnsubscribers };
+      });
+    }
   },
   
   clearMessages: (chatId) => {
@@ -338,11 +565,15 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
       const { [chatId]: _, ...restMessages } = state.messages;
       const { [chatId]: __, ...restLoading } = state.loading;
       const { [chatId]: ___, ...restError } = state.error;
+      const { [chatId]: ____, ...restCursors } = state.cursors;
+      const { [chatId]: _____, ...restHasMore } = state.hasMoreMessages;
       
       return {
         messages: restMessages,
         loading: restLoading,
         error: restError,
+        cursors: restCursors,
+        hasMoreMessages: restHasMore,
       };
     });
   },
@@ -365,7 +596,7 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     }));
   },
   
-  sendMessageOptimistic: async (chatId, text, senderId) => {
+  sendMessageOptimistic: async (chatId, text, senderId, replyTo) => {
     // Generate temporary ID for optimistic message
     const tempId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -378,11 +609,13 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     const optimisticMessage: Message = {
       id: tempId,
       tempId,
+      type: 'text',
       text,
       senderId,
       timestamp: new Date(),
       readBy: [senderId],
       pending: true, // Always start as pending
+      ...(replyTo && { replyTo }),
     };
     
     // Add optimistic message immediately
@@ -391,7 +624,15 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     try {
       // ALWAYS try to send to Firestore, even if offline
       // Firestore's built-in offline persistence will handle queueing
-      const realMessageId = await chatService.sendMessage(chatId, text, senderId);
+      const realMessageId = await chatService.sendMessage(
+        chatId,
+        text,
+        senderId,
+        undefined,
+        undefined,
+        undefined,
+        replyTo
+      );
       console.log(`✅ [sendMessageOptimistic] Message sent to Firestore, realId: ${realMessageId}, tempId: ${tempId}`);
       
       // If we're online, remove the temp message - Firestore will provide the real one
@@ -453,6 +694,7 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     const optimisticMessage: Message = {
       id: tempId,
       tempId,
+      type: 'image',
       text,
       senderId,
       timestamp: new Date(),
@@ -558,6 +800,133 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     }
   },
   
+  editMessageOptimistic: async (chatId, messageId, newText, userId) => {
+    const existingMessage = (get().messages[chatId] || []).find(m => m.id === messageId);
+    
+    if (!existingMessage || existingMessage.text === newText) {
+      return;
+    }
+    
+    // Apply the edit locally right away
+    get().updateMessage(chatId, messageId, {
+      text: newText,
+      editedAt: new Date(),
+      editHistory: [
+        ...(existingMessage.editHistory || []),
+        { text: existingMessage.text, editedAt: new Date() },
+      ],
+      detectedLanguage: undefined,
+      translationCache: undefined,
+      translationQuality: undefined,
+    });
+    useTranslationStore.getState().clearTranslationCache(messageId);
+    
+    try {
+      await chatService.editMessage(chatId, messageId, newText, userId);
+      console.log(`✏️ [editMessageOptimistic] Message ${messageId} edited`);
+    } catch (error) {
+      console.error('❌ Error editing message:', error);
+      
+      // Roll back to the previous version
+      get().updateMessage(chatId, messageId, {
+        text: existingMessage.text,
+        editedAt: existingMessage.editedAt,
+        editHistory: existingMessage.editHistory,
+        detectedLanguage: existingMessage.detectedLanguage,
+        translationCache: existingMessage.translationCache,
+        translationQuality: existingMessage.translationQuality,
+      });
+      
+      throw error;
+    }
+  },
+  
+  deleteMessageOptimistic: async (chatId, messageId, userId, scope) => {
+    const existingMessage = (get().messages[chatId] || []).find(m => m.id === messageId);
+    
+    if (!existingMessage) {
+      return;
+    }
+    
+    // Show the tombstone right away
+    if (scope === 'everyone') {
+      get().updateMessage(chatId, messageId, {
+        text: '',
+        deletedForEveryone: true,
+        deletedAt: new Date(),
+        imageUrl: undefined,
+        imageWidth: undefined,
+        imageHeight: undefined,
+        editHistory: undefined,
+        reactions: undefined,
+        detectedLanguage: undefined,
+        translationCache: undefined,
+        translationQuality: undefined,
+      });
+      useTranslationStore.getState().clearTranslationCache(messageId);
+    } else {
+      get().updateMessage(chatId, messageId, {
+        deletedFor: [...(existingMessage.deletedFor || []), userId],
+      });
+    }
+    await storageService.removeCachedMessage(chatId, messageId);
+    
+    try {
+      if (scope === 'everyone') {
+        await chatService.deleteMessageForEveryone(chatId, messageId, userId);
+      } else {
+        await chatService.deleteMessageForMe(chatId, messageId, userId);
+      }
+      console.log(`🗑️ [deleteMessageOptimistic] Message ${messageId} deleted for ${scope}`);
+    } catch (error) {
+      console.error('❌ Error deleting message:', error);
+      
+      // Restore the original message
+      get().updateMessage(chatId, messageId, existingMessage);
+      
+      throw error;
+    }
+  },
+  
+  toggleReactionOptimistic: async (chatId, messageId, emoji, userId) => {
+    const existingMessage = (get().messages[chatId] || []).find(m => m.id === messageId);
+    
+    if (!existingMessage) {
+      return;
+    }
+    
+    const previousReactions = existingMessage.reactions || {};
+    const currentUsers = previousReactions[emoji] || [];
+    const isRemoving = currentUsers.includes(userId);
+    
+    // Apply the reaction locally right away
+    get().updateMessage(chatId, messageId, {
+      reactions: {
+        ...previousReactions,
+        [emoji]: isRemoving
+          ? currentUsers.filter(id => id !== userId)
+          : [...currentUsers, userId],
+      },
+    });
+    
+    try {
+      if (isRemoving) {
+        await chatService.removeReaction(chatId, messageId, emoji, userId);
+      } else {
+        await chatService.addReaction(chatId, messageId, emoji, userId);
+      }
+    } catch (error) {
+      console.error('❌ Error updating reaction:', error);
+      
+      // Roll back to the previous reactions
+      get().updateMessage(chatId, messageId, {
+        reactions: existingMessage.reactions,
+      });
+      
+      throw error;
+    }
+  },
+  
   retryMessage: async (chatId, tempId) => {
     const state = get();
     const chatMessages = state.messages[chatId] || [];
@@ -576,7 +945,15 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
     
     try {
       // Retry sending
-      await chatService.sendMessage(chatId, failedMessage.text, failedMessage.senderId);
+      await chatService.sendMessage(
+        chatId,
+        failedMessage.text,
+        failedMessage.senderId,
+        undefined,
+        undefined,
+        undefined,
+        failedMessage.replyTo
+      );
       
       // Remove the temp message - Firestore will provide the real one
       set((state) => {
@@ -634,7 +1011,7 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
       const messages = state.messages[chatId];
       
       if (messages && messages.length > 0) {
-        await storageService.cacheMessages(chatId, messages);
+        await storageService.cacheMessages(chatId, messages, useAuthStore.getState().user?.uid);
       }
     } catch (error) {
       console.error('Error saving messages to cache:', error);
@@ -712,7 +1089,11 @@ export const useMessageStore = create<MessageState & MessageActions>((set, get)
           const realMessageId = await chatService.sendMessage(
             chatId,
             message.text,
-            message.senderId
+            message.senderId,
+            undefined,
+            undefined,
+            undefined,
+            message.replyTo
           );
           console.log(`✅ [processOfflineQueue] Queued message sent successfully: ${realMessageId}`);
           
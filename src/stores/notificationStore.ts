@@ -51,7 +51,8 @@ export const useNotificationStore = create<NotificationState & NotificationActio
     const state = get();
     
     // Don't show notification if it's for the currently active chat
-    if (state.activeChatId && notification.chatId === state.activeChatId) {
+    // (reminders still show; the deadline isn't on screen)
+    if (state.activeChatId && notification.chatId === state.activeChatId && !notification.reminderId) {
       console.log('🔕 Suppressing notification for active chat');
       return;
     }
@@ -11,6 +11,10 @@ import {
   SlangExplanation,
   CulturalContext,
   MultilingualSummary,
+  GlossaryRef,
+  TranslationContextMessage,
+  TranslationQuality,
+  TranslationResult,
 } from '../types/translation';
 import * as translationService from '../services/translationService';
 import * as languageService from '../services/languageService';
@@ -23,9 +27,15 @@ interface TranslationState {
   // Per-chat auto-translate settings (chatId -> boolean)
   autoTranslateEnabled: Record<string, boolean>;
   
+  // Per-chat opt-in to translating with the previous messages as context (chatId -> boolean)
+  contextAwareEnabled: Record<string, boolean>;
+  
   // Translation cache (messageId -> language -> translation)
   translations: Record<string, Record<string, string>>;
   
+  // Confidence and untranslatable parts of those translations (messageId -> language -> quality)
+  translationQuality: Record<string, Record<string, TranslationQuality>>;
+  
   // Loading states
   translating: Record<string, boolean>; // messageId -> loading
   detectingLanguage: Record<string, boolean>; // messageId -> loading
@@ -45,6 +55,9 @@ interface TranslationState {
   
   // Summaries cache
   summaries: Record<string, MultilingualSummary>; // chatId -> summary
+  
+  // Glossary version per chat; translations are cached per version
+  glossaryVersions: Record<string, number>; // chatId -> version
 }
 
 interface TranslationActions {
@@ -57,13 +70,29 @@ interface TranslationActions {
   loadAutoTranslateSetting: (chatId: string) => Promise<void>;
   isAutoTranslateEnabled: (chatId: string) => boolean;
   
-  // Translation
-  translateMessage: (messageId: string, text: string, targetLanguage: string, sourceLanguage?: string) => Promise<string>;
+  // Context-aware translation per-chat settings
+  setContextAware: (chatId: string, enabled: boolean) => Promise<void>;
+  loadContextAwareSetting: (chatId: string) => Promise<void>;
+  isContextAwareEnabled: (chatId: string) => boolean;
+  
+  // Chat glossary
+  setGlossaryVersion: (chatId: string, version: number) => void;
+  
+  // Translation (chatId applies that chat's glossary; context is the previous messages)
+  translateMessage: (
+    messageId: string,
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+    chatId?: string,
+    context?: TranslationContextMessage[]
+  ) => Promise<string>;
   
   // Batch translation (parallel)
   batchTranslateMessages: (
-    messages: Array<{ id: string; text: string; sourceLanguage?: string }>,
-    targetLanguage: string
+    messages: Array<{ id: string; text: string; sourceLanguage?: string; context?: TranslationContextMessage[] }>,
+    targetLanguage: string,
+    chatId?: string
   ) => Promise<Record<string, string>>;
   
   // Language detection
@@ -81,7 +110,7 @@ interface TranslationActions {
   getSlangExplanations: (messageId: string, text: string, detectedLanguage: string) => Promise<SlangExplanation[]>;
   
   // Formality adjustment
-  adjustFormality: (text: string, level: FormalityLevel, targetLanguage: string) => Promise<string>;
+  adjustFormality: (text: string, level: FormalityLevel, targetLanguage: string, chatId?: string) => Promise<string>;
   
   // Multilingual summary
   getSummary: (chatId: string, messages: Message[], users: Record<string, User>, forceRefresh?: boolean) => Promise<MultilingualSummary>;
@@ -91,11 +120,27 @@ interface TranslationActions {
   clearError: (key: string) => void;
 }
 
+/**
+ * Glossary a chat's translations follow, as last seen by the client
+ */
+function getGlossaryRef(state: TranslationState, chatId?: string): GlossaryRef | undefined {
+  return chatId ? { chatId, version: state.glossaryVersions[chatId] ?? 0 } : undefined;
+}
+
+/**
+ * Quality of a translation result, as kept next to the translated text
+ */
+function getTranslationQuality(result: TranslationResult): TranslationQuality {
+  return { confidence: result.confidence, untranslatable: result.untranslatable ?? [] };
+}
+
 export const useTranslationStore = create<TranslationState & TranslationActions>((set, get) => ({
   // Initial state
   userLanguage: 'en',
   autoTranslateEnabled: {},
+  contextAwareEnabled: {},
   translations: {},
+  translationQuality: {},
   translating: {},
   detectingLanguage: {},
   loadingCulturalContext: {},
@@ -106,6 +151,7 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
   culturalContexts: {},
   slangExplanations: {},
   summaries: {},
+  glossaryVersions: {},
   
   // Actions
   setUserLanguage: async (language, userId) => {
@@ -189,7 +235,68 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     return get().autoTranslateEnabled[chatId] || false;
   },
   
-  translateMessage: async (messageId, text, targetLanguage, sourceLanguage) => {
+  // Context-aware translation per-chat settings
+  setContextAware: async (chatId, enabled) => {
+    try {
+      await AsyncStorage.setItem(`contextAwareTranslate_${chatId}`, JSON.stringify(enabled));
+      
+      set((state) => ({
+        contextAwareEnabled: { ...state.contextAwareEnabled, [chatId]: enabled },
+        // Translations shown so far were made the other way; the memory cache
+        // isn't keyed by chat, so all of it goes (AsyncStorage keys differ)
+        translations: {},
+        translationQuality: {},
+      }));
+      
+      console.log(`[ContextAware] Set for chat ${chatId}: ${enabled}`);
+    } catch (error) {
+      console.error('Error saving context-aware translation setting:', error);
+    }
+  },
+  
+  loadContextAwareSetting: async (chatId) => {
+    try {
+      const stored = await AsyncStorage.getItem(`contextAwareTranslate_${chatId}`);
+      const enabled = stored ? JSON.parse(stored) : false; // Default to false
+      
+      set((state) => ({
+        contextAwareEnabled: { ...state.contextAwareEnabled, [chatId]: enabled },
+      }));
+    } catch (error) {
+      console.error('Error loading context-aware translation setting:', error);
+      set((state) => ({
+        contextAwareEnabled: { ...state.contextAwareEnabled, [chatId]: false },
+      }));
+    }
+  },
+  
+  isContextAwareEnabled: (chatId) => {
+    return get().contextAwareEnabled[chatId] || false;
+  },
+  
+  setGlossaryVersion: (chatId, version) => {
+    const previous = get().glossaryVersions[chatId];
+    if (previous === version) {
+      return;
+    }
+    
+    set((state) => {
+      const { [chatId]: _, ...restSummaries } = state.summaries;
+      return {
+        glossaryVersions: { ...state.glossaryVersions, [chatId]: version },
+        // Translations made under the old glossary are stale. The memory cache
+        // isn't keyed by chat, so all of it goes; AsyncStorage is keyed by version.
+        translations: previous === undefined ? state.translations : {},
+        translationQuality: previous === undefined ? state.translationQuality : {},
+        summaries: previous === undefined ? state.summaries : restSummaries,
+      };
+    });
+  },
+  
+  translateMessage: async (messageId, text, targetLanguage, sourceLanguage, chatId, context) => {
+    const glossary = getGlossaryRef(get(), chatId);
+    const contextAware = !!context?.length;
+    
     // Check cache first
     const cached = get().translations[messageId]?.[targetLanguage];
     if (cached) {
@@ -197,8 +304,20 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     }
     
     // Check AsyncStorage cache
-    const cachedTranslation = await translationService.getCachedTranslation(messageId, targetLanguage);
+    const cachedTranslation = await translationService.getCachedTranslation(
+      messageId,
+      targetLanguage,
+      glossary?.version,
+      contextAware
+    );
     if (cachedTranslation) {
+      const cachedQuality = await translationService.getCachedTranslationQuality(
+        messageId,
+        targetLanguage,
+        glossary?.version,
+        contextAware
+      );
+      
       // Store in memory cache
       set((state) => ({
         translations: {
@@ -208,6 +327,12 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
             [targetLanguage]: cachedTranslation,
           },
         },
+        translationQuality: cachedQuality
+          ? {
+              ...state.translationQuality,
+              [messageId]: { ...state.translationQuality[messageId], [targetLanguage]: cachedQuality },
+            }
+          : state.translationQuality,
       }));
       return cachedTranslation;
     }
@@ -219,10 +344,30 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     }));
     
     try {
-      const result = await translationService.translateText(text, targetLanguage, sourceLanguage);
+      const result = await translationService.translateText(
+        text,
+        targetLanguage,
+        sourceLanguage,
+        glossary,
+        context
+      );
+      const quality = getTranslationQuality(result);
       
       // Cache the translation
-      await translationService.cacheTranslation(messageId, targetLanguage, result.translatedText);
+      await translationService.cacheTranslation(
+        messageId,
+        targetLanguage,
+        result.translatedText,
+        glossary?.version,
+        contextAware
+      );
+      await translationService.cacheTranslationQuality(
+        messageId,
+        targetLanguage,
+        quality,
+        glossary?.version,
+        contextAware
+      );
       
       // Store in memory cache
       set((state) => ({
@@ -233,6 +378,10 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
             [targetLanguage]: result.translatedText,
           },
         },
+        translationQuality: {
+          ...state.translationQuality,
+          [messageId]: { ...state.translationQuality[messageId], [targetLanguage]: quality },
+        },
         translating: { ...state.translating, [messageId]: false },
       }));
       
@@ -272,8 +421,10 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     }
   },
   
-  batchTranslateMessages: async (messages, targetLanguage) => {
+  batchTranslateMessages: async (messages, targetLanguage, chatId) => {
     console.log(`[Store] Batch translating ${messages.length} messages`);
+    const glossary = getGlossaryRef(get(), chatId);
+    const contextAwareIds = new Set(messages.filter((msg) => msg.context?.length).map((msg) => msg.id));
     
     // Filter out messages that are already cached
     const uncachedMessages = messages.filter((msg) => {
@@ -301,36 +452,51 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     
     try {
       // Batch translate uncached messages
-      const translations = await translationService.batchTranslateMessages(
+      const results = await translationService.batchTranslateMessages(
         uncachedMessages,
-        targetLanguage
+        targetLanguage,
+        glossary
       );
       
       // Store all translations in cache
       set((state) => {
         const newTranslations = { ...state.translations };
+        const newQuality = { ...state.translationQuality };
         const newTranslating = { ...state.translating };
         
-        Object.entries(translations).forEach(([id, translatedText]) => {
-          if (!newTranslations[id]) {
-            newTranslations[id] = {};
-          }
-          newTranslations[id][targetLanguage] = translatedText;
+        Object.entries(results).forEach(([id, result]) => {
+          const quality = getTranslationQuality(result);
+          newTranslations[id] = { ...newTranslations[id], [targetLanguage]: result.translatedText };
+          newQuality[id] = { ...newQuality[id], [targetLanguage]: quality };
           newTranslating[id] = false;
           
           // Also cache in AsyncStorage
-          translationService.cacheTranslation(id, targetLanguage, translatedText);
+          translationService.cacheTranslation(
+            id,
+            targetLanguage,
+            result.translatedText,
+            glossary?.version,
+            contextAwareIds.has(id)
+          );
+          translationService.cacheTranslationQuality(
+            id,
+            targetLanguage,
+            quality,
+            glossary?.version,
+            contextAwareIds.has(id)
+          );
         });
         
         return {
           translations: newTranslations,
+          translationQuality: newQuality,
           translating: newTranslating,
         };
       });
       
       // Return all translations (cached + new)
       return messages.reduce((acc, msg) => {
-        acc[msg.id] = translations[msg.id] || get().translations[msg.id]?.[targetLanguage] || msg.text;
+        acc[msg.id] = results[msg.id]?.translatedText || get().translations[msg.id]?.[targetLanguage] || msg.text;
         return acc;
       }, {} as Record<string, string>);
     } catch (error) {
@@ -482,12 +648,17 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     }
   },
   
-  adjustFormality: async (text, level, targetLanguage) => {
+  adjustFormality: async (text, level, targetLanguage, chatId) => {
     // Set loading
     set({ loadingFormality: true, errors: { ...get().errors, formality: null } });
     
     try {
-      const adjusted = await translationService.adjustFormality(text, level, targetLanguage);
+      const adjusted = await translationService.adjustFormality(
+        text,
+        level,
+        targetLanguage,
+        getGlossaryRef(get(), chatId)
+      );
       
       set({ loadingFormality: false });
       
@@ -522,7 +693,8 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
       const summary = await translationService.summarizeMultilingualThread(
         messages,
         users,
-        userLanguage
+        userLanguage,
+        getGlossaryRef(get(), chatId)
       );
       
       set((state) => ({
@@ -545,10 +717,12 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
     if (messageId) {
       set((state) => {
         const { [messageId]: _, ...restTranslations } = state.translations;
+        const { [messageId]: _q, ...restQuality } = state.translationQuality;
         const { [messageId]: _c, ...restCultural } = state.culturalContexts;
         const { [messageId]: _s, ...restSlang } = state.slangExplanations;
         return { 
           translations: restTranslations,
+          translationQuality: restQuality,
           culturalContexts: restCultural,
           slangExplanations: restSlang,
         };
@@ -558,10 +732,12 @@ export const useTranslationStore = create<TranslationState & TranslationActions>
         `cultural_cache_${messageId}`,
         `slang_cache_${messageId}`,
       ]);
+      translationService.clearCachedTranslations(messageId);
     } else {
       // Clear all caches
       set({ 
         translations: {},
+        translationQuality: {},
         culturalContexts: {},
         slangExplanations: {},
       });
@@ -14,19 +14,43 @@ export interface AIAssistantResponse {
     toolCallsUsed: number;
     usedRAG: boolean;
     usedFunctionCalling: boolean;
+    sessionId?: string; // Stored session (see AssistantSessionRecord)
+    threadId?: string; // Pass back to ask a follow-up in the same conversation
   };
 }
 
 export interface ActionItem {
+  id?: string; // Saved to the chat's task list (see ChatActionItem)
   item: string;
   priority?: 'high' | 'medium' | 'low';
   assignee?: string;
+  assigneeId?: string | null; // Participant the assignee name matched
+}
+
+/**
+ * An action item on a chat's task list (chats/{chatId}/actionItems)
+ */
+export interface ChatActionItem {
+  id: string;
+  text: string;
+  priority: ActionItem['priority'] | null;
+  assigneeId: string | null;
+  assigneeName: string | null;
+  done: boolean;
+  doneBy: string | null;
+  doneAt: Date | null;
+  createdBy: string;
+  sourceMessageIds: string[];
+  createdAt: Date;
 }
 
 export interface ImportantDate {
-  date: string;
+  date: string; // As mentioned ("next Friday at 3pm")
   description: string;
   isDeadline?: boolean;
+  messageId?: string; // Message that mentions it
+  resolvedStart?: string; // YYYY-MM-DD when allDay, otherwise an ISO timestamp
+  allDay?: boolean;
 }
 
 export interface ToneAnalysis {
@@ -45,5 +69,37 @@ export interface AIAssistantQuery {
   chatId: string;
   query: string;
   userLanguage?: string;
+  sessionId?: string; // Stream progress to chats/{chatId}/assistantSessions/{sessionId}
+  threadId?: string; // Continue an earlier conversation
+  timezoneOffset?: number; // Minutes east of UTC, for resolving dates like "Friday at 3pm"
 }
 
+export type AssistantSessionStatus = 'running' | 'completed' | 'failed';
+
+export interface AssistantProgressStep {
+  tool: string; // Assistant tool name (e.g. search_conversation_semantically)
+  at: number; // ms since epoch
+}
+
+/**
+ * Progress of a running assistant query, written by the server while it works
+ */
+export interface AssistantSessionProgress {
+  status: AssistantSessionStatus;
+  steps: AssistantProgressStep[];
+  partialText: string; // Answer text generated so far
+}
+
+
+/**
+ * A stored assistant query, for the history view
+ */
+export interface AssistantSessionRecord {
+  id: string;
+  threadId: string;
+  query: string;
+  status: AssistantSessionStatus;
+  steps: AssistantProgressStep[];
+  result: AIAssistantResponse | null; // Set once completed
+  createdAt: Date;
+}
@@ -3,6 +3,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import { TranslationQuality } from './translation';
 
 /**
  * User interface matching Firestore users collection
@@ -18,6 +19,7 @@ export interface User {
   avatarColor?: string; // Hex color for avatar background
   createdAt: Timestamp | Date;
   preferredLanguage?: string; // ISO 639-1 code (e.g., 'en', 'es', 'fr')
+  timezoneOffset?: number; // Minutes east of UTC, updated when the user comes online
 }
 
 /**
@@ -25,6 +27,11 @@ export interface User {
  */
 export type ChatType = 'direct' | 'group';
 
+/**
+ * Group member role - the owner and admins manage membership
+ */
+export type GroupRole = 'owner' | 'admin' | 'member';
+
 /**
  * Chat interface matching Firestore chats collection
  */
@@ -37,13 +44,21 @@ export interface Chat {
   createdAt: Timestamp | Date;
   groupName?: string; // Only for group chats
   groupPhoto?: string; // Only for group chats
+  ownerId?: string; // Only for group chats
+  roles?: Record<string, GroupRole>; // Only for group chats; participants without an entry are members
 }
 
+/**
+ * Message kind - sent by a user (text or photo), or generated for a chat event
+ */
+export type MessageType = 'text' | 'image' | 'system';
+
 /**
  * Message interface matching Firestore messages subcollection
  */
 export interface Message {
   id: string;
+  type?: MessageType; // Missing on older messages; use getMessageType()
   text: string;
   senderId: string;
   timestamp: Timestamp | Date;
@@ -56,8 +71,60 @@ export interface Message {
   imageHeight?: number;
   detectedLanguage?: string; // ISO 639-1 code
   translationCache?: Record<string, string>; // { 'es': 'translated text', 'fr': '...' }
+  translationQuality?: Record<string, TranslationQuality>; // Server assessment of each translationCache entry
+  translationGlossaryVersion?: number; // Glossary version translationCache followed
+  editedAt?: Timestamp | Date; // Set when the sender edits the message
+  editHistory?: MessageRevision[]; // Previous versions, oldest first
+  deletedForEveryone?: boolean; // Soft-deleted by the sender; content is cleared
+  deletedAt?: Timestamp | Date; // When the message was deleted for everyone
+  deletedFor?: string[]; // User IDs who deleted the message for themselves only
+  reactions?: Record<string, string[]>; // { '👍': ['uid1', 'uid2'], '❤️': ['uid3'] }
+  replyTo?: MessageReplyRef; // Set when the message quotes an earlier message
+  system?: SystemMessagePayload; // Set when type is 'system'
+}
+
+/**
+ * A previous version of an edited message
+ */
+export interface MessageRevision {
+  text: string;
+  editedAt: Timestamp | Date; // When this version was replaced
+}
+
+export interface MessageReplyRef {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  text: string; // Snippet of the original message at the time of the reply
+  deleted?: boolean; // Set by the server once the original is deleted for everyone (text is then empty)
+}
+
+/**
+ * Chat event recorded as a system message
+ * Names are stored so the message still reads correctly after someone leaves
+ */
+export type SystemMessageEvent =
+  | 'member_added'
+  | 'member_removed'
+  | 'member_left'
+  | 'admin_promoted'
+  | 'admin_demoted'
+  | 'group_renamed'
+  | 'task_completed';
+
+export interface SystemMessagePayload {
+  event: SystemMessageEvent;
+  actorName: string; // The message's senderId is the actor
+  targetId?: string; // Member affected by the change
+  targetName?: string;
+  groupName?: string; // New name, for group_renamed
+  taskId?: string; // Completed action item, for task_completed
+  taskText?: string;
 }
 
+// Who a message is deleted for: only the current user, or every participant
+export type MessageDeleteScope = 'me' | 'everyone';
+
 /**
  * UserChat interface for userChats subcollection
  * Tracks per-user chat metadata
@@ -66,6 +133,8 @@ export interface UserChat {
   chatId: string;
   unreadCount: number;
   lastViewed: Timestamp | Date;
+  lastReadMessageId?: string; // Newest message the user has read
+  lastReadTimestamp?: Timestamp; // Timestamp of that message; unread counts start after it
 }
 
 /**
@@ -84,6 +153,49 @@ export interface ChatWithDetails extends Chat {
   }>;
 }
 
+/**
+ * A message found by the global Search screen
+ */
+export interface MessageSearchResult {
+  chatId: string;
+  messageId: string;
+  text: string;
+  senderId: string;
+  senderName?: string; // Only stored with semantic matches
+  timestamp: Date;
+  source: 'keyword' | 'semantic';
+  score?: number; // Similarity score for semantic matches
+}
+
+/**
+ * Today's usage of one AI feature (limits are enforced server-side)
+ */
+export interface AIQuotaStatus {
+  feature: string; // Callable name, e.g. 'translateText'
+  dailyCap: number;
+  usedToday: number;
+  remainingToday: number;
+  resetsAt: Date; // Next UTC midnight
+}
+
+/**
+ * Deadline reminder offered after a message set a deadline (reminders/{messageId}_{uid})
+ */
+export type ReminderStatus = 'offered' | 'scheduled' | 'sent' | 'dismissed';
+
+export interface DeadlineReminder {
+  id: string;
+  chatId: string;
+  messageId: string;
+  chatName: string;
+  text: string; // The message, truncated
+  dueAt: Date;
+  dueStart: string; // YYYY-MM-DD when allDay, otherwise an ISO timestamp
+  allDay: boolean;
+  status: ReminderStatus;
+  remindAt: Date | null;
+}
+
 /**
  * Auth state
  */
@@ -103,6 +215,7 @@ export enum ErrorCode {
   AUTH_EMAIL_IN_USE = 'auth/email-already-in-use',
   AUTH_WEAK_PASSWORD = 'auth/weak-password',
   PERMISSION_DENIED = 'permission-denied',
+  RATE_LIMIT = 'rate_limit',
   NETWORK_ERROR = 'network-error',
   UNKNOWN = 'unknown',
 }
@@ -11,6 +11,15 @@ export interface TranslationResult {
   sourceLanguage: string;
   targetLanguage: string;
   confidence: number;
+  untranslatable?: string[]; // Parts of the original kept as-is (names, code, URLs)
+}
+
+/**
+ * How far a translation shown to the user can be trusted
+ */
+export interface TranslationQuality {
+  confidence: number; // 0-1
+  untranslatable: string[];
 }
 
 /**
@@ -66,3 +75,41 @@ export class TranslationError extends Error {
   }
 }
 
+
+/**
+ * Glossary entry: a term with the chat's preferred translation per language,
+ * or kept as-is everywhere when doNotTranslate is set
+ */
+export interface GlossaryEntry {
+  term: string;
+  doNotTranslate: boolean;
+  translations: Record<string, string>; // language code -> preferred translation
+}
+
+/**
+ * Per-chat glossary (glossaries/{chatId}); version is bumped on every save
+ */
+export interface ChatGlossary {
+  entries: GlossaryEntry[];
+  version: number; // 0 when the chat has no glossary
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * Glossary a translation request should follow
+ * Results are cached per version so glossary edits take effect immediately
+ */
+export interface GlossaryRef {
+  chatId: string;
+  version: number;
+}
+
+/**
+ * A message preceding the one being translated, sent as context so short
+ * replies and pronouns translate correctly
+ */
+export interface TranslationContextMessage {
+  senderName: string;
+  text: string;
+}
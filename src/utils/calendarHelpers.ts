@@ -0,0 +1,176 @@
+/**
+ * Calendar Helpers
+ *
+ * Utility functions for exporting dates found in conversations as iCalendar (.ics, RFC 5545)
+ */
+
+import i18n from '../i18n';
+import { ImportantDate } from '../types/assistant';
+
+// Custom URL scheme (app.json "scheme"); links open the chat at a message
+export const APP_URL_SCHEME = 'messageai';
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  url?: string;
+  start: string; // YYYY-MM-DD when allDay, otherwise an ISO timestamp
+  allDay: boolean;
+}
+
+// Timed events get a default length; the conversation rarely says how long
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+/**
+ * Deep link to a message in a chat
+ * @param chatId - The chat ID
+ * @param messageId - The message to scroll to
+ */
+export const buildMessageLink = (chatId: string, messageId: string): string => {
+  return `${APP_URL_SCHEME}://chat/${encodeURIComponent(chatId)}?messageId=${encodeURIComponent(messageId)}`;
+};
+
+/**
+ * Show an event start (YYYY-MM-DD or ISO timestamp) in the user's locale
+ */
+export const formatEventStart = (start: string, allDay: boolean): string => {
+  if (allDay) {
+    // Local midnight, so the day doesn't shift with the timezone
+    return new Date(`${start}T00:00:00`).toLocaleDateString(i18n.locale, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+  return new Date(start).toLocaleString(i18n.locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Escape TEXT values (commas, semicolons, backslashes and newlines)
+ */
+export const escapeICalText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold content lines longer than 75 characters (continuation lines start with a space)
+ */
+export const foldICalLine = (line: string): string => {
+  const chunks: string[] = [];
+  let rest = line;
+
+  while (rest.length > 75) {
+    const size = chunks.length === 0 ? 75 : 74;
+    chunks.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  chunks.push(rest);
+
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Format a timestamp as a UTC date-time (20250115T100000Z)
+ */
+export const formatICalDateTime = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Add days to a YYYY-MM-DD date and format it as a DATE value (20250116)
+ */
+const formatICalDate = (day: string, addDays: number = 0): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + addDays);
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+/**
+ * Build an iCalendar file
+ * @param events - Events to include
+ * @param now - Creation time (DTSTAMP)
+ * @returns .ics content with CRLF line endings
+ */
+export const buildICalendar = (events: CalendarEvent[], now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MessageAI//Conversation Dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatICalDateTime(now)}`);
+
+    if (event.allDay) {
+      // DTEND is exclusive, so a one-day event ends the next day
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatICalDate(event.start)}`,
+        `DTEND;VALUE=DATE:${formatICalDate(event.start, 1)}`
+      );
+    } else {
+      const start = new Date(event.start);
+      lines.push(
+        `DTSTART:${formatICalDateTime(start)}`,
+        `DTEND:${formatICalDateTime(new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS))}`
+      );
+    }
+
+    lines.push(`SUMMARY:${escapeICalText(event.title)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Check whether an extracted date could be resolved to a day or time
+ */
+export const isExportableDate = (
+  date: ImportantDate
+): date is ImportantDate & { resolvedStart: string } => {
+  return !!date.resolvedStart;
+};
+
+/**
+ * Turn an extracted date into a calendar event
+ * @param date - Date resolved by the AI assistant
+ * @param chatId - Chat it was found in, for the source message link
+ * @param deadlinePrefix - Localized prefix for deadline titles
+ */
+export const importantDateToEvent = (
+  date: ImportantDate & { resolvedStart: string },
+  chatId: string,
+  deadlinePrefix: string
+): CalendarEvent => {
+  const url = date.messageId ? buildMessageLink(chatId, date.messageId) : undefined;
+  const description = [`"${date.date}"`, url].filter(Boolean).join('\n\n');
+
+  return {
+    uid: `${chatId}-${date.messageId || 'chat'}-${date.resolvedStart}@${APP_URL_SCHEME}`,
+    title: date.isDeadline ? `${deadlinePrefix}: ${date.description}` : date.description,
+    description,
+    url,
+    start: date.resolvedStart,
+    allDay: date.allDay !== false,
+  };
+};
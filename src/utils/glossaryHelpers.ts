@@ -0,0 +1,68 @@
+/**
+ * Glossary Helpers
+ * 
+ * Utility functions for editing a chat's translation glossary
+ */
+
+import { GlossaryEntry } from '../types/translation';
+
+// Matches the limit enforced by the Firestore rules
+export const MAX_GLOSSARY_ENTRIES = 100;
+
+const sameTerm = (a: string, b: string): boolean =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Clean up an entry before saving: trim the term and drop empty translations
+ * (a do-not-translate term keeps no translations)
+ */
+export const normalizeGlossaryEntry = (entry: GlossaryEntry): GlossaryEntry => {
+  const translations: Record<string, string> = {};
+  if (!entry.doNotTranslate) {
+    Object.entries(entry.translations).forEach(([language, translation]) => {
+      if (translation.trim()) {
+        translations[language] = translation.trim();
+      }
+    });
+  }
+
+  return { term: entry.term.trim(), doNotTranslate: entry.doNotTranslate, translations };
+};
+
+/**
+ * Add an entry, or replace the one for the same term (case-insensitive)
+ * @param entries - Current entries
+ * @param entry - Entry to save
+ * @param previousTerm - Term of the entry being edited, if it was renamed
+ * @returns The new entries, sorted by term
+ */
+export const upsertGlossaryEntry = (
+  entries: GlossaryEntry[],
+  entry: GlossaryEntry,
+  previousTerm?: string
+): GlossaryEntry[] => {
+  const normalized = normalizeGlossaryEntry(entry);
+
+  return entries
+    .filter((existing) =>
+      !sameTerm(existing.term, normalized.term) &&
+      !(previousTerm && sameTerm(existing.term, previousTerm))
+    )
+    .concat(normalized)
+    .sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+};
+
+/**
+ * Remove the entry for a term (case-insensitive)
+ */
+export const removeGlossaryEntry = (entries: GlossaryEntry[], term: string): GlossaryEntry[] =>
+  entries.filter((entry) => !sameTerm(entry.term, term));
+
+/**
+ * Whether an entry says anything: a term that is kept as-is or has a translation
+ */
+export const isCompleteGlossaryEntry = (entry: GlossaryEntry): boolean => {
+  const normalized = normalizeGlossaryEntry(entry);
+  return normalized.term.length > 0 &&
+    (normalized.doNotTranslate || Object.keys(normalized.translations).length > 0);
+};
@@ -0,0 +1,60 @@
+/**
+ * Group Helpers
+ * 
+ * Utility functions for group roles
+ */
+
+import { Chat, GroupRole } from '../types';
+
+type GroupChatRoles = Pick<Chat, 'participants' | 'roles' | 'ownerId'>;
+
+/**
+ * Get a participant's role in a group
+ * Groups created before roles existed have no roles map; every member is an admin there
+ * @param chat - The group chat
+ * @param userId - The participant
+ * @returns The participant's role
+ */
+export const getGroupRole = (chat: GroupChatRoles, userId: string): GroupRole => {
+  if (!chat.roles) {
+    return 'admin';
+  }
+  if (chat.ownerId === userId) {
+    return 'owner';
+  }
+  return chat.roles[userId] || 'member';
+};
+
+/**
+ * Get the role of every participant, filling in members without an entry
+ * @param chat - The group chat
+ * @returns Roles keyed by user ID
+ */
+export const getGroupRoles = (chat: GroupChatRoles): Record<string, GroupRole> => {
+  const roles: Record<string, GroupRole> = {};
+  chat.participants.forEach(userId => {
+    roles[userId] = getGroupRole(chat, userId);
+  });
+  return roles;
+};
+
+/**
+ * Check whether a participant can add/remove members and change roles
+ */
+export const canManageMembers = (chat: GroupChatRoles, userId: string): boolean => {
+  const role = getGroupRole(chat, userId);
+  return chat.participants.includes(userId) && (role === 'owner' || role === 'admin');
+};
+
+/**
+ * Pick who takes over a group when its owner leaves
+ * Prefers the first admin, then the first remaining member
+ * @param chat - The group chat
+ * @param leavingUserId - The current owner
+ * @returns New owner's user ID, or null if nobody else is left
+ */
+export const pickNextOwner = (chat: GroupChatRoles, leavingUserId: string): string | null => {
+  const remaining = chat.participants.filter(userId => userId !== leavingUserId);
+  const nextAdmin = remaining.find(userId => getGroupRole(chat, userId) === 'admin');
+  return nextAdmin || remaining[0] || null;
+};
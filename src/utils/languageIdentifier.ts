@@ -0,0 +1,330 @@
+/**
+ * Language Identifier
+ * 
+ * Offline, dependency-free language identification, so most messages don't
+ * need a round trip to the detectLanguage Cloud Function.
+ * Non-Latin scripts identify their language directly (Cyrillic -> ru, kana ->
+ * ja, ...); Latin-script text is scored with a naive Bayes model over
+ * character 1-3-grams. Covers languageService.COMMON_LANGUAGES.
+ */
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export interface LanguageIdentification {
+  languageCode: string; // ISO 639-1 code, or 'und' if the text has no letters
+  confidence: number; // 0-1
+}
+
+/**
+ * Most frequent character 1-3-grams ('_' marks a word boundary) with their
+ * counts, from ~300 words of everyday chat text per language
+ */
+const LATIN_PROFILES: Record<string, { total: number; grams: string }> = {
+  en: {
+    total: 4307,
+    grams:
+      'e:183 t:137 o:112 a:97 h:90 n:89 e_:87 i:79 _t:66 r:66 s:61 th:55 d:48 _th:46 l:46 w:46 ' +
+      't_:45 u:44 he:43 y:38 _w:37 the:36 m:35 d_:31 he_:31 s_:31 g:30 ou:30 _a:28 k:26 _i:25 ' +
+      'b:25 in:22 ha:19 _b:18 _m:18 c:18 on:18 re:18 f:17 n_:17 r_:17 y_:17 _h:16 _y:16 at:16 ' +
+      'me:16 ne:16 p:16 yo:16 _s:15 an:15 or:15 _yo:14 en:14 er:14 is:14 nd:14 ng:14 v:14 ' +
+      'you:14 _l:13 ea:13 g_:13 ing:13 is_:13 ng_:13 o_:13 ou_:13 u_:13 _n:12 _to:12 ee:12 ' +
+      'to:12 ve:12 k_:11 nd_:11 _d:10 _ha:10 _o:10 _r:10 _we:10 as:10 at_:10 hi:10 me_:10 ' +
+      'we:10 _i_:9 _is:9 _ne:9 be:9 i_:9 nt:9 thi:9 ul:9 ut:9 _a_:8 _an:8 _c:8 _f:8 _p:8 _re:8 ' +
+      '_wa:8 _wh:8 a_:8 al:8 and:8 ld:8 ld_:8 om:8 oul:8 se:8 to_:8 uld:8 w_:8 wa:8 wh:8 _be:7 ' +
+      '_me:7 _wo:7 er_:7 et:7 fo:7 hat:7 ho:7 it:7 le:7 nt_:7 on_:7 ta:7 ut_:7 ve_:7 wo:7 ' +
+      '_bu:6 _e:6 _fo:6 _g:6 _on:6 ar:6 as_:6 av:6 ave:6 ay:6 bu:6 es:6 h_:6 ll:6 mo:6 ne_:6 ' +
+      'ni:6 no:6 one:6 oo:6 or_:6 ow:6 re_:6 st:6 ti:6 ur:6 we_:6 _k:5 _mo:5 all:5 ay_:5 do:5 ' +
+      'ed:5 ed_:5 en_:5 end:5 et_:5 for:5 her:5 hin:5 ig:5 l_:5 lo:5 ome:5 out:5 ow_:5 pr:5 ' +
+      'rea:5 ri:5 ro:5 te:5 tha:5 _ab:4 _co:4 _do:4 _ho:4 _kn:4 _le:4 _lo:4 _pr:4 _wi:4 ab:4 ' +
+      'abo:4 be_:4 bo:4 bou:4 ch:4 ck:4 co:4 ge:4 gh:4 ght:4 hav:4 his:4 hou:4 ht:4 ht_:4 ic:4 ' +
+      'igh:4 ke:4 ki:4 kn:4 kno:4 lea:4 lk:4 ll_:4 ma:4 nk:4 now:4 ry:4 se_:4 th_:4 us:4 was:4 ' +
+      'whe:4 wi:4 _ev:3 _go:3 _la:3 _se:3 _sh:3 _so:3 ad:3 alk:3 am:3 ant:3 but:3 ck_:3 da:3 ' +
+      'day:3 de:3 eed:3 eek:3 ek:3 ent:3 ery:3 ev:3 eve:3 ew:3 ew_:3 ey:3 ey_:3 f_:3 go:3 ' +
+      'han:3 hen:3 hey:3 id:3 im:3 in_:3 ink:3 io:3 ith:3 j:3 kin:3 la:3 li:3 lk_:3 ly:3 ly_:3 ' +
+      'm_:3 mi:3 nee:3 new:3 nig:3 ot:3 ov:3 pl:3 ra:3 rk:3 rr:3 sh:3 sho:3 so:3 st_:3 sta:3 ' +
+      'ver:3 wee:3 wha:3 wit:3 wou:3 _ar:2 _at:2 _br:2 _ca:2 _ch:2 _da:2 ',
+  },
+  es: {
+    total: 4301,
+    grams:
+      'e:201 a:163 o:113 s:93 r:84 n:83 e_:67 l:65 u:61 t:60 i:56 a_:54 d:54 m:53 o_:53 c:47 ' +
+      'p:42 _e:39 s_:38 _p:32 es:32 _d:28 ue:27 de:26 n_:26 l_:25 en:24 _l:23 _de:22 ar:22 ' +
+      'v:22 _a:21 _c:21 an:21 el:21 q:21 qu:21 el_:20 _m:19 _t:19 st:19 de_:18 er:18 ta:18 ' +
+      'do:17 h:17 la:17 os:17 os_:17 r_:17 te:17 _el:16 _es:16 _q:16 _qu:16 as:16 est:16 í:16 ' +
+      '_s:14 b:14 do_:14 la_:14 que:14 re:14 me:13 ra:13 se:13 g:12 mo:12 pa:12 ro:12 to:12 ' +
+      'ue_:12 _n:11 es_:11 te_:11 y:11 _h:10 _la:10 _pa:10 _v:10 ma:10 na:10 pr:10 sa:10 y_:10 ' +
+      'am:9 co:9 cu:9 f:9 j:9 no:9 nt:9 or:9 po:9 sta:9 ía:9 _co:8 ar_:8 as_:8 im:8 in:8 lo:8 ' +
+      'mi:8 na_:8 on:8 vi:8 _pe:7 _pr:7 _se:7 _y:7 _y_:7 ca:7 ce:7 ch:7 em:7 en_:7 ie:7 me_:7 ' +
+      'mos:7 nd:7 oc:7 pe:7 un:7 _a_:6 _en:6 _lo:6 _po:6 _r:6 _te:6 ab:6 al:6 ana:6 ba:6 ec:6 ' +
+      'ero:6 fi:6 ha:6 he:6 le:6 ndo:6 ne:6 od:6 on_:6 res:6 ro_:6 rí:6 ría:6 si:6 ta_:6 to_:6 ' +
+      'tr:6 ve:6 vo:6 ía_:6 ñ:6 ó:6 _ca:5 _f:5 _ha:5 _i:5 _me:5 _no:5 _u:5 _un:5 _vi:5 ac:5 ' +
+      'ad:5 aj:5 and:5 ant:5 asa:5 av:5 ci:5 con:5 ene:5 ev:5 ga:5 he_:5 ia:5 is:5 nu:5 or_:5 ' +
+      'par:5 rm:5 rt:5 uev:5 á:5 é:5 _cu:4 _g:4 _mi:4 _mu:4 _nu:4 _re:4 _to:4 _tr:4 aba:4 ' +
+      'ado:4 amo:4 cer:4 che:4 cua:4 del:4 ent:4 evo:4 i_:4 jo:4 ll:4 lo_:4 man:4 men:4 mp:4 ' +
+      'mu:4 no_:4 noc:4 nte:4 nue:4 odo:4 om:4 per:4 por:4 pre:4 pu:4 pue:4 rar:4 rd:4 rme:4 ' +
+      'ten:4 ti:4 tod:4 tra:4 ua:4 un_:4 ué:4 é_:4 ón:4 _an:3 _ce:3 _fi:3 _le:3 _ll:3 _ma:3 ' +
+      '_o:3 _ta:3 _ve:3 aci:3 al_:3 an_:3 arm:3 añ:3 baj:3 bl:3 cas:3 da:3 dí:3 día:3 eg:3 ' +
+      'ema:3 emo:3 erí:3 fin:3 gas:3 gu:3 ho:3 ien:3 ier:3 imo:3 in_:3 ir:3 ió:3 ión:3 je:3 ' +
+      'jo_:3 le_:3 lla:3 los:3 mo_:3 muc:3 ni:3 nto:3 och:3 ol:3 oy:3 pas:3 qui:3 qué:3 ra_:3 ' +
+      'rab:3 sa_:3 se_:3 sem:3 ste:3 sto:3 tar:3 uan:3 uc:3 uch:3 ues:3 ui:3 ',
+  },
+  fr: {
+    total: 4471,
+    grams:
+      'e:201 a:121 t:104 r:102 u:96 i:92 e_:90 s:90 n:87 o:78 l:69 t_:55 p:51 m:42 s_:42 d:40 ' +
+      'c:39 _p:35 _l:34 ai:32 v:30 u_:29 _d:28 _m:25 le:25 n_:25 ou:25 é:24 _a:23 _t:23 r_:22 ' +
+      '_e:21 er:21 _c:20 en:20 es:20 on:20 re:20 nt:19 a_:18 is:17 _le:16 _s:16 de:16 ra:16 ' +
+      '_la:15 er_:15 j:15 la:15 le_:15 _j:14 au:14 is_:14 la_:14 me:14 nt_:14 q:14 qu:14 ' +
+      '_de:13 _pa:13 it:13 pa:13 se:13 _q:12 _qu:12 _r:12 b:12 ce:12 et:12 f:12 il:12 pr:12 ' +
+      'st:12 ur:12 _ce:11 ais:11 an:11 est:11 eu:11 g:11 in:11 it_:11 l_:11 ma:11 on_:11 ' +
+      're_:11 tr:11 tu:11 _b:10 _i:10 _n:10 _o:10 _tu:10 _v:10 ar:10 av:10 ce_:10 et_:10 i_:10 ' +
+      'je:10 tu_:10 ut:10 ve:10 _es:9 _je:9 _ma:9 _pr:9 ait:9 as:9 de_:9 ent:9 oi:9 pe:9 po:9 ' +
+      'st_:9 te:9 à:9 à_:9 _mo:8 _à:8 _à_:8 ea:8 eau:8 h:8 je_:8 mai:8 mo:8 ne:8 rai:8 ro:8 ' +
+      'se_:8 so:8 é_:8 _et:7 _f:7 _il:7 _no:7 _pe:7 au_:7 c_:7 co:7 ie:7 il_:7 men:7 nd:7 ' +
+      'ne_:7 no:7 our:7 ta:7 te_:7 ut_:7 va:7 _av:6 _po:6 _re:6 ain:6 ant:6 as_:6 ch:6 d_:6 ' +
+      'di:6 es_:6 in_:6 nou:6 ns:6 par:6 pas:6 que:6 ue:6 un:6 è:6 _be:5 _du:5 _en:5 _on:5 ' +
+      '_se:5 _to:5 _tr:5 _u:5 _un:5 ava:5 be:5 du:5 du_:5 ge:5 im:5 ir:5 nd_:5 om:5 pro:5 rt:5 ' +
+      'ré:5 sa:5 to:5 tra:5 tre:5 un_:5 _me:4 _sa:4 _é:4 al:4 ap:4 bea:4 cou:4 el:4 ens:4 ' +
+      'eux:4 fa:4 ir_:4 li:4 ll:4 mer:4 mi:4 nse:4 né:4 oc:4 oir:4 ome:4 ont:4 or:4 out:4 ' +
+      'ouv:4 p_:4 pou:4 rav:4 ri:4 rr:4 soi:4 ss:4 tou:4 ue_:4 ui:4 up:4 us:4 uv:4 ux:4 ux_:4 ' +
+      'vai:4 vo:4 x:4 x_:4 y:4 èr:4 ère:4 ê:4 êt:4 _as:3 _au:3 _c_:3 _co:3 _di:3 _do:3 _fa:3 ' +
+      '_g:3 _mi:3 _ou:3 _ra:3 _so:3 _ét:3 _ê:3 _êt:3 ag:3 ail:3 and:3 app:3 ass:3 at:3 auc:3 ' +
+      'aut:3 ave:3 bl:3 cha:3 do:3 ec:3 ec_:3 fi:3 ga:3 ge_:3 ha:3 ime:3 ine:3 iso:3 ler:3 ' +
+      'les:3 leu:3 lle:3 lé:3 lé_:3 mom:3 mon:3 ni:3 née:3 ol:3 ort:3 oup:3 oy:3 pen:3 peu:3 ' +
+      'por:3 pp:3 ',
+  },
+  de: {
+    total: 4865,
+    grams:
+      'e:239 n:148 s:113 i:109 r:94 t:94 a:92 d:85 h:79 n_:69 en:68 _d:57 u:57 c:56 ch:53 ' +
+      'en_:48 e_:47 l:46 b:45 t_:45 m:42 r_:42 w:39 er:37 o:36 _w:35 g:35 s_:33 de:31 be:24 ' +
+      '_s:23 as:23 ic:23 k:23 te:23 _b:22 ei:22 es:22 ich:22 h_:21 ch_:20 st:20 _da:19 _m:19 ' +
+      'da:19 er_:19 ie:19 _a:18 as_:18 ge:18 _de:17 das:17 he:17 ne:17 _i:16 _n:16 f:16 nd:16 ' +
+      '_e:15 _h:15 in:15 se:15 z:14 _g:13 ir:13 le:13 ss:13 st_:13 u_:13 un:13 ü:13 d_:12 ' +
+      'ha:12 ir_:12 ll:12 mi:12 sc:12 sch:12 te_:12 _ge:11 ar:11 au:11 di:11 it:11 m_:11 nn:11 ' +
+      'p:11 we:11 ä:11 _di:10 _ha:10 _k:10 _mi:10 _u:10 _un:10 _we:10 _wi:10 _z:10 ab:10 ' +
+      'che:10 den:10 g_:10 nd_:10 wi:10 _du:9 der:9 du:9 du_:9 ein:9 ht:9 ie_:9 is:9 nen:9 ' +
+      're:9 und:9 _ab:8 _be:8 _ic:8 abe:8 ag:8 an:8 ber:8 cht:8 nt:8 wa:8 zu:8 _ei:7 _f:7 _v:7 ' +
+      '_wa:7 _zu:7 ben:7 die:7 es_:7 et:7 eu:7 ig:7 in_:7 lle:7 oc:7 och:7 si:7 sse:7 v:7 ' +
+      'wir:7 _bi:6 _sc:6 bes:6 bi:6 de_:6 el:6 end:6 hen:6 ht_:6 it_:6 nde:6 om:6 on:6 sen:6 ' +
+      'ta:6 ti:6 ue:6 wo:6 ö:6 ür:6 _es:5 _p:5 _r:5 _si:5 ag_:5 al:5 all:5 eh:5 eit:5 enn:5 ' +
+      'hr:5 ine:5 ke:5 li:5 nk:5 nn_:5 rt:5 tt:5 us:5 _he:4 _is:4 _no:4 _so:4 _sp:4 _t:4 _vo:4 ' +
+      '_wo:4 ar_:4 at:4 chs:4 ern:4 ess:4 ge_:4 hau:4 hs:4 ist:4 j:4 ko:4 kom:4 len:4 lt:4 ' +
+      'me:4 mir:4 mit:4 mm:4 na:4 no:4 noc:4 ol:4 oll:4 omm:4 pa:4 ra:4 rb:4 rd:4 rde:4 ri:4 ' +
+      'rn:4 ro:4 rt_:4 sie:4 so:4 sol:4 sp:4 ste:4 tag:4 ten:4 tig:4 tte:4 ut:4 ute:4 vo:4 ' +
+      'war:4 wen:4 ze:4 zu_:4 ön:4 _al:3 _br:3 _j:3 _kö:3 _mo:3 _na:3 _ne:3 _nä:3 _pa:3 _re:3 ' +
+      '_ze:3 _ü:3 _üb:3 ac:3 ach:3 am:3 am_:3 arb:3 ass:3 aue:3 aus:3 bis:3 bl:3 br:3 ck:3 ' +
+      'dem:3 em:3 em_:3 ene:3 ent:3 erl:3 esc:3 est:3 et_:3 eue:3 eut:3 fe:3 gen:3 ges:3 gt:3 ' +
+      'gt_:3 hei:3 heu:3 hst:3 iel:3 ier:3 im:3 itt:3 k_:3 ken:3 kö:3 la:3 lei:3 lic:3 llt:3 ' +
+      'mo:3 nac:3 ne_:3 ',
+  },
+  it: {
+    total: 4576,
+    grams:
+      'o:165 a:162 i:152 e:139 r:102 t:96 o_:91 n:86 s:79 l:68 m:59 c:58 e_:56 a_:51 p:48 ' +
+      'i_:47 d:44 u:42 _p:32 re:32 _s:31 v:29 _c:28 _d:26 to:26 ar:25 g:24 to_:24 an:22 _m:21 ' +
+      'b:21 er:21 _i:20 ta:20 l_:19 re_:19 st:19 ia:17 io:17 ti:17 co:16 la:16 mo:16 no:16 ' +
+      'ri:16 ro:16 _a:15 f:15 il:15 on:15 or:15 en:14 ra:14 se:14 at:13 ci:13 do:13 el:13 h:13 ' +
+      'ma:13 nt:13 q:13 qu:13 _e:12 _q:12 _qu:12 am:12 es:12 no_:12 sa:12 tt:12 _f:11 _il:11 ' +
+      '_t:11 are:11 de:11 di:11 il_:11 in:11 mo_:11 n_:11 ne:11 _co:10 _l:10 _la:10 _r:10 ' +
+      'ic:10 im:10 ll:10 mi:10 os:10 ov:10 pa:10 po:10 pr:10 tr:10 _de:9 _n:9 _pa:9 gi:9 la_:9 ' +
+      'nd:9 ne_:9 pe:9 si:9 sta:9 _di:8 _pr:8 _st:8 _u:8 _v:8 di_:8 io_:8 lo:8 na:8 rt:8 so:8 ' +
+      'ss:8 ta_:8 ti_:8 vo:8 _do:7 _e_:7 _g:7 _mi:7 _ri:7 _se:7 and:7 as:7 bi:7 ch:7 da:7 ' +
+      'el_:7 ere:7 iam:7 lo_:7 me:7 ol:7 par:7 ra_:7 ro_:7 sto:7 te:7 ua:7 ve:7 vi:7 _b:6 ' +
+      '_ch:6 _fa:6 _h:6 _ha:6 _ma:6 _pe:6 _vi:6 _è:6 _è_:6 al:6 amo:6 av:6 ci_:6 del:6 do_:6 ' +
+      'ent:6 fa:6 gio:6 ha:6 is:6 na_:6 ni:6 om:6 qua:6 que:6 sa_:6 tti:6 ue:6 un:6 uo:6 è:6 ' +
+      'è_:6 _a_:5 _ca:5 _mo:5 _po:5 _un:5 ap:5 ato:5 bb:5 ca:5 cc:5 ce:5 con:5 cu:5 ell:5 ' +
+      'est:5 et:5 ett:5 fi:5 gg:5 ggi:5 ima:5 llo:5 lt:5 ma_:5 man:5 mp:5 ndo:5 nto:5 on_:5 ' +
+      'per:5 pro:5 ser:5 tro:5 ut:5 _al:4 _ci:4 _fi:4 _gi:4 _i_:4 _sa:4 _si:4 _so:4 _tu:4 ac:4 ' +
+      'ant:4 avo:4 be:4 che:4 cio:4 ed:4 em:4 era:4 eri:4 he:4 he_:4 ie:4 ion:4 li:4 men:4 ' +
+      'mi_:4 nu:4 og:4 ono:4 pi:4 pp:4 ri_:4 sc:4 so_:4 te_:4 tim:4 tre:4 tto:4 tu:4 tut:4 ' +
+      'un_:4 uov:4 utt:4 va:4 vor:4 z:4 zi:4 _an:3 _es:3 _me:3 _ne:3 _no:3 _nu:3 _o:3 _pi:3 ' +
+      '_tr:3 acc:3 ag:3 ai:3 ai_:3 all:3 ana:3 ann:3 app:3 art:3 asa:3 ata:3 att:3 az:3 azi:3 ' +
+      'bbe:3 be_:3 bia:3 cas:3 chi:3 co_:3 cos:3 dar:3 dov:3 eb:3 ebb:3 ens:3 er_:3 ess:3 ' +
+      'fin:3 gl:3 gli:3 ',
+  },
+  pt: {
+    total: 4464,
+    grams:
+      'e:173 o:169 a:161 s:97 r:88 m:86 o_:81 i:77 t:75 n:72 e_:59 a_:55 d:51 c:49 u:47 p:39 ' +
+      'v:33 _a:29 s_:29 _d:28 _e:28 m_:28 _p:27 l:26 r_:25 _o:24 te:23 _m:22 ar:22 de:22 em:22 ' +
+      'es:22 h:22 _n:21 os:21 do:20 q:20 qu:20 _c:19 _t:19 an:19 _de:18 _v:18 re:18 sa:18 ' +
+      '_s:17 do_:17 en:17 nt:17 to:17 er:16 f:16 ra:16 _q:15 _qu:15 os_:15 pr:15 st:15 ta:15 ' +
+      '_o_:14 ar_:14 as:14 co:14 de_:14 ma:14 que:14 se:14 ue:14 ã:14 _es:13 _f:13 g:13 ho:13 ' +
+      'is:13 me:13 no:13 vo:13 _no:12 em_:12 est:12 mo:12 ão:12 ão_:12 am:11 om:11 te_:11 ' +
+      'to_:11 _a_:10 _co:10 _pr:10 _se:10 b:10 nd:10 or:10 ri:10 ue_:10 fi:9 im:9 it:9 nh:9 ' +
+      'po:9 ve:9 _te:8 _vo:8 al:8 as_:8 ca:8 ec:8 ent:8 na:8 oc:8 oi:8 pa:8 pre:8 sa_:8 um:8 ' +
+      '_e_:7 _fi:7 _ma:7 ce:7 com:7 el:7 i_:7 ia:7 isa:7 na_:7 ndo:7 nte:7 ss:7 ê:7 _me:6 ' +
+      '_pa:6 _po:6 and:6 cê:6 cê_:6 da:6 ho_:6 in:6 ir:6 j:6 man:6 men:6 mp:6 ocê:6 on:6 ra_:6 ' +
+      'ro:6 rt:6 sta:6 u_:6 um_:6 vi:6 voc:6 ê_:6 _do:5 _h:5 _mu:5 _r:5 _re:5 _u:5 _um:5 _ve:5 ' +
+      'ai:5 amo:5 ara:5 av:5 ci:5 ema:5 er_:5 ia_:5 le:5 lh:5 lho:5 mi:5 mos:5 mu:5 no_:5 ' +
+      'nto:5 od:5 om_:5 ou:5 ov:5 pe:5 rec:5 se_:5 ta_:5 tr:5 ui:5 á:5 á_:5 ç:5 ó:5 _ac:4 ' +
+      '_ca:4 _ho:4 _i:4 _l:4 _nã:4 _pe:4 _tr:4 _à:4 _à_:4 ac:4 ad:4 ado:4 ant:4 cer:4 cis:4 ' +
+      'ece:4 eci:4 ei:4 ert:4 ga:4 go:4 ic:4 ig:4 ite:4 je:4 l_:4 la:4 me_:4 mo_:4 nã:4 não:4 ' +
+      'oj:4 oje:4 ont:4 ou_:4 ovo:4 par:4 pro:4 qua:4 res:4 ria:4 si:4 so:4 stá:4 tar:4 tem:4 ' +
+      'ti:4 tra:4 tá:4 tá_:4 ua:4 va:4 z:4 à:4 à_:4 é:4 é_:4 _ce:3 _di:3 _em:3 _en:3 _fa:3 ' +
+      '_g:3 _le:3 _na:3 _sa:3 _to:3 _vi:3 ab:3 ana:3 anh:3 asa:3 ass:3 at:3 avi:3 br:3 car:3 ' +
+      'cas:3 ch:3 con:3 cr:3 cu:3 da_:3 di:3 emp:3 enh:3 eri:3 es_:3 ez:3 fa:3 fic:3 ge:3 ha:3 ' +
+      'hoj:3 ica:3 im_:3 imo:3 io:3 ir_:3 ito:3 je_:3 mas:3 mpr:3 mui:3 nc:3 nho:3 ',
+  },
+};
+
+// Languages identified by their script alone; Han text with kana is Japanese
+const SCRIPT_RANGES: Array<{ languageCode: string; pattern: RegExp }> = [
+  { languageCode: 'ru', pattern: /[\u0400-\u04FF]/ },
+  { languageCode: 'ar', pattern: /[\u0600-\u06FF\u0750-\u077F]/ },
+  { languageCode: 'hi', pattern: /[\u0900-\u097F]/ },
+  { languageCode: 'ko', pattern: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/ },
+  { languageCode: 'ja', pattern: /[\u3040-\u30FF]/ },
+  { languageCode: 'zh', pattern: /[\u3400-\u4DBF\u4E00-\u9FFF]/ },
+];
+
+const LATIN_LETTER = /[a-zA-Z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u024F]/;
+
+// Letters outside the model's alphabet split words
+const NON_MODEL_LETTERS = /[^a-zß-öø-ÿœ]+/g;
+
+// Posterior sharpness: average log-likelihoods per n-gram are close together
+const LIKELIHOOD_SCALE = 8;
+
+// Average log-likelihood per n-gram below which text fits none of the
+// modelled languages (e.g. Dutch or Polish), and above which it fits fully
+const POOR_FIT = -7.0;
+const GOOD_FIT = -6.3;
+
+let parsedProfiles: Record<string, Map<string, number>> | null = null;
+
+function getProfiles(): Record<string, Map<string, number>> {
+  if (!parsedProfiles) {
+    parsedProfiles = {};
+    for (const [languageCode, profile] of Object.entries(LATIN_PROFILES)) {
+      parsedProfiles[languageCode] = new Map(
+        profile.grams.trim().split(' ').map((entry) => {
+          const separator = entry.lastIndexOf(':');
+          return [entry.slice(0, separator), Number(entry.slice(separator + 1))] as [string, number];
+        })
+      );
+    }
+  }
+  return parsedProfiles;
+}
+
+/**
+ * Character 1-3-grams of a text, per word with '_' marking word boundaries
+ */
+function extractNgrams(text: string): string[] {
+  const ngrams: string[] = [];
+  const words = text.toLowerCase().replace(NON_MODEL_LETTERS, ' ').split(' ').filter(Boolean);
+
+  for (const word of words) {
+    const padded = `_${word}_`;
+    for (let n = 1; n <= 3; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        const ngram = padded.slice(i, i + n);
+        if (ngram !== '_') {
+          ngrams.push(ngram);
+        }
+      }
+    }
+  }
+  return ngrams;
+}
+
+/**
+ * Probability of each Latin-script language, discounted when the text fits none of them
+ */
+function scoreLatinLanguages(text: string): Record<string, number> {
+  const ngrams = extractNgrams(text);
+  if (ngrams.length === 0) return {};
+
+  const profiles = getProfiles();
+  const likelihoods: Record<string, number> = {};
+  for (const [languageCode, counts] of Object.entries(profiles)) {
+    const total = LATIN_PROFILES[languageCode].total;
+    let logLikelihood = 0;
+    for (const ngram of ngrams) {
+      logLikelihood += Math.log(((counts.get(ngram) ?? 0) + 0.5) / total);
+    }
+    likelihoods[languageCode] = logLikelihood / ngrams.length;
+  }
+
+  const best = Math.max(...Object.values(likelihoods));
+  const fit = Math.min(1, Math.max(0, (best - POOR_FIT) / (GOOD_FIT - POOR_FIT)));
+
+  const weights = Object.entries(likelihoods).map(
+    ([languageCode, likelihood]) => [languageCode, Math.exp((likelihood - best) * LIKELIHOOD_SCALE)] as const
+  );
+  const sum = weights.reduce((acc, [, weight]) => acc + weight, 0);
+
+  const scores: Record<string, number> = {};
+  weights.forEach(([languageCode, weight]) => {
+    scores[languageCode] = (weight / sum) * fit;
+  });
+  return scores;
+}
+
+/**
+ * Score every supported language for a text
+ * @returns language code -> 0-1 score; empty if the text has no letters
+ */
+function scoreLanguages(text: string): Record<string, number> {
+  const scriptCounts: Record<string, number> = {};
+  let latinCount = 0;
+  let letterCount = 0;
+
+  for (const char of text) {
+    if (LATIN_LETTER.test(char)) {
+      latinCount++;
+      letterCount++;
+      continue;
+    }
+    const script = SCRIPT_RANGES.find(({ pattern }) => pattern.test(char));
+    if (script) {
+      scriptCounts[script.languageCode] = (scriptCounts[script.languageCode] ?? 0) + 1;
+      letterCount++;
+    }
+  }
+
+  if (letterCount === 0) return {};
+
+  // Kanji in Japanese text
+  if (scriptCounts.ja && scriptCounts.zh) {
+    scriptCounts.ja += scriptCounts.zh;
+    delete scriptCounts.zh;
+  }
+
+  const scores: Record<string, number> = {};
+  for (const [languageCode, count] of Object.entries(scriptCounts)) {
+    scores[languageCode] = count / letterCount;
+  }
+
+  if (latinCount > 0) {
+    const latinShare = latinCount / letterCount;
+    for (const [languageCode, score] of Object.entries(scoreLatinLanguages(text))) {
+      scores[languageCode] = score * latinShare;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Identify the language of a text offline
+ * Short texts get low confidence; callers should escalate those to the server
+ */
+export function identifyLanguage(text: string): LanguageIdentification {
+  const scores = Object.entries(scoreLanguages(text));
+  if (scores.length === 0) {
+    return { languageCode: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+
+  const [languageCode, confidence] = scores.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return { languageCode, confidence };
+}
+
+/**
+ * Whether identifyLanguage can recognise a language
+ */
+export function isIdentifiableLanguage(languageCode: string): boolean {
+  return languageCode in LATIN_PROFILES || SCRIPT_RANGES.some((script) => script.languageCode === languageCode);
+}
@@ -0,0 +1,84 @@
+/**
+ * Reaction Helpers
+ * 
+ * Utility functions for aggregating emoji reactions on messages
+ */
+
+import { Message } from '../types';
+
+// Emojis offered in the reaction picker
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+export interface ReactionUser {
+  userId: string;
+  displayName: string;
+}
+
+export interface ReactionGroup {
+  emoji: string;
+  users: ReactionUser[];
+}
+
+/**
+ * Summarize reactions for display under a message bubble
+ * @param message - Message with reactions
+ * @param currentUserId - ID of the current user (to highlight their reactions)
+ * @returns Non-empty reactions sorted by count (most popular first)
+ */
+export const getReactionSummary = (
+  message: Message,
+  currentUserId?: string
+): ReactionSummary[] => {
+  const reactions = message.reactions || {};
+  
+  return Object.entries(reactions)
+    .filter(([, userIds]) => userIds && userIds.length > 0)
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      reactedByMe: !!currentUserId && userIds.includes(currentUserId),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Check whether a user has reacted to a message with an emoji
+ */
+export const hasReacted = (
+  message: Message,
+  emoji: string,
+  userId: string
+): boolean => {
+  return !!message.reactions?.[emoji]?.includes(userId);
+};
+
+/**
+ * Format reaction list for display in the who-reacted modal
+ * @param message - Message to show reactions for
+ * @param userNames - Map of userId -> displayName
+ * @param currentUserId - ID of the current user (shown as "You")
+ * @param youLabel - Label used for the current user
+ * @returns Reactions grouped by emoji, most popular first
+ */
+export const formatReactionList = (
+  message: Message,
+  userNames: Record<string, string>,
+  currentUserId?: string,
+  youLabel = 'You'
+): ReactionGroup[] => {
+  return getReactionSummary(message, currentUserId).map(({ emoji }) => ({
+    emoji,
+    users: (message.reactions?.[emoji] || []).map(userId => ({
+      userId,
+      displayName: userId === currentUserId
+        ? youLabel
+        : userNames[userId] || 'Unknown User',
+    })),
+  }));
+};
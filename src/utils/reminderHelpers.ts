@@ -0,0 +1,53 @@
+/**
+ * Reminder Helpers
+ *
+ * Utility functions for scheduling deadline reminders
+ */
+
+import i18n from '../i18n';
+import { DeadlineReminder } from '../types';
+import { formatEventStart } from './calendarHelpers';
+
+// Timed deadlines are reminded an hour ahead; all-day ones on the morning of the day
+const REMINDER_LEAD_MS = 60 * 60 * 1000;
+const ALL_DAY_REMINDER_HOUR = 9;
+
+// Soonest a reminder can fire, so one accepted at the last minute still arrives
+const MIN_REMINDER_DELAY_MS = 5 * 60 * 1000;
+
+export const SNOOZE_MS = 60 * 60 * 1000;
+
+type ReminderDue = Pick<DeadlineReminder, 'dueAt' | 'dueStart' | 'allDay'>;
+
+/**
+ * When to remind the user about a deadline they accepted
+ * @param reminder - The deadline
+ * @param now - Current time
+ */
+export const getDefaultReminderTime = (reminder: ReminderDue, now: Date = new Date()): Date => {
+  const remindAt = reminder.allDay
+    ? new Date(`${reminder.dueStart}T${String(ALL_DAY_REMINDER_HOUR).padStart(2, '0')}:00:00`) // Local time
+    : new Date(reminder.dueAt.getTime() - REMINDER_LEAD_MS);
+
+  const soonest = now.getTime() + MIN_REMINDER_DELAY_MS;
+  return remindAt.getTime() < soonest ? new Date(soonest) : remindAt;
+};
+
+/**
+ * When a snoozed reminder comes back
+ */
+export const getSnoozeTime = (now: Date = new Date()): Date => {
+  return new Date(now.getTime() + SNOOZE_MS);
+};
+
+/**
+ * Notification text for a deadline ("Due Fri, Jan 17: Budget is due Friday")
+ */
+export const formatReminderBody = (
+  reminder: Pick<DeadlineReminder, 'dueStart' | 'allDay' | 'text'>
+): string => {
+  return i18n.t('reminders.dueBody', {
+    due: formatEventStart(reminder.dueStart, reminder.allDay),
+    text: reminder.text,
+  });
+};
@@ -0,0 +1,38 @@
+/**
+ * Reply Helpers
+ * 
+ * Utility functions for quote-replies to earlier messages
+ */
+
+import { Message, MessageReplyRef } from '../types';
+
+// Maximum length of the quoted snippet stored on a reply
+export const REPLY_SNIPPET_LENGTH = 100;
+
+/**
+ * Build the reference stored on a reply
+ * @param message - The message being replied to
+ * @param senderName - Display name of the original sender
+ * @returns Reply reference with a truncated text snippet
+ */
+export const buildReplyRef = (
+  message: Message,
+  senderName: string
+): MessageReplyRef => {
+  let text = message.text?.trim() || '';
+  
+  if (!text && message.imageUrl) {
+    text = '📷 Photo';
+  }
+  
+  if (text.length > REPLY_SNIPPET_LENGTH) {
+    text = `${text.slice(0, REPLY_SNIPPET_LENGTH - 1).trimEnd()}…`;
+  }
+  
+  return {
+    messageId: message.id,
+    senderId: message.senderId,
+    senderName,
+    text,
+  };
+};
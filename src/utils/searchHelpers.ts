@@ -0,0 +1,82 @@
+/**
+ * Search Helpers
+ * 
+ * Utility functions for the global message search
+ */
+
+import { Message, MessageSearchResult } from '../types';
+
+/**
+ * Split a search query into lowercase terms
+ * @param query - Raw search input
+ * @returns Non-empty terms
+ */
+export const tokenizeQuery = (query: string): string[] => {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+};
+
+/**
+ * Find messages containing every term of the query
+ * @param chatId - Chat the messages belong to
+ * @param messages - Messages to search (e.g. from the local cache)
+ * @param query - Raw search input
+ * @param userId - Current user ID, used to skip messages they deleted for themselves
+ * @returns Keyword matches, newest first
+ */
+export const findKeywordMatches = (
+  chatId: string,
+  messages: Message[],
+  query: string,
+  userId?: string
+): MessageSearchResult[] => {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+  
+  return messages
+    .filter(message => {
+      if (!message.id || message.id.startsWith('temp_')) return false;
+      if (message.deletedForEveryone) return false;
+      if (userId && message.deletedFor?.includes(userId)) return false;
+      
+      const text = message.text?.toLowerCase() || '';
+      return terms.every(term => text.includes(term));
+    })
+    .map(message => ({
+      chatId,
+      messageId: message.id,
+      text: message.text,
+      senderId: message.senderId,
+      timestamp: message.timestamp instanceof Date
+        ? message.timestamp
+        : message.timestamp.toDate(),
+      source: 'keyword' as const,
+    }))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+/**
+ * Combine keyword and semantic results
+ * Exact keyword matches come first; semantic matches for the same message are dropped
+ * @param keywordResults - Matches from the local cache
+ * @param semanticResults - Matches from the searchAllMessages Cloud Function
+ * @returns Merged results without duplicates
+ */
+export const mergeSearchResults = (
+  keywordResults: MessageSearchResult[],
+  semanticResults: MessageSearchResult[]
+): MessageSearchResult[] => {
+  const seen = new Set(keywordResults.map(result => result.messageId));
+  const merged = [...keywordResults];
+  
+  for (const result of semanticResults) {
+    if (!seen.has(result.messageId)) {
+      seen.add(result.messageId);
+      merged.push(result);
+    }
+  }
+  
+  return merged;
+};
@@ -0,0 +1,73 @@
+/**
+ * System Message Helpers
+ * 
+ * Utility functions for telling message kinds apart and describing system messages
+ */
+
+import { Message, MessageType, SystemMessagePayload } from '../types';
+import i18n from '../i18n';
+
+/**
+ * Get a message's kind
+ * Messages written before the type field existed are classified by their content
+ * @param message - The message
+ * @returns 'system', 'image' or 'text'
+ */
+export const getMessageType = (
+  message: Pick<Message, 'type' | 'system' | 'imageUrl'>
+): MessageType => {
+  if (message.type) {
+    return message.type;
+  }
+  if (message.system) {
+    return 'system';
+  }
+  return message.imageUrl ? 'image' : 'text';
+};
+
+/**
+ * Check whether a message was generated for a chat event rather than sent by a user
+ * System messages never count as unread and never get read receipts
+ */
+export const isSystemMessage = (
+  message: Pick<Message, 'type' | 'system' | 'imageUrl'>
+): boolean => {
+  return getMessageType(message) === 'system';
+};
+
+/**
+ * Describe a system message for display in the conversation
+ * @param system - The system payload
+ * @param actorId - Who caused the event (the message's senderId)
+ * @param currentUserId - The current user, shown as "You"
+ * @returns Localized description
+ */
+export const formatSystemMessage = (
+  system: SystemMessagePayload,
+  actorId: string,
+  currentUserId?: string
+): string => {
+  const actor = actorId === currentUserId ? i18n.t('groupInfo.you') : system.actorName;
+  const target = system.targetId && system.targetId === currentUserId
+    ? i18n.t('groupInfo.youLower')
+    : system.targetName || i18n.t('groupInfo.unknownMember');
+  
+  switch (system.event) {
+    case 'member_added':
+      return i18n.t('groupInfo.systemMemberAdded', { actor, target });
+    case 'member_removed':
+      return i18n.t('groupInfo.systemMemberRemoved', { actor, target });
+    case 'member_left':
+      return i18n.t('groupInfo.systemMemberLeft', { actor });
+    case 'admin_promoted':
+      return i18n.t('groupInfo.systemAdminPromoted', { actor, target });
+    case 'admin_demoted':
+      return i18n.t('groupInfo.systemAdminDemoted', { actor, target });
+    case 'group_renamed':
+      return i18n.t('groupInfo.systemGroupRenamed', { actor, name: system.groupName || '' });
+    case 'task_completed':
+      return i18n.t('tasks.systemTaskCompleted', { actor, task: system.taskText || '' });
+    default:
+      return '';
+  }
+};
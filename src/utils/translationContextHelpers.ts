@@ -0,0 +1,46 @@
+/**
+ * Translation Context Helpers
+ * 
+ * Picks the messages sent before a message, for context-aware translation
+ */
+
+import { Message } from '../types';
+import { TranslationContextMessage } from '../types/translation';
+import { isSystemMessage } from './systemMessageHelpers';
+
+// Previous messages sent with each context-aware translation
+export const TRANSLATION_CONTEXT_SIZE = 3;
+
+/**
+ * Get the messages preceding a message, oldest first
+ * Deleted, system and image-only messages are skipped
+ * @param messages - The chat's messages, oldest first
+ * @param messageId - Message being translated
+ * @param senderNames - userId -> display name
+ * @param limit - Maximum number of messages
+ * @returns Context messages, or [] if the message isn't loaded
+ */
+export const getTranslationContext = (
+  messages: Message[],
+  messageId: string,
+  senderNames: Record<string, string>,
+  limit: number = TRANSLATION_CONTEXT_SIZE
+): TranslationContextMessage[] => {
+  const index = messages.findIndex((message) => message.id === messageId);
+  if (index <= 0) {
+    return [];
+  }
+
+  return messages
+    .slice(0, index)
+    .filter((message) =>
+      !message.deletedForEveryone &&
+      !isSystemMessage(message) &&
+      message.text?.trim()
+    )
+    .slice(-limit)
+    .map((message) => ({
+      senderName: senderNames[message.senderId] || 'Unknown User',
+      text: message.text,
+    }));
+};